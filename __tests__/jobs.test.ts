@@ -0,0 +1,62 @@
+import { describe, it, expect } from "vitest";
+import { getJobStatusText, getJobDocumentCount, isJobActive, type JobStatusInfo } from "../lib/jobs";
+
+function job(overrides: Partial<JobStatusInfo>): JobStatusInfo {
+  return {
+    status: "queued",
+    progress: null,
+    result: null,
+    attempts: 0,
+    maxAttempts: 5,
+    lastError: null,
+    ...overrides,
+  };
+}
+
+describe("Job status text", () => {
+  it("should show queued and retry states", () => {
+    expect(getJobStatusText(job({}))).toBe("Queued");
+    expect(getJobStatusText(job({ attempts: 1, lastError: "timeout" }))).toBe("Retrying soon (attempt 2 of 5)");
+  });
+
+  it("should show the running stage", () => {
+    expect(getJobStatusText(job({ status: "running", progress: { stage: "parsing", documentCount: 0 } }))).toBe(
+      "Analyzing with AI..."
+    );
+    expect(
+      getJobStatusText(
+        job({ status: "running", progress: { stage: "parsing", documentCount: 1, filesTotal: 3, filesDone: 1 } })
+      )
+    ).toBe("Analyzing with AI (file 2 of 3)...");
+    expect(getJobStatusText(job({ status: "running", progress: { stage: "saving", documentCount: 2 } }))).toBe(
+      "Saving documents (2 so far)..."
+    );
+  });
+
+  it("should summarize completed jobs", () => {
+    expect(getJobStatusText(job({ status: "completed", result: { documentCount: 3 } }))).toBe("3 documents created");
+    expect(getJobStatusText(job({ status: "completed", result: { count: 1 } }))).toBe("1 document created");
+    expect(getJobStatusText(job({ status: "completed", result: { documentCount: 0 } }))).toBe("No bookings found");
+    expect(getJobStatusText(job({ status: "completed", result: { documentCount: 2, outOfCredits: true } }))).toBe(
+      "2 created, then ran out of credits"
+    );
+  });
+
+  it("should show failed and cancelled jobs", () => {
+    expect(getJobStatusText(job({ status: "dead", lastError: "boom" }))).toBe("Processing failed");
+    expect(getJobStatusText(job({ status: "cancelled" }))).toBe("Cancelled");
+  });
+});
+
+describe("Job helpers", () => {
+  it("should treat queued and running jobs as active", () => {
+    expect(isJobActive({ status: "queued" })).toBe(true);
+    expect(isJobActive({ status: "running" })).toBe(true);
+    expect(isJobActive({ status: "completed" })).toBe(false);
+    expect(isJobActive({ status: "dead" })).toBe(false);
+  });
+
+  it("should fall back to progress for the document count", () => {
+    expect(getJobDocumentCount(job({ status: "running", progress: { stage: "saving", documentCount: 4 } }))).toBe(4);
+  });
+});
@@ -163,6 +163,26 @@ describe("Notification Service", () => {
       });
             expect(mockScheduleNotificationAsync).toHaveBeenCalled();
     });
+
+    it("should only list transport categories the trip has", async () => {
+      const { schedule7DayNotification } = await import("../lib/notifications");
+
+      const futureDate = new Date();
+      futureDate.setDate(futureDate.getDate() + 14);
+
+      await schedule7DayNotification({
+        tripId: 1,
+        tripName: "Test Trip",
+        startDate: futureDate,
+        endDate: new Date(futureDate.getTime() + 7 * 24 * 60 * 60 * 1000),
+        categories: { flight: false, accommodation: true, carRental: false, train: true, bus: false, ferry: false, transfer: false, medical: false, event: false, other: false },
+      });
+
+      const body = mockScheduleNotificationAsync.mock.calls[0][0].content.body;
+      expect(body).toContain("✅ Trains");
+      expect(body).toContain("⚪ Flights");
+      expect(body).not.toContain("Ferries");
+    });
   });
 
   describe("schedule1DayNotification", () => {
@@ -24,8 +24,13 @@ import { Colors, Spacing, BorderRadius, CategoryColors } from "@/constants/theme
 import { FontScaling } from "@/constants/accessibility";
 import { useColorScheme } from "@/hooks/use-color-scheme";
 import { useAuth } from "@/hooks/use-auth";
+import { useRecentJobs } from "@/hooks/use-job-updates";
 import { trpc } from "@/lib/trpc";
-import type { Document } from "@/drizzle/schema";
+import { getJobStatusText, isJobActive } from "@/lib/jobs";
+import { needsReview } from "@/shared/confidence";
+import type { Document, FieldConfidenceMap } from "@/drizzle/schema";
+import type { JobSummary } from "@/server/documentJobs";
+import type { TripSuggestion } from "@/server/tripSuggestions";
 
 const categoryIconMap: Record<string, any> = {
   flight: "airplane",
@@ -33,6 +38,10 @@ const categoryIconMap: Record<string, any> = {
   accommodation: "bed.double.fill",
   medical: "cross.case.fill",
   event: "ticket.fill",
+  train: "tram.fill",
+  bus: "bus.fill",
+  ferry: "ferry.fill",
+  transfer: "car.2.fill",
   other: "doc.fill",
 };
 
@@ -42,6 +51,10 @@ const categoryColorMap: Record<string, string> = {
   accommodation: CategoryColors.accommodation,
   medical: CategoryColors.medical,
   event: CategoryColors.event,
+  train: CategoryColors.train,
+  bus: CategoryColors.bus,
+  ferry: CategoryColors.ferry,
+  transfer: CategoryColors.transfer,
   other: CategoryColors.other,
 };
 
@@ -97,6 +110,16 @@ function DocumentCard({
               {!document.isRead && (
                 <View style={[styles.unreadDot, { backgroundColor: colors.tint }]} />
               )}
+              {document.cancelledAt && (
+                <ThemedText style={[styles.reviewBadge, { color: colors.destructive }]} maxFontSizeMultiplier={FontScaling.badge}>
+                  Cancelled
+                </ThemedText>
+              )}
+              {needsReview(document.fieldConfidence as FieldConfidenceMap | null) && (
+                <ThemedText style={[styles.reviewBadge, { color: colors.warning }]} maxFontSizeMultiplier={FontScaling.badge}>
+                  Needs review
+                </ThemedText>
+              )}
             </View>
           </View>
         </TouchableOpacity>
@@ -206,6 +229,131 @@ function AssignModal({
   );
 }
 
+function ProcessingJobs({
+  jobs,
+  onRetry,
+  onCancel,
+}: {
+  jobs: JobSummary[];
+  onRetry: (jobId: number) => void;
+  onCancel: (jobId: number) => void;
+}) {
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? "light"];
+
+  if (jobs.length === 0) return null;
+
+  return (
+    <View style={styles.jobsContainer}>
+      {jobs.map((job) => {
+        const isEmail = job.type !== "upload";
+        const isFailed = job.status === "dead";
+        const label = job.label || (isEmail ? "Forwarded email" : "Uploaded file");
+
+        return (
+          <Animated.View
+            key={job.id}
+            entering={FadeIn}
+            exiting={FadeOut}
+            layout={Layout.springify()}
+            style={[styles.jobRow, { backgroundColor: colors.surface, borderColor: isFailed ? colors.destructive : colors.border }]}
+          >
+            <IconSymbol
+              name={isEmail ? "envelope.fill" : "doc.fill"}
+              size={20}
+              color={isFailed ? colors.destructive : colors.tint}
+            />
+            <View style={styles.jobInfo}>
+              <ThemedText type="defaultSemiBold" numberOfLines={1} maxFontSizeMultiplier={FontScaling.label}>
+                {label}
+              </ThemedText>
+              <ThemedText
+                style={[styles.jobStatus, { color: isFailed ? colors.destructive : colors.textSecondary }]}
+                numberOfLines={1}
+                maxFontSizeMultiplier={FontScaling.badge}
+              >
+                {getJobStatusText(job)}
+              </ThemedText>
+            </View>
+            {job.status === "running" && <ActivityIndicator size="small" color={colors.tint} />}
+            {job.status === "queued" && (
+              <TouchableOpacity
+                style={styles.jobAction}
+                onPress={() => onCancel(job.id)}
+                accessibilityLabel="Cancel processing"
+              >
+                <IconSymbol name="xmark" size={18} color={colors.textSecondary} />
+              </TouchableOpacity>
+            )}
+            {isFailed && (
+              <TouchableOpacity
+                style={styles.jobAction}
+                onPress={() => onRetry(job.id)}
+                accessibilityLabel="Retry processing"
+              >
+                <IconSymbol name="arrow.clockwise" size={18} color={colors.tint} />
+              </TouchableOpacity>
+            )}
+            {job.status === "completed" && (
+              <IconSymbol name="checkmark.circle.fill" size={20} color={colors.success} />
+            )}
+          </Animated.View>
+        );
+      })}
+    </View>
+  );
+}
+
+function TripSuggestions({
+  suggestions,
+  accepting,
+  onAccept,
+}: {
+  suggestions: TripSuggestion[];
+  accepting: boolean;
+  onAccept: (suggestion: TripSuggestion) => void;
+}) {
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? "light"];
+
+  if (suggestions.length === 0) return null;
+
+  return (
+    <View style={styles.suggestionsContainer}>
+      {suggestions.map((suggestion) => (
+        <Animated.View
+          key={suggestion.documentIds.join("-")}
+          entering={FadeIn}
+          exiting={FadeOut}
+          layout={Layout.springify()}
+          style={[styles.suggestionCard, { backgroundColor: colors.tint + "12", borderColor: colors.tint }]}
+        >
+          <IconSymbol name="suitcase.fill" size={22} color={colors.tint} />
+          <View style={styles.suggestionInfo}>
+            <ThemedText style={[styles.suggestionLabel, { color: colors.textSecondary }]} maxFontSizeMultiplier={FontScaling.badge}>
+              Suggested trip
+            </ThemedText>
+            <ThemedText type="defaultSemiBold" numberOfLines={1} maxFontSizeMultiplier={FontScaling.label}>
+              {suggestion.name}
+            </ThemedText>
+            <ThemedText style={[styles.suggestionLabel, { color: colors.textSecondary }]} maxFontSizeMultiplier={FontScaling.badge}>
+              {suggestion.documentIds.length} document{suggestion.documentIds.length !== 1 ? "s" : ""}
+            </ThemedText>
+          </View>
+          <TouchableOpacity
+            style={[styles.assignButton, { backgroundColor: colors.tint }]}
+            onPress={() => onAccept(suggestion)}
+            disabled={accepting}
+            activeOpacity={0.7}
+          >
+            <ThemedText style={styles.assignButtonText} maxFontSizeMultiplier={FontScaling.button}>Create</ThemedText>
+          </TouchableOpacity>
+        </Animated.View>
+      ))}
+    </View>
+  );
+}
+
 function EmptyState() {
   const colorScheme = useColorScheme();
   const colors = Colors[colorScheme ?? "light"];
@@ -245,21 +393,56 @@ export default function InboxScreen() {
     gcTime: 0, // Don't cache at all - always fetch fresh
   });
 
+  // Groups of inbox documents that look like a trip of their own
+  const { data: suggestions, refetch: refetchSuggestions } = trpc.trips.suggestions.useQuery(undefined, {
+    enabled: isAuthenticated,
+  });
+
   // Refetch when tab gains focus to ensure fresh data
   useFocusEffect(
     useCallback(() => {
       if (isAuthenticated) {
         console.log("[Inbox] Tab focused, refetching...");
         refetch();
+        refetchSuggestions();
       }
-    }, [isAuthenticated, refetch])
+    }, [isAuthenticated, refetch, refetchSuggestions])
   );
 
   const utils = trpc.useUtils();
 
+  // Uploads and forwarded emails still being processed (from any device)
+  const { jobs, refetch: refetchJobs } = useRecentJobs();
+  const activeJobCount = jobs.filter(isJobActive).length;
+
+  const retryJobMutation = trpc.jobs.retry.useMutation({
+    onSuccess: (result) => {
+      refetchJobs();
+      if (!result.success) {
+        Alert.alert("Retry Failed", result.error || "Please try again.");
+      }
+    },
+  });
+
+  const cancelJobMutation = trpc.jobs.cancel.useMutation({
+    onSuccess: (result) => {
+      refetchJobs();
+      if (!result.success) {
+        Alert.alert("Cannot Cancel", result.error || "Please try again.");
+      }
+    },
+  });
+
+  const handleRefresh = useCallback(() => {
+    refetch();
+    refetchSuggestions();
+    refetchJobs();
+  }, [refetch, refetchSuggestions, refetchJobs]);
+
   const assignMutation = trpc.documents.assign.useMutation({
     onSuccess: () => {
       refetch();
+      refetchSuggestions();
       utils.documents.inboxCount.invalidate();
       utils.trips.list.invalidate();
       setAssignModalVisible(false);
@@ -268,9 +451,32 @@ export default function InboxScreen() {
     },
   });
 
+  const acceptSuggestionMutation = trpc.trips.acceptSuggestion.useMutation({
+    onSuccess: () => {
+      refetch();
+      refetchSuggestions();
+      utils.documents.inboxCount.invalidate();
+      utils.trips.list.invalidate();
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    },
+    onError: (error) => {
+      Alert.alert("Could Not Create Trip", error.message);
+    },
+  });
+
+  const handleAcceptSuggestion = useCallback((suggestion: TripSuggestion) => {
+    acceptSuggestionMutation.mutate({
+      name: suggestion.name,
+      startDate: suggestion.startDate,
+      endDate: suggestion.endDate,
+      documentIds: suggestion.documentIds,
+    });
+  }, [acceptSuggestionMutation]);
+
   const deleteMutation = trpc.documents.delete.useMutation({
     onSuccess: () => {
       refetch();
+      refetchSuggestions();
       utils.documents.inboxCount.invalidate();
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
     },
@@ -294,6 +500,7 @@ export default function InboxScreen() {
   const clearInboxMutation = trpc.documents.clearInbox.useMutation({
     onSuccess: () => {
       refetch();
+      refetchSuggestions();
       utils.documents.inboxCount.invalidate();
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
     },
@@ -372,12 +579,30 @@ export default function InboxScreen() {
             {documents.length} document{documents.length !== 1 ? "s" : ""} to assign
           </ThemedText>
         )}
+        {activeJobCount > 0 && (
+          <ThemedText style={[styles.headerSubtitle, { color: colors.textSecondary }]}>
+            Processing {activeJobCount} item{activeJobCount !== 1 ? "s" : ""}...
+          </ThemedText>
+        )}
       </View>
 
+      <ProcessingJobs
+        jobs={jobs}
+        onRetry={(jobId) => retryJobMutation.mutate({ jobId })}
+        onCancel={(jobId) => cancelJobMutation.mutate({ jobId })}
+      />
+
       {documents && documents.length > 0 ? (
         <FlatList
           data={documents}
           keyExtractor={(item) => item.id.toString()}
+          ListHeaderComponent={
+            <TripSuggestions
+              suggestions={suggestions ?? []}
+              accepting={acceptSuggestionMutation.isPending}
+              onAccept={handleAcceptSuggestion}
+            />
+          }
           renderItem={({ item }) => (
             <DocumentCard
               document={item}
@@ -391,7 +616,7 @@ export default function InboxScreen() {
             { paddingBottom: insets.bottom + 20 },
           ]}
           refreshControl={
-            <RefreshControl refreshing={isFetching} onRefresh={refetch} />
+            <RefreshControl refreshing={isFetching} onRefresh={handleRefresh} />
           }
           showsVerticalScrollIndicator={false}
         />
@@ -399,7 +624,7 @@ export default function InboxScreen() {
         <ScrollView
           contentContainerStyle={styles.emptyScrollContent}
           refreshControl={
-            <RefreshControl refreshing={isFetching} onRefresh={refetch} />
+            <RefreshControl refreshing={isFetching} onRefresh={handleRefresh} />
           }
         >
           <EmptyState />
@@ -456,6 +681,50 @@ const styles = StyleSheet.create({
     paddingHorizontal: Spacing.md,
     gap: Spacing.sm,
   },
+  jobsContainer: {
+    paddingHorizontal: Spacing.md,
+    paddingBottom: Spacing.sm,
+    gap: Spacing.xs,
+  },
+  jobRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    borderRadius: BorderRadius.md,
+    borderWidth: 1,
+    paddingVertical: Spacing.sm,
+    paddingHorizontal: Spacing.md,
+    gap: Spacing.sm,
+  },
+  jobInfo: {
+    flex: 1,
+    gap: 2,
+  },
+  jobStatus: {
+    fontSize: 12,
+    lineHeight: 16,
+  },
+  jobAction: {
+    padding: 6,
+  },
+  suggestionsContainer: {
+    gap: Spacing.sm,
+  },
+  suggestionCard: {
+    flexDirection: "row",
+    alignItems: "center",
+    borderRadius: BorderRadius.md,
+    borderWidth: 1,
+    padding: Spacing.md,
+    gap: Spacing.sm,
+  },
+  suggestionInfo: {
+    flex: 1,
+    gap: 2,
+  },
+  suggestionLabel: {
+    fontSize: 12,
+    lineHeight: 16,
+  },
   docCard: {
     flexDirection: "row",
     alignItems: "center",
@@ -499,6 +768,11 @@ const styles = StyleSheet.create({
     height: 6,
     borderRadius: 3,
   },
+  reviewBadge: {
+    fontSize: 12,
+    fontWeight: "600",
+    lineHeight: 16,
+  },
   assignButton: {
     paddingVertical: 6,
     paddingHorizontal: 12,
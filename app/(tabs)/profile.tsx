@@ -45,6 +45,11 @@ export default function ProfileScreen() {
     { enabled: isAuthenticated }
   );
 
+  const { data: pricing } = trpc.billing.pricing.useQuery(
+    undefined,
+    { enabled: isAuthenticated }
+  );
+
   const handleCopyEmail = useCallback(async () => {
     if (forwardingData?.email) {
       await Clipboard.setStringAsync(forwardingData.email);
@@ -240,7 +245,7 @@ export default function ProfileScreen() {
                     </ThemedText>
                   </View>
                   <ThemedText style={[styles.creditsSubtext, { color: colors.textSecondary }]}>
-                    1 credit = 1 document processed
+                    {pricing?.summary ?? "1 credit per document"}
                   </ThemedText>
                 </>
               )}
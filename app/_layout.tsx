@@ -150,6 +150,7 @@ function ThemeAwareContent({ trpcClient, queryClient }: { trpcClient: any; query
                 <Stack.Screen name="document/[id]" options={{ headerShown: false }} />
                 <Stack.Screen name="settings" options={{ headerShown: false }} />
                 <Stack.Screen name="edit-trip" options={{ presentation: "modal", headerShown: false }} />
+                <Stack.Screen name="edit-document" options={{ presentation: "modal", headerShown: false }} />
               </Stack>
               <StatusBar style="auto" />
               <PushTokenRegistration />
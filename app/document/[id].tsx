@@ -1,5 +1,5 @@
 import { useLocalSearchParams, useRouter } from "expo-router";
-import { useCallback, useState, useMemo } from "react";
+import { useCallback, useEffect, useState, useMemo } from "react";
 import {
   ActivityIndicator,
   Alert,
@@ -9,11 +9,14 @@ import {
   View,
   Modal,
   Linking,
+  TextInput,
   useWindowDimensions,
 } from "react-native";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
 import * as Haptics from "expo-haptics";
 import { WebView } from "react-native-webview";
+import { SvgXml } from "react-native-svg";
+import { activateKeepAwakeAsync, deactivateKeepAwake } from "expo-keep-awake";
 
 import { ThemedText } from "@/components/themed-text";
 import { ThemedView } from "@/components/themed-view";
@@ -22,7 +25,15 @@ import { Colors, Spacing, BorderRadius, CategoryColors } from "@/constants/theme
 import { useColorScheme } from "@/hooks/use-color-scheme";
 import { useAuth } from "@/hooks/use-auth";
 import { trpc } from "@/lib/trpc";
-import type { DocumentDetails } from "@/drizzle/schema";
+import type { DocumentDetails, DocumentTimes, FieldConfidenceMap } from "@/drizzle/schema";
+import { isLowConfidence } from "@/shared/confidence";
+import { formatLegRoute, getFlightLegs } from "@/shared/flightLegs";
+import { formatLocalTime, getLocalDay } from "@/shared/timezones";
+import { formatAirportCode, getAirportAddress } from "@/shared/airports";
+import { WALLET_PASS_MIME_TYPE } from "@/shared/const";
+import type { ValidationWarning } from "@/server/documentSchema";
+import type { ReparseChange } from "@/server/documentReparse";
+import { formatRevisionValue, getRevisionFieldLabel } from "@/lib/documentFields";
 import { FontScaling } from "@/constants/accessibility";
 
 const categoryConfig: Record<string, { icon: any; color: string; label: string }> = {
@@ -31,6 +42,10 @@ const categoryConfig: Record<string, { icon: any; color: string; label: string }
   accommodation: { icon: "bed.double.fill", color: CategoryColors.accommodation, label: "Accommodation" },
   medical: { icon: "cross.case.fill", color: CategoryColors.medical, label: "Medical Insurance" },
   event: { icon: "ticket.fill", color: CategoryColors.event, label: "Event" },
+  train: { icon: "tram.fill", color: CategoryColors.train, label: "Train" },
+  bus: { icon: "bus.fill", color: CategoryColors.bus, label: "Bus" },
+  ferry: { icon: "ferry.fill", color: CategoryColors.ferry, label: "Ferry" },
+  transfer: { icon: "car.2.fill", color: CategoryColors.transfer, label: "Transfer" },
   other: { icon: "doc.fill", color: CategoryColors.other, label: "Document" },
 };
 
@@ -42,13 +57,19 @@ const ACTION_COLORS = {
   disabled: "#C7C7CC", // Grey
 };
 
-function DetailRow({ label, value }: { label: string; value: string | undefined }) {
+interface FieldReview {
+  source?: string;
+  onConfirm: () => void;
+  onCorrect: () => void;
+}
+
+function DetailRow({ label, value, review }: { label: string; value: string | undefined; review?: FieldReview }) {
   const colorScheme = useColorScheme();
   const colors = Colors[colorScheme ?? "light"];
 
   if (!value) return null;
 
-  return (
+  const row = (
     <View style={styles.detailRow}>
       <ThemedText 
         style={[styles.detailLabel, { color: colors.textSecondary }]}
@@ -65,6 +86,36 @@ function DetailRow({ label, value }: { label: string; value: string | undefined
       </ThemedText>
     </View>
   );
+
+  if (!review) return row;
+
+  // Low-confidence field: highlight it and offer a one-tap confirm or correct
+  return (
+    <View style={[styles.reviewRow, { backgroundColor: colors.warning + "15", borderColor: colors.warning }]}>
+      {row}
+      {review.source && (
+        <ThemedText
+          style={[styles.reviewSource, { color: colors.textSecondary }]}
+          maxFontSizeMultiplier={FontScaling.body}
+          numberOfLines={2}
+        >
+          Read from: “{review.source}”
+        </ThemedText>
+      )}
+      <View style={styles.reviewActions}>
+        <Pressable style={[styles.reviewButton, { backgroundColor: colors.tint }]} onPress={review.onConfirm}>
+          <ThemedText style={styles.reviewButtonText} maxFontSizeMultiplier={FontScaling.button}>
+            Looks right
+          </ThemedText>
+        </Pressable>
+        <Pressable style={[styles.reviewButton, { borderColor: colors.tint, borderWidth: 1 }]} onPress={review.onCorrect}>
+          <ThemedText style={[styles.reviewButtonText, { color: colors.tint }]} maxFontSizeMultiplier={FontScaling.button}>
+            Correct
+          </ThemedText>
+        </Pressable>
+      </View>
+    </View>
+  );
 }
 
 interface ActionIconProps {
@@ -108,6 +159,10 @@ export default function DocumentDetailScreen() {
 
   const [reassignModalVisible, setReassignModalVisible] = useState(false);
   const [originalModalVisible, setOriginalModalVisible] = useState(false);
+  const [barcodeVisible, setBarcodeVisible] = useState(false);
+  const [correcting, setCorrecting] = useState<{ field: string; label: string; value: string } | null>(null);
+  const [reparseChanges, setReparseChanges] = useState<ReparseChange[] | null>(null);
+  const [rejectedFields, setRejectedFields] = useState<Set<string>>(new Set());
 
   const documentId = parseInt(id || "0", 10);
 
@@ -120,6 +175,30 @@ export default function DocumentDetailScreen() {
     enabled: isAuthenticated,
   });
 
+  const { data: revisions } = trpc.documents.revisions.useQuery(
+    { id: documentId },
+    { enabled: isAuthenticated && documentId > 0 }
+  );
+
+  const { data: versions } = trpc.documents.versions.useQuery(
+    { id: documentId },
+    { enabled: isAuthenticated && documentId > 0 }
+  );
+
+  const { data: barcode, isLoading: barcodeLoading } = trpc.documents.barcode.useQuery(
+    { id: documentId },
+    { enabled: isAuthenticated && documentId > 0 && barcodeVisible }
+  );
+
+  // Keep the screen on while the barcode is shown at the gate
+  useEffect(() => {
+    if (!barcodeVisible) return;
+    activateKeepAwakeAsync("barcode");
+    return () => {
+      deactivateKeepAwake("barcode");
+    };
+  }, [barcodeVisible]);
+
   const utils = trpc.useUtils();
 
   const assignMutation = trpc.documents.assign.useMutation({
@@ -133,6 +212,74 @@ export default function DocumentDetailScreen() {
     },
   });
 
+  const reviewFieldMutation = trpc.documents.reviewField.useMutation({
+    onSuccess: (result) => {
+      if (!result.success) {
+        Alert.alert("Couldn't Update", result.error || "Please try again.");
+        return;
+      }
+      utils.documents.get.invalidate({ id: documentId });
+      utils.documents.revisions.invalidate({ id: documentId });
+      utils.documents.inbox.invalidate();
+      utils.documents.byTrip.invalidate();
+      setCorrecting(null);
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      if (result.assignedTrip) {
+        utils.documents.inboxCount.invalidate();
+        utils.trips.list.invalidate();
+        Alert.alert("Added to Trip", `This document was added to ${result.assignedTrip.name}.`);
+      }
+    },
+  });
+
+  const reparseMutation = trpc.documents.reparse.useMutation({
+    onSuccess: (result) => {
+      if (!result.success) {
+        Alert.alert("Couldn't Re-parse", result.error || "Please try again.");
+        return;
+      }
+      if (result.changes.length === 0) {
+        Alert.alert("Up to Date", "Re-parsing didn't find anything to change.");
+        return;
+      }
+      // Changes to fields you edited yourself start out rejected
+      setRejectedFields(new Set(result.changes.filter((change) => change.userEdited).map((change) => change.field)));
+      setReparseChanges(result.changes);
+    },
+    onError: (error) => {
+      Alert.alert("Couldn't Re-parse", error.message);
+    },
+  });
+
+  const applyReparseMutation = trpc.documents.applyReparse.useMutation({
+    onSuccess: (result) => {
+      if (!result.success) {
+        Alert.alert("Couldn't Update", result.error || "Please try again.");
+        return;
+      }
+      utils.documents.get.invalidate({ id: documentId });
+      utils.documents.revisions.invalidate({ id: documentId });
+      utils.documents.inbox.invalidate();
+      utils.documents.byTrip.invalidate();
+      setReparseChanges(null);
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    },
+  });
+
+  const setCurrentVersionMutation = trpc.documents.setCurrentVersion.useMutation({
+    onSuccess: (result) => {
+      if (!result.success) {
+        Alert.alert("Couldn't Switch Version", result.error || "Please try again.");
+        return;
+      }
+      utils.documents.get.invalidate({ id: documentId });
+      utils.documents.revisions.invalidate({ id: documentId });
+      utils.documents.inbox.invalidate();
+      utils.documents.byTrip.invalidate();
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    },
+  });
+
   const deleteMutation = trpc.documents.delete.useMutation({
     onSuccess: () => {
       utils.documents.inbox.invalidate();
@@ -160,39 +307,6 @@ export default function DocumentDetailScreen() {
       return hasNumber || hasAddressKeyword || hasCity;
     };
     
-    // Airport code to navigable address mapping
-    const AIRPORT_ADDRESSES: Record<string, string> = {
-      JFK: "John F. Kennedy International Airport, New York",
-      LAX: "Los Angeles International Airport",
-      LHR: "London Heathrow Airport",
-      CDG: "Paris Charles de Gaulle Airport",
-      FRA: "Frankfurt Airport",
-      AMS: "Amsterdam Schiphol Airport",
-      DXB: "Dubai International Airport",
-      SIN: "Singapore Changi Airport",
-      HKG: "Hong Kong International Airport",
-      TLV: "Ben Gurion Airport, Tel Aviv, Israel",
-      FCO: "Rome Fiumicino Airport",
-      BCN: "Barcelona El Prat Airport",
-      MAD: "Madrid Barajas Airport",
-      MUC: "Munich Airport",
-      ZRH: "Zurich Airport",
-      VIE: "Vienna International Airport",
-      PRG: "Prague Vaclav Havel Airport",
-      BUD: "Budapest Ferenc Liszt Airport",
-      ATH: "Athens International Airport",
-      IST: "Istanbul Airport",
-      VRN: "Verona Villafranca Airport, Italy",
-      ORD: "Chicago O'Hare International Airport",
-      SFO: "San Francisco International Airport",
-      MIA: "Miami International Airport",
-      YYZ: "Toronto Pearson International Airport",
-      YVR: "Vancouver International Airport",
-      BKK: "Bangkok Suvarnabhumi Airport",
-      NRT: "Narita International Airport, Tokyo",
-      ICN: "Incheon International Airport, Seoul",
-    };
-    
     // Get navigable address based on category
     let address: string | null = null;
     
@@ -219,6 +333,15 @@ export default function DocumentDetailScreen() {
       } else if (isValidAddress(details.venue)) {
         address = details.venue!;
       }
+    } else if (category === "train" || category === "bus" || category === "ferry") {
+      // Stations and ports: the name is specific enough for a map search
+      address = details.departureStation || details.arrivalStation || null;
+    } else if (category === "transfer") {
+      if (isValidAddress(details.pickupLocation)) {
+        address = details.pickupLocation!;
+      } else if (isValidAddress(details.dropoffLocation)) {
+        address = details.dropoffLocation!;
+      }
     } else if (category === "flight") {
       // Flights: use explicit address if available, otherwise infer from airport code
       if (isValidAddress(details.arrivalAddress)) {
@@ -227,21 +350,9 @@ export default function DocumentDetailScreen() {
         address = details.departureAddress!;
       } else {
         // Try to infer from airport codes
-        const arrCode = details.arrivalAirport?.toUpperCase();
-        const depCode = details.departureAirport?.toUpperCase();
-        
-        if (arrCode && AIRPORT_ADDRESSES[arrCode]) {
-          address = AIRPORT_ADDRESSES[arrCode];
-          // Add terminal if available
-          if (details.terminal) {
-            address += `, Terminal ${details.terminal}`;
-          }
-        } else if (depCode && AIRPORT_ADDRESSES[depCode]) {
-          address = AIRPORT_ADDRESSES[depCode];
-          if (details.terminal) {
-            address += `, Terminal ${details.terminal}`;
-          }
-        }
+        address =
+          getAirportAddress(details.arrivalAirport) ??
+          getAirportAddress(details.departureAirport, details.terminal);
       }
     }
     
@@ -281,6 +392,41 @@ export default function DocumentDetailScreen() {
     assignMutation.mutate({ documentId, tripId });
   }, [documentId, assignMutation]);
 
+  const handleConfirmField = useCallback((field: string) => {
+    reviewFieldMutation.mutate({ id: documentId, field });
+  }, [documentId, reviewFieldMutation]);
+
+  const handleSaveCorrection = useCallback(() => {
+    if (!correcting || !correcting.value.trim()) return;
+    reviewFieldMutation.mutate({ id: documentId, field: correcting.field, correctedValue: correcting.value });
+  }, [documentId, correcting, reviewFieldMutation]);
+
+  const toggleReparseChange = useCallback((field: string) => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    setRejectedFields((current) => {
+      const next = new Set(current);
+      if (next.has(field)) {
+        next.delete(field);
+      } else {
+        next.add(field);
+      }
+      return next;
+    });
+  }, []);
+
+  const handleApplyReparse = useCallback(() => {
+    if (!reparseChanges) return;
+    const accepted = reparseChanges.filter((change) => !rejectedFields.has(change.field));
+    if (accepted.length === 0) {
+      setReparseChanges(null);
+      return;
+    }
+    applyReparseMutation.mutate({
+      id: documentId,
+      changes: accepted.map((change) => ({ field: change.field, value: change.newValue })),
+    });
+  }, [documentId, reparseChanges, rejectedFields, applyReparseMutation]);
+
   const handleDelete = useCallback(() => {
     Alert.alert(
       "Delete Document",
@@ -383,6 +529,8 @@ export default function DocumentDetailScreen() {
     }
     
     // Fallback: Generate summary from parsed details
+    const times = (document.times as DocumentTimes | null) ?? {};
+    const localTime = (field: string) => formatLocalTime(details[field], times[`details.${field}`]?.timeZone);
     const detailRows: string[] = [];
     const addRow = (label: string, value: string | undefined) => {
       if (value) detailRows.push(`<tr><td style="padding: 8px 16px 8px 0; color: ${isDark ? '#9BA1A6' : '#687076'}; vertical-align: top;">${label}</td><td style="padding: 8px 0; font-weight: 500;">${value}</td></tr>`);
@@ -397,27 +545,28 @@ export default function DocumentDetailScreen() {
     addRow('Flight Number', details.flightNumber);
     addRow('Departure', details.departureAirport);
     addRow('Arrival', details.arrivalAirport);
-    addRow('Departure Time', details.departureTime);
-    addRow('Arrival Time', details.arrivalTime);
+    addRow('Departure Time', localTime('departureTime'));
+    addRow('Arrival Time', localTime('arrivalTime'));
     addRow('Seat', details.seatNumber);
     addRow('Terminal', details.terminal);
     addRow('Gate', details.gate);
+    addRow('Boarding Time', localTime('boardingTime'));
     addRow('Hotel', details.hotelName);
-    addRow('Check-in', details.checkInDate);
-    addRow('Check-out', details.checkOutDate);
+    addRow('Check-in', localTime('checkInDate'));
+    addRow('Check-out', localTime('checkOutDate'));
     addRow('Room Type', details.roomType);
     addRow('Address', details.address);
     addRow('Car Company', details.carCompany);
     addRow('Pickup Location', details.pickupLocation);
     addRow('Dropoff Location', details.dropoffLocation);
-    addRow('Pickup Time', details.pickupTime);
-    addRow('Dropoff Time', details.dropoffTime);
+    addRow('Pickup Time', localTime('pickupTime'));
+    addRow('Dropoff Time', localTime('dropoffTime'));
     addRow('Vehicle Type', details.vehicleType);
     addRow('Insurance Provider', details.insuranceProvider);
     addRow('Policy Number', details.policyNumber);
     addRow('Coverage Period', details.coveragePeriod);
     addRow('Event', details.eventName);
-    addRow('Event Date', details.eventDate);
+    addRow('Event Date', localTime('eventDate'));
     addRow('Event Time', details.eventTime);
     addRow('Venue', details.venue);
     addRow('Phone', details.phoneNumber);
@@ -470,6 +619,26 @@ export default function DocumentDetailScreen() {
 
   const config = categoryConfig[document.category] || categoryConfig.other;
   const details = (document.details as DocumentDetails) || {};
+  const validationWarnings = (document.validationWarnings as ValidationWarning[] | null) ?? [];
+  const fieldConfidence = (document.fieldConfidence as FieldConfidenceMap | null) ?? {};
+  const legs = document.category === "flight" ? getFlightLegs(document) : [];
+  const times = (document.times as DocumentTimes | null) ?? {};
+  // Times read as printed, labelled with the zone they happen in
+  const localTime = (path: string, value: string | undefined) => formatLocalTime(value, times[path]?.timeZone);
+  // A pass can be added to Wallet again from its stored .pkpass or Google Wallet link
+  const walletPassUrl = document.originalFileMimeType === WALLET_PASS_MIME_TYPE ? document.originalFileUrl : details.googleWalletUrl;
+
+  // Review controls for fields the AI wasn't sure of
+  const reviewFor = (field: string, label: string, value: string | undefined): FieldReview | undefined => {
+    const entry = fieldConfidence[field];
+    if (!isLowConfidence(entry)) return undefined;
+    return {
+      source: entry.source,
+      onConfirm: () => handleConfirmField(field),
+      onCorrect: () => setCorrecting({ field, label, value: value ?? "" }),
+    };
+  };
+  const documentDateValue = document.documentDate ? getLocalDay(new Date(document.documentDate), document.timeZone) : undefined;
 
   return (
     <ThemedView style={styles.container}>
@@ -479,9 +648,17 @@ export default function DocumentDetailScreen() {
           <IconSymbol name="chevron.left" size={24} color={colors.text} />
         </Pressable>
         <ThemedText type="subtitle">Document Details</ThemedText>
-        <Pressable onPress={handleDelete} style={styles.headerButton}>
-          <IconSymbol name="trash.fill" size={22} color={colors.destructive} />
-        </Pressable>
+        <View style={styles.headerActions}>
+          <Pressable
+            onPress={() => router.push({ pathname: "/edit-document" as any, params: { id: String(documentId) } })}
+            style={styles.headerButton}
+          >
+            <IconSymbol name="pencil" size={22} color={colors.tint} />
+          </Pressable>
+          <Pressable onPress={handleDelete} style={styles.headerButton}>
+            <IconSymbol name="trash.fill" size={22} color={colors.destructive} />
+          </Pressable>
+        </View>
       </View>
 
       <ScrollView
@@ -564,42 +741,118 @@ export default function DocumentDetailScreen() {
           />
         </View>
 
+        {/* Cancelled by a later email for the same booking */}
+        {document.cancelledAt && (
+          <View style={[styles.warningBanner, { backgroundColor: colors.destructive + "15" }]}>
+            <IconSymbol name="xmark.circle.fill" size={20} color={colors.destructive} />
+            <View style={styles.warningContent}>
+              <ThemedText style={styles.warningTitle} maxFontSizeMultiplier={FontScaling.body}>
+                This booking was cancelled
+              </ThemedText>
+              <ThemedText style={[styles.warningText, { color: colors.textSecondary }]} maxFontSizeMultiplier={FontScaling.body}>
+                Cancellation received {new Date(document.cancelledAt).toLocaleDateString()}
+              </ThemedText>
+            </View>
+          </View>
+        )}
+
+        {/* Validation warnings from parsing */}
+        {validationWarnings.length > 0 && (
+          <View style={[styles.warningBanner, { backgroundColor: colors.warning + "15" }]}>
+            <IconSymbol name="exclamationmark.triangle.fill" size={20} color={colors.warning} />
+            <View style={styles.warningContent}>
+              <ThemedText style={styles.warningTitle} maxFontSizeMultiplier={FontScaling.body}>
+                Please double-check these details
+              </ThemedText>
+              {validationWarnings.map((warning, index) => (
+                <ThemedText
+                  key={`${warning.field}-${index}`}
+                  style={[styles.warningText, { color: colors.textSecondary }]}
+                  maxFontSizeMultiplier={FontScaling.body}
+                >
+                  {warning.message}
+                </ThemedText>
+              ))}
+            </View>
+          </View>
+        )}
+
         {/* Details Card */}
         {Object.keys(details).length > 0 && (
           <View style={[styles.card, { backgroundColor: colors.surface, borderColor: colors.border }]}>
             <ThemedText type="subtitle" style={styles.sectionTitle}>
               Details
             </ThemedText>
-            <DetailRow label="Confirmation #" value={details.confirmationNumber} />
-            <DetailRow label="Airline" value={details.airline} />
-            <DetailRow label="Flight Number" value={details.flightNumber} />
-            <DetailRow label="Departure" value={details.departureAirport} />
-            <DetailRow label="Arrival" value={details.arrivalAirport} />
-            <DetailRow label="Departure Time" value={details.departureTime} />
-            <DetailRow label="Arrival Time" value={details.arrivalTime} />
-            <DetailRow label="Seat" value={details.seatNumber} />
-            <DetailRow label="Terminal" value={details.terminal} />
-            <DetailRow label="Gate" value={details.gate} />
-            <DetailRow label="Hotel" value={details.hotelName} />
-            <DetailRow label="Check-in" value={details.checkInDate} />
-            <DetailRow label="Check-out" value={details.checkOutDate} />
-            <DetailRow label="Room Type" value={details.roomType} />
-            <DetailRow label="Address" value={details.address} />
-            <DetailRow label="Car Company" value={details.carCompany} />
-            <DetailRow label="Pickup Location" value={details.pickupLocation} />
-            <DetailRow label="Dropoff Location" value={details.dropoffLocation} />
-            <DetailRow label="Pickup Time" value={details.pickupTime} />
-            <DetailRow label="Dropoff Time" value={details.dropoffTime} />
-            <DetailRow label="Vehicle Type" value={details.vehicleType} />
-            <DetailRow label="Insurance Provider" value={details.insuranceProvider} />
-            <DetailRow label="Policy Number" value={details.policyNumber} />
-            <DetailRow label="Coverage Period" value={details.coveragePeriod} />
-            <DetailRow label="Event" value={details.eventName} />
-            <DetailRow label="Event Date" value={details.eventDate} />
-            <DetailRow label="Event Time" value={details.eventTime} />
-            <DetailRow label="Venue" value={details.venue} />
-            <DetailRow label="Phone" value={details.phoneNumber} />
-            <DetailRow label="Email" value={details.emailAddress} />
+            {isLowConfidence(fieldConfidence.documentDate) && (
+              <DetailRow
+                label="Date"
+                value={documentDateValue}
+                review={reviewFor("documentDate", "Date", documentDateValue)}
+              />
+            )}
+            <DetailRow label="Confirmation #" value={details.confirmationNumber} review={reviewFor("confirmationNumber", "Confirmation #", details.confirmationNumber)} />
+            <DetailRow label="Airline" value={details.airline} review={reviewFor("airline", "Airline", details.airline)} />
+            <DetailRow label="Flight Number" value={details.flightNumber} review={reviewFor("flightNumber", "Flight Number", details.flightNumber)} />
+            <DetailRow label="Departure" value={formatAirportCode(details.departureAirport)} review={reviewFor("departureAirport", "Departure", details.departureAirport)} />
+            <DetailRow label="Arrival" value={formatAirportCode(details.arrivalAirport)} review={reviewFor("arrivalAirport", "Arrival", details.arrivalAirport)} />
+            <DetailRow label="Departure Time" value={localTime("details.departureTime", details.departureTime)} review={reviewFor("departureTime", "Departure Time", details.departureTime)} />
+            <DetailRow label="Arrival Time" value={localTime("details.arrivalTime", details.arrivalTime)} review={reviewFor("arrivalTime", "Arrival Time", details.arrivalTime)} />
+            <DetailRow label="Seat" value={details.seatNumber} review={reviewFor("seatNumber", "Seat", details.seatNumber)} />
+            <DetailRow label="Terminal" value={details.terminal} review={reviewFor("terminal", "Terminal", details.terminal)} />
+            <DetailRow label="Gate" value={details.gate} review={reviewFor("gate", "Gate", details.gate)} />
+            <DetailRow label="Boarding Time" value={localTime("details.boardingTime", details.boardingTime)} review={reviewFor("boardingTime", "Boarding Time", details.boardingTime)} />
+            <DetailRow label="Operator" value={details.operator} review={reviewFor("operator", "Operator", details.operator)} />
+            <DetailRow label="Service Number" value={details.serviceNumber} review={reviewFor("serviceNumber", "Service Number", details.serviceNumber)} />
+            <DetailRow label="From" value={details.departureStation} review={reviewFor("departureStation", "From", details.departureStation)} />
+            <DetailRow label="To" value={details.arrivalStation} review={reviewFor("arrivalStation", "To", details.arrivalStation)} />
+            <DetailRow label="Platform" value={details.platform} review={reviewFor("platform", "Platform", details.platform)} />
+            <DetailRow label="Carriage" value={details.carriage} review={reviewFor("carriage", "Carriage", details.carriage)} />
+            <DetailRow label="Hotel" value={details.hotelName} review={reviewFor("hotelName", "Hotel", details.hotelName)} />
+            <DetailRow label="Check-in" value={localTime("details.checkInDate", details.checkInDate)} review={reviewFor("checkInDate", "Check-in", details.checkInDate)} />
+            <DetailRow label="Check-out" value={localTime("details.checkOutDate", details.checkOutDate)} review={reviewFor("checkOutDate", "Check-out", details.checkOutDate)} />
+            <DetailRow label="Room Type" value={details.roomType} review={reviewFor("roomType", "Room Type", details.roomType)} />
+            <DetailRow label="Address" value={details.address} review={reviewFor("address", "Address", details.address)} />
+            <DetailRow label="Car Company" value={details.carCompany} review={reviewFor("carCompany", "Car Company", details.carCompany)} />
+            <DetailRow label="Pickup Location" value={details.pickupLocation} review={reviewFor("pickupLocation", "Pickup Location", details.pickupLocation)} />
+            <DetailRow label="Dropoff Location" value={details.dropoffLocation} review={reviewFor("dropoffLocation", "Dropoff Location", details.dropoffLocation)} />
+            <DetailRow label="Pickup Time" value={localTime("details.pickupTime", details.pickupTime)} review={reviewFor("pickupTime", "Pickup Time", details.pickupTime)} />
+            <DetailRow label="Dropoff Time" value={localTime("details.dropoffTime", details.dropoffTime)} review={reviewFor("dropoffTime", "Dropoff Time", details.dropoffTime)} />
+            <DetailRow label="Transfer Company" value={details.transferCompany} review={reviewFor("transferCompany", "Transfer Company", details.transferCompany)} />
+            <DetailRow label="Transfer Date" value={localTime("details.transferDate", details.transferDate)} review={reviewFor("transferDate", "Transfer Date", details.transferDate)} />
+            <DetailRow label="Transfer Time" value={details.transferTime} review={reviewFor("transferTime", "Transfer Time", details.transferTime)} />
+            <DetailRow label="Vehicle Type" value={details.vehicleType} review={reviewFor("vehicleType", "Vehicle Type", details.vehicleType)} />
+            <DetailRow label="Insurance Provider" value={details.insuranceProvider} review={reviewFor("insuranceProvider", "Insurance Provider", details.insuranceProvider)} />
+            <DetailRow label="Policy Number" value={details.policyNumber} review={reviewFor("policyNumber", "Policy Number", details.policyNumber)} />
+            <DetailRow label="Coverage Period" value={details.coveragePeriod} review={reviewFor("coveragePeriod", "Coverage Period", details.coveragePeriod)} />
+            <DetailRow label="Event" value={details.eventName} review={reviewFor("eventName", "Event", details.eventName)} />
+            <DetailRow label="Event Date" value={localTime("details.eventDate", details.eventDate)} review={reviewFor("eventDate", "Event Date", details.eventDate)} />
+            <DetailRow label="Event Time" value={details.eventTime} review={reviewFor("eventTime", "Event Time", details.eventTime)} />
+            <DetailRow label="Venue" value={details.venue} review={reviewFor("venue", "Venue", details.venue)} />
+            <DetailRow label="Phone" value={details.phoneNumber} review={reviewFor("phoneNumber", "Phone", details.phoneNumber)} />
+            <DetailRow label="Email" value={details.emailAddress} review={reviewFor("emailAddress", "Email", details.emailAddress)} />
+          </View>
+        )}
+
+        {/* Each leg of a booking with connections or a return flight */}
+        {legs.length > 1 && (
+          <View style={[styles.card, { backgroundColor: colors.surface, borderColor: colors.border }]}>
+            <ThemedText type="subtitle" style={styles.sectionTitle}>
+              Flight Legs
+            </ThemedText>
+            {legs.map((leg, index) => (
+              <View key={index} style={[styles.legRow, index > 0 && { borderTopColor: colors.border, borderTopWidth: 1 }]}>
+                <ThemedText type="defaultSemiBold" maxFontSizeMultiplier={FontScaling.label}>
+                  {`Leg ${index + 1} · ${formatLegRoute(leg)}`}
+                </ThemedText>
+                <DetailRow label="Flight Number" value={leg.flightNumber} />
+                <DetailRow label="Airline" value={leg.airline} />
+                <DetailRow label="Departure Time" value={localTime(`segments.${index}.departureTime`, leg.departureTime)} />
+                <DetailRow label="Arrival Time" value={localTime(`segments.${index}.arrivalTime`, leg.arrivalTime)} />
+                <DetailRow label="Terminal" value={leg.terminal} />
+                <DetailRow label="Gate" value={leg.gate} />
+                <DetailRow label="Seat" value={leg.seatNumber} />
+              </View>
+            ))}
           </View>
         )}
 
@@ -614,8 +867,128 @@ export default function DocumentDetailScreen() {
               Reassign to Trip
             </ThemedText>
           </Pressable>
+          {details.barcode && (
+            <Pressable
+              style={[styles.actionButton, { backgroundColor: colors.surface, borderColor: colors.border, borderWidth: 1 }]}
+              onPress={() => setBarcodeVisible(true)}
+            >
+              <IconSymbol name="barcode" size={20} color={colors.tint} />
+              <ThemedText style={[styles.actionButtonText, { color: colors.tint }]} maxFontSizeMultiplier={FontScaling.button}>
+                Show Barcode
+              </ThemedText>
+            </Pressable>
+          )}
+          {walletPassUrl && (
+            <Pressable
+              style={[styles.actionButton, { backgroundColor: colors.surface, borderColor: colors.border, borderWidth: 1 }]}
+              onPress={() => Linking.openURL(walletPassUrl)}
+            >
+              <IconSymbol name="wallet.pass.fill" size={20} color={colors.tint} />
+              <ThemedText style={[styles.actionButtonText, { color: colors.tint }]} maxFontSizeMultiplier={FontScaling.button}>
+                Add to Wallet
+              </ThemedText>
+            </Pressable>
+          )}
+          {(document.originalFileUrl || document.originalEmailBody) && (
+            <Pressable
+              style={[styles.actionButton, { backgroundColor: colors.surface, borderColor: colors.border, borderWidth: 1 }]}
+              onPress={() => reparseMutation.mutate({ id: documentId })}
+              disabled={reparseMutation.isPending}
+            >
+              {reparseMutation.isPending ? (
+                <ActivityIndicator color={colors.tint} />
+              ) : (
+                <>
+                  <IconSymbol name="arrow.clockwise" size={20} color={colors.tint} />
+                  <ThemedText style={[styles.actionButtonText, { color: colors.tint }]} maxFontSizeMultiplier={FontScaling.button}>
+                    Re-parse Original
+                  </ThemedText>
+                </>
+              )}
+            </Pressable>
+          )}
         </View>
 
+        {/* Versions - each copy of the booking that was forwarded or uploaded */}
+        {versions && versions.length > 1 && (
+          <View style={[styles.card, { backgroundColor: colors.surface, borderColor: colors.border }]}>
+            <ThemedText type="subtitle" style={styles.sectionTitle}>
+              Versions
+            </ThemedText>
+            {[...versions].reverse().map((version) => {
+              const isCurrent = version.id === document.currentVersionId;
+              return (
+                <View key={version.id} style={styles.revisionRow}>
+                  <View style={styles.detailRow}>
+                    <ThemedText style={[styles.detailLabel, isCurrent && { fontWeight: "600" }]} maxFontSizeMultiplier={FontScaling.label}>
+                      {version.documentType}{isCurrent ? " · Current" : ""}
+                    </ThemedText>
+                    <ThemedText style={[styles.revisionDate, { color: colors.textSecondary }]} maxFontSizeMultiplier={FontScaling.label}>
+                      {version.source === "upload" ? "Upload" : version.source === "camera" ? "Camera" : "Email"} · {new Date(version.createdAt).toLocaleDateString()}
+                    </ThemedText>
+                  </View>
+                  {(version.originalFileName || version.emailSubject) && (
+                    <ThemedText style={[styles.revisionChange, { color: colors.textSecondary }]} maxFontSizeMultiplier={FontScaling.body} numberOfLines={1}>
+                      {version.originalFileName || version.emailSubject}
+                    </ThemedText>
+                  )}
+                  <View style={styles.reviewActions}>
+                    {version.originalFileUrl && (
+                      <Pressable
+                        style={[styles.reviewButton, { borderColor: colors.tint, borderWidth: 1 }]}
+                        onPress={() => Linking.openURL(version.originalFileUrl!)}
+                      >
+                        <ThemedText style={[styles.reviewButtonText, { color: colors.tint }]} maxFontSizeMultiplier={FontScaling.button}>
+                          Open File
+                        </ThemedText>
+                      </Pressable>
+                    )}
+                    {!isCurrent && (
+                      <Pressable
+                        style={[styles.reviewButton, { backgroundColor: colors.tint }]}
+                        onPress={() => setCurrentVersionMutation.mutate({ id: documentId, versionId: version.id })}
+                        disabled={setCurrentVersionMutation.isPending}
+                      >
+                        <ThemedText style={styles.reviewButtonText} maxFontSizeMultiplier={FontScaling.button}>
+                          Make Current
+                        </ThemedText>
+                      </Pressable>
+                    )}
+                  </View>
+                </View>
+              );
+            })}
+          </View>
+        )}
+
+        {/* Edit History - AI values next to the corrections made to them */}
+        {revisions && revisions.length > 0 && (
+          <View style={[styles.card, { backgroundColor: colors.surface, borderColor: colors.border }]}>
+            <ThemedText type="subtitle" style={styles.sectionTitle}>
+              Edit History
+            </ThemedText>
+            {[...revisions].reverse().map((revision) => (
+              <View key={revision.id} style={styles.revisionRow}>
+                <View style={styles.detailRow}>
+                  <ThemedText style={[styles.detailLabel, { color: colors.textSecondary }]} maxFontSizeMultiplier={FontScaling.label}>
+                    {getRevisionFieldLabel(revision.field)}
+                  </ThemedText>
+                  <ThemedText style={[styles.revisionDate, { color: colors.textSecondary }]} maxFontSizeMultiplier={FontScaling.label}>
+                    {revision.source === "reparse" ? "Re-parse" : revision.source === "update" ? "Booking update" : "Edited"} · {new Date(revision.createdAt).toLocaleDateString()}
+                  </ThemedText>
+                </View>
+                <ThemedText style={styles.revisionChange} maxFontSizeMultiplier={FontScaling.body} numberOfLines={3}>
+                  <ThemedText style={[styles.revisionChange, styles.revisionPrevious, { color: colors.textSecondary }]}>
+                    {formatRevisionValue(revision.field, revision.previousValue)}
+                  </ThemedText>
+                  {"  →  "}
+                  {formatRevisionValue(revision.field, revision.newValue)}
+                </ThemedText>
+              </View>
+            ))}
+          </View>
+        )}
+
         {/* Metadata */}
         <View style={[styles.metadata, { borderColor: colors.border }]}>
           <View style={styles.metaRow}>
@@ -686,6 +1059,148 @@ export default function DocumentDetailScreen() {
         </ThemedView>
       </Modal>
 
+      {/* Correct Field Modal */}
+      <Modal
+        visible={correcting !== null}
+        animationType="slide"
+        presentationStyle="pageSheet"
+        onRequestClose={() => setCorrecting(null)}
+      >
+        <ThemedView style={[styles.modalContainer, { paddingTop: Math.max(insets.top, 20) }]}>
+          <View style={styles.modalHeader}>
+            <ThemedText type="subtitle">Correct {correcting?.label}</ThemedText>
+            <Pressable onPress={() => setCorrecting(null)} style={styles.closeButton}>
+              <IconSymbol name="xmark" size={24} color={colors.text} />
+            </Pressable>
+          </View>
+          <View style={styles.correctionContent}>
+            <TextInput
+              style={[styles.correctionInput, { color: colors.text, borderColor: colors.border, backgroundColor: colors.surface }]}
+              value={correcting?.value ?? ""}
+              onChangeText={(value) => setCorrecting((current) => (current ? { ...current, value } : current))}
+              autoFocus
+              autoCorrect={false}
+              returnKeyType="done"
+              onSubmitEditing={handleSaveCorrection}
+            />
+            {correcting?.field === "documentDate" && (
+              <ThemedText style={[styles.reviewSource, { color: colors.textSecondary }]}>
+                Use the format YYYY-MM-DD
+              </ThemedText>
+            )}
+            <Pressable
+              style={[styles.actionButton, { backgroundColor: colors.tint }]}
+              onPress={handleSaveCorrection}
+              disabled={reviewFieldMutation.isPending}
+            >
+              {reviewFieldMutation.isPending ? (
+                <ActivityIndicator color="#FFFFFF" />
+              ) : (
+                <ThemedText style={[styles.actionButtonText, { color: "#FFFFFF" }]} maxFontSizeMultiplier={FontScaling.button}>
+                  Save
+                </ThemedText>
+              )}
+            </Pressable>
+          </View>
+        </ThemedView>
+      </Modal>
+
+      {/* Re-parse Review Modal */}
+      <Modal
+        visible={reparseChanges !== null}
+        animationType="slide"
+        presentationStyle="pageSheet"
+        onRequestClose={() => setReparseChanges(null)}
+      >
+        <ThemedView style={[styles.modalContainer, { paddingTop: Math.max(insets.top, 20) }]}>
+          <View style={styles.modalHeader}>
+            <ThemedText type="subtitle">Review Changes</ThemedText>
+            <Pressable onPress={() => setReparseChanges(null)} style={styles.closeButton}>
+              <IconSymbol name="xmark" size={24} color={colors.text} />
+            </Pressable>
+          </View>
+          <ScrollView contentContainerStyle={styles.tripsList}>
+            <ThemedText style={[styles.reviewSource, styles.reparseHint, { color: colors.textSecondary }]}>
+              Tap a change to accept or reject it.
+            </ThemedText>
+            {reparseChanges?.map((change) => {
+              const accepted = !rejectedFields.has(change.field);
+              return (
+                <Pressable
+                  key={change.field}
+                  style={[styles.tripOption, { borderColor: accepted ? colors.tint : colors.border }]}
+                  onPress={() => toggleReparseChange(change.field)}
+                >
+                  <View style={styles.tripOptionInfo}>
+                    <ThemedText type="defaultSemiBold">{getRevisionFieldLabel(change.field)}</ThemedText>
+                    <ThemedText style={[styles.revisionChange, styles.revisionPrevious, { color: colors.textSecondary }]}>
+                      {formatRevisionValue(change.field, change.previousValue)}
+                    </ThemedText>
+                    <ThemedText style={styles.revisionChange}>
+                      {formatRevisionValue(change.field, change.newValue)}
+                    </ThemedText>
+                    {change.userEdited && (
+                      <ThemedText style={[styles.tripOptionDates, { color: colors.warning }]}>
+                        You edited this field
+                      </ThemedText>
+                    )}
+                  </View>
+                  <IconSymbol
+                    name={accepted ? "checkmark.circle.fill" : "xmark"}
+                    size={22}
+                    color={accepted ? colors.tint : colors.textSecondary}
+                  />
+                </Pressable>
+              );
+            })}
+            <Pressable
+              style={[styles.actionButton, { backgroundColor: colors.tint }]}
+              onPress={handleApplyReparse}
+              disabled={applyReparseMutation.isPending}
+            >
+              {applyReparseMutation.isPending ? (
+                <ActivityIndicator color="#FFFFFF" />
+              ) : (
+                <ThemedText style={[styles.actionButtonText, { color: "#FFFFFF" }]} maxFontSizeMultiplier={FontScaling.button}>
+                  Apply {(reparseChanges?.length ?? 0) - rejectedFields.size} of {reparseChanges?.length ?? 0} Changes
+                </ThemedText>
+              )}
+            </Pressable>
+          </ScrollView>
+        </ThemedView>
+      </Modal>
+
+      {/* Barcode Modal, black on white whatever the theme so scanners read it */}
+      <Modal
+        visible={barcodeVisible}
+        animationType="fade"
+        onRequestClose={() => setBarcodeVisible(false)}
+      >
+        <View style={[styles.barcodeContainer, { paddingTop: Math.max(insets.top, 20), paddingBottom: Math.max(insets.bottom, 20) }]}>
+          <View style={styles.modalHeader}>
+            <ThemedText type="subtitle" style={styles.barcodeText}>{document.title}</ThemedText>
+            <Pressable onPress={() => setBarcodeVisible(false)} style={styles.closeButton}>
+              <IconSymbol name="xmark" size={24} color="#000000" />
+            </Pressable>
+          </View>
+
+          <View style={styles.barcodeBody}>
+            {barcodeLoading ? (
+              <ActivityIndicator color="#000000" />
+            ) : barcode ? (
+              <SvgXml xml={barcode.svg} width="100%" height="100%" />
+            ) : (
+              <ThemedText style={styles.barcodeText}>Barcode unavailable</ThemedText>
+            )}
+          </View>
+          {(details.seatNumber || details.confirmationNumber) && (
+            <ThemedText style={[styles.barcodeText, styles.barcodeCaption]}>
+              {[details.seatNumber && `Seat ${details.seatNumber}`, details.confirmationNumber].filter(Boolean).join(" · ")}
+            </ThemedText>
+          )}
+        </View>
+      </Modal>
+
       {/* Original Email Body Modal */}
       <Modal
         visible={originalModalVisible}
@@ -735,6 +1250,9 @@ const styles = StyleSheet.create({
     justifyContent: "center",
     alignItems: "center",
   },
+  headerActions: {
+    flexDirection: "row",
+  },
   scrollView: {
     flex: 1,
   },
@@ -781,6 +1299,66 @@ const styles = StyleSheet.create({
   sectionTitle: {
     marginBottom: Spacing.md,
   },
+  reviewRow: {
+    borderWidth: 1,
+    borderRadius: BorderRadius.md,
+    paddingHorizontal: Spacing.sm,
+    paddingVertical: Spacing.xs,
+    marginVertical: Spacing.xs,
+  },
+  reviewSource: {
+    fontSize: 12,
+    lineHeight: 16,
+    fontStyle: "italic",
+  },
+  reviewActions: {
+    flexDirection: "row",
+    justifyContent: "flex-end",
+    gap: Spacing.sm,
+    marginTop: Spacing.xs,
+  },
+  reviewButton: {
+    paddingVertical: 4,
+    paddingHorizontal: 12,
+    borderRadius: BorderRadius.sm,
+  },
+  reviewButtonText: {
+    color: "#FFFFFF",
+    fontSize: 13,
+    fontWeight: "600",
+    lineHeight: 18,
+  },
+  correctionContent: {
+    paddingHorizontal: Spacing.md,
+    gap: Spacing.md,
+  },
+  correctionInput: {
+    borderWidth: 1,
+    borderRadius: BorderRadius.md,
+    padding: Spacing.md,
+    fontSize: 16,
+  },
+  warningBanner: {
+    flexDirection: "row",
+    alignItems: "flex-start",
+    gap: Spacing.sm,
+    padding: Spacing.md,
+    borderRadius: BorderRadius.md,
+    marginBottom: Spacing.md,
+  },
+  warningContent: {
+    flex: 1,
+    gap: Spacing.xs,
+  },
+  warningTitle: {
+    fontSize: 14,
+    fontWeight: "600",
+    lineHeight: 20,
+  },
+  warningText: {
+    fontSize: 13,
+    lineHeight: 18,
+  },
   detailRow: {
     flexDirection: "row",
     justifyContent: "space-between",
@@ -843,6 +1421,26 @@ const styles = StyleSheet.create({
     fontWeight: "600",
     lineHeight: 22,
   },
+  legRow: {
+    paddingVertical: Spacing.sm,
+  },
+  revisionRow: {
+    paddingVertical: Spacing.xs,
+  },
+  revisionDate: {
+    fontSize: 12,
+    lineHeight: 20,
+  },
+  revisionChange: {
+    fontSize: 14,
+    lineHeight: 20,
+  },
+  revisionPrevious: {
+    textDecorationLine: "line-through",
+  },
+  reparseHint: {
+    marginBottom: Spacing.sm,
+  },
   metadata: {
     borderTopWidth: 1,
     paddingTop: Spacing.md,
@@ -918,6 +1516,25 @@ const styles = StyleSheet.create({
   closeButton: {
     padding: Spacing.xs,
   },
+  barcodeContainer: {
+    flex: 1,
+    backgroundColor: "#FFFFFF",
+  },
+  barcodeBody: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+    padding: Spacing.md,
+  },
+  barcodeText: {
+    color: "#000000",
+  },
+  barcodeCaption: {
+    textAlign: "center",
+    fontSize: 20,
+    lineHeight: 26,
+    fontWeight: "600",
+  },
   tripsList: {
     paddingHorizontal: Spacing.md,
   },
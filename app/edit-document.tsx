@@ -0,0 +1,343 @@
+import { useLocalSearchParams, useRouter } from "expo-router";
+import { useCallback, useEffect, useMemo, useState } from "react";
+import {
+  ActivityIndicator,
+  Alert,
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  TextInput,
+  View,
+} from "react-native";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import * as Haptics from "expo-haptics";
+
+import { ThemedText } from "@/components/themed-text";
+import { ThemedView } from "@/components/themed-view";
+import { Colors, Spacing, BorderRadius } from "@/constants/theme";
+import { useColorScheme } from "@/hooks/use-color-scheme";
+import { useAuth } from "@/hooks/use-auth";
+import { trpc } from "@/lib/trpc";
+import type { DocumentDetails } from "@/drizzle/schema";
+import {
+  DOCUMENT_CATEGORIES,
+  getDetailFieldLabel,
+  getEditableDetailFields,
+  type DocumentCategory,
+} from "@/lib/documentFields";
+import { getLocalDay } from "@/shared/timezones";
+import { FontScaling } from "@/constants/accessibility";
+
+export default function EditDocumentScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const router = useRouter();
+  const insets = useSafeAreaInsets();
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? "light"];
+  const { isAuthenticated } = useAuth();
+
+  const documentId = parseInt(id || "0", 10);
+
+  const { data: document, isLoading } = trpc.documents.get.useQuery(
+    { id: documentId },
+    { enabled: isAuthenticated && documentId > 0 }
+  );
+
+  const [title, setTitle] = useState("");
+  const [subtitle, setSubtitle] = useState("");
+  const [category, setCategory] = useState<DocumentCategory>("other");
+  const [documentType, setDocumentType] = useState("");
+  const [documentDate, setDocumentDate] = useState("");
+  const [details, setDetails] = useState<Record<string, string>>({});
+
+  // Fill the form once the document has loaded
+  useEffect(() => {
+    if (!document) return;
+    setTitle(document.title);
+    setSubtitle(document.subtitle ?? "");
+    setCategory(document.category);
+    setDocumentType(document.documentType);
+    setDocumentDate(document.documentDate ? getLocalDay(new Date(document.documentDate), document.timeZone) : "");
+    setDetails(
+      Object.fromEntries(
+        Object.entries((document.details as DocumentDetails | null) ?? {}).map(([key, value]) => [key, String(value ?? "")])
+      )
+    );
+  }, [document]);
+
+  const detailFields = useMemo(() => getEditableDetailFields(category, details), [category, details]);
+
+  const utils = trpc.useUtils();
+
+  const updateMutation = trpc.documents.update.useMutation({
+    onSuccess: (result) => {
+      if (!result.success) {
+        Alert.alert("Couldn't Save", result.error || "Please try again.");
+        return;
+      }
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      utils.documents.get.invalidate({ id: documentId });
+      utils.documents.revisions.invalidate({ id: documentId });
+      utils.documents.inbox.invalidate();
+      utils.documents.byTrip.invalidate();
+      router.back();
+    },
+    onError: (error) => {
+      Alert.alert("Error", error.message);
+    },
+  });
+
+  const handleSave = useCallback(() => {
+    if (!title.trim()) {
+      Alert.alert("Error", "Please enter a title");
+      return;
+    }
+    if (!documentType.trim()) {
+      Alert.alert("Error", "Please enter a document type");
+      return;
+    }
+    const date = documentDate.trim();
+    if (date && Number.isNaN(Date.parse(date))) {
+      Alert.alert("Error", "Please enter the date as YYYY-MM-DD");
+      return;
+    }
+
+    updateMutation.mutate({
+      id: documentId,
+      title: title.trim(),
+      subtitle: subtitle.trim() || null,
+      category,
+      documentType: documentType.trim(),
+      documentDate: date || null,
+      // Cleared fields are sent as null so they're removed
+      details: Object.fromEntries(detailFields.map((key) => [key, details[key]?.trim() || null])),
+    });
+  }, [title, subtitle, category, documentType, documentDate, details, detailFields, documentId, updateMutation]);
+
+  const inputStyle = [
+    styles.input,
+    { backgroundColor: colors.surface, color: colors.text, borderColor: colors.border },
+  ];
+
+  return (
+    <ThemedView style={styles.container}>
+      {/* Header */}
+      <View
+        style={[
+          styles.header,
+          { paddingTop: Math.max(insets.top, 20), backgroundColor: colors.tint },
+        ]}
+      >
+        <Pressable onPress={() => router.back()} style={styles.headerButton}>
+          <ThemedText style={styles.headerButtonText} maxFontSizeMultiplier={FontScaling.button}>
+            Cancel
+          </ThemedText>
+        </Pressable>
+        <ThemedText style={styles.headerTitle} maxFontSizeMultiplier={FontScaling.title}>
+          Edit Document
+        </ThemedText>
+        <Pressable
+          onPress={handleSave}
+          style={styles.headerButton}
+          disabled={!document || updateMutation.isPending}
+        >
+          {updateMutation.isPending ? (
+            <ActivityIndicator size="small" color="#FFFFFF" />
+          ) : (
+            <ThemedText style={styles.headerButtonText} maxFontSizeMultiplier={FontScaling.button}>
+              Save
+            </ThemedText>
+          )}
+        </Pressable>
+      </View>
+
+      {isLoading || !document ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color={colors.tint} />
+        </View>
+      ) : (
+        <ScrollView
+          contentContainerStyle={[styles.form, { paddingBottom: insets.bottom + Spacing.xl }]}
+          keyboardShouldPersistTaps="handled"
+        >
+          <View style={styles.field}>
+            <ThemedText style={styles.label} maxFontSizeMultiplier={FontScaling.label}>
+              Title
+            </ThemedText>
+            <TextInput
+              style={inputStyle}
+              value={title}
+              onChangeText={setTitle}
+              placeholderTextColor={colors.textSecondary}
+              maxFontSizeMultiplier={FontScaling.body}
+            />
+          </View>
+
+          <View style={styles.field}>
+            <ThemedText style={styles.label} maxFontSizeMultiplier={FontScaling.label}>
+              Subtitle
+            </ThemedText>
+            <TextInput
+              style={inputStyle}
+              value={subtitle}
+              onChangeText={setSubtitle}
+              placeholder="e.g., TLV → JFK"
+              placeholderTextColor={colors.textSecondary}
+              maxFontSizeMultiplier={FontScaling.body}
+            />
+          </View>
+
+          <View style={styles.field}>
+            <ThemedText style={styles.label} maxFontSizeMultiplier={FontScaling.label}>
+              Category
+            </ThemedText>
+            <View style={styles.chips}>
+              {DOCUMENT_CATEGORIES.map((option) => {
+                const selected = option.value === category;
+                return (
+                  <Pressable
+                    key={option.value}
+                    style={[
+                      styles.chip,
+                      { borderColor: selected ? colors.tint : colors.border },
+                      selected && { backgroundColor: colors.tint },
+                    ]}
+                    onPress={() => {
+                      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+                      setCategory(option.value);
+                    }}
+                  >
+                    <ThemedText
+                      style={[styles.chipText, selected && styles.chipTextSelected]}
+                      maxFontSizeMultiplier={FontScaling.button}
+                    >
+                      {option.label}
+                    </ThemedText>
+                  </Pressable>
+                );
+              })}
+            </View>
+          </View>
+
+          <View style={styles.field}>
+            <ThemedText style={styles.label} maxFontSizeMultiplier={FontScaling.label}>
+              Document Type
+            </ThemedText>
+            <TextInput
+              style={inputStyle}
+              value={documentType}
+              onChangeText={setDocumentType}
+              placeholder="e.g., E-Ticket"
+              placeholderTextColor={colors.textSecondary}
+              maxFontSizeMultiplier={FontScaling.body}
+            />
+          </View>
+
+          <View style={styles.field}>
+            <ThemedText style={styles.label} maxFontSizeMultiplier={FontScaling.label}>
+              Date
+            </ThemedText>
+            <TextInput
+              style={inputStyle}
+              value={documentDate}
+              onChangeText={setDocumentDate}
+              placeholder="YYYY-MM-DD"
+              placeholderTextColor={colors.textSecondary}
+              autoCapitalize="none"
+              maxFontSizeMultiplier={FontScaling.body}
+            />
+          </View>
+
+          <ThemedText type="subtitle" style={styles.sectionTitle}>
+            Details
+          </ThemedText>
+          {detailFields.map((key) => (
+            <View key={key} style={styles.field}>
+              <ThemedText style={styles.label} maxFontSizeMultiplier={FontScaling.label}>
+                {getDetailFieldLabel(key)}
+              </ThemedText>
+              <TextInput
+                style={inputStyle}
+                value={details[key] ?? ""}
+                onChangeText={(value) => setDetails((current) => ({ ...current, [key]: value }))}
+                placeholderTextColor={colors.textSecondary}
+                maxFontSizeMultiplier={FontScaling.body}
+              />
+            </View>
+          ))}
+        </ScrollView>
+      )}
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingHorizontal: Spacing.md,
+    paddingBottom: Spacing.md,
+  },
+  headerButton: {
+    paddingVertical: Spacing.sm,
+    paddingHorizontal: Spacing.sm,
+    minWidth: 60,
+  },
+  headerButtonText: {
+    color: "#FFFFFF",
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  headerTitle: {
+    color: "#FFFFFF",
+    fontSize: 18,
+    fontWeight: "600",
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  form: {
+    padding: Spacing.lg,
+    gap: Spacing.lg,
+  },
+  sectionTitle: {
+    marginTop: Spacing.sm,
+  },
+  field: {
+    gap: Spacing.sm,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: "500",
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: BorderRadius.md,
+    padding: Spacing.md,
+    fontSize: 16,
+  },
+  chips: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: Spacing.sm,
+  },
+  chip: {
+    borderWidth: 1,
+    borderRadius: BorderRadius.full,
+    paddingVertical: Spacing.xs,
+    paddingHorizontal: Spacing.md,
+  },
+  chipText: {
+    fontSize: 14,
+  },
+  chipTextSelected: {
+    color: "#FFFFFF",
+    fontWeight: "600",
+  },
+});
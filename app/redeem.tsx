@@ -36,6 +36,7 @@ export default function RedeemScreen() {
               text: "OK",
               onPress: () => {
                 utils.user.getCredits.invalidate();
+                utils.billing.history.invalidate();
                 router.back();
               },
             },
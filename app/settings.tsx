@@ -8,10 +8,12 @@ import {
   View,
   Alert,
   Platform,
+  Linking,
 } from "react-native";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
 import * as Haptics from "expo-haptics";
 import * as Notifications from "expo-notifications";
+import * as Clipboard from "expo-clipboard";
 
 import { ThemedText } from "@/components/themed-text";
 import { ThemedView } from "@/components/themed-view";
@@ -21,6 +23,10 @@ import { FontScaling } from "@/constants/accessibility";
 import { useColorScheme } from "@/hooks/use-color-scheme";
 import { useTheme, ThemePreference } from "@/contexts/theme-context";
 import { useNotifications } from "@/hooks/use-notifications";
+import { useAuth } from "@/hooks/use-auth";
+import { trpc } from "@/lib/trpc";
+import { getApiBaseUrl } from "@/constants/oauth";
+import type { CalendarFeed } from "@/drizzle/schema";
 import {
   getScheduledNotificationCount,
   cancelAllTripNotifications,
@@ -71,6 +77,72 @@ function ThemeOption({
   );
 }
 
+function getCalendarFeedUrl(token: string): string {
+  return `${getApiBaseUrl()}/api/calendar/${token}.ics`;
+}
+
+// One calendar link: create it, or subscribe, copy and revoke it
+function CalendarFeedRow({
+  label,
+  feed,
+  onCreate,
+  onRevoke,
+  colors,
+}: {
+  label: string;
+  feed: CalendarFeed | undefined;
+  onCreate: () => void;
+  onRevoke: (feed: CalendarFeed) => void;
+  colors: typeof Colors.light;
+}) {
+  const handleSubscribe = useCallback(() => {
+    if (!feed) return;
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    // webcal:// opens the calendar app's subscribe prompt
+    Linking.openURL(getCalendarFeedUrl(feed.token).replace(/^https?:/, "webcal:"));
+  }, [feed]);
+
+  const handleCopy = useCallback(async () => {
+    if (!feed) return;
+    await Clipboard.setStringAsync(getCalendarFeedUrl(feed.token));
+    Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    Alert.alert("Link Copied", "Paste it into your calendar app as a subscription.");
+  }, [feed]);
+
+  return (
+    <View style={styles.feedRow}>
+      <ThemedText type="defaultSemiBold" style={styles.feedLabel} maxFontSizeMultiplier={FontScaling.body} numberOfLines={1}>
+        {label}
+      </ThemedText>
+      {feed ? (
+        <View style={styles.feedActions}>
+          <Pressable onPress={handleSubscribe} hitSlop={8}>
+            <ThemedText style={[styles.feedAction, { color: colors.tint }]} maxFontSizeMultiplier={FontScaling.button}>
+              Subscribe
+            </ThemedText>
+          </Pressable>
+          <Pressable onPress={handleCopy} hitSlop={8}>
+            <ThemedText style={[styles.feedAction, { color: colors.tint }]} maxFontSizeMultiplier={FontScaling.button}>
+              Copy
+            </ThemedText>
+          </Pressable>
+          <Pressable onPress={() => onRevoke(feed)} hitSlop={8}>
+            <ThemedText style={[styles.feedAction, { color: colors.destructive }]} maxFontSizeMultiplier={FontScaling.button}>
+              Revoke
+            </ThemedText>
+          </Pressable>
+        </View>
+      ) : (
+        <Pressable onPress={onCreate} hitSlop={8}>
+          <ThemedText style={[styles.feedAction, { color: colors.tint }]} maxFontSizeMultiplier={FontScaling.button}>
+            Create Link
+          </ThemedText>
+        </Pressable>
+      )}
+    </View>
+  );
+}
+
 export default function SettingsScreen() {
   const router = useRouter();
   const insets = useSafeAreaInsets();
@@ -82,6 +154,40 @@ export default function SettingsScreen() {
   const [scheduledCount, setScheduledCount] = useState(0);
   const [hasPermission, setHasPermission] = useState<boolean | null>(null);
 
+  const { isAuthenticated } = useAuth();
+  const utils = trpc.useUtils();
+  const { data: calendarFeeds } = trpc.calendar.feeds.useQuery(undefined, { enabled: isAuthenticated });
+  const { data: trips } = trpc.trips.list.useQuery(undefined, { enabled: isAuthenticated });
+
+  const createFeedMutation = trpc.calendar.create.useMutation({
+    onSuccess: (result) => {
+      if (!result.success) {
+        Alert.alert("Couldn't Create Link", result.error || "Please try again.");
+        return;
+      }
+      utils.calendar.feeds.invalidate();
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    },
+  });
+
+  const revokeFeedMutation = trpc.calendar.revoke.useMutation({
+    onSuccess: () => {
+      utils.calendar.feeds.invalidate();
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    },
+  });
+
+  const handleRevokeFeed = useCallback((feed: CalendarFeed) => {
+    Alert.alert(
+      "Revoke Calendar Link",
+      "Calendars subscribed with this link will stop updating. You can create a new link afterwards.",
+      [
+        { text: "Cancel", style: "cancel" },
+        { text: "Revoke", style: "destructive", onPress: () => revokeFeedMutation.mutate({ id: feed.id }) },
+      ]
+    );
+  }, [revokeFeedMutation]);
+
   // Check notification permission status
   useEffect(() => {
     const checkPermission = async () => {
@@ -327,6 +433,43 @@ export default function SettingsScreen() {
           )}
         </View>
 
+        {/* Calendar Section */}
+        {isAuthenticated && (
+          <View style={styles.section}>
+            <ThemedText type="subtitle" style={styles.sectionTitle} maxFontSizeMultiplier={FontScaling.title}>
+              Calendar
+            </ThemedText>
+            <ThemedText
+              style={[styles.sectionDescription, { color: colors.textSecondary }]}
+              maxFontSizeMultiplier={FontScaling.body}
+            >
+              Subscribe to your flights, stays and events from any calendar app. Anyone with a link can see its bookings, so revoke links you no longer use.
+            </ThemedText>
+
+            <View style={[styles.themeSelector, { backgroundColor: colors.surface, borderColor: colors.border }]}>
+              <CalendarFeedRow
+                label="All Trips"
+                feed={calendarFeeds?.find((feed) => feed.tripId === null)}
+                onCreate={() => createFeedMutation.mutate({ tripId: null })}
+                onRevoke={handleRevokeFeed}
+                colors={colors}
+              />
+              {trips?.map((trip) => (
+                <View key={trip.id}>
+                  <View style={[styles.themeDivider, { backgroundColor: colors.border }]} />
+                  <CalendarFeedRow
+                    label={trip.name}
+                    feed={calendarFeeds?.find((feed) => feed.tripId === trip.id)}
+                    onCreate={() => createFeedMutation.mutate({ tripId: trip.id })}
+                    onRevoke={handleRevokeFeed}
+                    colors={colors}
+                  />
+                </View>
+              ))}
+            </View>
+          </View>
+        )}
+
         {/* Privacy Note */}
         <View style={styles.section}>
           <View style={[styles.privacyNote, { backgroundColor: colors.surface, borderColor: colors.border }]}>
@@ -482,6 +625,26 @@ const styles = StyleSheet.create({
     fontSize: 16,
     lineHeight: 22,
   },
+  feedRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    gap: Spacing.md,
+    paddingVertical: Spacing.md,
+    paddingHorizontal: Spacing.md,
+  },
+  feedLabel: {
+    flex: 1,
+  },
+  feedActions: {
+    flexDirection: "row",
+    gap: Spacing.md,
+  },
+  feedAction: {
+    fontSize: 14,
+    fontWeight: "600",
+    lineHeight: 20,
+  },
   themeDivider: {
     height: 1,
     marginHorizontal: Spacing.md,
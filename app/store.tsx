@@ -30,6 +30,15 @@ import {
 } from "@/lib/billing";
 import { FontScaling } from "@/constants/accessibility";
 
+const TRANSACTION_LABELS: Record<string, string> = {
+  grant: "Free credits",
+  purchase: "Purchase",
+  promo: "Promo code",
+  parse_charge: "Document processed",
+  refund: "Refund",
+  admin_adjustment: "Adjustment",
+};
+
 export default function StoreScreen() {
   const insets = useSafeAreaInsets();
   const colorScheme = useColorScheme();
@@ -40,6 +49,8 @@ export default function StoreScreen() {
 
   const utils = trpc.useUtils();
   const { data: creditsData } = trpc.user.getCredits.useQuery();
+  const { data: history } = trpc.billing.history.useQuery({ limit: 20 });
+  const { data: pricing } = trpc.billing.pricing.useQuery();
   
   const processPurchaseMutation = trpc.billing.processPurchase.useMutation({
     onSuccess: async (data) => {
@@ -50,6 +61,7 @@ export default function StoreScreen() {
           `${data.creditsAdded} credits have been added to your account.`
         );
         utils.user.getCredits.invalidate();
+        utils.billing.history.invalidate();
       } else {
         Alert.alert("Error", ('error' in data ? data.error : undefined) || "Failed to process purchase");
       }
@@ -216,14 +228,48 @@ export default function StoreScreen() {
           </Pressable>
         </View>
 
+        {/* Transaction History */}
+        {history && history.length > 0 && (
+          <View style={styles.historySection}>
+            <ThemedText type="subtitle" style={styles.sectionTitle}>
+              Recent Activity
+            </ThemedText>
+            {history.map((tx) => (
+              <View
+                key={tx.id}
+                style={[styles.historyRow, isDark ? styles.historyRowDark : styles.historyRowLight]}
+              >
+                <View style={styles.historyInfo}>
+                  <ThemedText style={styles.historyTitle} numberOfLines={1} maxFontSizeMultiplier={FontScaling.body}>
+                    {tx.description || TRANSACTION_LABELS[tx.type] || tx.type}
+                  </ThemedText>
+                  <ThemedText style={styles.historyDate} maxFontSizeMultiplier={FontScaling.label}>
+                    {TRANSACTION_LABELS[tx.type] || tx.type} ·{" "}
+                    {new Date(tx.createdAt).toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric" })}
+                  </ThemedText>
+                </View>
+                <ThemedText
+                  style={[styles.historyAmount, tx.amount > 0 ? styles.historyAmountCredit : styles.historyAmountDebit]}
+                  maxFontSizeMultiplier={FontScaling.button}
+                >
+                  {tx.amount > 0 ? `+${tx.amount}` : tx.amount}
+                </ThemedText>
+              </View>
+            ))}
+          </View>
+        )}
+
         {/* Info */}
         <View style={styles.infoSection}>
           <ThemedText style={styles.infoText} maxFontSizeMultiplier={FontScaling.body}>
-            1 credit = 1 document processed
+            {pricing?.summary ?? "1 credit per document"}
           </ThemedText>
           <ThemedText style={styles.infoText} maxFontSizeMultiplier={FontScaling.body}>
             Credits never expire
           </ThemedText>
+          <ThemedText style={styles.infoText} maxFontSizeMultiplier={FontScaling.body}>
+            Failed or empty documents are refunded automatically
+          </ThemedText>
         </View>
       </ScrollView>
     </ThemedView>
@@ -356,6 +402,44 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: "600",
   },
+  historySection: {
+    marginBottom: 32,
+  },
+  historyRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    borderRadius: 12,
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    marginBottom: 8,
+    gap: 12,
+  },
+  historyRowLight: {
+    backgroundColor: "#f5f5f5",
+  },
+  historyRowDark: {
+    backgroundColor: "#2C2C2E",
+  },
+  historyInfo: {
+    flex: 1,
+  },
+  historyTitle: {
+    fontSize: 15,
+  },
+  historyDate: {
+    fontSize: 12,
+    opacity: 0.5,
+  },
+  historyAmount: {
+    fontSize: 17,
+    fontWeight: "600",
+  },
+  historyAmountCredit: {
+    color: "#34C759",
+  },
+  historyAmountDebit: {
+    color: "#FF3B30",
+  },
   infoSection: {
     alignItems: "center",
     gap: 4,
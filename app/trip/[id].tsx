@@ -26,7 +26,11 @@ import { Colors, Spacing, BorderRadius, CategoryColors } from "@/constants/theme
 import { useColorScheme } from "@/hooks/use-color-scheme";
 import { useAuth } from "@/hooks/use-auth";
 import { trpc } from "@/lib/trpc";
-import type { Document } from "@/drizzle/schema";
+import type { Document, DocumentTimes, FlightSegment } from "@/drizzle/schema";
+import type { ItineraryDay } from "@/server/itinerary";
+import type { TripWarning } from "@/server/tripWarnings";
+import { formatLegRoute, getFlightLegs } from "@/shared/flightLegs";
+import { formatLocalTime } from "@/shared/timezones";
 import { FontScaling } from "@/constants/accessibility";
 import { useState, useEffect } from "react";
 import { scheduleTripNotificationsWithDocuments } from "@/hooks/use-notifications";
@@ -37,9 +41,21 @@ const categoryConfig: Record<string, { icon: any; color: string; label: string }
   accommodation: { icon: "bed.double.fill", color: CategoryColors.accommodation, label: "Accommodations" },
   medical: { icon: "cross.case.fill", color: CategoryColors.medical, label: "Medical Insurance" },
   event: { icon: "ticket.fill", color: CategoryColors.event, label: "Events" },
+  train: { icon: "tram.fill", color: CategoryColors.train, label: "Trains" },
+  bus: { icon: "bus.fill", color: CategoryColors.bus, label: "Buses" },
+  ferry: { icon: "ferry.fill", color: CategoryColors.ferry, label: "Ferries" },
+  transfer: { icon: "car.2.fill", color: CategoryColors.transfer, label: "Transfers" },
   other: { icon: "doc.fill", color: CategoryColors.other, label: "Other" },
 };
 
+// e.g. "LY 381  TLV → FCO · Sat, Mar 21, 08:15", in the departure airport's time
+function formatLeg(leg: FlightSegment): string {
+  const route = leg.flightNumber ? `${leg.flightNumber}  ${formatLegRoute(leg)}` : formatLegRoute(leg);
+  const departure = formatLocalTime(leg.departureTime);
+  if (!departure || departure === leg.departureTime) return route;
+  return `${route} · ${departure}`;
+}
+
 function CollapsibleSection({
   title,
   icon,
@@ -109,6 +125,11 @@ function CollapsibleSection({
                 >
                   {doc.title}
                 </ThemedText>
+                {doc.cancelledAt && (
+                  <ThemedText style={[styles.cancelledText, { color: colors.destructive }]} maxFontSizeMultiplier={FontScaling.badge}>
+                    Cancelled
+                  </ThemedText>
+                )}
                 {doc.subtitle && (
                   <ThemedText
                     style={[styles.documentSubtitle, { color: colors.textSecondary }]}
@@ -118,6 +139,20 @@ function CollapsibleSection({
                     {doc.subtitle}
                   </ThemedText>
                 )}
+                {doc.category === "flight" && getFlightLegs(doc).length > 1 && (
+                  <View style={styles.legList}>
+                    {getFlightLegs(doc).map((leg, index) => (
+                      <ThemedText
+                        key={index}
+                        style={[styles.legText, { color: colors.textSecondary }]}
+                        numberOfLines={1}
+                        maxFontSizeMultiplier={FontScaling.body}
+                      >
+                        {formatLeg(leg)}
+                      </ThemedText>
+                    ))}
+                  </View>
+                )}
               </View>
               <IconSymbol name="chevron.right" size={16} color={colors.textSecondary} />
             </Pressable>
@@ -128,6 +163,120 @@ function CollapsibleSection({
   );
 }
 
+// e.g. "Day 2 · Sun, Mar 22"; days outside the trip dates have no number
+function formatDayHeader(day: ItineraryDay): string {
+  const date = new Date(`${day.date}T00:00:00`).toLocaleDateString("en-US", {
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+  });
+  return day.dayNumber ? `Day ${day.dayNumber} · ${date}` : date;
+}
+
+function TimelineDay({ day, onEntryPress }: { day: ItineraryDay; onEntryPress: (documentId: number) => void }) {
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? "light"];
+
+  return (
+    <View style={styles.section}>
+      <ThemedText type="defaultSemiBold" style={styles.dayHeader} maxFontSizeMultiplier={FontScaling.label}>
+        {formatDayHeader(day)}
+      </ThemedText>
+
+      {day.entries.length === 0 && day.overnight.length === 0 && (
+        <ThemedText style={[styles.dayEmpty, { color: colors.textSecondary }]} maxFontSizeMultiplier={FontScaling.body}>
+          Nothing planned
+        </ThemedText>
+      )}
+
+      {day.entries.map((entry, index) => {
+        const config = categoryConfig[entry.category] || categoryConfig.other;
+        return (
+          <Pressable
+            key={`${entry.documentId}-${entry.kind}-${index}`}
+            style={[styles.timelineEntry, { borderColor: colors.border }]}
+            onPress={() => onEntryPress(entry.documentId)}
+          >
+            <ThemedText style={[styles.timelineTime, { color: colors.textSecondary }]} maxFontSizeMultiplier={FontScaling.badge}>
+              {entry.time ?? "—"}
+            </ThemedText>
+            <View style={[styles.timelineIcon, { backgroundColor: config.color + "20" }]}>
+              <IconSymbol name={config.icon} size={16} color={config.color} />
+            </View>
+            <View style={styles.documentInfo}>
+              <ThemedText numberOfLines={1} style={styles.documentTitle} maxFontSizeMultiplier={FontScaling.label}>
+                {entry.title}
+              </ThemedText>
+              {entry.detail && (
+                <ThemedText
+                  style={[styles.documentSubtitle, { color: colors.textSecondary }]}
+                  numberOfLines={1}
+                  maxFontSizeMultiplier={FontScaling.body}
+                >
+                  {entry.detail}
+                </ThemedText>
+              )}
+            </View>
+          </Pressable>
+        );
+      })}
+
+      {day.overnight.map((stay) => (
+        <Pressable
+          key={`overnight-${stay.documentId}`}
+          style={[styles.overnightBand, { backgroundColor: CategoryColors.accommodation + "20" }]}
+          onPress={() => onEntryPress(stay.documentId)}
+        >
+          <IconSymbol name="bed.double.fill" size={14} color={CategoryColors.accommodation} />
+          <ThemedText numberOfLines={1} style={styles.overnightText} maxFontSizeMultiplier={FontScaling.badge}>
+            Overnight · {stay.name}
+            {stay.nights > 1 ? ` (night ${stay.night} of ${stay.nights})` : ""}
+          </ThemedText>
+        </Pressable>
+      ))}
+    </View>
+  );
+}
+
+function TripWarningsBanner({
+  warnings,
+  onDocumentPress,
+}: {
+  warnings: TripWarning[];
+  onDocumentPress: (documentId: number) => void;
+}) {
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? "light"];
+  const [expanded, setExpanded] = useState(false);
+
+  return (
+    <Pressable
+      style={[styles.warningBanner, { backgroundColor: colors.warning + "15" }]}
+      onPress={() => setExpanded(!expanded)}
+    >
+      <IconSymbol name="exclamationmark.triangle.fill" size={20} color={colors.warning} />
+      <View style={styles.warningContent}>
+        <ThemedText style={styles.warningTitle} maxFontSizeMultiplier={FontScaling.body}>
+          {warnings.length === 1 ? "1 thing to check in this trip" : `${warnings.length} things to check in this trip`}
+        </ThemedText>
+        {(expanded ? warnings : warnings.slice(0, 1)).map((warning, index) => (
+          <ThemedText
+            key={`${warning.code}-${index}`}
+            style={[styles.warningText, { color: colors.textSecondary }]}
+            onPress={warning.documentIds.length > 0 ? () => onDocumentPress(warning.documentIds[0]) : undefined}
+            maxFontSizeMultiplier={FontScaling.body}
+          >
+            {warning.message}
+          </ThemedText>
+        ))}
+      </View>
+      {warnings.length > 1 && (
+        <IconSymbol name={expanded ? "chevron.up" : "chevron.down"} size={16} color={colors.textSecondary} />
+      )}
+    </Pressable>
+  );
+}
+
 function EmptyState({ onUpload }: { onUpload: () => void }) {
   const colorScheme = useColorScheme();
   const colors = Colors[colorScheme ?? "light"];
@@ -176,6 +325,18 @@ export default function TripDetailScreen() {
     { enabled: isAuthenticated && tripId > 0 }
   );
 
+  const [view, setView] = useState<"category" | "timeline">("category");
+
+  const { data: itinerary, refetch: refetchItinerary } = trpc.trips.itinerary.useQuery(
+    { id: tripId },
+    { enabled: isAuthenticated && tripId > 0 && view === "timeline" }
+  );
+
+  const { data: warnings, refetch: refetchWarnings } = trpc.trips.warnings.useQuery(
+    { id: tripId },
+    { enabled: isAuthenticated && tripId > 0 }
+  );
+
   const utils = trpc.useUtils();
 
   const unarchiveMutation = trpc.trips.unarchive.useMutation({
@@ -206,7 +367,7 @@ export default function TripDetailScreen() {
     }
 
     // Sort by category order
-    const categoryOrder = ["flight", "accommodation", "carRental", "medical", "event", "other"];
+    const categoryOrder = ["flight", "train", "bus", "ferry", "transfer", "accommodation", "carRental", "medical", "event", "other"];
     return categoryOrder
       .filter((cat) => groups[cat] && groups[cat].length > 0)
       .map((cat) => ({
@@ -223,6 +384,13 @@ export default function TripDetailScreen() {
     [router]
   );
 
+  const handleEntryPress = useCallback(
+    (documentId: number) => {
+      router.push(`/document/${documentId}` as any);
+    },
+    [router]
+  );
+
   const handleUpload = useCallback(() => {
     router.push(`/upload?tripId=${tripId}` as any);
   }, [router, tripId]);
@@ -230,10 +398,13 @@ export default function TripDetailScreen() {
   // Schedule notifications when trip and documents are loaded
   useEffect(() => {
     if (trip && documents && !trip.isArchived) {
-      const docsForNotifications = documents.map((doc) => ({
+      // Nothing to remind about for cancelled bookings
+      const docsForNotifications = documents.filter((doc) => !doc.cancelledAt).map((doc) => ({
         category: doc.category,
         documentType: doc.documentType,
         details: doc.details as any,
+        segments: doc.segments as FlightSegment[] | null,
+        times: doc.times as DocumentTimes | null,
         documentDate: doc.documentDate,
       }));
       
@@ -332,8 +503,58 @@ export default function TripDetailScreen() {
         </Pressable>
       )}
 
+      {/* Gaps and conflicts between bookings */}
+      {!trip.isArchived && warnings && warnings.length > 0 && (
+        <TripWarningsBanner warnings={warnings} onDocumentPress={handleEntryPress} />
+      )}
+
+      {/* View toggle */}
+      {groupedDocuments.length > 0 && (
+        <View style={[styles.viewToggle, { backgroundColor: colors.surface }]}>
+          {(["category", "timeline"] as const).map((option) => (
+            <Pressable
+              key={option}
+              style={[styles.viewToggleOption, view === option && { backgroundColor: colors.tint }]}
+              onPress={() => {
+                Haptics.selectionAsync();
+                setView(option);
+              }}
+            >
+              <ThemedText
+                style={[styles.viewToggleText, { color: view === option ? "#FFFFFF" : colors.textSecondary }]}
+                maxFontSizeMultiplier={FontScaling.button}
+              >
+                {option === "category" ? "By Type" : "Timeline"}
+              </ThemedText>
+            </Pressable>
+          ))}
+        </View>
+      )}
+
       {/* Content */}
-      {groupedDocuments.length > 0 ? (
+      {groupedDocuments.length > 0 && view === "timeline" ? (
+        <FlatList
+          data={itinerary?.days ?? []}
+          keyExtractor={(item) => item.date}
+          renderItem={({ item }) => <TimelineDay day={item} onEntryPress={handleEntryPress} />}
+          contentContainerStyle={[
+            styles.listContent,
+            { paddingBottom: insets.bottom + 80 },
+          ]}
+          refreshControl={
+            <RefreshControl
+              refreshing={docsLoading}
+              onRefresh={() => {
+                refetch();
+                refetchItinerary();
+                refetchWarnings();
+              }}
+            />
+          }
+          ListEmptyComponent={<ActivityIndicator style={styles.timelineLoading} color={colors.tint} />}
+          showsVerticalScrollIndicator={false}
+        />
+      ) : groupedDocuments.length > 0 ? (
         <FlatList
           data={groupedDocuments}
           keyExtractor={(item) => item.category}
@@ -351,7 +572,13 @@ export default function TripDetailScreen() {
             { paddingBottom: insets.bottom + 80 },
           ]}
           refreshControl={
-            <RefreshControl refreshing={docsLoading} onRefresh={refetch} />
+            <RefreshControl
+              refreshing={docsLoading}
+              onRefresh={() => {
+                refetch();
+                refetchWarnings();
+              }}
+            />
           }
           showsVerticalScrollIndicator={false}
         />
@@ -469,6 +696,104 @@ const styles = StyleSheet.create({
     fontSize: 13,
     lineHeight: 18,
   },
+  cancelledText: {
+    fontSize: 12,
+    fontWeight: "600",
+    lineHeight: 16,
+  },
+  legList: {
+    marginTop: 4,
+    gap: 2,
+  },
+  legText: {
+    fontSize: 12,
+    lineHeight: 16,
+  },
+  warningBanner: {
+    flexDirection: "row",
+    alignItems: "flex-start",
+    gap: Spacing.sm,
+    padding: Spacing.md,
+    marginHorizontal: Spacing.md,
+    marginTop: Spacing.md,
+    borderRadius: BorderRadius.md,
+  },
+  warningContent: {
+    flex: 1,
+    gap: 2,
+  },
+  warningTitle: {
+    fontSize: 14,
+    fontWeight: "600",
+    lineHeight: 20,
+  },
+  warningText: {
+    fontSize: 13,
+    lineHeight: 18,
+  },
+  viewToggle: {
+    flexDirection: "row",
+    marginHorizontal: Spacing.md,
+    marginTop: Spacing.md,
+    padding: 2,
+    borderRadius: BorderRadius.md,
+  },
+  viewToggleOption: {
+    flex: 1,
+    alignItems: "center",
+    paddingVertical: Spacing.xs,
+    borderRadius: BorderRadius.md - 2,
+  },
+  viewToggleText: {
+    fontSize: 14,
+    fontWeight: "600",
+    lineHeight: 20,
+  },
+  dayHeader: {
+    marginBottom: Spacing.xs,
+  },
+  dayEmpty: {
+    fontSize: 14,
+    lineHeight: 20,
+    paddingLeft: Spacing.md,
+  },
+  timelineEntry: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.sm,
+    paddingVertical: Spacing.sm,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  timelineTime: {
+    width: 44,
+    fontSize: 13,
+    lineHeight: 18,
+    fontVariant: ["tabular-nums"],
+  },
+  timelineIcon: {
+    width: 28,
+    height: 28,
+    borderRadius: 14,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  timelineLoading: {
+    marginTop: Spacing.xl,
+  },
+  overnightBand: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.xs,
+    marginTop: Spacing.xs,
+    paddingVertical: 6,
+    paddingHorizontal: Spacing.sm,
+    borderRadius: BorderRadius.sm,
+  },
+  overnightText: {
+    flex: 1,
+    fontSize: 13,
+    lineHeight: 18,
+  },
   documentType: {
     fontSize: 12,
     lineHeight: 16,
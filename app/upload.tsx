@@ -1,5 +1,5 @@
 import { useRouter, useLocalSearchParams } from "expo-router";
-import { useCallback, useState, useRef, useEffect } from "react";
+import { useCallback, useMemo, useState, useRef, useEffect } from "react";
 import {
   ActivityIndicator,
   Pressable,
@@ -22,6 +22,10 @@ import { IconSymbol } from "@/components/ui/icon-symbol";
 import { Colors, Spacing, BorderRadius } from "@/constants/theme";
 import { useColorScheme } from "@/hooks/use-color-scheme";
 import { trpc } from "@/lib/trpc";
+import { getJobStatusText, isJobActive } from "@/lib/jobs";
+import { useJobUpdates, getJobPollInterval } from "@/hooks/use-job-updates";
+import type { UploadJobResult } from "@/server/documentJobs";
+import type { TripCandidate } from "@/server/tripMatcher";
 import * as Auth from "@/lib/auth";
 import { getApiBaseUrl } from "@/constants/oauth";
 import { FontScaling } from "@/constants/accessibility";
@@ -46,10 +50,14 @@ export default function UploadScreen() {
   
   // Background processing state
   const [isBackgroundProcessing, setIsBackgroundProcessing] = useState(false);
+
+  // Parsing job started for the current file
+  const [activeJobId, setActiveJobId] = useState<number | null>(null);
   
   // Manual assignment modal state
   const [showAssignModal, setShowAssignModal] = useState(false);
   const [pendingDocumentIds, setPendingDocumentIds] = useState<number[]>([]);
+  const [tripCandidates, setTripCandidates] = useState<TripCandidate[]>([]);
   
   // Duplicate detection state
   const [showDuplicateModal, setShowDuplicateModal] = useState(false);
@@ -80,52 +88,124 @@ export default function UploadScreen() {
     },
   });
   
+  // Likely trips first, best match on top, then the rest as before
+  const assignableTrips = useMemo(() => {
+    const scores = new Map(tripCandidates.map((candidate) => [candidate.tripId, candidate.score]));
+    return [...(trips || [])].sort((a, b) => (scores.get(b.id) ?? -1) - (scores.get(a.id) ?? -1));
+  }, [trips, tripCandidates]);
+  const bestCandidate = tripCandidates.find((candidate) => trips?.some((trip) => trip.id === candidate.tripId));
+
   // Check duplicate mutation
   const checkDuplicateMutation = trpc.documents.checkDuplicate.useMutation();
 
-  const parseAndCreateMutation = trpc.documents.parseAndCreate.useMutation({
-    onSuccess: (data) => {
-      utils.documents.inbox.invalidate();
-      utils.documents.inboxCount.invalidate();
-      utils.user.getCredits.invalidate();
-      if (tripId || data.autoAssignedTripId) {
-        utils.documents.byTrip.invalidate({ tripId: tripId || data.autoAssignedTripId! });
-        utils.trips.list.invalidate();
-      }
-      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+  // Live job status (SSE on web, polling on native)
+  useJobUpdates();
+  const { data: activeJob } = trpc.jobs.get.useQuery(
+    { jobId: activeJobId ?? 0 },
+    {
+      enabled: activeJobId !== null,
+      refetchInterval: (query) => getJobPollInterval(query.state.data ? [query.state.data] : null),
+    }
+  );
+
+  const handleJobCompleted = useCallback((data: UploadJobResult) => {
+    utils.documents.inbox.invalidate();
+    utils.documents.inboxCount.invalidate();
+    utils.user.getCredits.invalidate();
+    utils.billing.history.invalidate();
+    if (tripId || data.autoAssignedTripId) {
+      utils.documents.byTrip.invalidate({ tripId: tripId || data.autoAssignedTripId! });
+      utils.trips.list.invalidate();
+    }
+    Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    
+    // If processing in background, just show a subtle notification
+    if (isBackgroundProcessing) {
+      // User already navigated away, no alert needed
+      return;
+    }
+    
+    // Check if we need manual assignment
+    if (data.needsManualAssignment && !tripId) {
+      setIsProcessing(false);
+      setPendingDocumentIds(data.documentIds);
+      setTripCandidates(data.tripCandidates ?? []);
+      setShowAssignModal(true);
+    } else if (data.outOfCredits) {
+      setIsProcessing(false);
+      Alert.alert(
+        "Out of Credits",
+        "You don't have enough credits to process this document.",
+        [{ text: "OK", onPress: () => router.back() }]
+      );
+    } else if (data.count === 0) {
+      setIsProcessing(false);
+      Alert.alert(
+        "No Bookings Found",
+        "We couldn't find any travel bookings in this document. Your credit has been refunded.",
+        [{ text: "OK", onPress: () => router.back() }]
+      );
+    } else if (data.autoAssignedTripId && data.autoAssignedTripName) {
+      const message = data.count === 1 
+        ? `Document automatically assigned to "${data.autoAssignedTripName}".`
+        : `${data.count} documents automatically assigned to "${data.autoAssignedTripName}".`;
       
-      // If processing in background, just show a subtle notification
-      if (isBackgroundProcessing) {
-        // User already navigated away, no alert needed
-        return;
-      }
+      Alert.alert(
+        "Document Processed",
+        message,
+        [{ text: "OK", onPress: () => router.back() }]
+      );
+    } else {
+      const message = data.count === 1 
+        ? "Your document has been processed and saved."
+        : `${data.count} documents were extracted and saved.`;
       
-      // Check if we need manual assignment
-      if (data.needsManualAssignment && !tripId) {
-        setIsProcessing(false);
-        setPendingDocumentIds(data.documentIds);
-        setShowAssignModal(true);
-      } else if (data.autoAssignedTripId && data.autoAssignedTripName) {
-        const message = data.count === 1 
-          ? `Document automatically assigned to "${data.autoAssignedTripName}".`
-          : `${data.count} documents automatically assigned to "${data.autoAssignedTripName}".`;
-        
-        Alert.alert(
-          "Document Processed",
-          message,
-          [{ text: "OK", onPress: () => router.back() }]
-        );
-      } else {
-        const message = data.count === 1 
-          ? "Your document has been processed and saved."
-          : `${data.count} documents were extracted and saved.`;
-        
-        Alert.alert(
-          "Document Processed",
-          message,
-          [{ text: "OK", onPress: () => router.back() }]
-        );
-      }
+      Alert.alert(
+        "Document Processed",
+        message,
+        [{ text: "OK", onPress: () => router.back() }]
+      );
+    }
+  }, [utils, tripId, isBackgroundProcessing, router]);
+
+  // Follow the job: show each stage, then handle the result
+  useEffect(() => {
+    if (!activeJob) return;
+
+    if (isJobActive(activeJob)) {
+      setProcessingStatus(getJobStatusText(activeJob));
+      return;
+    }
+
+    setActiveJobId(null);
+    if (activeJob.status === "completed") {
+      // Saved emails run as email jobs, which report only how many they saved
+      const result = activeJob.result as Partial<UploadJobResult> & { documentCount?: number };
+      handleJobCompleted({
+        documentIds: [],
+        autoAssignedTripId: null,
+        autoAssignedTripName: null,
+        needsManualAssignment: false,
+        tripCandidates: [],
+        ...result,
+        count: result.count ?? result.documentCount ?? 0,
+      });
+    } else if (!isBackgroundProcessing) {
+      setIsProcessing(false);
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+      Alert.alert(
+        "Processing Failed",
+        activeJob.status === "cancelled"
+          ? "Processing was cancelled."
+          : "We couldn't read this document. You can retry it from your inbox."
+      );
+    }
+  }, [activeJob, handleJobCompleted, isBackgroundProcessing]);
+
+  const parseAndCreateMutation = trpc.documents.parseAndCreate.useMutation({
+    onSuccess: (data) => {
+      setProcessingStatus("Queued");
+      setActiveJobId(data.jobId);
     },
     onError: (error) => {
       if (isBackgroundProcessing) {
@@ -169,10 +249,11 @@ export default function UploadScreen() {
     
     if (!pendingFileUrl || !pendingMimeType) return;
     
-    setProcessingStatus("Analyzing document with AI...");
+    setProcessingStatus("Starting analysis...");
     try {
       await parseAndCreateMutation.mutateAsync({
         fileUrl: pendingFileUrl,
+        fileName: selectedFile?.name,
         mimeType: pendingMimeType,
         tripId: tripId,
         contentHash: pendingContentHash || undefined,
@@ -190,7 +271,7 @@ export default function UploadScreen() {
     setPendingMimeType(null);
     setPendingContentHash(null);
     setDuplicateInfo(null);
-  }, [pendingFileUrl, pendingMimeType, pendingContentHash, tripId, parseAndCreateMutation, isBackgroundProcessing]);
+  }, [pendingFileUrl, pendingMimeType, pendingContentHash, selectedFile, tripId, parseAndCreateMutation, isBackgroundProcessing]);
   
   // Cancel duplicate upload
   const handleCancelDuplicate = useCallback(() => {
@@ -275,9 +356,10 @@ export default function UploadScreen() {
         return;
       }
 
-      setProcessingStatus("Analyzing document with AI...");
+      setProcessingStatus("Starting analysis...");
       await parseAndCreateMutation.mutateAsync({
         fileUrl,
+        fileName: file.name,
         mimeType: file.type,
         tripId: tripId,
         contentHash,
@@ -378,14 +460,14 @@ export default function UploadScreen() {
   const handleChooseDocument = useCallback(async () => {
     if (Platform.OS === "web") {
       if (fileInputRef.current) {
-        fileInputRef.current.accept = "application/pdf,image/*";
+        fileInputRef.current.accept = "application/pdf,image/*,.pkpass,application/vnd.apple.pkpass,.eml,message/rfc822";
         fileInputRef.current.click();
       }
       return;
     }
     try {
       const result = await DocumentPicker.getDocumentAsync({
-        type: ["application/pdf", "image/*"],
+        type: ["application/pdf", "image/*", "application/vnd.apple.pkpass", "message/rfc822"],
         copyToCacheDirectory: true,
       });
 
@@ -436,6 +518,10 @@ export default function UploadScreen() {
       accommodation: "Accommodation",
       medical: "Medical",
       event: "Event",
+      train: "Train",
+      bus: "Bus",
+      ferry: "Ferry",
+      transfer: "Transfer",
       other: "Other",
     };
     return categoryLabels[category] || category;
@@ -471,7 +557,7 @@ export default function UploadScreen() {
             {selectedFile && (
               <View style={[styles.processingFile, { backgroundColor: colors.background }]}>
                 <IconSymbol 
-                  name={selectedFile.type.includes("pdf") ? "doc.fill" : "photo.fill"} 
+                  name={/\.pkpass$/i.test(selectedFile.name) ? "ticket.fill" : /\.eml$/i.test(selectedFile.name) ? "envelope.fill" : selectedFile.type.includes("pdf") ? "doc.fill" : "photo.fill"} 
                   size={20} 
                   color={colors.tint} 
                 />
@@ -519,7 +605,7 @@ export default function UploadScreen() {
           type="file"
           style={{ display: "none" }}
           onChange={handleWebFileChange as any}
-          accept="application/pdf,image/*"
+          accept="application/pdf,image/*,.pkpass,application/vnd.apple.pkpass,.eml,message/rfc822"
         />
       )}
 
@@ -636,12 +722,14 @@ export default function UploadScreen() {
                 style={[styles.noMatchText, { color: colors.text }]}
                 maxFontSizeMultiplier={FontScaling.body}
               >
-                No matching trip found for this document's dates. Please select a trip manually or keep it in your inbox.
+                {bestCandidate
+                  ? `Probably ${bestCandidate.tripName} (${bestCandidate.score}%). Confirm below, pick another trip or keep it in your inbox.`
+                  : "No matching trip found for this document's dates. Please select a trip manually or keep it in your inbox."}
               </ThemedText>
             </View>
             
             <FlatList
-              data={trips || []}
+              data={assignableTrips}
               keyExtractor={(item) => item.id.toString()}
               contentContainerStyle={styles.tripList}
               ListHeaderComponent={
@@ -664,26 +752,37 @@ export default function UploadScreen() {
                   <IconSymbol name="chevron.right" size={20} color={colors.textSecondary} />
                 </Pressable>
               }
-              renderItem={({ item }) => (
-                <Pressable
-                  style={[styles.tripOption, { backgroundColor: colors.surface, borderColor: colors.border }]}
-                  onPress={() => handleAssignToTrip(item.id)}
-                >
-                  <View style={[styles.tripIcon, { backgroundColor: colors.tint + "15" }]}>
-                    <IconSymbol name="suitcase.fill" size={24} color={colors.tint} />
-                  </View>
-                  <View style={styles.tripInfo}>
-                    <ThemedText type="defaultSemiBold" maxFontSizeMultiplier={FontScaling.body}>{item.name}</ThemedText>
-                    <ThemedText 
-                      style={[styles.tripDates, { color: colors.textSecondary }]}
-                      maxFontSizeMultiplier={FontScaling.label}
-                    >
-                      {formatDate(item.startDate)} - {formatDate(item.endDate)}
-                    </ThemedText>
-                  </View>
-                  <IconSymbol name="chevron.right" size={20} color={colors.textSecondary} />
-                </Pressable>
-              )}
+              renderItem={({ item }) => {
+                const candidate = tripCandidates.find((c) => c.tripId === item.id);
+                return (
+                  <Pressable
+                    style={[
+                      styles.tripOption,
+                      { backgroundColor: colors.surface, borderColor: item.id === bestCandidate?.tripId ? colors.tint : colors.border },
+                    ]}
+                    onPress={() => handleAssignToTrip(item.id)}
+                  >
+                    <View style={[styles.tripIcon, { backgroundColor: colors.tint + "15" }]}>
+                      <IconSymbol name="suitcase.fill" size={24} color={colors.tint} />
+                    </View>
+                    <View style={styles.tripInfo}>
+                      <ThemedText type="defaultSemiBold" maxFontSizeMultiplier={FontScaling.body}>{item.name}</ThemedText>
+                      <ThemedText 
+                        style={[styles.tripDates, { color: colors.textSecondary }]}
+                        maxFontSizeMultiplier={FontScaling.label}
+                      >
+                        {formatDate(item.startDate)} - {formatDate(item.endDate)}
+                      </ThemedText>
+                    </View>
+                    {candidate && (
+                      <ThemedText style={[styles.tripMatch, { color: colors.tint }]} maxFontSizeMultiplier={FontScaling.badge}>
+                        {candidate.score}%
+                      </ThemedText>
+                    )}
+                    <IconSymbol name="chevron.right" size={20} color={colors.textSecondary} />
+                  </Pressable>
+                );
+              }}
               ListEmptyComponent={
                 <View style={styles.emptyTrips}>
                   <ThemedText 
@@ -774,7 +873,7 @@ export default function UploadScreen() {
               style={[styles.optionDescription, { color: colors.textSecondary }]}
               maxFontSizeMultiplier={FontScaling.label}
             >
-              Select a PDF or image file
+              Select a PDF, image, Wallet pass or saved email
             </ThemedText>
           </Pressable>
         </View>
@@ -1039,6 +1138,11 @@ const styles = StyleSheet.create({
     fontSize: 13,
     lineHeight: 18,
   },
+  tripMatch: {
+    fontSize: 13,
+    fontWeight: "600",
+    lineHeight: 18,
+  },
   emptyTrips: {
     padding: Spacing.lg,
     alignItems: "center",
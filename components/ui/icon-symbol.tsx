@@ -38,6 +38,7 @@ const MAPPING = {
   "arrow.right.arrow.left": "swap-horiz",
   "checkmark": "check",
   "checkmark.circle.fill": "check-circle",
+  "xmark.circle.fill": "cancel",
   
   // Document categories
   "airplane": "flight",
@@ -45,6 +46,12 @@ const MAPPING = {
   "bed.double.fill": "hotel",
   "cross.case.fill": "local-hospital",
   "ticket.fill": "confirmation-number",
+  "wallet.pass.fill": "account-balance-wallet",
+  "barcode": "qr-code-2",
+  "tram.fill": "train",
+  "bus.fill": "directions-bus",
+  "ferry.fill": "directions-boat",
+  "car.2.fill": "airport-shuttle",
   "doc.fill": "description",
   "folder.fill": "folder",
   
@@ -49,6 +49,10 @@ export const CategoryColors = {
   accommodation: "#34C759", // Green
   medical: "#FF3B30", // Red
   event: "#AF52DE", // Magenta
+  train: "#30B0C7", // Teal
+  bus: "#A2845E", // Brown
+  ferry: "#007AFF", // Blue
+  transfer: "#FF2D55", // Pink
   other: "#8E8E93", // Gray
 };
 
@@ -59,6 +63,10 @@ export const CategoryIcons = {
   accommodation: "bed.double.fill",
   medical: "cross.case.fill",
   event: "ticket.fill",
+  train: "tram.fill",
+  bus: "bus.fill",
+  ferry: "ferry.fill",
+  transfer: "car.2.fill",
   other: "doc.fill",
 };
 
@@ -0,0 +1,29 @@
+CREATE TABLE `job_attempts` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`jobId` int NOT NULL,
+	`attempt` int NOT NULL,
+	`status` enum('running','succeeded','failed') NOT NULL DEFAULT 'running',
+	`error` text,
+	`startedAt` timestamp NOT NULL DEFAULT (now()),
+	`finishedAt` timestamp,
+	CONSTRAINT `job_attempts_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE TABLE `jobs` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`userId` int NOT NULL,
+	`type` varchar(64) NOT NULL,
+	`status` enum('queued','running','completed','dead') NOT NULL DEFAULT 'queued',
+	`payload` json NOT NULL,
+	`progress` json,
+	`result` json,
+	`attempts` int NOT NULL DEFAULT 0,
+	`maxAttempts` int NOT NULL DEFAULT 5,
+	`runAt` timestamp NOT NULL DEFAULT (now()),
+	`lockedAt` timestamp,
+	`lastError` text,
+	`completedAt` timestamp,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	`updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `jobs_id` PRIMARY KEY(`id`)
+);
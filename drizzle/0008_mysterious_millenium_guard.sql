@@ -0,0 +1 @@
+ALTER TABLE `jobs` MODIFY COLUMN `status` enum('queued','running','completed','dead','cancelled') NOT NULL DEFAULT 'queued';
\ No newline at end of file
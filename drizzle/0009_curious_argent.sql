@@ -0,0 +1,15 @@
+CREATE TABLE `credit_transactions` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`userId` int NOT NULL,
+	`type` enum('grant','purchase','promo','parse_charge','refund','admin_adjustment') NOT NULL,
+	`amount` int NOT NULL,
+	`description` varchar(255),
+	`jobId` int,
+	`documentId` int,
+	`reference` varchar(500),
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `credit_transactions_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+INSERT INTO `credit_transactions` (`userId`, `type`, `amount`, `description`)
+SELECT `id`, 'grant', `credits`, 'Opening balance' FROM `users` WHERE `credits` <> 0;
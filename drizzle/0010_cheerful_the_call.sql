@@ -0,0 +1 @@
+ALTER TABLE `documents` ADD `validationWarnings` json;
\ No newline at end of file
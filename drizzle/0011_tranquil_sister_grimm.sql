@@ -0,0 +1 @@
+ALTER TABLE `documents` ADD `fieldConfidence` json;
\ No newline at end of file
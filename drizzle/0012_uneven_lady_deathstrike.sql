@@ -0,0 +1,11 @@
+CREATE TABLE `document_revisions` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`documentId` int NOT NULL,
+	`userId` int NOT NULL,
+	`field` varchar(100) NOT NULL,
+	`previousValue` json,
+	`newValue` json,
+	`source` enum('user','reparse') NOT NULL DEFAULT 'user',
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `document_revisions_id` PRIMARY KEY(`id`)
+);
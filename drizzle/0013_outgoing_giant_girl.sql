@@ -0,0 +1,5 @@
+ALTER TABLE `documents` MODIFY COLUMN `documentCategory` enum('flight','carRental','accommodation','medical','event','train','bus','ferry','transfer','other') NOT NULL;--> statement-breakpoint
+UPDATE `documents` SET `documentCategory` = 'transfer' WHERE `documentCategory` = 'other' AND (`documentType` LIKE '%transfer%' OR `documentType` LIKE '%shuttle%');--> statement-breakpoint
+UPDATE `documents` SET `documentCategory` = 'train' WHERE `documentCategory` = 'other' AND (`documentType` LIKE '%train%' OR `documentType` LIKE '%rail%');--> statement-breakpoint
+UPDATE `documents` SET `documentCategory` = 'bus' WHERE `documentCategory` = 'other' AND (`documentType` LIKE '%bus%' OR `documentType` LIKE '%coach%');--> statement-breakpoint
+UPDATE `documents` SET `documentCategory` = 'ferry' WHERE `documentCategory` = 'other' AND `documentType` LIKE '%ferry%';
@@ -0,0 +1 @@
+ALTER TABLE `documents` ADD `segments` json;
\ No newline at end of file
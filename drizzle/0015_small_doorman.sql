@@ -0,0 +1,2 @@
+ALTER TABLE `documents` ADD `timeZone` varchar(64);--> statement-breakpoint
+ALTER TABLE `documents` ADD `times` json;
\ No newline at end of file
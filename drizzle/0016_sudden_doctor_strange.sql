@@ -0,0 +1,2 @@
+ALTER TABLE `document_revisions` MODIFY COLUMN `source` enum('user','reparse','update') NOT NULL DEFAULT 'user';--> statement-breakpoint
+ALTER TABLE `documents` ADD `cancelledAt` timestamp;
\ No newline at end of file
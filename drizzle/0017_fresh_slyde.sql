@@ -0,0 +1,21 @@
+CREATE TABLE `document_versions` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`documentId` int NOT NULL,
+	`userId` int NOT NULL,
+	`documentType` varchar(100) NOT NULL,
+	`title` varchar(255) NOT NULL,
+	`details` json,
+	`segments` json,
+	`documentDate` timestamp,
+	`originalFileUrl` text,
+	`originalFileName` varchar(255),
+	`originalFileMimeType` varchar(100),
+	`originalEmailBody` text,
+	`emailSubject` varchar(500),
+	`source` enum('upload','email','camera') NOT NULL DEFAULT 'upload',
+	`contentHash` varchar(64),
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `document_versions_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+ALTER TABLE `documents` ADD `currentVersionId` int;
\ No newline at end of file
@@ -0,0 +1,9 @@
+CREATE TABLE `calendar_feeds` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`userId` int NOT NULL,
+	`tripId` int,
+	`token` varchar(64) NOT NULL,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `calendar_feeds_id` PRIMARY KEY(`id`),
+	CONSTRAINT `calendar_feeds_token_unique` UNIQUE(`token`)
+);
@@ -0,0 +1 @@
+ALTER TABLE `documents` ADD `calendarUid` varchar(255);
\ No newline at end of file
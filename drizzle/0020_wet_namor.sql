@@ -0,0 +1 @@
+ALTER TABLE `users` DROP COLUMN `credits`;
\ No newline at end of file
@@ -21,8 +21,6 @@ export const users = mysqlTable("users", {
   role: mysqlEnum("role", ["user", "admin"]).default("user").notNull(),
   // Unique email forwarding address for this user (e.g., trip-inbox-abc123@triphub.dev)
   forwardingEmail: varchar("forwardingEmail", { length: 320 }),
-  // Credits system: 20 free credits for new users, 1 credit = 1 document processed
-  credits: int("credits").default(20).notNull(),
   // Subscription status: null = no subscription, date = subscription expires at
   subscriptionExpiresAt: timestamp("subscriptionExpiresAt"),
   // Stripe/Google Play customer ID for payment tracking
@@ -63,6 +61,10 @@ export const documentCategoryEnum = mysqlEnum("documentCategory", [
   "accommodation",
   "medical",
   "event",
+  "train",
+  "bus",
+  "ferry",
+  "transfer",
   "other",
 ]);
 
@@ -85,6 +87,18 @@ export const documents = mysqlTable("documents", {
   
   // Parsed details as JSON (dates, times, confirmation numbers, etc.)
   details: json("details"),
+  // Every leg of a multi-leg flight booking, in travel order (FlightSegment[]).
+  // Null for single flights, whose details are the one leg.
+  segments: json("segments"),
+  // IANA zone of the document's main place, e.g. "Europe/Rome". Null when
+  // no airport or address on it could be placed.
+  timeZone: varchar("timeZone", { length: 64 }),
+  // Each parsed date-time with its zone and UTC instant (DocumentTimes)
+  times: json("times"),
+  // Problems found when validating the AI output (ValidationWarning[])
+  validationWarnings: json("validationWarnings"),
+  // How sure the AI was of each extracted field (FieldConfidenceMap)
+  fieldConfidence: json("fieldConfidence"),
   
   // Date range for auto-assignment matching
   documentDate: timestamp("documentDate"), // Primary date of the document (flight date, check-in date, etc.)
@@ -101,15 +115,24 @@ export const documents = mysqlTable("documents", {
   
   // Content hash for duplicate detection
   contentHash: varchar("contentHash", { length: 64 }),
+  // UID of the calendar invite the document was imported from, so an
+  // updated invite updates the same document
+  calendarUid: varchar("calendarUid", { length: 255 }),
   
   // Status
   isRead: boolean("isRead").default(false).notNull(),
+  // Set when a cancellation for the same booking arrives; the document is kept
+  cancelledAt: timestamp("cancelledAt"),
+  // Version whose original file and parsed values the document shows. Null
+  // until the booking is forwarded a second time.
+  currentVersionId: int("currentVersionId"),
   
   createdAt: timestamp("createdAt").defaultNow().notNull(),
   updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
 });
 
 export type Document = typeof documents.$inferSelect;
+export type DocumentCategory = Document["category"];
 export type InsertDocument = typeof documents.$inferInsert;
 
 // Type for document details JSON
@@ -126,6 +149,7 @@ export interface DocumentDetails {
   seatNumber?: string;
   terminal?: string;
   gate?: string;
+  boardingTime?: string;
   hotelName?: string;
   checkInDate?: string;
   checkOutDate?: string;
@@ -147,12 +171,105 @@ export interface DocumentDetails {
   eventTime?: string;
   venue?: string;
   venueAddress?: string; // Full address for event venue
+  operator?: string; // Train, bus or ferry company
+  serviceNumber?: string; // Train, coach or sailing number
+  departureStation?: string; // Station or port, for trains, buses and ferries
+  arrivalStation?: string;
+  platform?: string;
+  carriage?: string; // Carriage/coach on a train, deck or cabin on a ferry
+  transferCompany?: string;
+  transferDate?: string;
+  transferTime?: string;
+  // Read from wallet passes and boarding pass barcodes
+  barcode?: string; // The barcode's payload, to show it again at the gate
+  barcodeFormat?: string; // QR, PDF417, Aztec, DataMatrix or Code128
+  googleWalletUrl?: string; // "Add to Google Wallet" link the pass came from
   // Contact information extracted from documents
   phoneNumber?: string; // Phone number for calling (hotel, airline, rental company)
   emailAddress?: string; // Email address for contacting
   [key: string]: string | undefined;
 }
 
+// One leg of a flight booking with connections or a return flight
+export interface FlightSegment {
+  airline?: string;
+  flightNumber?: string;
+  departureAirport?: string;
+  arrivalAirport?: string;
+  departureTime?: string;
+  arrivalTime?: string;
+  terminal?: string; // Departure terminal
+  gate?: string;
+  seatNumber?: string;
+}
+
+// A wall-clock time from a document, resolved to the zone it happens in
+export interface ResolvedTime {
+  local: string; // As printed, e.g. "2026-03-21T07:10:00"
+  timeZone: string;
+  utc: string; // ISO instant
+}
+
+// Keyed by dotted path, e.g. "details.departureTime" or "segments.1.arrivalTime"
+export type DocumentTimes = Record<string, ResolvedTime>;
+
+/**
+ * Document revisions - one row per field changed after parsing, so the AI's
+ * original value and every correction are kept
+ */
+export const documentRevisions = mysqlTable("document_revisions", {
+  id: int("id").autoincrement().primaryKey(),
+  documentId: int("documentId").notNull(),
+  userId: int("userId").notNull(),
+  // Column name ("title", "documentDate", ...) or "details.<key>"
+  field: varchar("field", { length: 100 }).notNull(),
+  previousValue: json("previousValue"),
+  newValue: json("newValue"),
+  // user = manual edit, reparse = accepted change from re-parsing,
+  // update = change from a later email for the same booking
+  source: mysqlEnum("source", ["user", "reparse", "update"]).default("user").notNull(),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+});
+
+export type DocumentRevision = typeof documentRevisions.$inferSelect;
+export type InsertDocumentRevision = typeof documentRevisions.$inferInsert;
+
+/**
+ * Each copy of a booking the user has forwarded or uploaded (receipt,
+ * e-ticket, updated e-ticket), with its original file and what was parsed
+ * from it. The document shows one of them as current.
+ */
+export const documentVersions = mysqlTable("document_versions", {
+  id: int("id").autoincrement().primaryKey(),
+  documentId: int("documentId").notNull(),
+  userId: int("userId").notNull(),
+  documentType: varchar("documentType", { length: 100 }).notNull(),
+  title: varchar("title", { length: 255 }).notNull(),
+  details: json("details"),
+  segments: json("segments"),
+  documentDate: timestamp("documentDate"),
+  originalFileUrl: text("originalFileUrl"),
+  originalFileName: varchar("originalFileName", { length: 255 }),
+  originalFileMimeType: varchar("originalFileMimeType", { length: 100 }),
+  originalEmailBody: text("originalEmailBody"),
+  emailSubject: varchar("emailSubject", { length: 500 }),
+  source: mysqlEnum("source", ["upload", "email", "camera"]).default("upload").notNull(),
+  contentHash: varchar("contentHash", { length: 64 }),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+});
+
+export type DocumentVersion = typeof documentVersions.$inferSelect;
+export type InsertDocumentVersion = typeof documentVersions.$inferInsert;
+
+// Confidence for one extracted field, keyed by details key or "documentDate"
+export interface FieldConfidence {
+  confidence: number; // 0-1 as reported by the model
+  source?: string; // Text in the document the value was read from
+  confirmed?: boolean; // User confirmed or corrected the value
+}
+
+export type FieldConfidenceMap = Record<string, FieldConfidence>;
+
 /**
  * Promo codes table - for adding free credits
  */
@@ -200,3 +317,98 @@ export const purchases = mysqlTable("purchases", {
 
 export type Purchase = typeof purchases.$inferSelect;
 export type InsertPurchase = typeof purchases.$inferInsert;
+
+/**
+ * Credit ledger - append-only record of every credit movement.
+ * A user's balance is the sum of `amount` over their rows.
+ */
+export const creditTransactions = mysqlTable("credit_transactions", {
+  id: int("id").autoincrement().primaryKey(),
+  userId: int("userId").notNull(),
+  type: mysqlEnum("type", [
+    "grant",
+    "purchase",
+    "promo",
+    "parse_charge",
+    "refund",
+    "admin_adjustment",
+  ]).notNull(),
+  // Positive adds credits, negative spends them
+  amount: int("amount").notNull(),
+  description: varchar("description", { length: 255 }),
+  // Job the charge/refund belongs to, so failed jobs can be refunded
+  jobId: int("jobId"),
+  documentId: int("documentId"),
+  // Purchase token, promo code, etc.
+  reference: varchar("reference", { length: 500 }),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+});
+
+export type CreditTransaction = typeof creditTransactions.$inferSelect;
+export type InsertCreditTransaction = typeof creditTransactions.$inferInsert;
+
+/**
+ * Background jobs - durable queue for document parsing work
+ * (forwarded emails and uploads). Jobs survive process restarts and are
+ * retried with exponential backoff until they complete or are dead-lettered.
+ */
+export const jobs = mysqlTable("jobs", {
+  id: int("id").autoincrement().primaryKey(),
+  userId: int("userId").notNull(),
+  // Handler key, e.g. "email_attachments", "email_body", "upload"
+  type: varchar("type", { length: 64 }).notNull(),
+  // queued = waiting to run (or waiting for a retry), dead = gave up after maxAttempts,
+  // cancelled = stopped by the user before it ran
+  status: mysqlEnum("status", ["queued", "running", "completed", "dead", "cancelled"]).default("queued").notNull(),
+  // Handler input (file URLs, email fields, etc.)
+  payload: json("payload").notNull(),
+  // Handler checkpoint so retries can skip work that already succeeded
+  progress: json("progress"),
+  // Handler output once completed
+  result: json("result"),
+  attempts: int("attempts").default(0).notNull(),
+  maxAttempts: int("maxAttempts").default(5).notNull(),
+  // Earliest time the job may be picked up (used for backoff)
+  runAt: timestamp("runAt").defaultNow().notNull(),
+  // Set while a worker holds the job; stale locks are requeued
+  lockedAt: timestamp("lockedAt"),
+  lastError: text("lastError"),
+  completedAt: timestamp("completedAt"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+});
+
+export type Job = typeof jobs.$inferSelect;
+export type InsertJob = typeof jobs.$inferInsert;
+
+/**
+ * Job attempts - one row per execution of a job, for debugging failures
+ */
+export const jobAttempts = mysqlTable("job_attempts", {
+  id: int("id").autoincrement().primaryKey(),
+  jobId: int("jobId").notNull(),
+  attempt: int("attempt").notNull(),
+  status: mysqlEnum("status", ["running", "succeeded", "failed"]).default("running").notNull(),
+  error: text("error"),
+  startedAt: timestamp("startedAt").defaultNow().notNull(),
+  finishedAt: timestamp("finishedAt"),
+});
+
+export type JobAttempt = typeof jobAttempts.$inferSelect;
+export type InsertJobAttempt = typeof jobAttempts.$inferInsert;
+
+/**
+ * Calendar feeds - secret links calendar apps subscribe to, for all of a
+ * user's trips or just one. Revoking a feed deletes its row.
+ */
+export const calendarFeeds = mysqlTable("calendar_feeds", {
+  id: int("id").autoincrement().primaryKey(),
+  userId: int("userId").notNull(),
+  // Null for the feed of every trip
+  tripId: int("tripId"),
+  token: varchar("token", { length: 64 }).notNull().unique(),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+});
+
+export type CalendarFeed = typeof calendarFeeds.$inferSelect;
+export type InsertCalendarFeed = typeof calendarFeeds.$inferInsert;
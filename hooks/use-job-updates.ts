@@ -0,0 +1,103 @@
+import { useCallback, useEffect, useRef } from "react";
+import { trpc, supportsLiveUpdates } from "@/lib/trpc";
+import { isJobActive } from "@/lib/jobs";
+import { useAuth } from "@/hooks/use-auth";
+import type { JobSummary } from "@/server/documentJobs";
+
+// Polling interval while jobs are active and live updates aren't available
+const POLL_INTERVAL_MS = 3000;
+
+/**
+ * Keep job queries fresh while uploads and forwarded emails are processed.
+ *
+ * On web this listens to the `jobs.onUpdate` SSE stream; on native (no
+ * EventSource) callers poll instead via `getJobPollInterval`. Either way,
+ * when a job finishes the inbox, trips and credits are refreshed so new
+ * documents show up without a manual pull-to-refresh.
+ */
+export function useJobUpdates() {
+  const { isAuthenticated } = useAuth();
+  const utils = trpc.useUtils();
+
+  const refreshAfterCompletion = useCallback(() => {
+    utils.documents.inbox.invalidate();
+    utils.documents.inboxCount.invalidate();
+    utils.documents.byTrip.invalidate();
+    utils.trips.list.invalidate();
+    utils.user.getCredits.invalidate();
+    utils.billing.history.invalidate();
+  }, [utils]);
+
+  trpc.jobs.onUpdate.useSubscription(undefined, {
+    enabled: supportsLiveUpdates && isAuthenticated,
+    onData: (job) => {
+      utils.jobs.list.invalidate();
+      utils.jobs.get.setData({ jobId: job.id }, (previous) =>
+        previous ? { ...previous, ...job } : previous
+      );
+      if (job.status === "completed") {
+        refreshAfterCompletion();
+      }
+    },
+    onError: (error) => {
+      console.warn("[Jobs] Live updates unavailable:", error.message);
+    },
+  });
+
+  return { refreshAfterCompletion };
+}
+
+/**
+ * refetchInterval for job queries: poll only while something is in flight
+ * and there is no live stream to push changes.
+ */
+export function getJobPollInterval(
+  jobs: Pick<JobSummary, "status">[] | null | undefined
+): number | false {
+  if (supportsLiveUpdates || !jobs) return false;
+  return jobs.some(isJobActive) ? POLL_INTERVAL_MS : false;
+}
+
+/**
+ * Recent jobs for the inbox: everything still in flight, failures from the
+ * last two days, and anything that finished in the last few minutes.
+ */
+export function useRecentJobs() {
+  const { isAuthenticated } = useAuth();
+  const { refreshAfterCompletion } = useJobUpdates();
+
+  const query = trpc.jobs.list.useQuery(
+    { limit: 20 },
+    {
+      enabled: isAuthenticated,
+      refetchInterval: (q) => getJobPollInterval(q.state.data),
+    }
+  );
+
+  // When polling, refresh documents as soon as an active job completes
+  const activeIds = useRef<Set<number>>(new Set());
+  useEffect(() => {
+    if (!query.data) return;
+    const finished = query.data.some(
+      (job) => activeIds.current.has(job.id) && job.status === "completed"
+    );
+    activeIds.current = new Set(query.data.filter(isJobActive).map((job) => job.id));
+    if (finished && !supportsLiveUpdates) {
+      refreshAfterCompletion();
+    }
+  }, [query.data, refreshAfterCompletion]);
+
+  const now = Date.now();
+  const jobs = (query.data ?? []).filter((job) => {
+    if (isJobActive(job)) return true;
+    if (job.status === "dead") {
+      return now - new Date(job.createdAt).getTime() < 48 * 60 * 60 * 1000;
+    }
+    if (job.status === "completed" && job.completedAt) {
+      return now - new Date(job.completedAt).getTime() < 5 * 60 * 1000;
+    }
+    return false;
+  });
+
+  return { ...query, jobs };
+}
@@ -12,7 +12,9 @@ import {
   cancelAllTripNotifications,
   TripDocumentStatus,
 } from "@/lib/notifications";
-import type { DocumentDetails } from "@/drizzle/schema";
+import type { DocumentDetails, DocumentTimes, FlightSegment } from "@/drizzle/schema";
+import { formatLegRoute, getFlightLegs } from "@/shared/flightLegs";
+import { getLocalDay, localToUtc } from "@/shared/timezones";
 
 /**
  * Hook for managing trip notifications
@@ -81,6 +83,10 @@ export function useScheduleTripNotifications() {
         flight: false,
         accommodation: false,
         carRental: false,
+        train: false,
+        bus: false,
+        ferry: false,
+        transfer: false,
         medical: false,
         event: false,
         other: false,
@@ -128,6 +134,8 @@ export async function scheduleTripNotificationsWithDocuments(
     category: string;
     documentType: string;
     details: DocumentDetails | null;
+    segments?: FlightSegment[] | null;
+    times?: DocumentTimes | null;
     documentDate: Date | null;
   }>
 ): Promise<void> {
@@ -145,6 +153,10 @@ export async function scheduleTripNotificationsWithDocuments(
     flight: false,
     accommodation: false,
     carRental: false,
+    train: false,
+    bus: false,
+    ferry: false,
+    transfer: false,
     medical: false,
     event: false,
     other: false,
@@ -168,12 +180,18 @@ export async function scheduleTripNotificationsWithDocuments(
   await schedule7DayNotification(status);
   await schedule1DayNotification(status, categories.flight);
 
-  // Schedule flight check-in reminders
+  // Schedule flight check-in reminders, one per departure of multi-leg bookings
   const flights = documents.filter((d) => d.category === "flight");
   for (const flight of flights) {
-    if (flight.details?.departureTime) {
-      const departureTime = new Date(flight.details.departureTime);
-      const flightTitle = flight.documentType || "your flight";
+    const legs = getFlightLegs(flight);
+    for (const [index, leg] of legs.entries()) {
+      if (!leg.departureTime) continue;
+      // The resolved instant when the departure airport's zone is known
+      const resolved = flight.times?.[flight.segments?.length ? `segments.${index}.departureTime` : "details.departureTime"];
+      const departureTime = new Date(resolved?.utc ?? leg.departureTime);
+      const flightTitle = legs.length > 1
+        ? `${leg.flightNumber ? `${leg.flightNumber} ` : ""}${formatLegRoute(leg)}`
+        : flight.documentType || "your flight";
       await scheduleFlightCheckinReminder(tripId, tripName, flightTitle, departureTime);
     }
   }
@@ -182,10 +200,15 @@ export async function scheduleTripNotificationsWithDocuments(
   const carRentals = documents.filter((d) => d.category === "carRental");
   for (const rental of carRentals) {
     if (rental.details?.dropoffTime) {
-      const dropoffTime = new Date(rental.details.dropoffTime);
+      const resolved = rental.times?.["details.dropoffTime"];
+      const dropoffTime = new Date(resolved?.utc ?? rental.details.dropoffTime);
       const carCompany = rental.details.carCompany || "rental car";
       const dropoffLocation = rental.details.dropoffLocation || "";
-      await scheduleCarReturnReminder(tripId, tripName, carCompany, dropoffTime, dropoffLocation);
+      // 8 AM on the return day where the car is returned
+      const remindAt = resolved
+        ? localToUtc(`${getLocalDay(dropoffTime, resolved.timeZone)}T08:00`, resolved.timeZone) ?? undefined
+        : undefined;
+      await scheduleCarReturnReminder(tripId, tripName, carCompany, dropoffTime, dropoffLocation, remindAt);
     }
   }
 }
@@ -0,0 +1,158 @@
+import type { DocumentRevision } from "@/drizzle/schema";
+
+export const DOCUMENT_CATEGORIES = [
+  { value: "flight", label: "Flight" },
+  { value: "accommodation", label: "Accommodation" },
+  { value: "carRental", label: "Car Rental" },
+  { value: "event", label: "Event" },
+  { value: "train", label: "Train" },
+  { value: "bus", label: "Bus" },
+  { value: "ferry", label: "Ferry" },
+  { value: "transfer", label: "Transfer" },
+  { value: "medical", label: "Medical Insurance" },
+  { value: "other", label: "Other" },
+] as const;
+
+export type DocumentCategory = (typeof DOCUMENT_CATEGORIES)[number]["value"];
+
+// Labels for detail keys, as shown on the document screen
+export const DETAIL_FIELD_LABELS: Record<string, string> = {
+  confirmationNumber: "Confirmation #",
+  airline: "Airline",
+  flightNumber: "Flight Number",
+  departureAirport: "Departure",
+  arrivalAirport: "Arrival",
+  departureAddress: "Departure Address",
+  arrivalAddress: "Arrival Address",
+  departureTime: "Departure Time",
+  arrivalTime: "Arrival Time",
+  seatNumber: "Seat",
+  terminal: "Terminal",
+  gate: "Gate",
+  boardingTime: "Boarding Time",
+  hotelName: "Hotel",
+  address: "Address",
+  checkInDate: "Check-in",
+  checkOutDate: "Check-out",
+  roomType: "Room Type",
+  numberOfNights: "Nights",
+  carCompany: "Car Company",
+  pickupLocation: "Pickup Location",
+  pickupAddress: "Pickup Address",
+  dropoffLocation: "Dropoff Location",
+  dropoffAddress: "Dropoff Address",
+  pickupTime: "Pickup Time",
+  dropoffTime: "Dropoff Time",
+  vehicleType: "Vehicle Type",
+  insuranceProvider: "Insurance Provider",
+  policyNumber: "Policy Number",
+  coveragePeriod: "Coverage Period",
+  eventName: "Event",
+  eventDate: "Event Date",
+  eventTime: "Event Time",
+  venue: "Venue",
+  venueAddress: "Venue Address",
+  operator: "Operator",
+  serviceNumber: "Service Number",
+  departureStation: "From",
+  arrivalStation: "To",
+  platform: "Platform",
+  carriage: "Carriage",
+  transferCompany: "Transfer Company",
+  transferDate: "Transfer Date",
+  transferTime: "Transfer Time",
+  activityName: "Activity",
+  location: "Location",
+  startDate: "Start Date",
+  endDate: "End Date",
+  duration: "Duration",
+  phoneNumber: "Phone",
+  emailAddress: "Email",
+  barcode: "Barcode",
+  barcodeFormat: "Barcode Format",
+  googleWalletUrl: "Google Wallet Link",
+};
+
+const CONTACT_FIELDS = ["confirmationNumber", "phoneNumber", "emailAddress"];
+
+const TRANSPORT_FIELDS = [
+  "operator",
+  "serviceNumber",
+  "departureStation",
+  "arrivalStation",
+  "departureTime",
+  "arrivalTime",
+  "platform",
+  "carriage",
+  "seatNumber",
+];
+
+// Detail fields offered when editing each category, in display order
+const CATEGORY_FIELDS: Record<DocumentCategory, string[]> = {
+  flight: [
+    "airline",
+    "flightNumber",
+    "departureAirport",
+    "arrivalAirport",
+    "departureTime",
+    "arrivalTime",
+    "seatNumber",
+    "terminal",
+    "gate",
+  ],
+  accommodation: ["hotelName", "address", "checkInDate", "checkOutDate", "roomType"],
+  carRental: ["carCompany", "pickupLocation", "pickupAddress", "dropoffLocation", "dropoffAddress", "pickupTime", "dropoffTime", "vehicleType"],
+  medical: ["insuranceProvider", "policyNumber", "coveragePeriod"],
+  event: ["eventName", "eventDate", "eventTime", "venue", "venueAddress"],
+  train: TRANSPORT_FIELDS,
+  bus: TRANSPORT_FIELDS,
+  ferry: TRANSPORT_FIELDS,
+  transfer: ["transferCompany", "pickupLocation", "dropoffLocation", "transferDate", "transferTime", "vehicleType"],
+  other: ["activityName", "location", "startDate", "endDate", "duration"],
+};
+
+/**
+ * Detail keys to show on the edit screen: the category's usual fields, then
+ * any other key the document already has
+ */
+export function getEditableDetailFields(category: string, details: Record<string, unknown>): string[] {
+  const fields = [...(CATEGORY_FIELDS[category as DocumentCategory] ?? CATEGORY_FIELDS.other), ...CONTACT_FIELDS];
+  const extra = Object.keys(details).filter((key) => !fields.includes(key));
+  return [...fields, ...extra];
+}
+
+export function getDetailFieldLabel(key: string): string {
+  return DETAIL_FIELD_LABELS[key] ?? key.replace(/([A-Z])/g, " $1").replace(/^./, (c) => c.toUpperCase());
+}
+
+/**
+ * Label for a revision's field, e.g. "details.flightNumber" → "Flight Number"
+ */
+export function getRevisionFieldLabel(field: DocumentRevision["field"]): string {
+  switch (field) {
+    case "title":
+      return "Title";
+    case "subtitle":
+      return "Subtitle";
+    case "category":
+      return "Category";
+    case "documentType":
+      return "Document Type";
+    case "documentDate":
+      return "Date";
+    default:
+      return getDetailFieldLabel(field.replace(/^details\./, ""));
+  }
+}
+
+/**
+ * Revision value as shown in the history, with dates trimmed to the day
+ */
+export function formatRevisionValue(field: string, value: unknown): string {
+  if (value === null || value === undefined || value === "") return "(empty)";
+  if (field === "documentDate") return String(value).slice(0, 10);
+  if (field === "category") {
+    return DOCUMENT_CATEGORIES.find((category) => category.value === value)?.label ?? String(value);
+  }
+  return String(value);
+}
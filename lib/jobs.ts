@@ -0,0 +1,58 @@
+import type { JobSummary } from "@/server/documentJobs";
+
+export type JobStatusInfo = Pick<
+  JobSummary,
+  "status" | "progress" | "result" | "attempts" | "maxAttempts" | "lastError"
+>;
+
+/**
+ * Whether the job is still waiting for or doing work
+ */
+export function isJobActive(job: Pick<JobSummary, "status">): boolean {
+  return job.status === "queued" || job.status === "running";
+}
+
+/**
+ * Number of documents a job created (or has created so far)
+ */
+export function getJobDocumentCount(job: JobStatusInfo): number {
+  return job.result?.documentCount ?? job.result?.count ?? job.progress?.documentCount ?? 0;
+}
+
+/**
+ * One-line status shown while a file or forwarded email is processed,
+ * e.g. "Queued" → "Analyzing with AI..." → "3 documents created"
+ */
+export function getJobStatusText(job: JobStatusInfo): string {
+  switch (job.status) {
+    case "queued":
+      if (job.attempts > 0) {
+        return `Retrying soon (attempt ${job.attempts + 1} of ${job.maxAttempts})`;
+      }
+      return "Queued";
+    case "running": {
+      const progress = job.progress;
+      if (progress?.stage === "saving") {
+        return progress.documentCount > 0
+          ? `Saving documents (${progress.documentCount} so far)...`
+          : "Saving documents...";
+      }
+      if (progress?.filesTotal && progress.filesTotal > 1) {
+        return `Analyzing with AI (file ${Math.min((progress.filesDone ?? 0) + 1, progress.filesTotal)} of ${progress.filesTotal})...`;
+      }
+      return "Analyzing with AI...";
+    }
+    case "completed": {
+      const count = getJobDocumentCount(job);
+      if (job.result?.outOfCredits) {
+        return count > 0 ? `${count} created, then ran out of credits` : "Out of credits";
+      }
+      if (count === 0) return "No bookings found";
+      return count === 1 ? "1 document created" : `${count} documents created`;
+    }
+    case "dead":
+      return "Processing failed";
+    case "cancelled":
+      return "Cancelled";
+  }
+}
@@ -25,13 +25,20 @@ const CATEGORY_LABELS: Record<string, string> = {
   flight: "Flights",
   accommodation: "Hotels",
   carRental: "Car Rental",
+  train: "Trains",
+  bus: "Buses",
+  ferry: "Ferries",
+  transfer: "Transfers",
   medical: "Insurance",
   event: "Activities",
   other: "Other",
 };
 
 // All categories to check
-const ALL_CATEGORIES = ["flight", "accommodation", "carRental", "medical", "event", "other"];
+const ALL_CATEGORIES = ["flight", "accommodation", "carRental", "train", "bus", "ferry", "transfer", "medical", "event", "other"];
+
+// Only listed when the trip has one, since most trips don't need them
+const OPTIONAL_CATEGORIES = new Set(["train", "bus", "ferry", "transfer"]);
 
 export interface TripDocumentStatus {
   tripId: number;
@@ -144,6 +151,7 @@ function buildStatusOverview(status: TripDocumentStatus): string {
   
   for (const category of ALL_CATEGORIES) {
     const hasDoc = status.categories[category] || false;
+    if (!hasDoc && OPTIONAL_CATEGORIES.has(category)) continue;
     const icon = hasDoc ? "✅" : "⚪";
     const label = CATEGORY_LABELS[category] || category;
     lines.push(`${icon} ${label}`);
@@ -313,21 +321,26 @@ export async function scheduleFlightCheckinReminder(
 }
 
 /**
- * Schedule car rental return reminder (morning of return day)
+ * Schedule car rental return reminder (morning of return day). Pass
+ * `remindAt` for 8 AM where the car is returned; without it the device's
+ * own zone is used.
  */
 export async function scheduleCarReturnReminder(
   tripId: number,
   tripName: string,
   carCompany: string,
   dropoffTime: Date,
-  dropoffLocation: string
+  dropoffLocation: string,
+  remindAt?: Date
 ): Promise<string | null> {
   const enabled = await areNotificationsEnabled();
   if (!enabled) return null;
 
   const now = new Date();
-  const reminderTime = new Date(dropoffTime);
-  reminderTime.setHours(8, 0, 0, 0); // 8 AM on return day
+  const reminderTime = new Date(remindAt ?? dropoffTime);
+  if (!remindAt) {
+    reminderTime.setHours(8, 0, 0, 0); // 8 AM on return day
+  }
 
   // Don't schedule if already past
   if (reminderTime <= now) return null;
@@ -1,5 +1,5 @@
 import { createTRPCReact } from "@trpc/react-query";
-import { httpBatchLink } from "@trpc/client";
+import { httpBatchLink, httpSubscriptionLink, splitLink } from "@trpc/client";
 import superjson from "superjson";
 import type { AppRouter } from "@/server/routers";
 import { getApiBaseUrl } from "@/constants/oauth";
@@ -14,6 +14,12 @@ import * as Auth from "@/lib/auth";
  */
 export const trpc = createTRPCReact<AppRouter>();
 
+/**
+ * Subscriptions are streamed over SSE, which needs EventSource (web only;
+ * React Native doesn't ship it). Callers fall back to polling without it.
+ */
+export const supportsLiveUpdates = typeof EventSource !== "undefined";
+
 /**
  * Creates the tRPC client with proper configuration.
  * Call this once in your app's root layout.
@@ -21,21 +27,30 @@ export const trpc = createTRPCReact<AppRouter>();
 export function createTRPCClient() {
   return trpc.createClient({
     links: [
-      httpBatchLink({
-        url: `${getApiBaseUrl()}/api/trpc`,
-        // tRPC v11: transformer MUST be inside httpBatchLink, not at root
-        transformer: superjson,
-        async headers() {
-          const token = await Auth.getSessionToken();
-          return token ? { Authorization: `Bearer ${token}` } : {};
-        },
-        // Custom fetch to include credentials for cookie-based auth
-        fetch(url, options) {
-          return fetch(url, {
-            ...options,
-            credentials: "include",
-          });
-        },
+      splitLink({
+        condition: (op) => op.type === "subscription",
+        true: httpSubscriptionLink({
+          url: `${getApiBaseUrl()}/api/trpc`,
+          transformer: superjson,
+          // EventSource can't send headers, so rely on the session cookie
+          eventSourceOptions: { withCredentials: true },
+        }),
+        false: httpBatchLink({
+          url: `${getApiBaseUrl()}/api/trpc`,
+          // tRPC v11: transformer MUST be inside httpBatchLink, not at root
+          transformer: superjson,
+          async headers() {
+            const token = await Auth.getSessionToken();
+            return token ? { Authorization: `Bearer ${token}` } : {};
+          },
+          // Custom fetch to include credentials for cookie-based auth
+          fetch(url, options) {
+            return fetch(url, {
+              ...options,
+              credentials: "include",
+            });
+          },
+        }),
       }),
     ],
   });
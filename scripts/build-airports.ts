@@ -0,0 +1,58 @@
+/**
+ * Airport database builder
+ *
+ *   pnpm airports:build <airports.json>
+ *
+ * Regenerates shared/airports.json from the OpenFlights airport list in
+ * JSON form (the `airports.json` of the `airport-data` npm package). Only
+ * airports with an IATA code are kept. Airports that opened after the
+ * dataset, or whose entries need fixing, are patched in from EXTRA_AIRPORTS.
+ */
+import { readFileSync, writeFileSync } from "fs";
+import type { AirportRow } from "../shared/airports";
+
+const OUTPUT = "shared/airports.json";
+
+interface OpenFlightsAirport {
+  name: string;
+  city: string;
+  country: string;
+  iata: string | null;
+  latitude: number;
+  longitude: number;
+  tz: string | null;
+}
+
+// [name, city, country, latitude, longitude, timeZone]
+const EXTRA_AIRPORTS: Record<string, AirportRow> = {
+  ETM: ["Ramon International Airport", "Eilat", "Israel", 29.7236, 35.0114, "Asia/Jerusalem"],
+  IST: ["Istanbul Airport", "Istanbul", "Turkey", 41.2753, 28.7519, "Europe/Istanbul"],
+  ISL: ["Istanbul Atatürk Airport", "Istanbul", "Turkey", 40.9769, 28.8146, "Europe/Istanbul"],
+  BER: ["Berlin Brandenburg Airport", "Berlin", "Germany", 52.3667, 13.5033, "Europe/Berlin"],
+  TLV: ["Ben Gurion Airport", "Tel Aviv", "Israel", 32.0114, 34.8867, "Asia/Jerusalem"],
+};
+
+const round = (value: number) => Math.round(value * 10000) / 10000;
+
+function main() {
+  const input = process.argv[2];
+  if (!input) throw new Error("Usage: pnpm airports:build <airports.json>");
+
+  const source = JSON.parse(readFileSync(input, "utf8")) as OpenFlightsAirport[];
+  const rows: Record<string, AirportRow> = {};
+  for (const airport of source) {
+    if (!airport.iata || !/^[A-Z]{3}$/.test(airport.iata)) continue;
+    const timeZone = airport.tz && airport.tz !== "\\N" ? airport.tz : null;
+    rows[airport.iata] = [airport.name, airport.city, airport.country, round(airport.latitude), round(airport.longitude), timeZone];
+  }
+  Object.assign(rows, EXTRA_AIRPORTS);
+
+  // One airport per line keeps updates reviewable
+  const lines = Object.keys(rows)
+    .sort()
+    .map((code) => `  ${JSON.stringify(code)}: ${JSON.stringify(rows[code])}`);
+  writeFileSync(OUTPUT, `{\n${lines.join(",\n")}\n}\n`);
+  console.log(`Wrote ${lines.length} airports to ${OUTPUT}`);
+}
+
+main();
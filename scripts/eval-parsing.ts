@@ -0,0 +1,95 @@
+/**
+ * Parsing evaluation CLI
+ *
+ *   pnpm eval:parsing                          score the corpus with the configured LLM provider
+ *   pnpm eval:parsing --save runs/new.json     ...and keep the parsed output
+ *   pnpm eval:parsing --baseline runs/old.json ...and compare with an earlier run
+ *   pnpm eval:parsing --diff a.json b.json     compare two saved runs without parsing
+ *
+ * Options: --corpus <dir> (default tests/eval/corpus), --label <name>.
+ * Replay the recorded responses offline with
+ *   LLM_PROVIDER=fixture LLM_FIXTURES_DIR=tests/eval/recordings pnpm eval:parsing
+ */
+import "dotenv/config";
+import { mkdirSync, readFileSync, writeFileSync } from "fs";
+import path from "path";
+import { ENV } from "../server/_core/env";
+import {
+  buildReport,
+  diffRuns,
+  formatComparison,
+  formatReport,
+  loadCorpus,
+  runEval,
+  type EvalRun,
+} from "../server/parsingEval";
+
+function parseArgs(argv: string[]) {
+  const options: { corpus: string; save?: string; label?: string; baseline?: string; diff?: [string, string] } = {
+    corpus: "tests/eval/corpus",
+  };
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    const value = () => {
+      const next = argv[++i];
+      if (!next) throw new Error(`${arg} needs a value`);
+      return next;
+    };
+    switch (arg) {
+      case "--corpus":
+        options.corpus = value();
+        break;
+      case "--save":
+        options.save = value();
+        break;
+      case "--label":
+        options.label = value();
+        break;
+      case "--baseline":
+        options.baseline = value();
+        break;
+      case "--diff":
+        options.diff = [value(), value()];
+        break;
+      default:
+        throw new Error(`Unknown option ${arg}`);
+    }
+  }
+  return options;
+}
+
+function readRun(file: string): EvalRun {
+  return JSON.parse(readFileSync(file, "utf8")) as EvalRun;
+}
+
+async function main() {
+  const options = parseArgs(process.argv.slice(2));
+  const cases = loadCorpus(options.corpus);
+
+  if (options.diff) {
+    const [before, after] = options.diff.map(readRun);
+    console.log(formatComparison(buildReport(cases, before), buildReport(cases, after), diffRuns(cases, before, after)));
+    return;
+  }
+
+  const provider = ENV.llmProvider || "forge";
+  const run = await runEval(cases, { label: options.label ?? provider, provider });
+  const report = buildReport(cases, run);
+  console.log(formatReport(report));
+
+  if (options.save) {
+    mkdirSync(path.dirname(options.save), { recursive: true });
+    writeFileSync(options.save, `${JSON.stringify(run, null, 2)}\n`);
+    console.log(`\nSaved run to ${options.save}`);
+  }
+
+  if (options.baseline) {
+    const baseline = readRun(options.baseline);
+    console.log(`\n${formatComparison(buildReport(cases, baseline), report, diffRuns(cases, baseline, run))}`);
+  }
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -7,4 +7,17 @@ export const ENV = {
   isProduction: process.env.NODE_ENV === "production",
   forgeApiUrl: process.env.BUILT_IN_FORGE_API_URL ?? "",
   forgeApiKey: process.env.BUILT_IN_FORGE_API_KEY ?? "",
+  // Hosts stored files are served from, comma-separated (see server/storage.ts)
+  storageFileHosts: process.env.STORAGE_FILE_HOSTS ?? "",
+  // LLM backend for invokeLLM (see server/_core/llmProviders.ts)
+  llmProvider: process.env.LLM_PROVIDER ?? "",
+  openaiBaseUrl: process.env.OPENAI_BASE_URL ?? "",
+  openaiApiKey: process.env.OPENAI_API_KEY ?? "",
+  openaiModel: process.env.OPENAI_MODEL ?? "",
+  llmFixturesDir: process.env.LLM_FIXTURES_DIR ?? "",
+  llmFixtureRecord: process.env.LLM_FIXTURE_RECORD ?? "",
+  // Credit pricing for document parsing (see server/pricing.ts)
+  creditPricingMode: process.env.CREDIT_PRICING_MODE ?? "",
+  creditPricingUnitCost: process.env.CREDIT_PRICING_UNIT_COST ?? "",
+  creditPricingMaxPerFile: process.env.CREDIT_PRICING_MAX_PER_FILE ?? "",
 };
@@ -9,12 +9,17 @@ import { registerOAuthRoutes } from "./oauth";
 import { appRouter } from "../routers";
 import { createContext } from "./context";
 import mailgunWebhook from "../webhooks/mailgun";
+import { startJobWorker } from "../jobQueue";
+import { registerDocumentJobHandlers } from "../documentJobs";
 import { storagePut } from "../storage";
+import { renderCalendarFeed } from "../calendarExport";
+import { isWalletPass } from "../walletPass";
+import { isEmailMessage } from "../emailMessage";
 import { nanoid } from "nanoid";
 import { createHash } from "crypto";
-import { COOKIE_NAME } from "../../shared/const";
+import { COOKIE_NAME, EMAIL_MESSAGE_MIME_TYPE, WALLET_PASS_MIME_TYPE } from "../../shared/const";
 import { sdk } from "./sdk";
-import { getDb } from "../db";
+import { getDb, getUserCredits } from "../db";
 import { users } from "../../drizzle/schema";
 import { eq } from "drizzle-orm";
 
@@ -101,7 +106,6 @@ async function startServer() {
         email: users.email,
         forwardingEmail: users.forwardingEmail,
         expoPushToken: users.expoPushToken,
-        credits: users.credits,
         createdAt: users.createdAt,
         updatedAt: users.updatedAt,
       }).from(users).where(eq(users.forwardingEmail, email)).limit(1);
@@ -118,7 +122,7 @@ async function startServer() {
         forwardingEmail: user.forwardingEmail,
         hasToken: !!user.expoPushToken,
         tokenPreview: user.expoPushToken ? `${user.expoPushToken.substring(0, 40)}...` : null,
-        credits: user.credits,
+        credits: (await getUserCredits(user.id)).credits,
         createdAt: user.createdAt,
         updatedAt: user.updatedAt,
       });
@@ -470,8 +474,14 @@ async function startServer() {
       const ext = file.originalname.split(".").pop() || "bin";
       const fileKey = `documents/${user.id}/${nanoid()}.${ext}`;
 
+      // Passes and saved emails are stored under their own type, whatever
+      // type the picker reported, so opening a pass offers to add it to Wallet
+      let mimeType = file.mimetype;
+      if (isWalletPass(file.mimetype, file.originalname)) mimeType = WALLET_PASS_MIME_TYPE;
+      else if (isEmailMessage(file.mimetype, file.originalname)) mimeType = EMAIL_MESSAGE_MIME_TYPE;
+
       // Upload to S3
-      const result = await storagePut(fileKey, file.buffer, file.mimetype);
+      const result = await storagePut(fileKey, file.buffer, mimeType);
 
       res.json({ url: result.url, key: result.key, contentHash });
     } catch (error: any) {
@@ -480,6 +490,26 @@ async function startServer() {
     }
   });
 
+  // Calendar feed for calendar apps; the secret token in the URL is the only auth
+  app.get("/api/calendar/:token.ics", async (req, res) => {
+    try {
+      const feed = await renderCalendarFeed(req.params.token);
+      if (!feed) {
+        res.status(404).json({ error: "Calendar not found" });
+        return;
+      }
+
+      const fileName = feed.name.replace(/[^A-Za-z0-9 _-]+/g, "").trim() || "TripDocHub";
+      res.setHeader("Content-Type", "text/calendar; charset=utf-8");
+      res.setHeader("Content-Disposition", `inline; filename="${fileName}.ics"`);
+      res.setHeader("Cache-Control", "private, max-age=300");
+      res.send(feed.calendar);
+    } catch (error: any) {
+      console.error("Calendar feed error:", error);
+      res.status(500).json({ error: error.message || "Calendar export failed" });
+    }
+  });
+
   // Mailgun webhook for email forwarding
   app.use("/api/webhooks/mailgun", mailgunWebhook);
 
@@ -501,6 +531,10 @@ async function startServer() {
   server.listen(port, () => {
     console.log(`[api] server listening on port ${port}`);
   });
+
+  // Background worker for email/upload parsing jobs
+  registerDocumentJobHandlers();
+  startJobWorker();
 }
 
 startServer().catch(console.error);
@@ -1,4 +1,4 @@
-import { ENV } from "./env";
+import { getLLMProvider } from "./llmProviders";
 
 export type Role = "system" | "user" | "assistant" | "tool" | "function";
 
@@ -130,7 +130,17 @@ const normalizeContentPart = (part: MessageContent): TextContent | ImageContent
   throw new Error("Unsupported message content part");
 };
 
-const normalizeMessage = (message: Message) => {
+/**
+ * A message as sent to the provider, with content parts normalized
+ */
+export type ChatMessage = {
+  role: Role;
+  content: string | Array<TextContent | ImageContent | FileContent>;
+  name?: string;
+  tool_call_id?: string;
+};
+
+const normalizeMessage = (message: Message): ChatMessage => {
   const { role, name, tool_call_id } = message;
 
   if (role === "tool" || role === "function") {
@@ -201,17 +211,6 @@ const normalizeToolChoice = (
   return toolChoice;
 };
 
-const resolveApiUrl = () =>
-  ENV.forgeApiUrl && ENV.forgeApiUrl.trim().length > 0
-    ? `${ENV.forgeApiUrl.replace(/\/$/, "")}/v1/chat/completions`
-    : "https://forge.manus.im/v1/chat/completions";
-
-const assertApiKey = () => {
-  if (!ENV.forgeApiKey) {
-    throw new Error("OPENAI_API_KEY is not configured");
-  }
-};
-
 const normalizeResponseFormat = ({
   responseFormat,
   response_format,
@@ -252,9 +251,27 @@ const normalizeResponseFormat = ({
   };
 };
 
-export async function invokeLLM(params: InvokeParams): Promise<InvokeResult> {
-  assertApiKey();
+/**
+ * Provider-neutral chat completion request: what `invokeLLM` sends once the
+ * messages, tool choice and response format are normalized. Providers add
+ * their own model name and limits.
+ */
+export type ChatCompletionRequest = {
+  messages: ChatMessage[];
+  tools?: Tool[];
+  tool_choice?: "none" | "auto" | ToolChoiceExplicit;
+  response_format?: { type: "json_schema"; json_schema: JsonSchema } | { type: "text" } | { type: "json_object" };
+};
 
+/**
+ * A backend that answers chat completion requests (see ./llmProviders)
+ */
+export interface LLMProvider {
+  name: string;
+  complete(request: ChatCompletionRequest): Promise<InvokeResult>;
+}
+
+export async function invokeLLM(params: InvokeParams): Promise<InvokeResult> {
   const {
     messages,
     tools,
@@ -266,30 +283,19 @@ export async function invokeLLM(params: InvokeParams): Promise<InvokeResult> {
     response_format,
   } = params;
 
-  const payload: Record<string, unknown> = {
-    model: "gemini-2.5-flash",
+  const request: ChatCompletionRequest = {
     messages: messages.map(normalizeMessage),
   };
 
   if (tools && tools.length > 0) {
-    payload.tools = tools;
+    request.tools = tools;
   }
 
   const normalizedToolChoice = normalizeToolChoice(toolChoice || tool_choice, tools);
   if (normalizedToolChoice) {
-    payload.tool_choice = normalizedToolChoice;
+    request.tool_choice = normalizedToolChoice;
   }
 
-  payload.max_tokens = 32768;
-  // AUDIT FIX: Increased thinking budget from 128 to 2048 tokens.
-  // 128 tokens was far too low for complex multi-section travel documents
-  // (e.g., composite ski package itineraries with flight + hotel + transfers + skipass).
-  // The model needs room to reason about layout, multilingual text, and how to split
-  // composite documents into separate entries.
-  payload.thinking = {
-    budget_tokens: 2048,
-  };
-
   const normalizedResponseFormat = normalizeResponseFormat({
     responseFormat,
     response_format,
@@ -298,22 +304,8 @@ export async function invokeLLM(params: InvokeParams): Promise<InvokeResult> {
   });
 
   if (normalizedResponseFormat) {
-    payload.response_format = normalizedResponseFormat;
-  }
-
-  const response = await fetch(resolveApiUrl(), {
-    method: "POST",
-    headers: {
-      "content-type": "application/json",
-      authorization: `Bearer ${ENV.forgeApiKey}`,
-    },
-    body: JSON.stringify(payload),
-  });
-
-  if (!response.ok) {
-    const errorText = await response.text();
-    throw new Error(`LLM invoke failed: ${response.status} ${response.statusText} – ${errorText}`);
+    request.response_format = normalizedResponseFormat;
   }
 
-  return (await response.json()) as InvokeResult;
+  return getLLMProvider().complete(request);
 }
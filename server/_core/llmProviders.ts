@@ -0,0 +1,219 @@
+/**
+ * LLM Providers
+ *
+ * Backends for `invokeLLM`, selected with LLM_PROVIDER:
+ *
+ *   forge    (default) Manus Forge, BUILT_IN_FORGE_API_URL / BUILT_IN_FORGE_API_KEY
+ *   openai   any OpenAI-compatible chat completions API,
+ *            OPENAI_BASE_URL (default https://api.openai.com/v1) / OPENAI_API_KEY / OPENAI_MODEL
+ *   fixture  replays saved responses from LLM_FIXTURES_DIR (default tests/fixtures/llm),
+ *            one `<prompt hash>.json` file per request. Needs no network, so
+ *            the parsing pipeline can be tested offline. With
+ *            LLM_FIXTURE_RECORD=forge|openai, missing fixtures are fetched
+ *            from that provider and saved.
+ */
+
+import { createHash } from "crypto";
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
+import path from "path";
+import { ENV } from "./env";
+import type { ChatCompletionRequest, InvokeResult, LLMProvider } from "./llm";
+
+const DEFAULT_FIXTURES_DIR = "tests/fixtures/llm";
+
+async function postChatCompletion(url: string, apiKey: string, body: Record<string, unknown>): Promise<InvokeResult> {
+  const response = await fetch(url, {
+    method: "POST",
+    headers: {
+      "content-type": "application/json",
+      authorization: `Bearer ${apiKey}`,
+    },
+    body: JSON.stringify(body),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`LLM invoke failed: ${response.status} ${response.statusText} – ${errorText}`);
+  }
+
+  return (await response.json()) as InvokeResult;
+}
+
+export function createForgeProvider(): LLMProvider {
+  return {
+    name: "forge",
+    complete: async (request) => {
+      if (!ENV.forgeApiKey) {
+        throw new Error("BUILT_IN_FORGE_API_KEY is not configured");
+      }
+      const url = ENV.forgeApiUrl && ENV.forgeApiUrl.trim().length > 0
+        ? `${ENV.forgeApiUrl.replace(/\/$/, "")}/v1/chat/completions`
+        : "https://forge.manus.im/v1/chat/completions";
+
+      return postChatCompletion(url, ENV.forgeApiKey, {
+        model: "gemini-2.5-flash",
+        ...request,
+        max_tokens: 32768,
+        // AUDIT FIX: Increased thinking budget from 128 to 2048 tokens.
+        // 128 tokens was far too low for complex multi-section travel documents
+        // (e.g., composite ski package itineraries with flight + hotel + transfers + skipass).
+        // The model needs room to reason about layout, multilingual text, and how to split
+        // composite documents into separate entries.
+        thinking: {
+          budget_tokens: 2048,
+        },
+      });
+    },
+  };
+}
+
+/**
+ * Any server speaking the OpenAI chat completions API. It has to accept the
+ * same content parts the parser sends (images, and `file_url` for PDFs).
+ */
+export function createOpenAICompatibleProvider(): LLMProvider {
+  return {
+    name: "openai",
+    complete: async (request) => {
+      if (!ENV.openaiApiKey) {
+        throw new Error("OPENAI_API_KEY is not configured");
+      }
+      const baseUrl = (ENV.openaiBaseUrl || "https://api.openai.com/v1").replace(/\/$/, "");
+
+      return postChatCompletion(`${baseUrl}/chat/completions`, ENV.openaiApiKey, {
+        model: ENV.openaiModel || "gpt-4o-mini",
+        ...request,
+      });
+    },
+  };
+}
+
+// JSON with object keys sorted, so equal requests always hash the same
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value)
+      .filter(([, entry]) => entry !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([key, entry]) => `${JSON.stringify(key)}:${stableStringify(entry)}`).join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Key of a request in the fixture directory. Covers the messages, tools and
+ * response format, but not the model, so a fixture recorded with one
+ * provider replays for any of them. Any prompt change gives a new hash.
+ */
+export function getPromptHash(request: ChatCompletionRequest): string {
+  return createHash("sha256")
+    .update(
+      stableStringify({
+        messages: request.messages,
+        tools: request.tools,
+        tool_choice: request.tool_choice,
+        response_format: request.response_format,
+      })
+    )
+    .digest("hex")
+    .substring(0, 32);
+}
+
+/**
+ * A saved response. Either a full `response`, or just the assistant's
+ * `content` (a string, or an object that is sent as JSON) for hand-written
+ * fixtures.
+ */
+export interface LLMFixture {
+  description?: string;
+  response?: InvokeResult;
+  content?: string | Record<string, unknown>;
+}
+
+function toInvokeResult(fixture: LLMFixture, hash: string): InvokeResult {
+  if (fixture.response) return fixture.response;
+  if (fixture.content === undefined) {
+    throw new Error(`LLM fixture ${hash} has neither "response" nor "content"`);
+  }
+  return {
+    id: `fixture-${hash}`,
+    created: 0,
+    model: "fixture",
+    choices: [
+      {
+        index: 0,
+        message: {
+          role: "assistant",
+          content: typeof fixture.content === "string" ? fixture.content : JSON.stringify(fixture.content),
+        },
+        finish_reason: "stop",
+      },
+    ],
+  };
+}
+
+// Start of the last message, to tell recorded fixtures apart
+function describeRequest(request: ChatCompletionRequest): string {
+  const last = request.messages[request.messages.length - 1];
+  const content = typeof last?.content === "string" ? last.content : JSON.stringify(last?.content ?? "");
+  return content.slice(0, 120);
+}
+
+export function createFixtureProvider(options: { dir: string; record?: LLMProvider | null }): LLMProvider {
+  return {
+    name: "fixture",
+    complete: async (request) => {
+      const hash = getPromptHash(request);
+      const file = path.join(options.dir, `${hash}.json`);
+
+      if (existsSync(file)) {
+        return toInvokeResult(JSON.parse(readFileSync(file, "utf8")) as LLMFixture, hash);
+      }
+
+      if (!options.record) {
+        throw new Error(`No LLM fixture for prompt hash ${hash} (expected ${file})`);
+      }
+
+      const response = await options.record.complete(request);
+      mkdirSync(options.dir, { recursive: true });
+      writeFileSync(file, `${JSON.stringify({ description: describeRequest(request), response } satisfies LLMFixture, null, 2)}\n`);
+      console.log(`[LLM] Recorded fixture ${file}`);
+      return response;
+    },
+  };
+}
+
+function createProvider(name: string): LLMProvider {
+  switch (name) {
+    case "":
+    case "forge":
+      return createForgeProvider();
+    case "openai":
+      return createOpenAICompatibleProvider();
+    case "fixture": {
+      if (ENV.llmFixtureRecord === "fixture") {
+        throw new Error("LLM_FIXTURE_RECORD must name a live provider (forge or openai)");
+      }
+      const record = ENV.llmFixtureRecord ? createProvider(ENV.llmFixtureRecord) : null;
+      return createFixtureProvider({ dir: path.resolve(ENV.llmFixturesDir || DEFAULT_FIXTURES_DIR), record });
+    }
+    default:
+      throw new Error(`Unknown LLM_PROVIDER "${name}" (expected forge, openai or fixture)`);
+  }
+}
+
+let providerOverride: LLMProvider | null = null;
+
+/**
+ * Use `provider` for every LLM call instead of the one configured by env.
+ * Pass null to go back to the env setting.
+ */
+export function setLLMProvider(provider: LLMProvider | null): void {
+  providerOverride = provider;
+}
+
+export function getLLMProvider(): LLMProvider {
+  return providerOverride ?? createProvider(ENV.llmProvider);
+}
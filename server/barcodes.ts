@@ -0,0 +1,178 @@
+/**
+ * Barcodes
+ *
+ * Reads the barcodes in a photo or PDF, and draws a stored barcode again so
+ * the app can show it full-screen at the gate or the door. PDFs are read
+ * through the images embedded in them (JPEG, or plain gray or RGB pixels);
+ * a barcode drawn as vector shapes isn't seen. Reading runs ZXing's
+ * WebAssembly build, loaded from node_modules rather than its CDN.
+ */
+
+import { readFile } from "fs/promises";
+import { createRequire } from "module";
+import { inflateSync } from "zlib";
+import { prepareZXingModule, readBarcodes as readZXingBarcodes, type ReadResult } from "zxing-wasm/reader";
+import bwipjs from "bwip-js/node";
+
+export interface DecodedBarcode {
+  // QR, PDF417, Aztec, DataMatrix or Code128, as stored in details.barcodeFormat
+  format: string;
+  text: string;
+}
+
+// ZXing's names for the symbologies travel documents use
+const READ_FORMATS = ["PDF417", "Aztec", "QRCode", "DataMatrix", "Code128"] as const;
+
+const FORMAT_NAMES: Record<string, string> = {
+  QRCode: "QR",
+};
+
+// bwip-js encoders for each stored format
+const RENDER_ENCODERS: Record<string, string> = {
+  QR: "qrcode",
+  PDF417: "pdf417",
+  Aztec: "azteccode",
+  DataMatrix: "datamatrix",
+  Code128: "code128",
+};
+
+// Embedded images smaller than this can't hold a readable barcode
+const MIN_IMAGE_SIDE = 40;
+// Larger embedded images are page scans at absurd resolutions, or not images at all
+const MAX_IMAGE_PIXELS = 25_000_000;
+
+let zxingReady: Promise<void> | null = null;
+
+function loadZXing(): Promise<void> {
+  zxingReady ??= (async () => {
+    const require = createRequire(import.meta.url);
+    const wasm = await readFile(require.resolve("zxing-wasm/reader/zxing_reader.wasm"));
+    prepareZXingModule({
+      overrides: { wasmBinary: wasm.buffer.slice(wasm.byteOffset, wasm.byteOffset + wasm.byteLength) as ArrayBuffer },
+    });
+  })();
+  return zxingReady;
+}
+
+interface PdfImage {
+  // A JPEG file, or RGBA pixels
+  jpeg?: Buffer;
+  pixels?: { data: Uint8ClampedArray; width: number; height: number };
+}
+
+function getNumber(dictionary: string, key: string): number | null {
+  const match = dictionary.match(new RegExp(`/${key}\\s+(\\d+)`));
+  return match ? Number(match[1]) : null;
+}
+
+// Gray or RGB samples at 1 or 8 bits, as RGBA
+function toRgba(samples: Buffer, width: number, height: number, bits: number, channels: number): Uint8ClampedArray | null {
+  const rowBytes = Math.ceil((width * channels * bits) / 8);
+  if (samples.length < rowBytes * height) return null;
+
+  const rgba = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const target = (y * width + x) * 4;
+      if (bits === 1) {
+        // 0 is black, for masks and 1-bit gray alike
+        const bit = (samples[y * rowBytes + (x >> 3)] >> (7 - (x & 7))) & 1;
+        rgba.fill(bit ? 255 : 0, target, target + 3);
+      } else {
+        const source = y * rowBytes + x * channels;
+        rgba[target] = samples[source];
+        rgba[target + 1] = samples[source + (channels === 3 ? 1 : 0)];
+        rgba[target + 2] = samples[source + (channels === 3 ? 2 : 0)];
+      }
+      rgba[target + 3] = 255;
+    }
+  }
+  return rgba;
+}
+
+/**
+ * The images embedded in a PDF that could hold a barcode. Streams with
+ * filters other than DCT and Flate, PNG predictors or palettes are skipped.
+ */
+export function getPdfImages(pdf: Buffer): PdfImage[] {
+  const content = pdf.toString("latin1");
+  const images: PdfImage[] = [];
+
+  for (const match of content.matchAll(/\bobj\b((?:(?!\bobj\b)[\s\S])*?)\bstream\r?\n/g)) {
+    const dictionary = match[1];
+    if (!/\/Subtype\s*\/Image\b/.test(dictionary)) continue;
+    const start = match.index! + match[0].length;
+    const end = content.indexOf("endstream", start);
+    if (end < 0) continue;
+    const length = getNumber(dictionary, "Length");
+    const data = pdf.subarray(start, length !== null && !/\/Length\s+\d+\s+\d+\s+R/.test(dictionary) ? start + length : end);
+
+    const width = getNumber(dictionary, "Width") ?? 0;
+    const height = getNumber(dictionary, "Height") ?? 0;
+    if (width < MIN_IMAGE_SIDE || height < MIN_IMAGE_SIDE || width * height > MAX_IMAGE_PIXELS) continue;
+
+    if (/\/DCTDecode\b/.test(dictionary)) {
+      images.push({ jpeg: data });
+      continue;
+    }
+    if (/\/Filter/.test(dictionary) && !/\/Filter\s*\/FlateDecode\b/.test(dictionary)) continue;
+    if (/\/Predictor\s+(?:1[0-9])/.test(dictionary)) continue;
+
+    const mask = /\/ImageMask\s+true/.test(dictionary);
+    const channels = mask || /\/ColorSpace\s*\/DeviceGray/.test(dictionary) ? 1 : /\/ColorSpace\s*\/DeviceRGB/.test(dictionary) ? 3 : 0;
+    const bits = mask ? 1 : getNumber(dictionary, "BitsPerComponent");
+    if (!channels || (bits !== 1 && bits !== 8)) continue;
+
+    try {
+      // The image needs no more than its rows of samples; a stream that
+      // inflates past them (plus a little slack) is bad or hostile
+      const maxOutputLength = height * Math.ceil((width * channels * bits) / 8) + 1024;
+      const samples = /\/FlateDecode\b/.test(dictionary) ? inflateSync(data, { maxOutputLength }) : data;
+      const rgba = toRgba(samples, width, height, bits, channels);
+      if (rgba) images.push({ pixels: { data: rgba, width, height } });
+    } catch {
+      // A stream we can't inflate isn't worth failing the upload over
+    }
+  }
+  return images;
+}
+
+function toDecoded(results: ReadResult[]): DecodedBarcode[] {
+  return results
+    .filter((result) => result.isValid && result.text)
+    .map((result) => ({ format: FORMAT_NAMES[result.format] ?? result.format, text: result.text }));
+}
+
+/**
+ * Every barcode found in a photo or PDF
+ */
+export async function readBarcodes(source: Buffer, mimeType: string): Promise<DecodedBarcode[]> {
+  await loadZXing();
+  const options = { formats: [...READ_FORMATS], tryHarder: true };
+
+  if (mimeType.startsWith("image/")) {
+    return toDecoded(await readZXingBarcodes(new Uint8Array(source), options));
+  }
+  if (mimeType !== "application/pdf") return [];
+
+  const barcodes: DecodedBarcode[] = [];
+  for (const image of getPdfImages(source)) {
+    const input = image.jpeg ? new Uint8Array(image.jpeg) : (image.pixels as unknown as ImageData);
+    barcodes.push(...toDecoded(await readZXingBarcodes(input, options)));
+  }
+  return barcodes;
+}
+
+/**
+ * A stored barcode drawn as SVG, or null for a format we can't draw
+ */
+export function renderBarcodeSvg(text: string, format: string | null | undefined): string | null {
+  const encoder = RENDER_ENCODERS[format ?? ""];
+  if (!encoder) return null;
+  try {
+    return bwipjs.toSVG({ bcid: encoder, text, scale: 3, padding: 10, backgroundcolor: "FFFFFF" });
+  } catch (error) {
+    console.warn(`[Barcodes] Couldn't draw ${format} barcode:`, error);
+    return null;
+  }
+}
@@ -0,0 +1,282 @@
+/**
+ * Boarding Pass Barcodes
+ *
+ * Every boarding pass carries an IATA BCBP barcode (Resolution 792) with
+ * the booking reference, airports, flight, date, seat and check-in
+ * sequence, written by the airline's own system. Photos and PDFs are
+ * scanned for one before the AI reads them; when there is one, its values
+ * win over the AI's reading of the printed pass, and the barcode itself is
+ * kept in the details so the app can show it again at the gate.
+ */
+
+import { readBarcodes } from "./barcodes";
+import { getValidationWarnings, type ValidationWarning } from "./documentSchema";
+import { resolveDocumentTimes } from "./documentTimes";
+import { fetchStoredFile } from "./storage";
+import type { ParsedDocument } from "./documentParser";
+import type { DocumentDetails, FieldConfidenceMap, FlightSegment } from "../drizzle/schema";
+
+export interface BoardingPassLeg {
+  confirmationNumber: string;
+  departureAirport: string;
+  arrivalAirport: string;
+  // Carrier and number, "LY381"
+  flightNumber: string;
+  // Day of the year the flight leaves, 1-366; the barcode has no year
+  dayOfYear: number;
+  seatNumber: string | null;
+  // Order the passenger checked in, printed as the sequence number
+  sequenceNumber: string | null;
+}
+
+export interface BoardingPass {
+  passengerName: string;
+  legs: BoardingPassLeg[];
+  // The barcode as scanned, and its format, to draw it again
+  barcode: string;
+  barcodeFormat: string;
+}
+
+// Each leg's fixed fields, after the 23-character header
+const HEADER_LENGTH = 23;
+const LEG_LENGTH = 37;
+
+// Fields the barcode's values replace the AI's reading of
+const BARCODE_FIELDS = ["confirmationNumber", "flightNumber", "seatNumber", "departureAirport", "arrivalAirport"] as const;
+type BarcodeField = (typeof BARCODE_FIELDS)[number];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Read a BCBP barcode's text. Null for anything else: a QR code with a
+ * link, a ticket number, or a BCBP whose fixed fields don't hold up.
+ */
+export function parseBcbp(text: string): Omit<BoardingPass, "barcode" | "barcodeFormat"> | null {
+  const legCount = Number(text[1]);
+  if (text[0] !== "M" || !(legCount >= 1 && legCount <= 4)) return null;
+
+  const legs: BoardingPassLeg[] = [];
+  let offset = HEADER_LENGTH;
+  for (let i = 0; i < legCount; i++) {
+    const leg = text.slice(offset, offset + LEG_LENGTH);
+    if (leg.length < LEG_LENGTH) return null;
+
+    const confirmationNumber = leg.slice(0, 7).trim();
+    const departureAirport = leg.slice(7, 10);
+    const arrivalAirport = leg.slice(10, 13);
+    const carrier = leg.slice(13, 16).trim();
+    const flight = leg.slice(16, 21).trim().match(/^0*(\d+[A-Z]?)$/);
+    const dayOfYear = Number(leg.slice(21, 24));
+    const seat = leg.slice(25, 29).trim().match(/^0*(\d+[A-Z])$/);
+    const sequenceNumber = leg.slice(29, 34).trim().replace(/^0+(?=\d)/, "");
+    // Length of the leg's optional fields, in hex
+    const conditionalLength = parseInt(leg.slice(35, 37), 16);
+
+    if (!/^[A-Z]{3}$/.test(departureAirport) || !/^[A-Z]{3}$/.test(arrivalAirport)) return null;
+    if (!confirmationNumber || !carrier || !flight || !(dayOfYear >= 1 && dayOfYear <= 366) || Number.isNaN(conditionalLength)) return null;
+
+    legs.push({
+      confirmationNumber,
+      departureAirport,
+      arrivalAirport,
+      flightNumber: `${carrier}${flight[1]}`,
+      dayOfYear,
+      seatNumber: seat?.[1] ?? null,
+      sequenceNumber: sequenceNumber || null,
+    });
+    offset += LEG_LENGTH + conditionalLength;
+  }
+
+  return { passengerName: text.slice(2, 22).trim(), legs };
+}
+
+/**
+ * The first boarding pass barcode in a photo or PDF
+ */
+export async function findBoardingPass(source: Buffer, mimeType: string): Promise<BoardingPass | null> {
+  for (const barcode of await readBarcodes(source, mimeType)) {
+    const pass = parseBcbp(barcode.text);
+    if (pass) return { ...pass, barcode: barcode.text, barcodeFormat: barcode.format };
+  }
+  return null;
+}
+
+/**
+ * Scan an uploaded photo or PDF for a boarding pass barcode. Failures are
+ * logged and read as no barcode; the AI still reads the printed pass.
+ */
+export async function readBoardingPassBarcode(fileUrl: string, mimeType: string): Promise<BoardingPass | null> {
+  if (!mimeType.startsWith("image/") && mimeType !== "application/pdf") return null;
+  try {
+    return await findBoardingPass(await fetchStoredFile(fileUrl), mimeType);
+  } catch (error) {
+    console.warn(`[BoardingPass] Couldn't scan ${fileUrl} for barcodes:`, error);
+    return null;
+  }
+}
+
+// "LY 381", "LY0381" and "ly381" are the same flight
+function normalizeFlightNumber(value: string | undefined): string | null {
+  const compact = value?.toUpperCase().replace(/\s+/g, "");
+  if (!compact) return null;
+  const match = compact.match(/^([A-Z0-9]{2}[A-Z]?)0*(\d+[A-Z]?)$/);
+  return match ? `${match[1]}${match[2]}` : compact;
+}
+
+function isSameValue(field: BarcodeField, current: string | undefined, value: string): boolean {
+  if (field === "flightNumber") return normalizeFlightNumber(current) === value;
+  return current?.trim().toUpperCase() === value;
+}
+
+function matchesLeg(flight: FlightSegment, leg: BoardingPassLeg): boolean {
+  const sameRoute = flight.departureAirport?.toUpperCase() === leg.departureAirport && flight.arrivalAirport?.toUpperCase() === leg.arrivalAirport;
+  return sameRoute || normalizeFlightNumber(flight.flightNumber) === leg.flightNumber;
+}
+
+function getDayOfYear(date: string): number | null {
+  const match = date.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (!match) return null;
+  return Math.round((Date.UTC(+match[1], +match[2] - 1, +match[3]) - Date.UTC(+match[1], 0, 1)) / DAY_MS) + 1;
+}
+
+// The leg's date in whichever year puts it closest to `now`
+function toFlightDate(dayOfYear: number, now: Date): string {
+  const year = now.getUTCFullYear();
+  const candidates = [year - 1, year, year + 1].map((candidate) => new Date(Date.UTC(candidate, 0, dayOfYear)));
+  const closest = candidates.reduce((best, date) => (Math.abs(date.getTime() - now.getTime()) < Math.abs(best.getTime() - now.getTime()) ? date : best));
+  return closest.toISOString().slice(0, 10);
+}
+
+/**
+ * Put the barcode's values on one flight, or one leg of it. Returns the
+ * fields that changed.
+ */
+function applyLeg(target: FlightSegment & DocumentDetails, leg: BoardingPassLeg, fields: readonly BarcodeField[]): BarcodeField[] {
+  const changed: BarcodeField[] = [];
+  for (const field of fields) {
+    const value = leg[field];
+    if (!value || isSameValue(field, target[field], value)) continue;
+    target[field] = value;
+    changed.push(field);
+  }
+  return changed;
+}
+
+function applyToDocument(doc: ParsedDocument, legs: BoardingPassLeg[], pass: BoardingPass): ParsedDocument {
+  const details: DocumentDetails = { ...doc.details, barcode: pass.barcode, barcodeFormat: pass.barcodeFormat };
+  const segments = doc.segments?.map((segment) => ({ ...segment }));
+  const fieldConfidence: FieldConfidenceMap = { ...doc.fieldConfidence };
+  const changed = new Set<BarcodeField>();
+  const warnings: ValidationWarning[] = [];
+
+  for (const leg of legs) {
+    const segmentIndex = segments?.findIndex((segment) => matchesLeg(segment, leg)) ?? -1;
+    const target = segmentIndex >= 0 ? segments![segmentIndex] : details;
+    const prefix = segmentIndex >= 0 ? `segments.${segmentIndex}` : "details";
+    const fields = segmentIndex >= 0 ? BARCODE_FIELDS.filter((field) => field !== "confirmationNumber") : BARCODE_FIELDS;
+    applyLeg(target, leg, fields).forEach((field) => changed.add(field));
+    if (segmentIndex >= 0) applyLeg(details, leg, ["confirmationNumber"]).forEach((field) => changed.add(field));
+
+    for (const field of BARCODE_FIELDS) {
+      if (leg[field]) fieldConfidence[field] = { confidence: 1 };
+    }
+
+    const printedDay = target.departureTime ? getDayOfYear(target.departureTime) : null;
+    if (printedDay !== null && printedDay !== leg.dayOfYear) {
+      warnings.push({
+        field: `${prefix}.departureTime`,
+        code: "inconsistent",
+        message: "Departure date doesn't match the boarding pass barcode",
+      });
+    }
+  }
+
+  // The barcode settles what the AI was unsure of or got wrong
+  const validationWarnings = doc.validationWarnings
+    .filter((warning) => !BARCODE_FIELDS.some((field) => warning.field === `details.${field}` && details[field]))
+    .concat(warnings);
+
+  if (!changed.has("departureAirport") && !changed.has("arrivalAirport")) {
+    return { ...doc, details, segments, fieldConfidence, validationWarnings };
+  }
+
+  // New airports put the times in other zones
+  const mainDate = details.departureTime ?? segments?.[0]?.departureTime;
+  const resolved = resolveDocumentTimes({ category: doc.category, documentType: doc.documentType, documentDate: mainDate, details, segments });
+  const title = details.departureAirport && details.arrivalAirport ? `${details.departureAirport} → ${details.arrivalAirport}` : doc.title;
+  return {
+    ...doc,
+    title,
+    details,
+    segments,
+    fieldConfidence,
+    validationWarnings,
+    timeZone: resolved.timeZone,
+    times: resolved.times,
+    documentDate: mainDate ? resolved.documentDate : doc.documentDate,
+  };
+}
+
+// A flight read from the barcode alone, for a pass the AI found nothing on
+function toParsedDocument(leg: BoardingPassLeg, pass: BoardingPass, now: Date): ParsedDocument {
+  const details = Object.fromEntries(
+    Object.entries({
+      confirmationNumber: leg.confirmationNumber,
+      flightNumber: leg.flightNumber,
+      departureAirport: leg.departureAirport,
+      arrivalAirport: leg.arrivalAirport,
+      departureTime: toFlightDate(leg.dayOfYear, now),
+      seatNumber: leg.seatNumber ?? undefined,
+      barcode: pass.barcode,
+      barcodeFormat: pass.barcodeFormat,
+    }).filter(([, value]) => value)
+  ) as DocumentDetails;
+  const documentType = "Boarding Pass";
+  const { documentDate, timeZone, times } = resolveDocumentTimes({ category: "flight", documentType, documentDate: details.departureTime, details });
+
+  // Written by the airline's system; only the time of day is unknown
+  const fieldConfidence: FieldConfidenceMap = {};
+  for (const key of Object.keys(details)) fieldConfidence[key] = { confidence: 1 };
+
+  return {
+    category: "flight",
+    documentType,
+    title: `${leg.departureAirport} → ${leg.arrivalAirport}`,
+    subtitle: leg.flightNumber,
+    details,
+    documentDate,
+    timeZone,
+    times,
+    validationWarnings: getValidationWarnings({ category: "flight", documentType, documentDate: details.departureTime, details }),
+    fieldConfidence,
+  };
+}
+
+/**
+ * Check the AI's reading of a boarding pass against its barcode. Each leg
+ * goes to the flight (or connection) with the same route or flight number,
+ * or to the only flight when there's just one; a leg nothing matches
+ * becomes a flight of its own.
+ */
+export function applyBoardingPassBarcode(documents: ParsedDocument[], pass: BoardingPass, now = new Date()): ParsedDocument[] {
+  const result = [...documents];
+  const legsByDocument = new Map<number, BoardingPassLeg[]>();
+  const unmatched: BoardingPassLeg[] = [];
+  const flights = result.map((doc, index) => ({ doc, index })).filter(({ doc }) => doc.category === "flight");
+
+  for (const leg of pass.legs) {
+    const match =
+      flights.find(({ doc }) => (doc.segments ?? [doc.details]).some((flight) => matchesLeg(flight, leg))) ??
+      (pass.legs.length === 1 && flights.length === 1 ? flights[0] : undefined);
+    if (match) {
+      legsByDocument.set(match.index, [...(legsByDocument.get(match.index) ?? []), leg]);
+    } else {
+      unmatched.push(leg);
+    }
+  }
+
+  for (const [index, legs] of legsByDocument) {
+    result[index] = applyToDocument(result[index], legs, pass);
+  }
+  return result.concat(unmatched.map((leg) => toParsedDocument(leg, pass, now)));
+}
@@ -0,0 +1,231 @@
+/**
+ * Booking Updates and Cancellations
+ *
+ * Airlines, hotels and rental companies send a new email for every schedule
+ * change and cancellation. When a parsed booking carries the confirmation
+ * number and provider of a document the user already has (and, for flights
+ * and other legs, the same flight or service), it's applied to that document
+ * instead of becoming a new one: changed fields are updated and logged as
+ * revisions, and a cancellation marks the document cancelled.
+ */
+
+import * as db from "./db";
+import { applyDocumentEdit, type DetailValue, type DocumentEdit, type FieldChange } from "./documentEdits";
+import { getDetailsSchemaKey, getFieldLabel } from "./documentSchema";
+import type { ParsedDocument } from "./documentParser";
+import type { Document, DocumentDetails, FlightSegment } from "../drizzle/schema";
+import { formatLocalTime } from "../shared/timezones";
+
+export interface BookingChange {
+  // unchanged = the same booking was sent again with nothing new
+  kind: "updated" | "cancelled" | "unchanged";
+  documentId: number;
+  title: string;
+  changes: FieldChange[];
+  // The document as it was before the change
+  previous: Document;
+}
+
+// Words a cancellation puts in its document type, in the languages bookings
+// arrive in. Titles and subtitles aren't checked: live bookings mention
+// "Free cancellation until…" or a cancellation policy there.
+const CANCELLATION_PATTERN = /cancel|ביטול|בוטל|annull|cancellazion|storn|anulaci|annulation/i;
+
+// Shorter codes are too likely to collide between unrelated bookings
+const MIN_CONFIRMATION_LENGTH = 4;
+
+export function normalizeConfirmationNumber(value: unknown): string | null {
+  if (typeof value !== "string") return null;
+  const normalized = value.replace(/[\s-]+/g, "").toUpperCase();
+  return normalized.length >= MIN_CONFIRMATION_LENGTH ? normalized : null;
+}
+
+/**
+ * Who the booking is with: the airline, hotel, rental company or operator
+ */
+export function getBookingProvider(doc: Pick<Document, "category" | "documentType" | "details"> & { segments?: unknown }): string | null {
+  const details = (doc.details as DocumentDetails | null) ?? {};
+  let provider: string | undefined;
+  switch (getDetailsSchemaKey(doc.category, doc.documentType)) {
+    case "flight":
+      provider = details.airline ?? (doc.segments as FlightSegment[] | null | undefined)?.[0]?.airline;
+      break;
+    case "accommodation":
+      provider = details.hotelName;
+      break;
+    case "carRental":
+      provider = details.carCompany;
+      break;
+    case "medical":
+      provider = details.insuranceProvider;
+      break;
+    case "train":
+    case "bus":
+    case "ferry":
+      provider = details.operator;
+      break;
+    case "transfer":
+      provider = details.transferCompany;
+      break;
+    case "event":
+      provider = details.eventName;
+      break;
+    default:
+      provider = details.activityName;
+  }
+  return provider?.trim().toLowerCase() || null;
+}
+
+export function isCancellation(doc: Pick<ParsedDocument, "documentType">): boolean {
+  return CANCELLATION_PATTERN.test(doc.documentType);
+}
+
+// "LY 381", "ly381" and "LY0381" are the same flight
+function normalizeServiceNumber(value: string | undefined): string | null {
+  const normalized = value?.replace(/[^A-Za-z0-9]+/g, "").toUpperCase();
+  if (!normalized) return null;
+  const flight = normalized.match(/^([A-Z0-9]{2})0*(\d{1,4}[A-Z]?)$/);
+  return flight ? flight[1] + flight[2] : normalized;
+}
+
+/**
+ * Which leg of a booking a flight, train, bus or ferry document is: its
+ * flight or service number, and its route and day. One confirmation number
+ * often covers the outbound and return legs, each with its own boarding pass.
+ * Null for categories without legs.
+ */
+function getBookingLeg(doc: Pick<Document, "category" | "documentType" | "details">): { number: string | null; route: string | null } | null {
+  const details = (doc.details as DocumentDetails | null) ?? {};
+  let number: string | undefined;
+  let from: string | undefined;
+  let to: string | undefined;
+  switch (getDetailsSchemaKey(doc.category, doc.documentType)) {
+    case "flight":
+      number = details.flightNumber;
+      from = details.departureAirport;
+      to = details.arrivalAirport;
+      break;
+    case "train":
+    case "bus":
+    case "ferry":
+      number = details.serviceNumber;
+      from = details.departureStation;
+      to = details.arrivalStation;
+      break;
+    default:
+      return null;
+  }
+  const day = details.departureTime?.slice(0, 10);
+  const route = from && to && day ? [from, to, day].map((part) => part.trim().toLowerCase()).join("|") : null;
+  return { number: normalizeServiceNumber(number), route };
+}
+
+// Whether two documents are the same leg: the same flight or service number,
+// or failing that the same route on the same day. Null when they don't say.
+function isSameLeg(a: Pick<Document, "category" | "documentType" | "details">, b: Pick<Document, "category" | "documentType" | "details">): boolean | null {
+  const legA = getBookingLeg(a);
+  const legB = getBookingLeg(b);
+  if (!legA || !legB) return null;
+  if (legA.number && legB.number) return legA.number === legB.number;
+  if (legA.route && legB.route) return legA.route === legB.route;
+  return null;
+}
+
+/**
+ * The user's document for the same booking, if there is one. Providers must
+ * agree when both documents name one, as must legs; a booking that doesn't
+ * name its provider or leg only matches when a single document has its
+ * confirmation number. Documents in `excludeIds` (ones the same source just
+ * saved) are never matched.
+ */
+export async function findExistingBooking(userId: number, doc: ParsedDocument, excludeIds: number[] = []): Promise<Document | null> {
+  const confirmation = normalizeConfirmationNumber(doc.details.confirmationNumber);
+  if (!confirmation) return null;
+
+  const provider = getBookingProvider(doc);
+  const matches = (await db.getDocumentsByConfirmationNumber(userId, confirmation)).filter((existing) => {
+    if (excludeIds.includes(existing.id)) return false;
+    if (existing.category !== doc.category) return false;
+    if (isSameLeg(doc, existing) === false) return false;
+    const existingProvider = getBookingProvider(existing);
+    return !provider || !existingProvider || provider === existingProvider;
+  });
+
+  const sameLeg = matches.find((existing) => isSameLeg(doc, existing));
+  if (sameLeg) return sameLeg;
+  if (matches.length === 0) return null;
+  if ((!provider || getBookingLeg(doc)) && matches.length > 1) return null;
+  return matches[0];
+}
+
+// "EL AL" and "El Al", or "X7Y-2QP" and "x7y2qp", are the same value
+function sameValue(a: unknown, b: unknown): boolean {
+  const normalize = (value: unknown) => String(value ?? "").toLowerCase().replace(/[^\p{L}\p{N}]+/gu, "");
+  return normalize(a) === normalize(b);
+}
+
+// What the later email says about the booking. Fields it leaves out are
+// kept, since update emails often only repeat what changed, and the title
+// stays so "Schedule change" doesn't replace the name the user knows.
+function toBookingEdit(existing: Document, doc: Pick<ParsedDocument, "details" | "documentDate">): DocumentEdit {
+  const current = (existing.details as DocumentDetails | null) ?? {};
+  const details: Record<string, DetailValue> = {};
+  for (const [key, value] of Object.entries(doc.details)) {
+    if (value === null || value === undefined || value === "" || sameValue(value, current[key])) continue;
+    details[key] = String(value);
+  }
+  return { documentDate: doc.documentDate ?? undefined, details };
+}
+
+/**
+ * Apply a parsed booking to the document it updates or cancels. Returns
+ * null when it's a booking the user doesn't have yet. Callers that already
+ * know the document (e.g. by calendar UID) or whether it's a cancellation
+ * can say so in `options`, as can callers that have already saved documents
+ * from the same source, which it mustn't update.
+ */
+export async function applyBookingChange(
+  userId: number,
+  doc: ParsedDocument,
+  options: { existing?: Document; cancelled?: boolean; excludeIds?: number[] } = {}
+): Promise<BookingChange | null> {
+  const existing = options.existing ?? (await findExistingBooking(userId, doc, options.excludeIds));
+  if (!existing) return null;
+
+  if (options.cancelled ?? isCancellation(doc)) {
+    if (existing.cancelledAt) {
+      return { kind: "unchanged", documentId: existing.id, title: existing.title, changes: [], previous: existing };
+    }
+    const cancelledAt = new Date();
+    await db.updateDocument(existing.id, userId, { cancelledAt });
+    const change: FieldChange = { field: "cancelledAt", previousValue: null, newValue: cancelledAt.toISOString() };
+    await db.createDocumentRevisions([{ documentId: existing.id, userId, ...change, source: "update" }]);
+    console.log(`[Bookings] Cancelled document ${existing.id} ("${existing.title}")`);
+    return { kind: "cancelled", documentId: existing.id, title: existing.title, changes: [change], previous: existing };
+  }
+
+  const segmentsChanged = doc.segments !== undefined && JSON.stringify(doc.segments) !== JSON.stringify(existing.segments);
+  const changes = await applyDocumentEdit(userId, existing, toBookingEdit(existing, doc), {
+    source: "update",
+    update: segmentsChanged ? { segments: doc.segments, timeZone: doc.timeZone, times: doc.times } : undefined,
+  });
+  if (changes.length === 0 && !segmentsChanged) {
+    return { kind: "unchanged", documentId: existing.id, title: existing.title, changes, previous: existing };
+  }
+
+  console.log(`[Bookings] Updated document ${existing.id} ("${existing.title}"): ${changes.map((change) => change.field).join(", ")}`);
+  return { kind: "updated", documentId: existing.id, title: existing.title, changes, previous: existing };
+}
+
+/**
+ * The first few changed details, e.g. "Departure time: Sat, Mar 21, 07:10 →
+ * Sat, Mar 21, 09:40"
+ */
+export function describeBookingChanges(changes: FieldChange[]): string {
+  const format = (value: DetailValue) => (value === null ? "none" : formatLocalTime(value) ?? value);
+  return changes
+    .filter((change) => change.field.startsWith("details."))
+    .slice(0, 3)
+    .map((change) => `${getFieldLabel(change.field.replace(/^details\./, ""))}: ${format(change.previousValue)} → ${format(change.newValue)}`)
+    .join("; ");
+}
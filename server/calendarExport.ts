@@ -0,0 +1,287 @@
+/**
+ * Calendar Export
+ *
+ * Renders documents as an iCalendar (.ics) feed that calendar apps
+ * subscribe to through a secret link, for all of a user's trips or one of
+ * them. Each flight leg, train, car rental and event becomes an event from
+ * its start to its end, and a hotel stay spans its days. Times placed in a
+ * zone are written as UTC instants so they show right wherever the calendar
+ * is viewed; times that couldn't be placed stay as the local time printed
+ * on the booking. Cancelled bookings are kept as cancelled events so
+ * subscribed calendars remove them.
+ */
+
+import type { Document, DocumentDetails, DocumentTimes } from "../drizzle/schema";
+import * as db from "./db";
+import { getDetailsSchemaKey } from "./documentSchema";
+import { addDays, toLocalDateTime, toTime } from "./itinerary";
+import { formatLegRoute, getFlightLegs } from "../shared/flightLegs";
+import { getAirportAddress } from "../shared/airports";
+import { getLocalDay } from "../shared/timezones";
+
+type EventTime =
+  // YYYY-MM-DD; an all-day event's end is its last day
+  | { allDay: true; date: string }
+  // YYYY-MM-DDTHH:mm as printed, and the UTC instant when the zone is known
+  | { allDay: false; local: string; utc: string | null };
+
+interface CalendarEvent {
+  uid: string;
+  summary: string;
+  start: EventTime;
+  end: EventTime | null;
+  location: string | null;
+  description: string[];
+}
+
+// Length given to a timed booking that doesn't say when it ends
+const DEFAULT_DURATION_MINUTES = 60;
+
+const PRODUCT_ID = "-//TripDocHub//Calendar Export//EN";
+
+function getEventTime(doc: Document, path: string, value: string | undefined, timeOfDay?: string): EventTime | null {
+  const at = toLocalDateTime(value, path.split(".").pop());
+  if (!at) return null;
+  const time = at.time ?? toTime(timeOfDay);
+  if (!time) return { allDay: true, date: at.date };
+  const resolved = (doc.times as DocumentTimes | null)?.[path];
+  return { allDay: false, local: `${at.date}T${time}`, utc: resolved?.utc ?? null };
+}
+
+function getDay(time: EventTime | null): EventTime | null {
+  if (!time || time.allDay) return time;
+  return { allDay: true, date: time.local.slice(0, 10) };
+}
+
+function lines(...values: Array<string | null | undefined | false>): string[] {
+  return values.filter((value): value is string => Boolean(value));
+}
+
+/**
+ * The calendar events a document puts on the user's days
+ */
+export function getDocumentEvents(doc: Document): CalendarEvent[] {
+  const details = (doc.details as DocumentDetails | null) ?? {};
+  const confirmation = details.confirmationNumber ? `Confirmation: ${details.confirmationNumber}` : null;
+  const events: CalendarEvent[] = [];
+  const add = (event: Omit<CalendarEvent, "uid" | "description"> & { description?: string[] }) => {
+    events.push({
+      ...event,
+      uid: `document-${doc.id}-${events.length}@tripdochub`,
+      description: lines(confirmation, doc.subtitle, ...(event.description ?? [])),
+    });
+  };
+  const at = (field: string, timeOfDayField?: string) =>
+    getEventTime(doc, `details.${field}`, details[field], timeOfDayField ? details[timeOfDayField] : undefined);
+
+  switch (getDetailsSchemaKey(doc.category, doc.documentType)) {
+    case "flight": {
+      const prefix = Array.isArray(doc.segments) && doc.segments.length > 0 ? "segments" : "details";
+      getFlightLegs(doc).forEach((leg, index) => {
+        const path = prefix === "segments" ? `segments.${index}` : "details";
+        const start = getEventTime(doc, `${path}.departureTime`, leg.departureTime);
+        if (!start) return;
+        add({
+          summary: `${leg.flightNumber || leg.airline || "Flight"} ${formatLegRoute(leg)}`,
+          start,
+          end: getEventTime(doc, `${path}.arrivalTime`, leg.arrivalTime),
+          location: (index === 0 && details.departureAddress) || getAirportAddress(leg.departureAirport, leg.terminal),
+          description: lines(leg.seatNumber && `Seat ${leg.seatNumber}`, leg.gate && `Gate ${leg.gate}`),
+        });
+      });
+      break;
+    }
+
+    case "train":
+    case "bus":
+    case "ferry": {
+      const start = at("departureTime");
+      if (!start) break;
+      add({
+        summary: `${details.serviceNumber || details.operator || doc.title} ${details.departureStation || "?"} → ${details.arrivalStation || "?"}`,
+        start,
+        end: at("arrivalTime"),
+        location: details.departureAddress || details.departureStation || null,
+        description: lines(details.platform && `Platform ${details.platform}`, details.carriage && `Carriage ${details.carriage}`, details.seatNumber && `Seat ${details.seatNumber}`),
+      });
+      break;
+    }
+
+    case "accommodation": {
+      const checkIn = getDay(at("checkInDate"));
+      if (!checkIn?.allDay) break;
+      const nights = Number(details.numberOfNights);
+      const checkOut = getDay(at("checkOutDate")) ?? (nights > 0 ? { allDay: true as const, date: addDays(checkIn.date, nights) } : null);
+      add({
+        summary: details.hotelName || doc.title,
+        start: checkIn,
+        end: checkOut,
+        location: details.address || null,
+        description: lines(details.roomType),
+      });
+      break;
+    }
+
+    case "carRental": {
+      const start = at("pickupTime");
+      if (!start) break;
+      add({
+        summary: `Car rental · ${details.carCompany || doc.title}`,
+        start,
+        end: at("dropoffTime"),
+        location: details.pickupAddress || details.pickupLocation || null,
+        description: lines(details.dropoffLocation && `Return: ${details.dropoffAddress || details.dropoffLocation}`, details.vehicleType),
+      });
+      break;
+    }
+
+    case "event": {
+      const start = at("eventDate", "eventTime");
+      if (!start) break;
+      add({ summary: details.eventName || doc.title, start, end: null, location: details.venueAddress || details.venue || null });
+      break;
+    }
+
+    case "transfer": {
+      const start = at("transferDate", "transferTime");
+      if (!start) break;
+      add({
+        summary: doc.title,
+        start,
+        end: null,
+        location: details.pickupLocation || null,
+        description: lines(details.dropoffLocation && `To: ${details.dropoffLocation}`),
+      });
+      break;
+    }
+
+    case "pass": {
+      const start = at("startDate");
+      if (!start) break;
+      add({ summary: details.activityName || doc.title, start, end: at("endDate"), location: details.location || null });
+      break;
+    }
+
+    case "medical":
+      // Coverage spans the trip; there is nothing to put on a particular day
+      break;
+
+    default:
+      if (doc.documentDate) {
+        add({ summary: doc.title, start: { allDay: true, date: getLocalDay(new Date(doc.documentDate), doc.timeZone) }, end: null, location: null });
+      }
+  }
+
+  return events;
+}
+
+function addMinutes(time: Extract<EventTime, { allDay: false }>, minutes: number): EventTime {
+  const shift = (iso: string) => new Date(Date.parse(iso) + minutes * 60_000).toISOString();
+  return {
+    allDay: false,
+    local: shift(`${time.local}:00Z`).slice(0, 16),
+    utc: time.utc ? shift(time.utc) : null,
+  };
+}
+
+// The end to write: a timed event without a (sensible) end gets the
+// default length, and an all-day event ends the day after its last day
+function getEnd(start: EventTime, end: EventTime | null): EventTime {
+  if (start.allDay) {
+    const last = getDay(end);
+    const lastDate = last?.allDay && last.date >= start.date ? last.date : start.date;
+    return { allDay: true, date: addDays(lastDate, 1) };
+  }
+  if (end && !end.allDay) {
+    const startsBefore = start.utc && end.utc ? start.utc < end.utc : start.local <= end.local;
+    if (startsBefore) return end;
+  }
+  return addMinutes(start, DEFAULT_DURATION_MINUTES);
+}
+
+function formatInstant(date: Date | string): string {
+  return new Date(date).toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+function formatTime(property: "DTSTART" | "DTEND", time: EventTime): string {
+  if (time.allDay) return `${property};VALUE=DATE:${time.date.replace(/-/g, "")}`;
+  if (time.utc) return `${property}:${formatInstant(time.utc)}`;
+  return `${property}:${time.local.replace(/[-:]/g, "")}00`;
+}
+
+function escapeText(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+}
+
+// Lines are folded at 75 octets, continuing with a leading space (RFC 5545)
+function foldLine(line: string): string {
+  const parts: string[] = [];
+  let current = "";
+  let size = 0;
+  for (const char of line) {
+    const charSize = Buffer.byteLength(char);
+    if (size + charSize > 75) {
+      parts.push(current);
+      current = " ";
+      size = 1;
+    }
+    current += char;
+    size += charSize;
+  }
+  parts.push(current);
+  return parts.join("\r\n");
+}
+
+/**
+ * An iCalendar file with every dated booking among the documents
+ */
+export function buildCalendar(name: string, documents: Document[], now = new Date()): string {
+  const output = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${PRODUCT_ID}`,
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(name)}`,
+  ];
+
+  for (const doc of documents) {
+    for (const event of getDocumentEvents(doc)) {
+      output.push(
+        "BEGIN:VEVENT",
+        `UID:${event.uid}`,
+        `DTSTAMP:${formatInstant(now)}`,
+        formatTime("DTSTART", event.start),
+        formatTime("DTEND", getEnd(event.start, event.end)),
+        `SUMMARY:${escapeText(event.summary)}`
+      );
+      if (event.location) output.push(`LOCATION:${escapeText(event.location)}`);
+      if (event.description.length > 0) output.push(`DESCRIPTION:${escapeText(event.description.join("\n"))}`);
+      if (doc.cancelledAt) output.push("STATUS:CANCELLED");
+      if (doc.updatedAt) output.push(`LAST-MODIFIED:${formatInstant(doc.updatedAt)}`);
+      output.push("END:VEVENT");
+    }
+  }
+
+  output.push("END:VCALENDAR");
+  return output.map(foldLine).join("\r\n") + "\r\n";
+}
+
+/**
+ * The calendar behind a feed token, or null when the feed was revoked or
+ * its trip deleted
+ */
+export async function renderCalendarFeed(token: string): Promise<{ name: string; calendar: string } | null> {
+  const feed = await db.getCalendarFeedByToken(token);
+  if (!feed) return null;
+
+  if (feed.tripId !== null) {
+    const trip = await db.getTripById(feed.tripId, feed.userId);
+    if (!trip) return null;
+    const documents = await db.getTripDocuments(trip.id, feed.userId);
+    return { name: trip.name, calendar: buildCalendar(trip.name, documents) };
+  }
+
+  const documents = [...(await db.getUserTripDocuments(feed.userId)), ...(await db.getUserInboxDocuments(feed.userId))];
+  return { name: "TripDocHub", calendar: buildCalendar("TripDocHub", documents) };
+}
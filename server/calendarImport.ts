@@ -0,0 +1,268 @@
+/**
+ * Calendar Import
+ *
+ * Airlines, Booking.com and event sites attach iCalendar (.ics) invites to
+ * their confirmation emails. Those are read directly, without the AI and
+ * without charging credits: each VEVENT becomes a flight (when it names a
+ * flight number and two airports), a stay (a multi-night hotel booking) or
+ * an event. The invite's UID is kept on the document so an updated or
+ * cancelled invite for the same UID updates it.
+ */
+
+import { getValidationWarnings } from "./documentSchema";
+import { resolveDocumentTimes } from "./documentTimes";
+import type { ParsedDocument } from "./documentParser";
+import type { DocumentDetails, FieldConfidenceMap } from "../drizzle/schema";
+import { isKnownAirport, getAirport } from "../shared/airports";
+import { getTimeZoneForLocation, isValidTimeZone, localToUtc, utcToLocal } from "../shared/timezones";
+
+export interface CalendarInvite {
+  // Null for the rare invite without a UID
+  uid: string | null;
+  // METHOD:CANCEL or STATUS:CANCELLED
+  cancelled: boolean;
+  document: ParsedDocument;
+}
+
+interface Property {
+  params: Record<string, string>;
+  value: string;
+}
+
+type CalendarEvent = Map<string, Property>;
+
+interface CalendarTime {
+  // YYYY-MM-DD as written
+  date: string;
+  // Wall time as written, null for a date without a time
+  wall: string | null;
+  // Known when the time is in UTC or in a recognised zone
+  instant: Date | null;
+  zone: string | null;
+}
+
+const CALENDAR_MIME_TYPES = new Set(["text/calendar", "application/ics", "text/x-vcalendar"]);
+
+// "LY 381", "U27321", "FR1234"
+const FLIGHT_NUMBER_PATTERN = /\b([A-Z][A-Z0-9]|[A-Z0-9][A-Z])\s?(\d{1,4})\b/;
+const AIRPORT_CODE_PATTERN = /\b[A-Z]{3}\b/g;
+
+// Words that make a multi-night booking a place to stay
+const STAY_PATTERN = /hotel|hostel|resort|apartment|guest ?house|check-?in|accommodation|airbnb|booking\.com|\binn\b|\bstay\b/i;
+const STAY_PREFIX_PATTERN = /^(?:(?:check-?in|stay|reservation|booking)(?: at)?\s*[:\-–]?\s*)/i;
+
+// "Confirmation number: X7Y2QP", "Booking #4123456789"; the code itself is
+// upper case so ordinary words after the label aren't taken for one
+const CONFIRMATION_PATTERN = /(?:confirmation|booking|reservation|record locator|PNR)[^:#\n]{0,20}[:#]\s*([A-Za-z0-9][A-Za-z0-9-]{4,})/i;
+
+/**
+ * Whether an attachment is an iCalendar file. Mail clients often send .ics
+ * files as application/octet-stream, so the extension counts too.
+ */
+export function isCalendarFile(mimeType: string, fileName?: string | null): boolean {
+  const type = mimeType.split(";")[0].trim().toLowerCase();
+  return CALENDAR_MIME_TYPES.has(type) || /\.ics$/i.test(fileName ?? "");
+}
+
+function unescapeText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_match, char: string) => (char.toLowerCase() === "n" ? "\n" : char));
+}
+
+// Split on a separator outside double quotes
+function splitOutsideQuotes(text: string, separator: string, limit = Infinity): string[] {
+  const parts: string[] = [];
+  let current = "";
+  let quoted = false;
+  for (const char of text) {
+    if (char === '"') quoted = !quoted;
+    if (char === separator && !quoted && parts.length < limit - 1) {
+      parts.push(current);
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+  return parts;
+}
+
+function parseLine(line: string): { name: string; property: Property } | null {
+  const [head, value] = splitOutsideQuotes(line, ":", 2);
+  if (value === undefined) return null;
+  const [name, ...rawParams] = splitOutsideQuotes(head, ";");
+  const params: Record<string, string> = {};
+  for (const param of rawParams) {
+    const [key, paramValue = ""] = param.split("=", 2);
+    params[key.trim().toUpperCase()] = paramValue.replace(/^"|"$/g, "");
+  }
+  return { name: name.trim().toUpperCase(), property: { params, value } };
+}
+
+/**
+ * The calendar's METHOD and its VEVENTs, properties keyed by name. Lines
+ * are unfolded first; alarms and time zone definitions are skipped.
+ */
+function readCalendar(text: string): { method: string | null; events: CalendarEvent[] } {
+  const lines = text.replace(/\r?\n[ \t]/g, "").split(/\r?\n/);
+  const stack: string[] = [];
+  const events: CalendarEvent[] = [];
+  let method: string | null = null;
+  let current: CalendarEvent | null = null;
+
+  for (const line of lines) {
+    const parsed = parseLine(line);
+    if (!parsed) continue;
+    const { name, property } = parsed;
+
+    if (name === "BEGIN") {
+      stack.push(property.value.trim().toUpperCase());
+      if (stack[stack.length - 1] === "VEVENT") current = new Map();
+    } else if (name === "END") {
+      if (stack.pop() === "VEVENT" && current) {
+        events.push(current);
+        current = null;
+      }
+    } else if (stack[stack.length - 1] === "VEVENT" && current && !current.has(name)) {
+      current.set(name, property);
+    } else if (stack[stack.length - 1] === "VCALENDAR" && name === "METHOD") {
+      method = property.value.trim().toUpperCase();
+    }
+  }
+
+  return { method, events };
+}
+
+function parseTime(property: Property | undefined): CalendarTime | null {
+  const match = property?.value.trim().match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/);
+  if (!match) return null;
+  const date = `${match[1]}-${match[2]}-${match[3]}`;
+  if (!match[4]) return { date, wall: null, instant: null, zone: null };
+
+  const wall = `${date}T${match[4]}:${match[5]}:${match[6] ?? "00"}`;
+  if (match[7]) return { date, wall, instant: new Date(`${wall}Z`), zone: "UTC" };
+
+  // Zone ids can carry a leading "/" (Lotus, some exporters); Windows names
+  // such as "W. Europe Standard Time" aren't recognised and stay floating
+  const tzid = property!.params.TZID?.replace(/^\//, "");
+  const zone = tzid && isValidTimeZone(tzid) ? tzid : null;
+  return { date, wall, instant: zone ? localToUtc(wall, zone) : null, zone };
+}
+
+// The time as read where it happens: converted into the place's zone when
+// the invite gives an instant, otherwise the wall time as written
+function toLocal(time: CalendarTime | null, placeZone: string | null): string | undefined {
+  if (!time) return undefined;
+  if (!time.wall) return time.date;
+  if (time.instant && (placeZone ?? time.zone)) return utcToLocal(time.instant, (placeZone ?? time.zone)!);
+  return time.wall;
+}
+
+function getText(event: CalendarEvent, name: string): string | null {
+  const value = event.get(name)?.value;
+  return value ? unescapeText(value).trim() || null : null;
+}
+
+function findConfirmationNumber(...texts: Array<string | null>): string | undefined {
+  for (const text of texts) {
+    const code = text?.match(CONFIRMATION_PATTERN)?.[1];
+    if (code && /^[A-Z0-9-]+$/.test(code) && /\d|^[A-Z]{5,}$/.test(code)) return code;
+  }
+  return undefined;
+}
+
+function toFlightDetails(summary: string, location: string | null, start: CalendarTime, end: CalendarTime | null): DocumentDetails | null {
+  const flightNumber = summary.match(FLIGHT_NUMBER_PATTERN);
+  if (!flightNumber || !start.wall) return null;
+  const codes = [...new Set([...`${summary} ${location ?? ""}`.matchAll(AIRPORT_CODE_PATTERN)].map((match) => match[0]))].filter(isKnownAirport);
+  if (codes.length < 2) return null;
+
+  const [departureAirport, arrivalAirport] = codes;
+  return {
+    flightNumber: `${flightNumber[1]} ${flightNumber[2]}`,
+    departureAirport,
+    arrivalAirport,
+    departureTime: toLocal(start, getAirport(departureAirport)?.timeZone ?? null),
+    arrivalTime: toLocal(end, getAirport(arrivalAirport)?.timeZone ?? null),
+  };
+}
+
+/**
+ * Read one VEVENT into a booking
+ */
+function toInvite(event: CalendarEvent, method: string | null): CalendarInvite | null {
+  const start = parseTime(event.get("DTSTART"));
+  if (!start) return null;
+  const end = parseTime(event.get("DTEND"));
+  const summary = getText(event, "SUMMARY") ?? "Calendar event";
+  const location = getText(event, "LOCATION");
+  const description = getText(event, "DESCRIPTION");
+  const cancelled = method === "CANCEL" || event.get("STATUS")?.value.trim().toUpperCase() === "CANCELLED";
+  const placeZone = getTimeZoneForLocation(location);
+
+  let category: ParsedDocument["category"] = "event";
+  let subtitle = location?.split(",")[0] ?? null;
+  let details: DocumentDetails | null = toFlightDetails(summary, location, start, end);
+  // Local date-time the booking starts at, the document's main date
+  let mainDate = details?.departureTime;
+  if (details) {
+    category = "flight";
+    subtitle = `${details.departureAirport} → ${details.arrivalAirport}`;
+  } else if (end && end.date > start.date && STAY_PATTERN.test(`${summary} ${description ?? ""}`)) {
+    category = "accommodation";
+    details = {
+      hotelName: summary.replace(STAY_PREFIX_PATTERN, "") || summary,
+      address: location ?? undefined,
+      checkInDate: toLocal(start, placeZone),
+      checkOutDate: start.wall ? toLocal(end, placeZone) : end.date,
+    };
+    mainDate = details.checkInDate;
+  } else {
+    const local = toLocal(start, placeZone);
+    mainDate = local;
+    details = {
+      eventName: summary,
+      eventDate: local?.slice(0, 10),
+      eventTime: start.wall ? local?.slice(11, 16) : undefined,
+      venueAddress: location ?? undefined,
+    };
+  }
+  details.confirmationNumber = findConfirmationNumber(description, summary);
+
+  const cleanDetails = Object.fromEntries(Object.entries(details).filter(([, value]) => value)) as DocumentDetails;
+  const documentType = cancelled ? "Cancellation" : "Calendar Invite";
+  const { documentDate, timeZone, times } = resolveDocumentTimes({ category, documentType, documentDate: mainDate, details: cleanDetails });
+
+  // Read from a machine-written file, so nothing needs the user's review
+  const fieldConfidence: FieldConfidenceMap = {};
+  for (const key of Object.keys(cleanDetails)) fieldConfidence[key] = { confidence: 1 };
+  if (documentDate) fieldConfidence.documentDate = { confidence: 1 };
+
+  return {
+    uid: getText(event, "UID"),
+    cancelled,
+    document: {
+      category,
+      documentType,
+      title: summary,
+      subtitle,
+      details: cleanDetails,
+      documentDate,
+      timeZone,
+      times,
+      validationWarnings: getValidationWarnings({ category, documentType, documentDate: mainDate, details: cleanDetails }),
+      fieldConfidence,
+    },
+  };
+}
+
+/**
+ * Every booking in an iCalendar file. Occurrences that override one date
+ * of a repeating event (RECURRENCE-ID) are left out.
+ */
+export function parseCalendar(text: string): CalendarInvite[] {
+  const { method, events } = readCalendar(text);
+  return events
+    .filter((event) => !event.has("RECURRENCE-ID"))
+    .map((event) => toInvite(event, method))
+    .filter((invite): invite is CalendarInvite => invite !== null);
+}
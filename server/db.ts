@@ -1,4 +1,4 @@
-import { and, eq, isNull, desc, gte, lte } from "drizzle-orm";
+import { and, eq, isNull, isNotNull, desc, lte, lt, asc, sql, inArray } from "drizzle-orm";
 import { drizzle } from "drizzle-orm/mysql2";
 import {
   InsertUser,
@@ -9,6 +9,22 @@ import {
   InsertDocument,
   Trip,
   Document,
+  jobs,
+  jobAttempts,
+  Job,
+  JobAttempt,
+  InsertJob,
+  creditTransactions,
+  CreditTransaction,
+  InsertCreditTransaction,
+  documentRevisions,
+  DocumentRevision,
+  InsertDocumentRevision,
+  documentVersions,
+  DocumentVersion,
+  InsertDocumentVersion,
+  calendarFeeds,
+  CalendarFeed,
 } from "../drizzle/schema";
 import { ENV } from "./_core/env";
 import { nanoid } from "nanoid";
@@ -85,9 +101,23 @@ export async function upsertUser(user: InsertUser): Promise<void> {
       updateSet.lastSignedIn = new Date();
     }
 
-    await db.insert(users).values(values).onDuplicateKeyUpdate({
+    // affectedRows can't tell an insert from a no-op update (mysql2 reports
+    // found rows), so check whether the user exists before upserting
+    const existing = await db
+      .select({ id: users.id })
+      .from(users)
+      .where(eq(users.openId, user.openId))
+      .limit(1);
+
+    const result = await db.insert(users).values(values).onDuplicateKeyUpdate({
       set: updateSet,
     });
+
+    if (existing.length === 0) {
+      await addCredits(Number(result[0].insertId), NEW_USER_CREDITS, "grant", {
+        description: "Welcome credits",
+      });
+    }
   } catch (error) {
     console.error("[Database] Failed to upsert user:", error);
     throw error;
@@ -166,9 +196,14 @@ export async function deleteTripWithDocuments(tripId: number, userId: number): P
   if (!db) throw new Error("Database not available");
 
   // Delete all documents associated with this trip
+  const tripDocuments = await db
+    .select({ id: documents.id })
+    .from(documents)
+    .where(and(eq(documents.tripId, tripId), eq(documents.userId, userId)));
   await db
     .delete(documents)
     .where(and(eq(documents.tripId, tripId), eq(documents.userId, userId)));
+  await deleteDocumentHistory(userId, tripDocuments.map((doc) => doc.id));
 
   // Then delete the trip
   await db.delete(trips).where(and(eq(trips.id, tripId), eq(trips.userId, userId)));
@@ -247,6 +282,17 @@ export async function getTripDocuments(tripId: number, userId: number): Promise<
     .orderBy(desc(documents.createdAt));
 }
 
+// Every document filed in a trip, for matching new documents against
+export async function getUserTripDocuments(userId: number): Promise<Document[]> {
+  const db = await getDb();
+  if (!db) return [];
+
+  return db
+    .select()
+    .from(documents)
+    .where(and(eq(documents.userId, userId), isNotNull(documents.tripId)));
+}
+
 export async function getDocumentById(
   documentId: number,
   userId: number
@@ -299,6 +345,28 @@ export async function assignDocumentToTrip(
     .where(and(eq(documents.id, documentId), eq(documents.userId, userId)));
 }
 
+// Move inbox documents into a trip; documents already in a trip stay put
+export async function assignInboxDocumentsToTrip(
+  documentIds: number[],
+  userId: number,
+  tripId: number
+): Promise<void> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  if (documentIds.length === 0) return;
+
+  await db
+    .update(documents)
+    .set({ tripId })
+    .where(
+      and(
+        inArray(documents.id, documentIds),
+        eq(documents.userId, userId),
+        isNull(documents.tripId)
+      )
+    );
+}
+
 export async function deleteDocument(documentId: number, userId: number): Promise<void> {
   const db = await getDb();
   if (!db) throw new Error("Database not available");
@@ -306,6 +374,25 @@ export async function deleteDocument(documentId: number, userId: number): Promis
   await db
     .delete(documents)
     .where(and(eq(documents.id, documentId), eq(documents.userId, userId)));
+  await db
+    .delete(documentRevisions)
+    .where(and(eq(documentRevisions.documentId, documentId), eq(documentRevisions.userId, userId)));
+  await db
+    .delete(documentVersions)
+    .where(and(eq(documentVersions.documentId, documentId), eq(documentVersions.userId, userId)));
+}
+
+// Revisions and versions of documents that were deleted
+async function deleteDocumentHistory(userId: number, documentIds: number[]): Promise<void> {
+  const db = await getDb();
+  if (!db || documentIds.length === 0) return;
+
+  await db
+    .delete(documentRevisions)
+    .where(and(inArray(documentRevisions.documentId, documentIds), eq(documentRevisions.userId, userId)));
+  await db
+    .delete(documentVersions)
+    .where(and(inArray(documentVersions.documentId, documentIds), eq(documentVersions.userId, userId)));
 }
 
 export async function clearUserInbox(userId: number): Promise<number> {
@@ -313,13 +400,44 @@ export async function clearUserInbox(userId: number): Promise<number> {
   if (!db) throw new Error("Database not available");
 
   // Delete all documents that are not assigned to any trip (inbox documents)
+  const inboxDocuments = await db
+    .select({ id: documents.id })
+    .from(documents)
+    .where(and(eq(documents.userId, userId), isNull(documents.tripId)));
   const result = await db
     .delete(documents)
     .where(and(eq(documents.userId, userId), isNull(documents.tripId)));
+  await deleteDocumentHistory(userId, inboxDocuments.map((doc) => doc.id));
 
   return result[0]?.affectedRows ?? 0;
 }
 
+/**
+ * Documents to re-parse in an admin bulk run, oldest first. Only documents
+ * with a stored original (file or email body) can be re-parsed.
+ */
+export async function getDocumentsForReparse(filter: {
+  userId?: number;
+  category?: Document["category"];
+  createdBefore?: Date;
+  limit: number;
+}): Promise<Array<{ id: number; userId: number }>> {
+  const db = await getDb();
+  if (!db) return [];
+
+  const conditions = [sql`(${documents.originalFileUrl} IS NOT NULL OR ${documents.originalEmailBody} IS NOT NULL)`];
+  if (filter.userId !== undefined) conditions.push(eq(documents.userId, filter.userId));
+  if (filter.category !== undefined) conditions.push(eq(documents.category, filter.category));
+  if (filter.createdBefore !== undefined) conditions.push(lt(documents.createdAt, filter.createdBefore));
+
+  return db
+    .select({ id: documents.id, userId: documents.userId })
+    .from(documents)
+    .where(and(...conditions))
+    .orderBy(asc(documents.createdAt))
+    .limit(filter.limit);
+}
+
 export async function findDuplicateDocument(
   userId: number,
   contentHash: string
@@ -336,27 +454,26 @@ export async function findDuplicateDocument(
   return result.length > 0 ? result[0] : undefined;
 }
 
-export async function findMatchingTrip(
+// Documents whose confirmation number matches once spaces and dashes are
+// dropped, e.g. "X7Y-2QP" and "x7y2qp"
+export async function getDocumentsByConfirmationNumber(
   userId: number,
-  documentDate: Date
-): Promise<Trip | undefined> {
+  confirmationNumber: string
+): Promise<Document[]> {
   const db = await getDb();
-  if (!db) return undefined;
+  if (!db) return [];
 
-  // Find a trip where the document date falls within the trip's date range
-  const result = await db
+  const normalized = confirmationNumber.replace(/[\s-]+/g, "").toUpperCase();
+  return db
     .select()
-    .from(trips)
+    .from(documents)
     .where(
       and(
-        eq(trips.userId, userId),
-        lte(trips.startDate, documentDate),
-        gte(trips.endDate, documentDate)
+        eq(documents.userId, userId),
+        sql`REPLACE(REPLACE(UPPER(JSON_UNQUOTE(JSON_EXTRACT(${documents.details}, '$.confirmationNumber'))), ' ', ''), '-', '') = ${normalized}`
       )
     )
-    .limit(1);
-
-  return result.length > 0 ? result[0] : undefined;
+    .orderBy(desc(documents.createdAt));
 }
 
 export async function getDocumentCounts(userId: number): Promise<{
@@ -425,14 +542,164 @@ export async function getDocumentByContentHash(
   return result.length > 0 ? result[0] : undefined;
 }
 
+export async function getDocumentByCalendarUid(userId: number, calendarUid: string): Promise<Document | undefined> {
+  const db = await getDb();
+  if (!db) return undefined;
+
+  const result = await db
+    .select()
+    .from(documents)
+    .where(and(eq(documents.userId, userId), eq(documents.calendarUid, calendarUid)))
+    .limit(1);
+
+  return result.length > 0 ? result[0] : undefined;
+}
+
+// ============ DOCUMENT REVISION FUNCTIONS ============
+
+export async function createDocumentRevisions(data: InsertDocumentRevision[]): Promise<void> {
+  if (data.length === 0) return;
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db.insert(documentRevisions).values(data);
+}
+
+/**
+ * Revisions of a document, oldest first
+ */
+export async function getDocumentRevisions(documentId: number, userId: number): Promise<DocumentRevision[]> {
+  const db = await getDb();
+  if (!db) return [];
+
+  return db
+    .select()
+    .from(documentRevisions)
+    .where(and(eq(documentRevisions.documentId, documentId), eq(documentRevisions.userId, userId)))
+    .orderBy(asc(documentRevisions.createdAt), asc(documentRevisions.id));
+}
+
+// ============ DOCUMENT VERSION FUNCTIONS ============
+
+export async function createDocumentVersion(data: InsertDocumentVersion): Promise<number> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const result = await db.insert(documentVersions).values(data);
+  return Number(result[0].insertId);
+}
+
+/**
+ * Versions of a document, oldest first
+ */
+export async function getDocumentVersions(documentId: number, userId: number): Promise<DocumentVersion[]> {
+  const db = await getDb();
+  if (!db) return [];
+
+  return db
+    .select()
+    .from(documentVersions)
+    .where(and(eq(documentVersions.documentId, documentId), eq(documentVersions.userId, userId)))
+    .orderBy(asc(documentVersions.createdAt), asc(documentVersions.id));
+}
+
+// ============ CALENDAR FEED FUNCTIONS ============
+
+/**
+ * Create a calendar feed with a new secret token, for one trip or (tripId
+ * null) all of them
+ */
+export async function createCalendarFeed(userId: number, tripId: number | null): Promise<CalendarFeed> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const token = nanoid(32);
+  const result = await db.insert(calendarFeeds).values({ userId, tripId, token });
+  return { id: Number(result[0].insertId), userId, tripId, token, createdAt: new Date() };
+}
+
+export async function getUserCalendarFeeds(userId: number): Promise<CalendarFeed[]> {
+  const db = await getDb();
+  if (!db) return [];
+
+  return db
+    .select()
+    .from(calendarFeeds)
+    .where(eq(calendarFeeds.userId, userId))
+    .orderBy(asc(calendarFeeds.createdAt));
+}
+
+export async function getCalendarFeedByToken(token: string): Promise<CalendarFeed | undefined> {
+  const db = await getDb();
+  if (!db) return undefined;
+
+  const result = await db.select().from(calendarFeeds).where(eq(calendarFeeds.token, token)).limit(1);
+  return result.length > 0 ? result[0] : undefined;
+}
+
+export async function deleteCalendarFeed(feedId: number, userId: number): Promise<void> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db
+    .delete(calendarFeeds)
+    .where(and(eq(calendarFeeds.id, feedId), eq(calendarFeeds.userId, userId)));
+}
+
 // ============ CREDITS FUNCTIONS ============
 
+// Free credits granted when an account is created
+export const NEW_USER_CREDITS = 20;
+
+type CreditReference = {
+  description?: string;
+  jobId?: number;
+  documentId?: number;
+  reference?: string;
+};
+
+/**
+ * Append a row to the credit ledger. Rows are never updated or deleted;
+ * corrections are recorded as new rows.
+ */
+export async function recordCreditTransaction(data: InsertCreditTransaction): Promise<number> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const result = await db.insert(creditTransactions).values(data);
+  return Number(result[0].insertId);
+}
+
+export async function getCreditBalance(userId: number): Promise<number> {
+  const db = await getDb();
+  if (!db) return 0;
+
+  const result = await db
+    .select({ balance: sql<number>`COALESCE(SUM(${creditTransactions.amount}), 0)` })
+    .from(creditTransactions)
+    .where(eq(creditTransactions.userId, userId));
+
+  return Number(result[0]?.balance ?? 0);
+}
+
+export async function getCreditHistory(userId: number, limit = 50): Promise<CreditTransaction[]> {
+  const db = await getDb();
+  if (!db) return [];
+
+  return db
+    .select()
+    .from(creditTransactions)
+    .where(eq(creditTransactions.userId, userId))
+    .orderBy(desc(creditTransactions.createdAt), desc(creditTransactions.id))
+    .limit(limit);
+}
+
 export async function getUserCredits(userId: number): Promise<{ credits: number; hasSubscription: boolean }> {
   const db = await getDb();
   if (!db) return { credits: 0, hasSubscription: false };
 
   const result = await db
-    .select({ credits: users.credits, subscriptionExpiresAt: users.subscriptionExpiresAt })
+    .select({ subscriptionExpiresAt: users.subscriptionExpiresAt })
     .from(users)
     .where(eq(users.id, userId))
     .limit(1);
@@ -441,42 +708,106 @@ export async function getUserCredits(userId: number): Promise<{ credits: number;
 
   const user = result[0];
   const hasSubscription = user.subscriptionExpiresAt !== null && user.subscriptionExpiresAt > new Date();
+  const credits = await getCreditBalance(userId);
 
-  return { credits: user.credits, hasSubscription };
+  return { credits, hasSubscription };
 }
 
-export async function deductCredit(userId: number): Promise<boolean> {
+/**
+ * Charge credits for parsing. Subscribers are not charged (no ledger row).
+ * Returns the credits actually charged, or null if the user can't afford
+ * `amount`. With `allowPartial` whatever balance is left is charged instead,
+ * so a parse that is already done is never held back.
+ */
+export async function chargeCredits(
+  userId: number,
+  amount: number,
+  ref: CreditReference = {},
+  options: { allowPartial?: boolean } = {}
+): Promise<number | null> {
   const db = await getDb();
-  if (!db) return false;
+  if (!db) return null;
 
-  // First check if user has subscription or credits
   const { credits, hasSubscription } = await getUserCredits(userId);
 
   // If user has active subscription, don't deduct credits
-  if (hasSubscription) return true;
+  if (hasSubscription) return 0;
 
-  // If no credits left, return false
-  if (credits <= 0) return false;
+  const charge = options.allowPartial ? Math.min(amount, Math.max(credits, 0)) : amount;
+  if (!options.allowPartial && credits < amount) return null;
+  if (charge <= 0) return 0;
 
-  // Deduct one credit
-  await db
-    .update(users)
-    .set({ credits: credits - 1 })
-    .where(eq(users.id, userId));
+  await recordCreditTransaction({
+    userId,
+    type: "parse_charge",
+    amount: -charge,
+    description: ref.description ?? "Document processed",
+    jobId: ref.jobId,
+    documentId: ref.documentId,
+    reference: ref.reference,
+  });
 
-  return true;
+  return charge;
 }
 
-export async function addCredits(userId: number, amount: number): Promise<void> {
+export async function addCredits(
+  userId: number,
+  amount: number,
+  type: "grant" | "purchase" | "promo" | "admin_adjustment",
+  ref: CreditReference = {}
+): Promise<void> {
+  await recordCreditTransaction({
+    userId,
+    type,
+    amount,
+    description: ref.description,
+    jobId: ref.jobId,
+    documentId: ref.documentId,
+    reference: ref.reference,
+  });
+}
+
+/**
+ * Refund whatever is still charged against a job (charges minus earlier
+ * refunds), optionally only for one source file via `reference`.
+ * Safe to call more than once. Returns the credits refunded.
+ */
+export async function refundJobCharges(
+  userId: number,
+  jobId: number,
+  description: string,
+  reference?: string
+): Promise<number> {
   const db = await getDb();
   if (!db) throw new Error("Database not available");
 
-  const { credits } = await getUserCredits(userId);
+  const conditions = [
+    eq(creditTransactions.userId, userId),
+    eq(creditTransactions.jobId, jobId),
+    inArray(creditTransactions.type, ["parse_charge", "refund"]),
+  ];
+  if (reference) {
+    conditions.push(eq(creditTransactions.reference, reference));
+  }
+
+  const result = await db
+    .select({ net: sql<number>`COALESCE(SUM(${creditTransactions.amount}), 0)` })
+    .from(creditTransactions)
+    .where(and(...conditions));
 
-  await db
-    .update(users)
-    .set({ credits: credits + amount })
-    .where(eq(users.id, userId));
+  const outstanding = -Number(result[0]?.net ?? 0);
+  if (outstanding <= 0) return 0;
+
+  await recordCreditTransaction({
+    userId,
+    type: "refund",
+    amount: outstanding,
+    description,
+    jobId,
+    reference,
+  });
+
+  return outstanding;
 }
 
 export async function setSubscription(userId: number, expiresAt: Date | null): Promise<void> {
@@ -489,9 +820,9 @@ export async function setSubscription(userId: number, expiresAt: Date | null): P
     .where(eq(users.id, userId));
 }
 
-export async function canProcessDocument(userId: number): Promise<boolean> {
+export async function canProcessDocument(userId: number, cost = 1): Promise<boolean> {
   const { credits, hasSubscription } = await getUserCredits(userId);
-  return hasSubscription || credits > 0;
+  return hasSubscription || credits >= cost;
 }
 
 
@@ -568,7 +899,10 @@ export async function redeemPromoCode(
   }
 
   // Add credits to user
-  await addCredits(userId, credits);
+  await addCredits(userId, credits, "promo", {
+    description: `Promo code ${code.code}`,
+    reference: code.code,
+  });
 
   // Record the redemption
   await db.insert(promoRedemptions).values({
@@ -638,7 +972,10 @@ export async function processPurchase(
   }
 
   // Add credits to user
-  await addCredits(userId, creditsToAdd);
+  await addCredits(userId, creditsToAdd, "purchase", {
+    description: `Purchased ${creditsToAdd} credits`,
+    reference: purchaseToken,
+  });
 
   // Record the purchase
   await recordPurchase({
@@ -674,3 +1011,199 @@ export async function getUserPushToken(userId: number): Promise<string | null> {
 
   return result.length > 0 ? result[0].expoPushToken : null;
 }
+
+
+// ============ JOB FUNCTIONS ============
+
+export async function createJob(data: InsertJob): Promise<number> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const result = await db.insert(jobs).values(data);
+  return Number(result[0].insertId);
+}
+
+export async function getJobById(jobId: number): Promise<Job | undefined> {
+  const db = await getDb();
+  if (!db) return undefined;
+
+  const result = await db.select().from(jobs).where(eq(jobs.id, jobId)).limit(1);
+
+  return result.length > 0 ? result[0] : undefined;
+}
+
+export async function getUserJobs(
+  userId: number,
+  options: { activeOnly?: boolean; limit?: number } = {}
+): Promise<Job[]> {
+  const db = await getDb();
+  if (!db) return [];
+
+  const conditions = [eq(jobs.userId, userId)];
+  if (options.activeOnly) {
+    conditions.push(inArray(jobs.status, ["queued", "running"]));
+  }
+
+  return db
+    .select()
+    .from(jobs)
+    .where(and(...conditions))
+    .orderBy(desc(jobs.createdAt))
+    .limit(options.limit ?? 20);
+}
+
+export async function getDueJobs(limit: number): Promise<Job[]> {
+  const db = await getDb();
+  if (!db) return [];
+
+  return db
+    .select()
+    .from(jobs)
+    .where(and(eq(jobs.status, "queued"), lte(jobs.runAt, new Date())))
+    .orderBy(asc(jobs.runAt))
+    .limit(limit);
+}
+
+/**
+ * Atomically move a queued job to running. Returns false if another worker
+ * claimed it first.
+ */
+export async function claimJob(jobId: number): Promise<boolean> {
+  const db = await getDb();
+  if (!db) return false;
+
+  const result = await db
+    .update(jobs)
+    .set({
+      status: "running",
+      lockedAt: new Date(),
+      attempts: sql`${jobs.attempts} + 1`,
+    })
+    .where(and(eq(jobs.id, jobId), eq(jobs.status, "queued")));
+
+  return (result[0]?.affectedRows ?? 0) > 0;
+}
+
+export async function updateJobProgress(jobId: number, progress: unknown): Promise<void> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db.update(jobs).set({ progress }).where(eq(jobs.id, jobId));
+}
+
+export async function completeJob(jobId: number, result: unknown): Promise<void> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db
+    .update(jobs)
+    .set({
+      status: "completed",
+      result,
+      lockedAt: null,
+      lastError: null,
+      completedAt: new Date(),
+    })
+    .where(eq(jobs.id, jobId));
+}
+
+export async function rescheduleJob(jobId: number, runAt: Date, error: string): Promise<void> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db
+    .update(jobs)
+    .set({ status: "queued", runAt, lockedAt: null, lastError: error })
+    .where(eq(jobs.id, jobId));
+}
+
+export async function markJobDead(jobId: number, error: string): Promise<void> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db
+    .update(jobs)
+    .set({ status: "dead", lockedAt: null, lastError: error, completedAt: new Date() })
+    .where(eq(jobs.id, jobId));
+}
+
+/**
+ * Cancel a job that hasn't started (or is waiting for a retry).
+ * Returns false if it is already running or finished.
+ */
+export async function cancelJob(jobId: number): Promise<boolean> {
+  const db = await getDb();
+  if (!db) return false;
+
+  const result = await db
+    .update(jobs)
+    .set({ status: "cancelled", completedAt: new Date() })
+    .where(and(eq(jobs.id, jobId), eq(jobs.status, "queued")));
+
+  return (result[0]?.affectedRows ?? 0) > 0;
+}
+
+/**
+ * Put a dead or cancelled job back in the queue with a fresh set of attempts.
+ * Progress is kept so work that already succeeded is not repeated.
+ */
+export async function retryJob(jobId: number): Promise<boolean> {
+  const db = await getDb();
+  if (!db) return false;
+
+  const result = await db
+    .update(jobs)
+    .set({ status: "queued", attempts: 0, runAt: new Date(), lastError: null, completedAt: null })
+    .where(and(eq(jobs.id, jobId), inArray(jobs.status, ["dead", "cancelled"])));
+
+  return (result[0]?.affectedRows ?? 0) > 0;
+}
+
+/**
+ * Return jobs whose worker disappeared (e.g. process restart mid-parse)
+ * back to the queue so they are picked up again.
+ */
+export async function requeueStaleJobs(lockedBefore: Date): Promise<number> {
+  const db = await getDb();
+  if (!db) return 0;
+
+  const result = await db
+    .update(jobs)
+    .set({ status: "queued", lockedAt: null, runAt: new Date() })
+    .where(and(eq(jobs.status, "running"), lt(jobs.lockedAt, lockedBefore)));
+
+  return result[0]?.affectedRows ?? 0;
+}
+
+export async function createJobAttempt(jobId: number, attempt: number): Promise<number> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const result = await db.insert(jobAttempts).values({ jobId, attempt });
+  return Number(result[0].insertId);
+}
+
+export async function finishJobAttempt(
+  attemptId: number,
+  status: "succeeded" | "failed",
+  error?: string
+): Promise<void> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db
+    .update(jobAttempts)
+    .set({ status, error: error ?? null, finishedAt: new Date() })
+    .where(eq(jobAttempts.id, attemptId));
+}
+
+export async function getJobAttempts(jobId: number): Promise<JobAttempt[]> {
+  const db = await getDb();
+  if (!db) return [];
+
+  return db
+    .select()
+    .from(jobAttempts)
+    .where(eq(jobAttempts.jobId, jobId))
+    .orderBy(asc(jobAttempts.attempt));
+}
@@ -0,0 +1,201 @@
+/**
+ * Document Edits
+ *
+ * Applies changes to a parsed document and records each changed field in
+ * `document_revisions`. The first revision of a field keeps the value the AI
+ * extracted, so corrections can be shown next to the original and re-applied
+ * when the document is parsed again.
+ */
+
+import * as db from "./db";
+import { getValidationWarnings } from "./documentSchema";
+import { resolveDocumentTimes } from "./documentTimes";
+import type {
+  Document,
+  DocumentDetails,
+  DocumentRevision,
+  FieldConfidenceMap,
+  FlightSegment,
+  InsertDocument,
+} from "../drizzle/schema";
+
+export type RevisionSource = DocumentRevision["source"];
+
+// Revision values are plain strings; null means the field was empty
+export type DetailValue = string | null;
+
+/**
+ * A change to a document. Omitted fields are left alone; a null detail
+ * removes that key.
+ */
+export interface DocumentEdit {
+  title?: string;
+  subtitle?: string | null;
+  category?: Document["category"];
+  documentType?: string;
+  documentDate?: Date | null;
+  details?: Record<string, DetailValue>;
+}
+
+export interface FieldChange {
+  // Column name, or "details.<key>" for a detail
+  field: string;
+  previousValue: DetailValue;
+  newValue: DetailValue;
+}
+
+const DOCUMENT_FIELDS = ["title", "subtitle", "category", "documentType"] as const;
+
+// Dates are compared and stored as ISO strings so revisions stay plain JSON
+function toRevisionValue(value: unknown): DetailValue {
+  if (value === undefined || value === null || value === "") return null;
+  if (value instanceof Date) return value.toISOString();
+  return String(value);
+}
+
+/**
+ * Fields the edit would actually change
+ */
+export function diffDocument(doc: Document, edit: DocumentEdit): FieldChange[] {
+  const changes: FieldChange[] = [];
+  const push = (field: string, before: unknown, after: unknown) => {
+    const previousValue = toRevisionValue(before);
+    const newValue = toRevisionValue(after);
+    if (previousValue !== newValue) {
+      changes.push({ field, previousValue, newValue });
+    }
+  };
+
+  for (const field of DOCUMENT_FIELDS) {
+    if (edit[field] !== undefined) push(field, doc[field], edit[field]);
+  }
+  if (edit.documentDate !== undefined) {
+    push("documentDate", doc.documentDate, edit.documentDate);
+  }
+
+  const details = (doc.details as DocumentDetails | null) ?? {};
+  for (const [key, value] of Object.entries(edit.details ?? {})) {
+    push(`details.${key}`, details[key], value);
+  }
+
+  return changes;
+}
+
+// Key a revision field has in the document's fieldConfidence map
+function confidenceKey(field: string): string {
+  return field.replace(/^details\./, "");
+}
+
+/**
+ * Apply an edit and log the changed fields. Fields changed by the user, plus
+ * any listed in `confirm`, are marked as confirmed so they're no longer
+ * flagged for review, and the validation warnings are recomputed. `update`
+ * carries extra columns to write alongside (e.g. tripId).
+ */
+export async function applyDocumentEdit(
+  userId: number,
+  doc: Document,
+  edit: DocumentEdit,
+  options: { source?: RevisionSource; confirm?: string[]; update?: Partial<InsertDocument> } = {}
+): Promise<FieldChange[]> {
+  const changes = diffDocument(doc, edit);
+  const update: Partial<InsertDocument> = { ...options.update };
+
+  for (const change of changes) {
+    if (change.field === "documentDate") {
+      update.documentDate = change.newValue === null ? null : new Date(String(change.newValue));
+    } else if (!change.field.startsWith("details.")) {
+      Object.assign(update, { [change.field]: change.newValue });
+    }
+  }
+
+  const detailChanges = changes.filter((change) => change.field.startsWith("details."));
+  if (detailChanges.length > 0) {
+    const details: DocumentDetails = { ...((doc.details as DocumentDetails | null) ?? {}) };
+    for (const change of detailChanges) {
+      const key = confidenceKey(change.field);
+      if (change.newValue === null) {
+        delete details[key];
+      } else {
+        details[key] = change.newValue;
+      }
+    }
+    update.details = details;
+  }
+
+  const segments = (update.segments !== undefined ? update.segments : doc.segments) as FlightSegment[] | null;
+  if (update.details || update.category || update.documentType) {
+    // A changed time or place can move the times to another zone
+    const { timeZone, times } = resolveDocumentTimes({
+      category: update.category ?? doc.category,
+      documentType: update.documentType ?? doc.documentType,
+      documentDate: null,
+      details: (update.details ?? doc.details ?? {}) as DocumentDetails,
+      segments,
+    });
+    update.timeZone = timeZone;
+    update.times = times;
+  }
+
+  if (changes.length > 0) {
+    update.validationWarnings = getValidationWarnings({
+      category: update.category ?? doc.category,
+      documentType: update.documentType ?? doc.documentType,
+      documentDate: (update.documentDate === undefined ? doc.documentDate : update.documentDate)?.toISOString(),
+      details: (update.details ?? doc.details ?? {}) as Record<string, unknown>,
+      segments,
+    });
+  }
+
+  const source = options.source ?? "user";
+  const confirmed = new Set([
+    ...(source === "user" ? changes.map((change) => confidenceKey(change.field)) : []),
+    ...(options.confirm ?? []),
+  ]);
+  if (confirmed.size > 0) {
+    const fieldConfidence: FieldConfidenceMap = {
+      ...((doc.fieldConfidence as FieldConfidenceMap | null) ?? {}),
+      ...(update.fieldConfidence as FieldConfidenceMap | undefined),
+    };
+    for (const field of confirmed) {
+      fieldConfidence[field] = {
+        ...fieldConfidence[field],
+        confidence: fieldConfidence[field]?.confidence ?? 1,
+        confirmed: true,
+      };
+    }
+    update.fieldConfidence = fieldConfidence;
+  }
+
+  if (Object.keys(update).length === 0) {
+    return changes;
+  }
+
+  await db.updateDocument(doc.id, userId, update);
+  await db.createDocumentRevisions(
+    changes.map((change) => ({
+      documentId: doc.id,
+      userId,
+      field: change.field,
+      previousValue: change.previousValue,
+      newValue: change.newValue,
+      source,
+    }))
+  );
+
+  return changes;
+}
+
+/**
+ * Latest value the user set for each field they edited by hand, keyed by
+ * revision field. Re-parsing keeps these instead of the fresh AI values.
+ */
+export function getUserEditedFields(revisions: DocumentRevision[]): Map<string, DetailValue> {
+  const edited = new Map<string, DetailValue>();
+  for (const revision of revisions) {
+    if (revision.source === "user") {
+      edited.set(revision.field, revision.newValue as DetailValue);
+    }
+  }
+  return edited;
+}
@@ -0,0 +1,994 @@
+/**
+ * Document Processing Jobs
+ *
+ * Queue handlers for everything that turns a file or email into documents:
+ * email attachments, email bodies and in-app uploads. Registered with the
+ * job queue at server start.
+ */
+
+import { parseDocument, parseEmailBody, type ParsedDocument, type ParseResult } from "./documentParser";
+import * as db from "./db";
+import { enqueueJob, registerJobHandler, type JobContext } from "./jobQueue";
+import { sendPushNotification, EmailProcessingNotifications, BookingChangeNotifications } from "./pushNotification";
+import {
+  getPricingPolicy,
+  getParseCost,
+  getSourcePageCount,
+  getUpfrontParseCost,
+  type PricingPolicy,
+} from "./pricing";
+import { reparseForBulk, type BulkReparseOutcome } from "./documentReparse";
+import { findTripCandidates, pickAutoAssignTrip, type TripCandidate } from "./tripMatcher";
+import { applyBookingChange, describeBookingChanges } from "./bookingChanges";
+import { addDocumentVersion, type DocumentOrigin } from "./documentVersions";
+import { isCalendarFile, parseCalendar } from "./calendarImport";
+import { isWalletPass, readGoogleWalletLinks, readWalletPass } from "./walletPass";
+import { applyBoardingPassBarcode, readBoardingPassBarcode } from "./boardingPassBarcode";
+import { hasEmailBody, isSupportedAttachment, replaceContentIds, type EmailMessage } from "./emailMessage";
+import { fetchStoredFile, storagePut } from "./storage";
+import { hasLowConfidenceDate } from "../shared/confidence";
+import type { Document, Job } from "../drizzle/schema";
+import { WALLET_PASS_MIME_TYPE } from "../shared/const";
+import { createHash } from "crypto";
+import { nanoid } from "nanoid";
+
+export const JOB_TYPES = {
+  emailAttachments: "email_attachments",
+  emailBody: "email_body",
+  upload: "upload",
+  reparse: "reparse",
+} as const;
+
+export interface EmailAttachmentsJobPayload {
+  files: Array<{ fileUrl: string; fileName: string; mimeType: string }>;
+  subject?: string;
+  // Trip an uploaded email was added to; forwarded emails are matched to one
+  tripId?: number | null;
+}
+
+export interface EmailBodyJobPayload {
+  html?: string;
+  plain?: string;
+  subject?: string;
+  sender?: string;
+  tripId?: number | null;
+}
+
+export interface UploadJobPayload {
+  fileUrl: string;
+  fileName?: string;
+  mimeType: string;
+  tripId: number | null;
+  contentHash?: string;
+}
+
+// Admin bulk re-parse; dry runs only report what would change
+export interface ReparseJobPayload {
+  documents: Array<{ id: number; userId: number }>;
+  apply: boolean;
+}
+
+export interface ReparseJobResult {
+  count: number;
+  changed: number;
+  applied: number;
+  skippedUserEdits: number;
+  failed: number;
+  documents: Array<{ id: number } & BulkReparseOutcome>;
+}
+
+export interface UploadJobResult {
+  documentIds: number[];
+  count: number;
+  autoAssignedTripId: number | null;
+  autoAssignedTripName: string | null;
+  needsManualAssignment: boolean;
+  // Likely trips for the documents left unassigned, best first
+  tripCandidates: TripCandidate[];
+  outOfCredits?: boolean;
+}
+
+/**
+ * Progress reported by every document job, shown live in the app
+ */
+export interface DocumentJobProgress {
+  stage: "parsing" | "saving";
+  documentCount: number;
+  filesTotal?: number;
+  filesDone?: number;
+}
+
+// Checkpoint for attachment jobs so retries skip files that already produced documents
+interface EmailAttachmentsJobProgress extends DocumentJobProgress {
+  completedFiles: string[];
+  // Documents saved from this email, which its other bookings mustn't update
+  documentIds: number[];
+  // Files that failed part-way, by URL, so a retry saves only the rest of them
+  partialFiles: Record<string, SourceCheckpoint>;
+}
+
+// Checkpoint for one source (an email body, upload or attachment): the parse,
+// what was charged for it and the documents already saved from it
+interface SourceCheckpoint {
+  documentIds: number[];
+  parseResult?: ParseResult;
+  charge?: ParseCharge;
+}
+
+// Checkpoint for single-source jobs (email body, upload)
+interface SourceJobProgress extends DocumentJobProgress, SourceCheckpoint {}
+
+// Upload checkpoints also keep how the saved documents were assigned to trips
+interface UploadJobProgress extends SourceJobProgress {
+  assignment: Pick<UploadJobResult, "autoAssignedTripId" | "autoAssignedTripName" | "needsManualAssignment" | "tripCandidates">;
+}
+
+// Checkpoint for re-parse jobs so retries don't re-run documents already done
+interface ReparseJobProgress extends DocumentJobProgress {
+  results: ReparseJobResult["documents"];
+}
+
+/**
+ * Job fields safe to send to the client (payloads can hold whole email bodies)
+ */
+export interface JobSummary {
+  id: number;
+  type: string;
+  status: Job["status"];
+  label: string | null;
+  progress: DocumentJobProgress | null;
+  result: { documentCount?: number; count?: number; outOfCredits?: boolean } | null;
+  attempts: number;
+  maxAttempts: number;
+  lastError: string | null;
+  runAt: Date;
+  createdAt: Date;
+  completedAt: Date | null;
+}
+
+/**
+ * Human-readable name for what a job is processing
+ */
+function getJobLabel(job: Job): string | null {
+  switch (job.type) {
+    case JOB_TYPES.emailAttachments: {
+      const payload = job.payload as EmailAttachmentsJobPayload;
+      return payload.subject || payload.files[0]?.fileName || null;
+    }
+    case JOB_TYPES.emailBody:
+      return (job.payload as EmailBodyJobPayload).subject || null;
+    case JOB_TYPES.upload:
+      return (job.payload as UploadJobPayload).fileName || null;
+    case JOB_TYPES.reparse: {
+      const payload = job.payload as ReparseJobPayload;
+      return `${payload.apply ? "Re-parse" : "Re-parse dry run"}: ${payload.documents.length} documents`;
+    }
+    default:
+      return null;
+  }
+}
+
+// Checkpoints also hold parse results and charges, which stay on the server
+function getProgressSummary(progress: DocumentJobProgress | null): DocumentJobProgress | null {
+  if (!progress) return null;
+  const { stage, documentCount, filesTotal, filesDone } = progress;
+  return { stage, documentCount, filesTotal, filesDone };
+}
+
+export function toJobSummary(job: Job): JobSummary {
+  return {
+    id: job.id,
+    type: job.type,
+    status: job.status,
+    label: getJobLabel(job),
+    progress: getProgressSummary(job.progress as DocumentJobProgress | null),
+    result: (job.result as JobSummary["result"]) ?? null,
+    attempts: job.attempts,
+    maxAttempts: job.maxAttempts,
+    lastError: job.lastError,
+    runAt: job.runAt,
+    createdAt: job.createdAt,
+    completedAt: job.completedAt,
+  };
+}
+
+/**
+ * Send push notification to user about email processing status
+ */
+export async function sendProcessingNotification(
+  userId: number,
+  type: "received" | "completed" | "error" | "no_credits" | "no_bookings",
+  details: {
+    documentCount?: number;
+    errorMessage?: string;
+    subject?: string;
+  }
+): Promise<void> {
+  try {
+    let payload;
+
+    switch (type) {
+      case "received":
+        payload = EmailProcessingNotifications.received(details.subject);
+        break;
+      case "completed":
+        payload = EmailProcessingNotifications.completed(details.documentCount || 0);
+        break;
+      case "error":
+        payload = EmailProcessingNotifications.error(details.errorMessage);
+        break;
+      case "no_credits":
+        payload = EmailProcessingNotifications.noCredits();
+        break;
+      case "no_bookings":
+        payload = EmailProcessingNotifications.noBookingsFound(details.subject);
+        break;
+    }
+
+    const timestamp = new Date().toISOString();
+    const result = await sendPushNotification(userId, payload);
+    if (result.success) {
+      console.log(`[Jobs] [${timestamp}] Successfully sent ${type} push notification to user ${userId}`);
+    } else {
+      console.warn(`[Jobs] [${timestamp}] Failed to send ${type} notification to user ${userId}. Error: ${result.error}. This may indicate the user hasn't opened the app yet or doesn't have notifications enabled.`);
+    }
+  } catch (error) {
+    const timestamp = new Date().toISOString();
+    console.error(`[Jobs] [${timestamp}] Exception while sending ${type} notification to user ${userId}:`, error);
+  }
+}
+
+/**
+ * Apply a parsed booking to the document it updates or cancels, keep the
+ * copy it came from as a version, and tell the user what changed. Returns
+ * that document's id, or null for a new booking.
+ */
+async function applyAsBookingChange(
+  userId: number,
+  doc: ParsedDocument,
+  origin: DocumentOrigin,
+  options?: { existing?: Document; cancelled?: boolean; excludeIds?: number[] }
+): Promise<number | null> {
+  const change = await applyBookingChange(userId, doc, options);
+  if (!change) return null;
+
+  await addDocumentVersion(userId, change.previous, doc, origin);
+
+  if (change.kind !== "unchanged") {
+    const payload =
+      change.kind === "cancelled"
+        ? BookingChangeNotifications.cancelled(change.documentId, change.title)
+        : BookingChangeNotifications.updated(change.documentId, change.title, describeBookingChanges(change.changes));
+    try {
+      await sendPushNotification(userId, payload);
+    } catch (error) {
+      console.error(`[Jobs] Exception while sending booking change notification to user ${userId}:`, error);
+    }
+  }
+  return change.documentId;
+}
+
+/**
+ * Save the bookings in a calendar invite. Read without the AI, so nothing
+ * is charged. An invite whose UID the user already has updates or cancels
+ * that document; others are matched by confirmation number like any
+ * booking before being saved as new. Returns how many were saved or updated.
+ */
+async function importCalendarFile(
+  userId: number,
+  file: EmailAttachmentsJobPayload["files"][number],
+  subject: string | undefined,
+  tripId: number | null | undefined
+): Promise<number> {
+  const text = (await fetchStoredFile(file.fileUrl)).toString("utf8");
+  const contentHash = createHash("sha256").update(text).digest("hex");
+  const invites = parseCalendar(text);
+  console.log(`[Jobs] Read ${invites.length} events from calendar invite ${file.fileName}`);
+
+  let count = 0;
+  for (const { uid, cancelled, document: doc } of invites) {
+    const origin: DocumentOrigin = {
+      originalFileUrl: file.fileUrl,
+      originalFileName: file.fileName,
+      originalFileMimeType: file.mimeType,
+      emailSubject: subject,
+      source: "email",
+      contentHash,
+    };
+    const existing = uid ? await db.getDocumentByCalendarUid(userId, uid) : undefined;
+    if ((await applyAsBookingChange(userId, doc, origin, { existing, cancelled })) !== null) {
+      count++;
+      continue;
+    }
+    // Cancels something the user never had
+    if (cancelled) continue;
+
+    await db.createDocument({
+      userId,
+      tripId: await getEmailTripId(userId, doc, tripId),
+      category: doc.category,
+      documentType: doc.documentType,
+      title: doc.title,
+      subtitle: doc.subtitle,
+      details: doc.details,
+      validationWarnings: doc.validationWarnings,
+      fieldConfidence: doc.fieldConfidence,
+      originalFileUrl: file.fileUrl,
+      originalFileName: file.fileName,
+      originalFileMimeType: file.mimeType,
+      emailSubject: subject,
+      source: "email",
+      documentDate: doc.documentDate,
+      timeZone: doc.timeZone,
+      times: doc.times,
+      contentHash,
+      calendarUid: uid,
+    });
+    count++;
+  }
+  return count;
+}
+
+/**
+ * Rank the user's trips for a parsed document and pick one to auto-assign
+ * it to if it clearly stands out. Documents whose dates the AI wasn't sure
+ * of stay in the inbox for review.
+ */
+async function findTripForDocument(
+  userId: number,
+  doc: ParsedDocument
+): Promise<{ match: TripCandidate | null; candidates: TripCandidate[] }> {
+  if (hasLowConfidenceDate(doc.fieldConfidence)) {
+    console.log(`[Jobs] Not auto-assigning "${doc.title}": low-confidence date`);
+    return { match: null, candidates: [] };
+  }
+  const candidates = await findTripCandidates(userId, doc);
+  const match = pickAutoAssignTrip(candidates);
+  if (match) {
+    console.log(`[Jobs] Auto-assigned to trip: ${match.tripName} (${match.score}%)`);
+  }
+  return { match, candidates };
+}
+
+// The trip an uploaded email was added to, otherwise the one the document matches
+async function getEmailTripId(userId: number, doc: ParsedDocument, tripId: number | null | undefined): Promise<number | null> {
+  if (tripId) return tripId;
+  const { match } = await findTripForDocument(userId, doc);
+  return match?.tripId ?? null;
+}
+
+// One entry per trip across several documents, keeping each trip's best score
+function mergeTripCandidates(existing: TripCandidate[], added: TripCandidate[]): TripCandidate[] {
+  const byTrip = new Map(existing.map((candidate) => [candidate.tripId, candidate]));
+  for (const candidate of added) {
+    const current = byTrip.get(candidate.tripId);
+    if (!current || candidate.score > current.score) byTrip.set(candidate.tripId, candidate);
+  }
+  return [...byTrip.values()].sort((a, b) => b.score - a.score);
+}
+
+// Ledger reference for the body of a forwarded email (files use their URL)
+const EMAIL_BODY_SOURCE = "email_body";
+
+/**
+ * Parse a photo or PDF with the AI. A boarding pass barcode on it is read
+ * first, and what it says wins over the AI's reading.
+ */
+async function parseFile(fileUrl: string, mimeType: string): Promise<ParseResult> {
+  const boardingPass = await readBoardingPassBarcode(fileUrl, mimeType);
+  const parseResult = await parseDocument(fileUrl, mimeType);
+  if (!boardingPass || parseResult.error) return parseResult;
+  return { ...parseResult, documents: applyBoardingPassBarcode(parseResult.documents, boardingPass) };
+}
+
+// What was charged up front for one source, settled once its bookings are known
+interface ParseCharge {
+  policy: PricingPolicy;
+  reference: string;
+  label: string;
+  pageCount: number;
+  upfrontCost: number;
+}
+
+/**
+ * Check and charge the up-front cost of a source before the AI parse runs,
+ * since the parse costs money even when it finds nothing. The whole source is
+ * paid for here so processing never stops halfway through an itinerary.
+ * Anything still charged for the same source by an interrupted earlier
+ * attempt is refunded first so a retry never bills twice.
+ * Returns null if the user can't afford the source.
+ */
+async function chargeForParse(
+  userId: number,
+  jobId: number,
+  reference: string,
+  label: string,
+  file?: { fileUrl: string; mimeType: string }
+): Promise<ParseCharge | null> {
+  await db.refundJobCharges(userId, jobId, `Refund: interrupted processing of ${label}`, reference);
+
+  const policy = getPricingPolicy();
+  const pageCount = policy.mode === "per_page" && file ? await getSourcePageCount(file.fileUrl, file.mimeType) : 1;
+  const upfrontCost = getUpfrontParseCost(policy, pageCount);
+
+  const charged = await db.chargeCredits(userId, upfrontCost, { jobId, reference, description: `Processed ${label}` });
+  if (charged === null) return null;
+
+  return { policy, reference, label, pageCount, upfrontCost };
+}
+
+/**
+ * Charge whatever the source costs beyond the up-front amount once the
+ * bookings are saved (only per-booking pricing has a remainder). Taken from
+ * the remaining balance, so the documents are kept even if it runs short.
+ */
+async function settleParseCharge(userId: number, jobId: number, charge: ParseCharge, bookingCount: number): Promise<void> {
+  const total = getParseCost(charge.policy, { pageCount: charge.pageCount, bookingCount });
+  const remainder = total - charge.upfrontCost;
+  if (remainder <= 0) return;
+
+  await db.chargeCredits(
+    userId,
+    remainder,
+    { jobId, reference: charge.reference, description: `${charge.label}: ${bookingCount} bookings` },
+    { allowPartial: true }
+  );
+}
+
+/**
+ * Resume a source from its stored checkpoint
+ */
+function resumeCheckpoint<T extends SourceCheckpoint>(checkpoint: T): T {
+  if (!checkpoint.parseResult) return checkpoint;
+  // Dates come back from the stored checkpoint as strings
+  const parseResult = {
+    ...checkpoint.parseResult,
+    documents: checkpoint.parseResult.documents.map((doc) => ({
+      ...doc,
+      documentDate: doc.documentDate ? new Date(doc.documentDate) : null,
+    })),
+  };
+  return { ...checkpoint, parseResult };
+}
+
+/**
+ * Resume a single-source job from its checkpoint
+ */
+function getSourceJobProgress(job: Job): SourceJobProgress {
+  return resumeCheckpoint({
+    stage: "parsing",
+    documentCount: 0,
+    documentIds: [],
+    ...(job.progress as Partial<SourceJobProgress> | null),
+  });
+}
+
+/**
+ * Refund a source that failed before saving anything, so the retry charges
+ * afresh. Once documents are saved the charge stands, since the retry only
+ * saves the rest of the same parse. `save` stores the job's checkpoint.
+ */
+async function releaseSourceCharge(
+  userId: number,
+  jobId: number,
+  checkpoint: SourceCheckpoint,
+  save: () => Promise<void>,
+  description: string,
+  reference: string
+): Promise<void> {
+  if (checkpoint.documentIds.length > 0) return;
+
+  await db.refundJobCharges(userId, jobId, description, reference);
+  delete checkpoint.charge;
+  await save();
+}
+
+/**
+ * Store a forwarded or uploaded email's files and queue the job that parses
+ * it: its supported attachments when it has any, otherwise its body, with
+ * its inline images stored so the saved email shows them. Null when there's
+ * nothing to parse.
+ */
+export async function enqueueEmailJob(
+  userId: number,
+  email: EmailMessage,
+  options: { sender?: string; tripId?: number | null } = {}
+): Promise<{ jobId: number; attachmentCount: number } | null> {
+  const supportedFiles = email.attachments.filter(isSupportedAttachment);
+  if (supportedFiles.length > 0) {
+    const payload: EmailAttachmentsJobPayload = { files: [], subject: email.subject, tripId: options.tripId };
+    for (const file of supportedFiles) {
+      // .ics and .pkpass files often arrive as application/octet-stream
+      let mimeType = file.mimeType;
+      if (isCalendarFile(file.mimeType, file.fileName)) mimeType = "text/calendar";
+      else if (isWalletPass(file.mimeType, file.fileName)) mimeType = WALLET_PASS_MIME_TYPE;
+      const fileKey = `documents/${userId}/${nanoid(12)}-${file.fileName}`;
+      const { url: fileUrl } = await storagePut(fileKey, file.content, mimeType);
+      console.log(`[Jobs] Stored ${file.fileName} (${mimeType}, ${file.content.length} bytes) at ${fileUrl}`);
+      payload.files.push({ fileUrl, fileName: file.fileName, mimeType });
+    }
+    const jobId = await enqueueJob(JOB_TYPES.emailAttachments, userId, payload);
+    return { jobId, attachmentCount: supportedFiles.length };
+  }
+
+  if (!hasEmailBody(email)) {
+    return null;
+  }
+
+  let html = email.html;
+  if (html && email.inlineImages.length > 0) {
+    const urls = new Map<string, string>();
+    for (const image of email.inlineImages) {
+      const { url } = await storagePut(`documents/${userId}/${nanoid(12)}-${image.fileName}`, image.content, image.mimeType);
+      urls.set(image.contentId, url);
+    }
+    html = replaceContentIds(html, urls);
+  }
+  const payload: EmailBodyJobPayload = {
+    html,
+    plain: email.plain,
+    subject: email.subject,
+    sender: options.sender ?? email.from,
+    tripId: options.tripId,
+  };
+  const jobId = await enqueueJob(JOB_TYPES.emailBody, userId, payload);
+  return { jobId, attachmentCount: 0 };
+}
+
+/**
+ * Parse attachments that arrived by email.
+ * A file that fails is retried on the next attempt, refunded unless it saved
+ * some documents first; files that already produced documents are skipped
+ * thanks to the progress checkpoint, and a file that failed part-way only
+ * saves the rest of its parse.
+ */
+async function processEmailAttachmentsJob(job: Job, ctx: JobContext) {
+  const userId = job.userId;
+  const payload = job.payload as EmailAttachmentsJobPayload;
+  const progress: EmailAttachmentsJobProgress = {
+    completedFiles: [],
+    documentIds: [],
+    partialFiles: {},
+    documentCount: 0,
+    ...(job.progress as Partial<EmailAttachmentsJobProgress> | null),
+    stage: "parsing",
+    filesTotal: payload.files.length,
+  };
+  progress.filesDone = progress.completedFiles.length;
+  await ctx.saveProgress(progress);
+
+  console.log(`[Jobs] Starting attachment processing for user ${userId}, ${payload.files.length} files`);
+
+  let failedCount = 0;
+
+  const stopForCredits = async () => {
+    console.log(`[Jobs] User ${userId} ran out of credits during processing`);
+    if (progress.documentCount > 0) {
+      await sendProcessingNotification(userId, "completed", { documentCount: progress.documentCount });
+    }
+    await sendProcessingNotification(userId, "no_credits", {});
+    return { documentCount: progress.documentCount, outOfCredits: true };
+  };
+
+  for (const file of payload.files) {
+    if (progress.completedFiles.includes(file.fileUrl)) {
+      console.log(`[Jobs] Skipping already processed file: ${file.fileName}`);
+      continue;
+    }
+
+    if (progress.stage !== "parsing") {
+      progress.stage = "parsing";
+      await ctx.saveProgress(progress);
+    }
+
+    if (isCalendarFile(file.mimeType, file.fileName)) {
+      try {
+        progress.documentCount += await importCalendarFile(userId, file, payload.subject, payload.tripId);
+        progress.completedFiles.push(file.fileUrl);
+        progress.filesDone = progress.completedFiles.length;
+        await ctx.saveProgress(progress);
+      } catch (error) {
+        console.error(`[Jobs] Failed to import calendar invite ${file.fileName}:`, error);
+        failedCount++;
+      }
+      continue;
+    }
+
+    // Wallet passes are read without the AI and cost nothing
+    const walletPass = isWalletPass(file.mimeType, file.fileName);
+    const saved = progress.partialFiles[file.fileUrl];
+    const checkpoint: SourceCheckpoint = saved ? resumeCheckpoint(saved) : { documentIds: [] };
+    progress.partialFiles[file.fileUrl] = checkpoint;
+    if (!walletPass && !checkpoint.charge) {
+      const charge = await chargeForParse(userId, job.id, file.fileUrl, file.fileName, file);
+      if (!charge) {
+        return stopForCredits();
+      }
+      checkpoint.charge = charge;
+    }
+
+    try {
+      if (!checkpoint.parseResult) {
+        const parseResult = walletPass ? await readWalletPass(file.fileUrl) : await parseFile(file.fileUrl, file.mimeType);
+        if (parseResult.error) {
+          throw new Error(parseResult.error);
+        }
+        console.log(`[Jobs] Parsed ${parseResult.documents.length} documents from ${file.fileName}`);
+
+        if (parseResult.documents.length === 0) {
+          console.warn(`[Jobs] Parser found no bookings in ${file.fileName}`);
+          await db.refundJobCharges(userId, job.id, `Refund: no bookings found in ${file.fileName}`, file.fileUrl);
+        }
+        checkpoint.parseResult = parseResult;
+      }
+      const parseResult = checkpoint.parseResult;
+
+      progress.stage = "saving";
+      await ctx.saveProgress(progress);
+
+      for (const doc of parseResult.documents.slice(checkpoint.documentIds.length)) {
+        // Schedule changes and cancellations update the booking they're about
+        const origin: DocumentOrigin = {
+          originalFileUrl: file.fileUrl,
+          originalFileName: file.fileName,
+          originalFileMimeType: file.mimeType,
+          emailSubject: payload.subject,
+          source: "email",
+          contentHash: parseResult.contentHash,
+        };
+        const documentId =
+          (await applyAsBookingChange(userId, doc, origin, { excludeIds: progress.documentIds })) ??
+          (await db.createDocument({
+            userId,
+            tripId: await getEmailTripId(userId, doc, payload.tripId),
+            category: doc.category,
+            documentType: doc.documentType,
+            title: doc.title,
+            subtitle: doc.subtitle,
+            details: doc.details,
+            segments: doc.segments ?? null,
+            validationWarnings: doc.validationWarnings,
+            fieldConfidence: doc.fieldConfidence,
+            originalFileUrl: file.fileUrl,
+            originalFileName: file.fileName,
+            originalFileMimeType: file.mimeType,
+            emailSubject: payload.subject,
+            source: "email",
+            documentDate: doc.documentDate,
+            timeZone: doc.timeZone,
+            times: doc.times,
+            contentHash: parseResult.contentHash,
+          }));
+        checkpoint.documentIds.push(documentId);
+        progress.documentIds.push(documentId);
+        progress.documentCount++;
+        await ctx.saveProgress(progress);
+      }
+      if (checkpoint.charge) {
+        await settleParseCharge(userId, job.id, checkpoint.charge, parseResult.documents.length);
+      }
+
+      delete progress.partialFiles[file.fileUrl];
+      progress.completedFiles.push(file.fileUrl);
+      progress.filesDone = progress.completedFiles.length;
+      await ctx.saveProgress(progress);
+    } catch (error) {
+      console.error(`[Jobs] Failed to process attachment ${file.fileName}:`, error);
+      await releaseSourceCharge(
+        userId,
+        job.id,
+        checkpoint,
+        () => ctx.saveProgress(progress),
+        `Refund: couldn't process ${file.fileName}`,
+        file.fileUrl
+      );
+      failedCount++;
+    }
+  }
+
+  if (failedCount > 0) {
+    throw new Error(`${failedCount} of ${payload.files.length} attachments failed to parse`);
+  }
+
+  if (progress.documentCount > 0) {
+    await sendProcessingNotification(userId, "completed", { documentCount: progress.documentCount });
+  } else {
+    await sendProcessingNotification(userId, "no_bookings", { subject: payload.subject });
+  }
+
+  console.log(`[Jobs] Completed attachment processing for user ${userId}. Total documents created: ${progress.documentCount}`);
+  return { documentCount: progress.documentCount };
+}
+
+/**
+ * Parse the body of a forwarded email (when it has no usable attachments).
+ * The parse, its charge and the documents saved so far are checkpointed, so a
+ * retry saves the rest of the same parse instead of billing and saving again.
+ */
+async function processEmailBodyJob(job: Job, ctx: JobContext) {
+  const userId = job.userId;
+  const payload = job.payload as EmailBodyJobPayload;
+  const label = payload.subject ? `"${payload.subject}"` : "forwarded email";
+  const progress = getSourceJobProgress(job);
+
+  console.log(`[Jobs] Starting email body processing for user ${userId}`);
+
+  // "Add to Google Wallet" links carry the pass itself; when they can be
+  // read, they're used instead of the AI and cost nothing
+  const walletResult = readGoogleWalletLinks(payload.html || payload.plain);
+  if (!walletResult && !progress.charge) {
+    const charge = await chargeForParse(userId, job.id, EMAIL_BODY_SOURCE, label);
+    if (!charge) {
+      console.log(`[Jobs] User ${userId} has no credits`);
+      await sendProcessingNotification(userId, "no_credits", {});
+      return { documentCount: progress.documentCount, outOfCredits: true };
+    }
+    progress.charge = charge;
+  }
+
+  try {
+    if (!progress.parseResult) {
+      progress.stage = "parsing";
+      await ctx.saveProgress(progress);
+      const parseResult = walletResult ?? (await parseEmailBody(payload.html, payload.plain, payload.subject, payload.sender));
+      if (parseResult.error) {
+        throw new Error(parseResult.error);
+      }
+
+      if (parseResult.documents.length === 0) {
+        console.log(`[Jobs] No bookings found in email body`);
+        await db.refundJobCharges(userId, job.id, `Refund: no bookings found in ${label}`, EMAIL_BODY_SOURCE);
+        await sendProcessingNotification(userId, "no_bookings", { subject: payload.subject });
+        return { documentCount: 0 };
+      }
+      progress.parseResult = parseResult;
+    }
+    const parseResult = progress.parseResult;
+
+    // Always process - user explicitly forwarded this email
+    // (Removed duplicate detection per user request)
+
+    progress.stage = "saving";
+    await ctx.saveProgress(progress);
+
+    for (const doc of parseResult.documents.slice(progress.documentIds.length)) {
+      // Schedule changes and cancellations update the booking they're about
+      const origin: DocumentOrigin = {
+        originalEmailBody: payload.html || payload.plain || null,
+        emailSubject: payload.subject,
+        source: "email",
+        contentHash: parseResult.contentHash,
+      };
+      const documentId =
+        (await applyAsBookingChange(userId, doc, origin, { excludeIds: progress.documentIds })) ??
+        (await db.createDocument({
+          userId,
+          tripId: await getEmailTripId(userId, doc, payload.tripId),
+          category: doc.category,
+          documentType: doc.documentType,
+          title: doc.title,
+          subtitle: doc.subtitle,
+          details: doc.details,
+          segments: doc.segments ?? null,
+          validationWarnings: doc.validationWarnings,
+          fieldConfidence: doc.fieldConfidence,
+          originalFileUrl: null, // No file URL for email body parsing
+          originalEmailBody: payload.html || payload.plain || null, // Store original email for display
+          emailSubject: payload.subject,
+          source: "email",
+          documentDate: doc.documentDate,
+          timeZone: doc.timeZone,
+          times: doc.times,
+          contentHash: parseResult.contentHash,
+        }));
+      progress.documentIds.push(documentId);
+      progress.documentCount = progress.documentIds.length;
+      await ctx.saveProgress(progress);
+    }
+    if (progress.charge) {
+      await settleParseCharge(userId, job.id, progress.charge, progress.documentCount);
+    }
+  } catch (error) {
+    await releaseSourceCharge(userId, job.id, progress, () => ctx.saveProgress(progress), `Refund: couldn't process ${label}`, EMAIL_BODY_SOURCE);
+    throw error;
+  }
+
+  await sendProcessingNotification(userId, "completed", { documentCount: progress.documentCount });
+
+  console.log(`[Jobs] Completed email body processing for user ${userId}. Total documents created: ${progress.documentCount}`);
+  return { documentCount: progress.documentCount };
+}
+
+/**
+ * Parse a file uploaded from the app (file picker or camera), checkpointed
+ * like an email body
+ */
+async function processUploadJob(job: Job, ctx: JobContext): Promise<UploadJobResult> {
+  const userId = job.userId;
+  const payload = job.payload as UploadJobPayload;
+  const label = payload.fileName || "uploaded file";
+  const progress: UploadJobProgress = {
+    assignment: { autoAssignedTripId: null, autoAssignedTripName: null, needsManualAssignment: false, tripCandidates: [] },
+    ...getSourceJobProgress(job),
+  };
+  const assignment = progress.assignment;
+  const toResult = (): UploadJobResult => ({ documentIds: progress.documentIds, count: progress.documentCount, ...assignment });
+
+  // Wallet passes are read without the AI and cost nothing
+  const walletPass = isWalletPass(payload.mimeType, payload.fileName);
+  if (!walletPass && !progress.charge) {
+    const charge = await chargeForParse(userId, job.id, payload.fileUrl, label, payload);
+    if (!charge) {
+      return { ...toResult(), outOfCredits: true };
+    }
+    progress.charge = charge;
+  }
+
+  try {
+    if (!progress.parseResult) {
+      progress.stage = "parsing";
+      await ctx.saveProgress(progress);
+      const parseResult = walletPass ? await readWalletPass(payload.fileUrl) : await parseFile(payload.fileUrl, payload.mimeType);
+      if (parseResult.error) {
+        throw new Error(parseResult.error);
+      }
+
+      if (parseResult.documents.length === 0) {
+        await db.refundJobCharges(userId, job.id, `Refund: no bookings found in ${label}`, payload.fileUrl);
+      }
+      progress.parseResult = parseResult;
+    }
+    const parseResult = progress.parseResult;
+
+    progress.stage = "saving";
+    await ctx.saveProgress(progress);
+
+    for (const doc of parseResult.documents.slice(progress.documentIds.length)) {
+      // Schedule changes and cancellations update the booking they're about
+      const updatedDocumentId = await applyAsBookingChange(
+        userId,
+        doc,
+        {
+          originalFileUrl: payload.fileUrl,
+          originalFileName: payload.fileName,
+          originalFileMimeType: payload.mimeType,
+          source: "upload",
+          contentHash: payload.contentHash || parseResult.contentHash,
+        },
+        { excludeIds: progress.documentIds }
+      );
+      if (updatedDocumentId !== null) {
+        progress.documentIds.push(updatedDocumentId);
+        progress.documentCount = progress.documentIds.length;
+        await ctx.saveProgress(progress);
+        continue;
+      }
+
+      let assignedTripId = payload.tripId;
+
+      // If no tripId provided, try to auto-assign to the best-matching trip
+      if (assignedTripId === null) {
+        const { match, candidates } = await findTripForDocument(userId, doc);
+        if (match) {
+          assignedTripId = match.tripId;
+          assignment.autoAssignedTripId = match.tripId;
+          assignment.autoAssignedTripName = match.tripName;
+        } else {
+          // No trip stands out; offer the likely ones when asking the user
+          assignment.needsManualAssignment = true;
+          assignment.tripCandidates = mergeTripCandidates(assignment.tripCandidates, candidates);
+        }
+      }
+
+      const docId = await db.createDocument({
+        userId,
+        tripId: assignedTripId,
+        category: doc.category,
+        documentType: doc.documentType,
+        title: doc.title,
+        subtitle: doc.subtitle,
+        details: doc.details,
+        segments: doc.segments ?? null,
+        validationWarnings: doc.validationWarnings,
+        fieldConfidence: doc.fieldConfidence,
+        originalFileUrl: payload.fileUrl,
+        originalFileName: payload.fileName,
+        originalFileMimeType: payload.mimeType,
+        source: "upload",
+        documentDate: doc.documentDate,
+        timeZone: doc.timeZone,
+        times: doc.times,
+        contentHash: payload.contentHash || parseResult.contentHash,
+      });
+      progress.documentIds.push(docId);
+      progress.documentCount = progress.documentIds.length;
+      await ctx.saveProgress(progress);
+    }
+    if (progress.charge) {
+      await settleParseCharge(userId, job.id, progress.charge, progress.documentCount);
+    }
+  } catch (error) {
+    await releaseSourceCharge(userId, job.id, progress, () => ctx.saveProgress(progress), `Refund: couldn't process ${label}`, payload.fileUrl);
+    throw error;
+  }
+
+  return toResult();
+}
+
+/**
+ * Re-parse a batch of documents for an admin. Each document's outcome is
+ * checkpointed, and a document that fails is recorded rather than failing
+ * the batch.
+ */
+async function processReparseJob(job: Job, ctx: JobContext): Promise<ReparseJobResult> {
+  const payload = job.payload as ReparseJobPayload;
+  const progress = job.progress as Partial<ReparseJobProgress> | null;
+  const results = [...(progress?.results ?? [])];
+  const done = new Set(results.map((result) => result.id));
+
+  for (const doc of payload.documents) {
+    if (done.has(doc.id)) continue;
+
+    let outcome: BulkReparseOutcome;
+    try {
+      outcome = await reparseForBulk(doc.userId, doc.id, payload.apply);
+    } catch (error) {
+      outcome = { changed: 0, applied: 0, skippedUserEdits: 0, error: error instanceof Error ? error.message : String(error) };
+    }
+    results.push({ id: doc.id, ...outcome });
+
+    await ctx.saveProgress({
+      stage: "parsing",
+      documentCount: results.length,
+      filesTotal: payload.documents.length,
+      filesDone: results.length,
+      results,
+    } satisfies ReparseJobProgress);
+  }
+
+  console.log(`[Jobs] Re-parsed ${results.length} documents (apply: ${payload.apply})`);
+
+  return {
+    count: results.length,
+    changed: results.filter((result) => result.changed > 0).length,
+    applied: results.reduce((sum, result) => sum + result.applied, 0),
+    skippedUserEdits: results.reduce((sum, result) => sum + result.skippedUserEdits, 0),
+    failed: results.filter((result) => result.error).length,
+    documents: results,
+  };
+}
+
+/**
+ * Register all document processing handlers with the job queue
+ */
+export function registerDocumentJobHandlers(): void {
+  registerJobHandler(JOB_TYPES.emailAttachments, processEmailAttachmentsJob, {
+    onDead: async (job) => {
+      const progress = job.progress as Partial<EmailAttachmentsJobProgress> | null;
+      if (progress?.documentCount) {
+        await sendProcessingNotification(job.userId, "completed", { documentCount: progress.documentCount });
+      }
+      await sendProcessingNotification(job.userId, "error", {
+        errorMessage: "Failed to process email attachments. Please try uploading directly in the app.",
+      });
+    },
+  });
+
+  registerJobHandler(JOB_TYPES.emailBody, processEmailBodyJob, {
+    onDead: async (job) => {
+      await sendProcessingNotification(job.userId, "error", {
+        errorMessage: "Failed to extract booking information from your email.",
+      });
+    },
+  });
+
+  registerJobHandler(JOB_TYPES.upload, processUploadJob, {
+    onDead: async (job) => {
+      await sendProcessingNotification(job.userId, "error", {
+        errorMessage: "We couldn't read your uploaded document. Please try uploading it again.",
+      });
+    },
+  });
+
+  registerJobHandler(JOB_TYPES.reparse, processReparseJob);
+}
@@ -1,96 +1,54 @@
-import { invokeLLM } from "./_core/llm";
+import { invokeLLM, type InvokeResult, type Message, type MessageContent } from "./_core/llm";
 import { storagePut } from "./storage";
 import { createHash } from "crypto";
 import { nanoid } from "nanoid";
-import type { DocumentDetails } from "../drizzle/schema";
+import {
+  documents as documentsTable,
+  type DocumentCategory,
+  type DocumentDetails,
+  type DocumentTimes,
+  type FieldConfidenceMap,
+  type FlightSegment,
+} from "../drizzle/schema";
+import { resolveDocumentTimes } from "./documentTimes";
+import { getAirportAddress, isKnownAirport } from "../shared/airports";
+import {
+  describeSchemaIssues,
+  getValidationWarnings,
+  parsedDocumentSchema,
+  parseResponseSchema,
+  toSchemaWarnings,
+  PARSE_RESPONSE_JSON_SCHEMA,
+  type ValidationWarning,
+} from "./documentSchema";
 
 export interface ParsedDocument {
-  category: "flight" | "carRental" | "accommodation" | "medical" | "event" | "other";
+  category: DocumentCategory;
   documentType: string;
   title: string;
   subtitle: string | null;
   details: DocumentDetails;
+  // UTC instant of the document's main date, read in `timeZone` when known
   documentDate: Date | null;
+  timeZone: string | null;
+  // Every parsed date-time with its zone and UTC instant
+  times: DocumentTimes;
+  // Schema and content problems found while parsing, stored on the document
+  validationWarnings: ValidationWarning[];
+  // Per-field confidence reported by the model, keyed by details key or "documentDate"
+  fieldConfidence: FieldConfidenceMap;
+  // Legs of a flight booking with connections or a return; unset for a single flight
+  segments?: FlightSegment[];
 }
 
 export interface ParseResult {
   documents: ParsedDocument[];
   contentHash: string;
+  // Set when parsing failed (LLM/network error) as opposed to finding no bookings,
+  // so background jobs know the attempt is worth retrying.
+  error?: string;
 }
 
-// Airport code to name mapping for navigation
-const AIRPORT_CODES: Record<string, string> = {
-  // Major international airports
-  JFK: "John F. Kennedy International Airport, New York",
-  LAX: "Los Angeles International Airport",
-  LHR: "London Heathrow Airport",
-  CDG: "Paris Charles de Gaulle Airport",
-  FRA: "Frankfurt Airport",
-  AMS: "Amsterdam Schiphol Airport",
-  DXB: "Dubai International Airport",
-  SIN: "Singapore Changi Airport",
-  HKG: "Hong Kong International Airport",
-  NRT: "Narita International Airport, Tokyo",
-  HND: "Tokyo Haneda Airport",
-  ICN: "Incheon International Airport, Seoul",
-  SYD: "Sydney Kingsford Smith Airport",
-  // Israel
-  TLV: "Ben Gurion Airport, Tel Aviv, Israel",
-  // Europe
-  FCO: "Rome Fiumicino Airport",
-  MXP: "Milan Malpensa Airport",
-  BCN: "Barcelona El Prat Airport",
-  MAD: "Madrid Barajas Airport",
-  MUC: "Munich Airport",
-  ZRH: "Zurich Airport",
-  VIE: "Vienna International Airport",
-  PRG: "Prague Vaclav Havel Airport",
-  BUD: "Budapest Ferenc Liszt Airport",
-  WAW: "Warsaw Chopin Airport",
-  ATH: "Athens International Airport",
-  IST: "Istanbul Airport",
-  VRN: "Verona Villafranca Airport, Italy",
-  VCE: "Venice Marco Polo Airport",
-  BLQ: "Bologna Guglielmo Marconi Airport",
-  // AUDIT FIX: Added missing ski/winter destination airports
-  BGY: "Orio al Serio International Airport, Bergamo, Italy",
-  INN: "Innsbruck Airport, Austria",
-  SZG: "Salzburg Airport, Austria",
-  TRN: "Turin Caselle Airport, Italy",
-  GVA: "Geneva Airport, Switzerland",
-  LYS: "Lyon-Saint Exupery Airport, France",
-  GNB: "Grenoble Alpes Isere Airport, France",
-  TRS: "Trieste Friuli Venezia Giulia Airport, Italy",
-  LJU: "Ljubljana Joze Pucnik Airport, Slovenia",
-  // North America
-  ORD: "Chicago O'Hare International Airport",
-  SFO: "San Francisco International Airport",
-  MIA: "Miami International Airport",
-  ATL: "Hartsfield-Jackson Atlanta International Airport",
-  DFW: "Dallas/Fort Worth International Airport",
-  DEN: "Denver International Airport",
-  SEA: "Seattle-Tacoma International Airport",
-  BOS: "Boston Logan International Airport",
-  EWR: "Newark Liberty International Airport",
-  YYZ: "Toronto Pearson International Airport",
-  YVR: "Vancouver International Airport",
-  YUL: "Montreal Pierre Elliott Trudeau International Airport",
-  // Asia
-  PEK: "Beijing Capital International Airport",
-  PVG: "Shanghai Pudong International Airport",
-  BKK: "Bangkok Suvarnabhumi Airport",
-  KUL: "Kuala Lumpur International Airport",
-  DEL: "Indira Gandhi International Airport, Delhi",
-  BOM: "Chhatrapati Shivaji International Airport, Mumbai",
-  // Middle East
-  DOH: "Hamad International Airport, Doha",
-  AUH: "Abu Dhabi International Airport",
-  AMM: "Queen Alia International Airport, Amman",
-  // Australia/NZ
-  MEL: "Melbourne Airport",
-  AKL: "Auckland Airport",
-};
-
 const DOCUMENT_PARSING_PROMPT = `You are a travel document parser optimized for SPEED and ACCURACY. Extract booking information with these priorities:
 
 ## EXTRACTION STRATEGY
@@ -127,6 +85,13 @@ A single image or document may contain MULTIPLE separate bookings (e.g., a ski p
 - terminal (if stated)
 - gate (if stated)
 
+### MULTI-LEG FLIGHTS
+A flight booking with connections and/or a return flight under one confirmation number is ONE document:
+- details describe the first leg
+- segments: array with EVERY leg in travel order, each with airline, flightNumber, departureAirport, arrivalAirport, departureTime, arrivalTime, terminal, gate, seatNumber
+- title covers the whole route (e.g., "TLV → FCO → TLV")
+- Omit segments for a single flight
+
 ### ACCOMMODATIONS (UX Essentials)
 - confirmationNumber
 - hotelName
@@ -167,7 +132,19 @@ A single image or document may contain MULTIPLE separate bookings (e.g., a ski p
 - phoneNumber (EMERGENCY helpline - critical! with + prefix)
 - emailAddress
 
-### TRANSFERS (use category "other", documentType "Transfer")
+### TRAINS, BUSES & FERRIES (category "train", "bus" or "ferry")
+- operator (e.g., "Trenitalia", "FlixBus", "Moby Lines")
+- serviceNumber (train, coach or sailing number, e.g., "FR 9517")
+- departureStation (station, bus stop or port name)
+- arrivalStation (station, bus stop or port name)
+- departureTime (ISO datetime)
+- arrivalTime (ISO datetime if available)
+- platform (if stated)
+- carriage (carriage/coach number on trains, deck or cabin on ferries)
+- seatNumber
+- confirmationNumber (PNR/ticket code)
+
+### TRANSFERS (category "transfer")
 - transferCompany (company or service name)
 - pickupLocation (origin location name, e.g., airport or hotel)
 - dropoffLocation (destination location name)
@@ -192,32 +169,42 @@ A single image or document may contain MULTIPLE separate bookings (e.g., a ski p
 - Must have: airline name, flight number, departure/arrival airports (IATA codes)
 - Examples: commercial flights, charter flights, private jets
 
-### Use "other" category for ALL other travel items:
-- Train tickets (railway, rail, train travel)
-- Bus tickets (coach, bus travel)
-- Ferry tickets (boat, ship, ferry travel)
-- Airport/hotel transfers and shuttles
+### Use the ground and sea transport categories for:
+- "train": train tickets (railway, rail, high-speed, night trains)
+- "bus": bus and coach tickets
+- "ferry": ferry, boat and ship tickets
+- "transfer": airport/hotel transfers and shuttles, private drivers
+
+### Use "other" category for:
 - Ski passes, activity passes, museum tickets
-- Any transportation that is NOT an airplane flight
+- Subway/metro tickets and any other transportation not covered above
 - Travel documents that don't fit other specific categories
 
-**IMPORTANT**: Transfers, ski passes, and activity tickets MUST be classified as "other" with appropriate documentType (e.g., "Transfer", "Skipass", "Activity Pass").
+**IMPORTANT**: Ski passes and activity tickets MUST be classified as "other" with appropriate documentType (e.g., "Skipass", "Activity Pass").
+
+## FIELD CONFIDENCE
+For every field you fill in (each details key, plus "documentDate"), add an entry to "fieldConfidence":
+- field: the key, e.g. "departureTime" or "documentDate"
+- confidence: 0 to 1. Use 0.9+ only when the value is printed clearly and unambiguously. Use below 0.7 when you had to interpret it (ambiguous DD/MM vs MM/DD dates, missing year, blurry or partly hidden text, value pieced together from several places)
+- source: the exact short text the value was read from (max 80 characters)
 
 ## OUTPUT FORMAT
 Return JSON with "documents" array. Each document has:
-- category: "flight" | "carRental" | "accommodation" | "medical" | "event" | "other"
-- documentType: e.g., "eTicket", "Boarding Pass", "Booking Confirmation", "Transfer", "Skipass", "Activity Pass"
-- title: Short clear title (e.g., "TLV → BGY" for flights, "Hotel Miramonti" for hotels, "Airport Transfer" for transfers, "Adamello Skipass" for passes)
+- category: "flight" | "carRental" | "accommodation" | "medical" | "event" | "train" | "bus" | "ferry" | "transfer" | "other"
+- documentType: e.g., "eTicket", "Boarding Pass", "Booking Confirmation", "Train Ticket", "Transfer", "Skipass", "Activity Pass"; "Cancellation" when the booking is being cancelled
+- title: Short clear title (e.g., "TLV → BGY" for flights, "Hotel Miramonti" for hotels, "Milano Centrale → Roma Termini" for trains, "Airport Transfer" for transfers, "Adamello Skipass" for passes)
 - subtitle: Additional context (airline name, company name, location)
 - documentDate: Primary date in ISO format
 - details: Object with the mandatory fields above
+- segments: Flights only, every leg of a multi-leg booking as described above
+- fieldConfidence: Array of {field, confidence, source} as described above
 
 ## EXAMPLE: Composite Ski Package
 Given an itinerary image showing a flight, hotel, transfer, and skipass, return:
 {"documents": [
   {"category": "flight", "documentType": "eTicket", "title": "TLV → BGY", "subtitle": "ISRAIR 6H301", "documentDate": "2026-03-21T07:10:00", "details": {"airline": "ISRAIR", "flightNumber": "6H301", "departureAirport": "TLV", "arrivalAirport": "BGY", "departureTime": "2026-03-21T07:10:00", "arrivalTime": "2026-03-21T10:20:00", "confirmationNumber": "232319"}},
   {"category": "accommodation", "documentType": "Booking Confirmation", "title": "Hotel Miramonti", "subtitle": "Passo Tonale, Italy", "documentDate": "2026-03-21", "details": {"hotelName": "Hotel Miramonti", "address": "Via Nazionale 6 loc. Passo del Tonale, Italy", "checkInDate": "2026-03-21", "checkOutDate": "2026-03-28", "numberOfNights": 7, "roomType": "Triple - Allotment Triple Full Board", "phoneNumber": "+390364900501"}},
-  {"category": "other", "documentType": "Transfer", "title": "Transfer to Passo Tonale", "subtitle": "Airport shuttle", "documentDate": "2026-03-21", "details": {"pickupLocation": "BGY Airport", "dropoffLocation": "Passo Tonale", "transferDate": "2026-03-21"}},
+  {"category": "transfer", "documentType": "Transfer", "title": "Transfer to Passo Tonale", "subtitle": "Airport shuttle", "documentDate": "2026-03-21", "details": {"pickupLocation": "BGY Airport", "dropoffLocation": "Passo Tonale", "transferDate": "2026-03-21"}},
   {"category": "other", "documentType": "Skipass", "title": "Adamello Skipass", "subtitle": "Passo Tonale", "documentDate": "2026-03-21", "details": {"activityName": "Adamello Skipass", "location": "Passo Tonale", "startDate": "2026-03-21", "endDate": "2026-03-28"}}
 ]}
 
@@ -233,7 +220,9 @@ Common Hebrew terms:
 Common Italian terms:
 - volo = flight, albergo/hotel = hotel
 - trasferimento = transfer, skipass = ski pass
-- arrivo = arrival, partenza = departure`;
+- arrivo = arrival, partenza = departure
+- treno = train, binario = platform, carrozza = carriage, posto = seat
+- traghetto = ferry, autobus/pullman = bus`;
 
 const EMAIL_PARSING_PROMPT = `You are a travel booking email parser optimized for SPEED and ACCURACY.
 
@@ -241,6 +230,7 @@ const EMAIL_PARSING_PROMPT = `You are a travel booking email parser optimized fo
 1. **Speed First**: Extract mandatory fields quickly. If not found, use null - do NOT guess.
 2. **Only Real Bookings**: Extract actual reservations only. Ignore promotions, newsletters, tips.
 3. **No Garbage**: Only extract EXPLICITLY stated information. Never fabricate.
+4. **Cancellations**: For a notice that a booking is cancelled, extract the booking with documentType "Cancellation". A cancellation policy or "free cancellation" offer doesn't make a booking cancelled.
 
 ## DATE PARSING (CRITICAL)
 - Parse ALL date formats: DD.MM.YY, DD/MM/YYYY, YYYY-MM-DD, written dates
@@ -262,6 +252,7 @@ const EMAIL_PARSING_PROMPT = `You are a travel booking email parser optimized fo
 - departureTime, arrivalTime (ISO datetime)
 - terminal, gate (if stated)
 - phoneNumber (with + prefix)
+- segments: for connections and/or a return flight under one booking, ONE document whose details describe the first leg, with every leg in travel order in "segments" (airline, flightNumber, departureAirport, arrivalAirport, departureTime, arrivalTime, terminal, gate, seatNumber)
 
 ### ACCOMMODATIONS
 - confirmationNumber, hotelName
@@ -288,6 +279,19 @@ const EMAIL_PARSING_PROMPT = `You are a travel booking email parser optimized fo
 - phoneNumber (EMERGENCY line - critical! with + prefix)
 - emailAddress
 
+### TRAINS, BUSES & FERRIES
+- confirmationNumber, operator
+- serviceNumber (train, coach or sailing number)
+- departureStation, arrivalStation (station, stop or port)
+- departureTime, arrivalTime (ISO)
+- platform, carriage, seatNumber (if stated)
+
+### TRANSFERS
+- confirmationNumber, transferCompany
+- pickupLocation, dropoffLocation
+- transferDate, transferTime (ISO)
+- vehicleType
+
 ## CATEGORY CLASSIFICATION (CRITICAL)
 **ONLY airplane/aircraft flights should be classified as "flight".**
 
@@ -296,22 +300,249 @@ const EMAIL_PARSING_PROMPT = `You are a travel booking email parser optimized fo
 - Must have: airline name, flight number, departure/arrival airports (IATA codes)
 - Examples: commercial flights, charter flights, private jets
 
-### Use "other" category for ALL other travel tickets:
-- Train tickets (railway, rail, train travel)
-- Bus tickets (coach, bus travel)
-- Ferry tickets (boat, ship, ferry travel)
+### Use the ground and sea transport categories for:
+- "train": train tickets (railway, rail travel)
+- "bus": bus and coach tickets
+- "ferry": ferry, boat and ship tickets
+- "transfer": airport/hotel transfers and shuttles
+
+### Use "other" category for:
 - Subway/metro tickets
-- Any other transportation that is NOT an airplane flight
+- Any other transportation not covered above
 - Travel documents that don't fit other specific categories
 
-**IMPORTANT**: If a document mentions trains, railways, buses, ferries, or any non-airplane transportation, it MUST be classified as "other", NOT "flight".
+**IMPORTANT**: Trains, railways, buses and ferries MUST NOT be classified as "flight".
 
 ## MULTILINGUAL SUPPORT
 Parse ANY language including Hebrew, Arabic, German, etc.
 Hebrew terms: טיסה=flight, מספר טיסה=flight number, תאריך=date, שעה=time, שדה תעופה=airport, המראה=departure, מלון=hotel
 
+## FIELD CONFIDENCE
+For every field you fill in (each details key, plus "documentDate"), add an entry to "fieldConfidence":
+- field: the key, e.g. "departureTime" or "documentDate"
+- confidence: 0 to 1. Use 0.9+ only when the value is printed clearly and unambiguously. Use below 0.7 when you had to interpret it (ambiguous DD/MM vs MM/DD dates, missing year, blurry or partly hidden text, value pieced together from several places)
+- source: the exact short text the value was read from (max 80 characters)
+
 ## OUTPUT
-Return JSON with "documents" array containing extracted bookings.`;
+Return JSON with "documents" array containing extracted bookings, each with a "fieldConfidence" array.`;
+
+const REPAIR_PROMPT = `Your previous response did not match the required JSON schema. Fix the problems listed below and return the complete corrected JSON with the "documents" array. Do not add bookings that were not in your previous response.
+
+Problems:
+`;
+
+/**
+ * Text of the first choice of an LLM response
+ */
+function getResponseText(response: InvokeResult): string {
+  const responseContent = response.choices[0]?.message?.content;
+  if (!responseContent) {
+    throw new Error("No response from LLM");
+  }
+
+  if (typeof responseContent === "string") {
+    return responseContent;
+  }
+  if (Array.isArray(responseContent)) {
+    const textPart = responseContent.find((part) => part.type === "text");
+    if (textPart && textPart.type === "text") {
+      return textPart.text;
+    }
+    throw new Error("No text content in LLM response");
+  }
+  throw new Error("Unexpected response format from LLM");
+}
+
+function tryParseJson(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Ask the LLM for the bookings in `content`, constrained to the per-category
+ * schemas. A response that fails validation gets one repair request with the
+ * list of problems. If the repaired response still doesn't validate, each
+ * booking that can be salvaged is kept and its schema problems are recorded
+ * as validation warnings instead.
+ */
+async function requestDocuments(
+  content: MessageContent[],
+  defaults: { documentType: string; title: string }
+): Promise<ParsedDocument[]> {
+  const messages: Message[] = [{ role: "user", content }];
+  const responseFormat = { type: "json_schema" as const, json_schema: PARSE_RESPONSE_JSON_SCHEMA };
+
+  const responseText = getResponseText(await invokeLLM({ messages, response_format: responseFormat }));
+  let raw = tryParseJson(responseText);
+  let validated = parseResponseSchema.safeParse(raw);
+
+  if (!validated.success) {
+    const issues = raw === undefined ? "Response was not valid JSON" : describeSchemaIssues(validated.error);
+    console.warn(`[DocumentParser] Response failed schema validation, requesting repair:\n${issues}`);
+
+    const repairText = getResponseText(
+      await invokeLLM({
+        messages: [
+          ...messages,
+          { role: "assistant", content: responseText },
+          { role: "user", content: REPAIR_PROMPT + issues },
+        ],
+        response_format: responseFormat,
+      })
+    );
+    const repaired = tryParseJson(repairText);
+    if (repaired !== undefined) {
+      raw = repaired;
+      validated = parseResponseSchema.safeParse(raw);
+    }
+  }
+
+  if (validated.success) {
+    return validated.data.documents.map((doc) => toParsedDocument(doc, defaults, []));
+  }
+
+  if (raw === undefined) {
+    throw new Error("LLM returned invalid JSON");
+  }
+
+  // Still invalid after the repair: keep what can be used, one booking at a time
+  console.warn("[DocumentParser] Repair failed schema validation, keeping documents with warnings");
+  const rawDocuments = (raw as { documents?: unknown }).documents;
+  if (!Array.isArray(rawDocuments)) {
+    return [];
+  }
+
+  return rawDocuments
+    .filter((doc): doc is Record<string, any> => typeof doc === "object" && doc !== null)
+    .map((doc) => {
+      const result = parsedDocumentSchema.safeParse(doc);
+      return result.success
+        ? toParsedDocument(result.data, defaults, [])
+        : toParsedDocument(doc, defaults, toSchemaWarnings(result.error.issues));
+    });
+}
+
+/**
+ * Normalize one booking from the LLM into a ParsedDocument
+ */
+function toParsedDocument(
+  doc: Record<string, any>,
+  defaults: { documentType: string; title: string },
+  schemaWarnings: ValidationWarning[]
+): ParsedDocument {
+  const category = validateCategory(doc.category);
+  const documentType = doc.documentType || defaults.documentType;
+
+  const rawDetails = removeEmptyFields(doc.details || {});
+  const segments = toFlightSegments(doc.segments, category);
+  if (segments) {
+    // The details describe the first leg; fill in whatever the model only put in the segments
+    for (const [key, value] of Object.entries(segments[0])) {
+      if (rawDetails[key] === undefined) rawDetails[key] = value;
+    }
+  }
+
+  // Post-process the details to ensure phone numbers have + prefix
+  const details = postProcessDetails(rawDetails, category);
+
+  const { documentDate, timeZone, times } = resolveDocumentTimes({
+    category,
+    documentType,
+    documentDate: doc.documentDate,
+    details,
+    segments,
+  });
+  const validationWarnings = [
+    ...schemaWarnings,
+    ...getValidationWarnings({ category, documentType, documentDate: doc.documentDate, details, segments }),
+  ];
+
+  return {
+    category,
+    documentType,
+    title: doc.title || defaults.title,
+    subtitle: doc.subtitle || null,
+    details,
+    documentDate,
+    timeZone,
+    times,
+    validationWarnings,
+    fieldConfidence: buildFieldConfidence(doc.fieldConfidence, details, documentDate !== null, validationWarnings),
+    ...(segments ? { segments } : {}),
+  };
+}
+
+/**
+ * Legs of a multi-leg flight. A single leg says no more than the details,
+ * so it isn't kept.
+ */
+function toFlightSegments(segments: unknown, category: DocumentCategory): FlightSegment[] | undefined {
+  if (category !== "flight" || !Array.isArray(segments)) return undefined;
+  const legs = segments
+    .filter((segment): segment is Record<string, unknown> => typeof segment === "object" && segment !== null)
+    .map((segment) => removeEmptyFields(segment) as FlightSegment)
+    .map((segment) => ({
+      ...segment,
+      ...(segment.departureAirport ? { departureAirport: toAirportCode(segment.departureAirport) } : {}),
+      ...(segment.arrivalAirport ? { arrivalAirport: toAirportCode(segment.arrivalAirport) } : {}),
+    }))
+    .filter((segment) => Object.keys(segment).length > 0);
+  return legs.length > 1 ? legs : undefined;
+}
+
+// Confidence given to a field that failed a content check, whatever the model said
+const FLAGGED_FIELD_CONFIDENCE = 0.3;
+
+/**
+ * Key the model's confidence list by field, keeping only fields that were
+ * actually extracted. Fields with a format or consistency warning are marked
+ * low-confidence so they're offered for review too.
+ */
+function buildFieldConfidence(
+  entries: unknown,
+  details: DocumentDetails,
+  hasDocumentDate: boolean,
+  warnings: ValidationWarning[]
+): FieldConfidenceMap {
+  const confidence: FieldConfidenceMap = {};
+  const isExtracted = (field: string) => (field === "documentDate" ? hasDocumentDate : details[field] !== undefined);
+
+  if (Array.isArray(entries)) {
+    for (const entry of entries) {
+      if (typeof entry?.field !== "string" || typeof entry.confidence !== "number" || !isExtracted(entry.field)) {
+        continue;
+      }
+      confidence[entry.field] = {
+        confidence: Math.min(Math.max(entry.confidence, 0), 1),
+        ...(typeof entry.source === "string" && entry.source ? { source: entry.source.slice(0, 200) } : {}),
+      };
+    }
+  }
+
+  for (const warning of warnings) {
+    if (warning.code !== "invalid_format" && warning.code !== "inconsistent") continue;
+    const field = warning.field.replace(/^details\./, "");
+    if (!isExtracted(field)) continue;
+    confidence[field] = {
+      ...confidence[field],
+      confidence: Math.min(confidence[field]?.confidence ?? 1, FLAGGED_FIELD_CONFIDENCE),
+    };
+  }
+
+  return confidence;
+}
+
+/**
+ * Drop the nulls the prompt asks for when a field isn't stated
+ */
+function removeEmptyFields(details: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(details).filter(([, value]) => value !== null && value !== undefined && value !== "")
+  );
+}
 
 export async function parseDocument(
   fileUrl: string,
@@ -323,7 +554,7 @@ export async function parseDocument(
     const isImage = mimeType.startsWith("image/");
     const isPdf = mimeType === "application/pdf";
 
-    let content: any[];
+    let content: MessageContent[];
 
     if (isImage) {
       content = [
@@ -351,53 +582,7 @@ export async function parseDocument(
       throw new Error(`Unsupported file type: ${mimeType}`);
     }
 
-    const response = await invokeLLM({
-      messages: [
-        {
-          role: "user",
-          content,
-        },
-      ],
-      response_format: { type: "json_object" },
-    });
-
-    const responseContent = response.choices[0]?.message?.content;
-    if (!responseContent) {
-      throw new Error("No response from LLM");
-    }
-
-    let responseText: string;
-    if (typeof responseContent === "string") {
-      responseText = responseContent;
-    } else if (Array.isArray(responseContent)) {
-      const textPart = responseContent.find((part) => part.type === "text");
-      if (textPart && textPart.type === "text") {
-        responseText = textPart.text;
-      } else {
-        throw new Error("No text content in LLM response");
-      }
-    } else {
-      throw new Error("Unexpected response format from LLM");
-    }
-
-    const parsed = JSON.parse(responseText);
-    const documents: ParsedDocument[] = [];
-
-    if (parsed.documents && Array.isArray(parsed.documents)) {
-      for (const doc of parsed.documents) {
-        // Post-process the details to ensure phone numbers have + prefix
-        const details = postProcessDetails(doc.details || {}, doc.category);
-        
-        documents.push({
-          category: validateCategory(doc.category),
-          documentType: doc.documentType || "Document",
-          title: doc.title || "Untitled Document",
-          subtitle: doc.subtitle || null,
-          details,
-          documentDate: doc.documentDate ? new Date(doc.documentDate) : null,
-        });
-      }
-    }
+    const documents = await requestDocuments(content, { documentType: "Document", title: "Untitled Document" });
 
     return { documents, contentHash };
   } catch (error) {
@@ -408,6 +593,7 @@ export async function parseDocument(
     return {
       documents: [],
       contentHash,
+      error: error instanceof Error ? error.message : String(error),
     };
   }
 }
@@ -464,58 +650,10 @@ export async function parseEmailBody(
       cleanContent = cleanContent.substring(0, 15000) + "...";
     }
 
-    const response = await invokeLLM({
-      messages: [
-        {
-          role: "user",
-          content: [
-            {
-              type: "text",
-              text: EMAIL_PARSING_PROMPT + "\n\n" + contextInfo + cleanContent,
-            },
-          ],
-        },
-      ],
-      response_format: { type: "json_object" },
-    });
-
-    const responseContent = response.choices[0]?.message?.content;
-    if (!responseContent) {
-      throw new Error("No response from LLM");
-    }
-
-    let responseText: string;
-    if (typeof responseContent === "string") {
-      responseText = responseContent;
-    } else if (Array.isArray(responseContent)) {
-      const textPart = responseContent.find((part) => part.type === "text");
-      if (textPart && textPart.type === "text") {
-        responseText = textPart.text;
-      } else {
-        throw new Error("No text content in LLM response");
-      }
-    } else {
-      throw new Error("Unexpected response format from LLM");
-    }
-
-    const parsed = JSON.parse(responseText);
-    const documents: ParsedDocument[] = [];
-
-    if (parsed.documents && Array.isArray(parsed.documents)) {
-      for (const doc of parsed.documents) {
-        // Post-process the details to ensure phone numbers have + prefix
-        const details = postProcessDetails(doc.details || {}, doc.category);
-        
-        documents.push({
-          category: validateCategory(doc.category),
-          documentType: doc.documentType || "Email Booking",
-          title: doc.title || "Email Booking",
-          subtitle: doc.subtitle || null,
-          details,
-          documentDate: doc.documentDate ? new Date(doc.documentDate) : null,
-        });
-      }
-    }
+    const documents = await requestDocuments(
+      [{ type: "text", text: EMAIL_PARSING_PROMPT + "\n\n" + contextInfo + cleanContent }],
+      { documentType: "Email Booking", title: "Email Booking" }
+    );
 
     console.log(`[DocumentParser] Parsed ${documents.length} bookings from email body`);
     return { documents, contentHash };
@@ -524,6 +662,7 @@ export async function parseEmailBody(
     return {
       documents: [],
       contentHash,
+      error: error instanceof Error ? error.message : String(error),
     };
   }
 }
@@ -539,28 +678,38 @@ function postProcessDetails(details: any, category: string): DocumentDetails {
     processed.phoneNumber = formatPhoneNumber(processed.phoneNumber);
   }
   
-  // For flights, infer airport addresses from IATA codes if not provided
+  // For flights, settle the airports on their IATA codes and fill in the
+  // addresses to navigate to. Codes the airport database doesn't know are
+  // left as they are for the validation warnings to flag.
   if (category === "flight") {
+    for (const field of ["departureAirport", "arrivalAirport"] as const) {
+      if (processed[field]) processed[field] = toAirportCode(processed[field]);
+    }
     if (processed.departureAirport && !processed.departureAddress) {
-      const airportName = AIRPORT_CODES[processed.departureAirport.toUpperCase()];
-      if (airportName) {
-        processed.departureAddress = airportName;
-        if (processed.terminal) {
-          processed.departureAddress += `, Terminal ${processed.terminal}`;
-        }
-      }
+      const address = getAirportAddress(processed.departureAirport, processed.terminal);
+      if (address) processed.departureAddress = address;
     }
     if (processed.arrivalAirport && !processed.arrivalAddress) {
-      const airportName = AIRPORT_CODES[processed.arrivalAirport.toUpperCase()];
-      if (airportName) {
-        processed.arrivalAddress = airportName;
-      }
+      const address = getAirportAddress(processed.arrivalAirport);
+      if (address) processed.arrivalAddress = address;
     }
   }
   
   return processed;
 }
 
+/**
+ * "fco", "Rome (FCO)" or "FCO - Fiumicino" → "FCO". Values with no known
+ * code in them are returned trimmed.
+ */
+function toAirportCode(value: string): string {
+  const trimmed = String(value).trim();
+  if (isKnownAirport(trimmed)) return trimmed.toUpperCase();
+  const embedded = trimmed.match(/\(([A-Z]{3})\)|^([A-Z]{3})\b/);
+  const code = embedded?.[1] ?? embedded?.[2];
+  return code && isKnownAirport(code) ? code : trimmed;
+}
+
 /**
  * Format phone number to ensure international numbers have + prefix
  */
@@ -643,12 +792,10 @@ function formatPhoneNumber(phone: string): string {
   return formatted;
 }
 
-function validateCategory(
-  category: string
-): "flight" | "carRental" | "accommodation" | "medical" | "event" | "other" {
-  const validCategories = ["flight", "carRental", "accommodation", "medical", "event", "other"];
+function validateCategory(category: string): DocumentCategory {
+  const validCategories: readonly string[] = documentsTable.category.enumValues;
   if (validCategories.includes(category)) {
-    return category as any;
+    return category as DocumentCategory;
   }
   return "other";
 }
@@ -669,4 +816,3 @@ export async function uploadAndParseDocument(
 }
 
 // Export airport codes for use in UI
-export { AIRPORT_CODES };
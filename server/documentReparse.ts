@@ -0,0 +1,318 @@
+/**
+ * Document Re-parsing
+ *
+ * Runs the current parsing prompt and model again over a document's stored
+ * source (its original file, or the email body it came from) and compares
+ * the result with the saved record. Changes are proposed field by field;
+ * values the user corrected by hand are flagged so they aren't overwritten
+ * unless the user says so.
+ *
+ * A user's re-parse runs the AI again, so it's charged like processing the
+ * source the first time (wallet passes and calendar invites are read without
+ * the AI and stay free). Nothing is charged when the re-parse fails. The admin
+ * bulk run isn't charged to anyone.
+ */
+
+import * as db from "./db";
+import { parseDocument, parseEmailBody, type ParsedDocument, type ParseResult } from "./documentParser";
+import {
+  applyDocumentEdit,
+  diffDocument,
+  getUserEditedFields,
+  type DetailValue,
+  type DocumentEdit,
+  type FieldChange,
+} from "./documentEdits";
+import { isWalletPass, readWalletPass } from "./walletPass";
+import { isCalendarFile, parseCalendar } from "./calendarImport";
+import { getPricingPolicy, getSourcePageCount, getUpfrontParseCost } from "./pricing";
+import { fetchStoredFile } from "./storage";
+import { applyBoardingPassBarcode, readBoardingPassBarcode } from "./boardingPassBarcode";
+import type { Document, DocumentDetails, FieldConfidenceMap } from "../drizzle/schema";
+import { WALLET_PASS_MIME_TYPE } from "../shared/const";
+import { getLocalDay } from "../shared/timezones";
+
+export interface ReparseChange extends FieldChange {
+  // The current value was set by hand; kept unless the change is accepted
+  userEdited: boolean;
+}
+
+export interface ReparseProposal {
+  documentId: number;
+  changes: ReparseChange[];
+  error?: string;
+}
+
+const MIME_TYPES_BY_EXTENSION: Record<string, string> = {
+  pdf: "application/pdf",
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  png: "image/png",
+  webp: "image/webp",
+  heic: "image/heic",
+  pkpass: WALLET_PASS_MIME_TYPE,
+  ics: "text/calendar",
+};
+
+function guessMimeType(doc: Document): string {
+  if (doc.originalFileMimeType) return doc.originalFileMimeType;
+  const name = doc.originalFileName || doc.originalFileUrl || "";
+  const extension = name.split("?")[0].split(".").pop()?.toLowerCase() ?? "";
+  return MIME_TYPES_BY_EXTENSION[extension] ?? "application/pdf";
+}
+
+/**
+ * Parse the document's stored source again
+ */
+export async function reparseSource(doc: Document): Promise<ParseResult> {
+  if (doc.originalFileUrl) {
+    const mimeType = guessMimeType(doc);
+    // Wallet passes are read directly, never by the AI
+    if (isWalletPass(mimeType)) return readWalletPass(doc.originalFileUrl);
+    // Calendar invites too
+    if (isCalendarFile(mimeType, doc.originalFileName)) {
+      const text = (await fetchStoredFile(doc.originalFileUrl)).toString("utf8");
+      return {
+        documents: parseCalendar(text).map((invite) => invite.document),
+        contentHash: doc.contentHash ?? "",
+      };
+    }
+    // So is a boarding pass barcode, which wins over the AI's reading
+    const boardingPass = await readBoardingPassBarcode(doc.originalFileUrl, mimeType);
+    const result = await parseDocument(doc.originalFileUrl, mimeType);
+    if (!boardingPass || result.error) return result;
+    return { ...result, documents: applyBoardingPassBarcode(result.documents, boardingPass) };
+  }
+  if (doc.originalEmailBody) {
+    const isHtml = /<[a-z][\s\S]*>/i.test(doc.originalEmailBody);
+    return parseEmailBody(
+      isHtml ? doc.originalEmailBody : undefined,
+      isHtml ? undefined : doc.originalEmailBody,
+      doc.emailSubject ?? undefined,
+      undefined
+    );
+  }
+  throw new Error("This document has no stored original to re-parse");
+}
+
+/**
+ * Charge for re-parsing the document, priced like processing its source the
+ * first time. Returns the credits taken, or null when the user doesn't have
+ * enough.
+ */
+export async function chargeForReparse(userId: number, doc: Document): Promise<number | null> {
+  const mimeType = doc.originalFileUrl ? guessMimeType(doc) : null;
+  if (mimeType && (isWalletPass(mimeType) || isCalendarFile(mimeType, doc.originalFileName))) return 0;
+
+  const policy = getPricingPolicy();
+  const pageCount = policy.mode === "per_page" && doc.originalFileUrl && mimeType
+    ? await getSourcePageCount(doc.originalFileUrl, mimeType)
+    : 1;
+
+  return db.chargeCredits(userId, getUpfrontParseCost(policy, pageCount), {
+    documentId: doc.id,
+    description: `Re-parsed ${doc.title}`,
+  });
+}
+
+/**
+ * Give back the credits taken for a re-parse that failed
+ */
+export async function refundReparse(userId: number, doc: Document, credits: number): Promise<void> {
+  if (credits <= 0) return;
+  await db.recordCreditTransaction({
+    userId,
+    type: "refund",
+    amount: credits,
+    documentId: doc.id,
+    description: `Refund: couldn't re-parse ${doc.title}`,
+  });
+}
+
+// Details that identify a booking within a multi-booking source
+const IDENTIFYING_FIELDS = [
+  "confirmationNumber",
+  "flightNumber",
+  "serviceNumber",
+  "hotelName",
+  "carCompany",
+  "policyNumber",
+  "eventName",
+  "transferCompany",
+  "activityName",
+];
+
+function normalize(value: unknown): string {
+  return String(value ?? "").replace(/\s+/g, "").toLowerCase();
+}
+
+// Days are compared where each booking happens
+function sameDay(a: Date | null, aZone: string | null, b: Date | null, bZone: string | null): boolean {
+  return !!a && !!b && getLocalDay(new Date(a), aZone) === getLocalDay(new Date(b), bZone);
+}
+
+/**
+ * Which of the re-parsed bookings is this document. A source such as a
+ * package itinerary holds several, so they're scored on category, date and
+ * identifying details. Returns null when nothing resembles the document.
+ */
+export function matchParsedDocument(doc: Document, parsed: ParsedDocument[]): ParsedDocument | null {
+  if (parsed.length === 1) return parsed[0];
+
+  const details = (doc.details as DocumentDetails | null) ?? {};
+  let best: ParsedDocument | null = null;
+  let bestScore = 0;
+
+  for (const candidate of parsed) {
+    let score = 0;
+    if (candidate.category === doc.category) score += 2;
+    if (sameDay(candidate.documentDate, candidate.timeZone, doc.documentDate, doc.timeZone)) score += 1;
+    if (normalize(candidate.title) === normalize(doc.title)) score += 1;
+    for (const field of IDENTIFYING_FIELDS) {
+      if (details[field] && normalize(candidate.details[field]) === normalize(details[field])) {
+        score += field === "confirmationNumber" ? 3 : 2;
+      }
+    }
+    if (score > bestScore) {
+      best = candidate;
+      bestScore = score;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Edit that would bring the document in line with the re-parsed booking.
+ * Details the new parse no longer finds are proposed for removal.
+ */
+export function toReparseEdit(doc: Document, parsed: ParsedDocument): DocumentEdit {
+  const current = (doc.details as DocumentDetails | null) ?? {};
+  const details: Record<string, DetailValue> = {};
+  for (const key of new Set([...Object.keys(current), ...Object.keys(parsed.details)])) {
+    const value = parsed.details[key];
+    details[key] = value === undefined || value === null ? null : String(value);
+  }
+
+  return {
+    title: parsed.title,
+    subtitle: parsed.subtitle,
+    category: parsed.category,
+    documentType: parsed.documentType,
+    documentDate: parsed.documentDate,
+    details,
+  };
+}
+
+/**
+ * Re-parse a document and list what would change. Nothing is saved.
+ */
+export async function proposeReparse(userId: number, doc: Document): Promise<ReparseProposal & { parsed?: ParsedDocument }> {
+  const result = await reparseSource(doc);
+  if (result.error) {
+    return { documentId: doc.id, changes: [], error: result.error };
+  }
+
+  const parsed = matchParsedDocument(doc, result.documents);
+  if (!parsed) {
+    return { documentId: doc.id, changes: [], error: "This booking wasn't found when re-parsing its source" };
+  }
+
+  const userEdits = getUserEditedFields(await db.getDocumentRevisions(doc.id, userId));
+  const changes = diffDocument(doc, toReparseEdit(doc, parsed)).map((change) => ({
+    ...change,
+    // Only flag edits that are still in place, not ones a later change replaced
+    userEdited: userEdits.has(change.field) && userEdits.get(change.field) === change.previousValue,
+  }));
+
+  return { documentId: doc.id, changes, parsed };
+}
+
+/**
+ * Turn accepted changes back into an edit
+ */
+export function toDocumentEdit(changes: Array<{ field: string; value: DetailValue }>): DocumentEdit {
+  const edit: DocumentEdit = {};
+  for (const { field, value } of changes) {
+    if (field.startsWith("details.")) {
+      edit.details = { ...edit.details, [field.slice("details.".length)]: value };
+    } else if (field === "documentDate") {
+      edit.documentDate = value === null ? null : new Date(value);
+    } else if (field === "title" || field === "documentType") {
+      if (value !== null) edit[field] = value;
+    } else if (field === "subtitle") {
+      edit.subtitle = value;
+    } else if (field === "category") {
+      if (value !== null) edit.category = value as Document["category"];
+    }
+  }
+  return edit;
+}
+
+/**
+ * Save the changes the user accepted from a re-parse. They were reviewed, so
+ * the accepted fields are marked as confirmed.
+ */
+export async function applyReparseChanges(
+  userId: number,
+  doc: Document,
+  accepted: Array<{ field: string; value: DetailValue }>
+): Promise<FieldChange[]> {
+  return applyDocumentEdit(userId, doc, toDocumentEdit(accepted), {
+    source: "reparse",
+    confirm: accepted.map((change) => change.field.replace(/^details\./, "")),
+  });
+}
+
+export interface BulkReparseOutcome {
+  changed: number;
+  applied: number;
+  // Changes skipped because they would overwrite a manual edit
+  skippedUserEdits: number;
+  error?: string;
+}
+
+/**
+ * Re-parse one document for the admin bulk run. With `apply`, every change
+ * except those to hand-edited fields is saved, with the new parse's
+ * confidence scores; otherwise it's a dry run.
+ */
+export async function reparseForBulk(userId: number, documentId: number, apply: boolean): Promise<BulkReparseOutcome> {
+  const doc = await db.getDocumentById(documentId, userId);
+  if (!doc) {
+    return { changed: 0, applied: 0, skippedUserEdits: 0, error: "Document not found" };
+  }
+
+  const proposal = await proposeReparse(userId, doc);
+  if (proposal.error || !proposal.parsed) {
+    return { changed: 0, applied: 0, skippedUserEdits: 0, error: proposal.error };
+  }
+
+  const accepted = proposal.changes.filter((change) => !change.userEdited);
+  const outcome = {
+    changed: proposal.changes.length,
+    applied: 0,
+    skippedUserEdits: proposal.changes.length - accepted.length,
+  };
+  if (!apply || accepted.length === 0) return outcome;
+
+  const parsedConfidence = proposal.parsed.fieldConfidence;
+  const fieldConfidence: FieldConfidenceMap = {};
+  for (const change of accepted) {
+    const key = change.field.replace(/^details\./, "");
+    if (parsedConfidence[key]) fieldConfidence[key] = parsedConfidence[key];
+  }
+
+  const applied = await applyDocumentEdit(
+    userId,
+    doc,
+    toDocumentEdit(accepted.map((change) => ({ field: change.field, value: change.newValue }))),
+    {
+      source: "reparse",
+      update: Object.keys(fieldConfidence).length > 0
+        ? { fieldConfidence: { ...((doc.fieldConfidence as FieldConfidenceMap | null) ?? {}), ...fieldConfidence } }
+        : undefined,
+    }
+  );
+  return { ...outcome, applied: applied.length };
+}
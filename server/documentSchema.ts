@@ -0,0 +1,432 @@
+/**
+ * Document Schemas
+ *
+ * Typed shape of what the LLM returns for each booking category. The zod
+ * schemas validate the raw response (and are turned into the JSON Schema
+ * sent as `response_format`); `getValidationWarnings` then checks the
+ * content itself — missing key fields, malformed codes and dates, arrival
+ * before departure — and the result is stored on the document.
+ */
+
+import { z } from "zod";
+import type { JsonSchema } from "./_core/llm";
+import type { FlightSegment } from "../drizzle/schema";
+import { DETAIL_DATE_FIELDS } from "../shared/confidence";
+import { isKnownAirport } from "../shared/airports";
+
+// Every field is optional: the prompt asks for null when something isn't stated
+const text = () => z.string().nullish();
+
+const contactFields = {
+  confirmationNumber: text(),
+  phoneNumber: text(),
+  emailAddress: text(),
+};
+
+// Details the prompt asks for beyond a category's fields ("Bonus Details")
+// are kept as text rather than stripped
+const extraDetail = z.union([z.string(), z.number(), z.boolean()]).transform(String).nullish();
+
+function detailsSchema<T extends z.ZodRawShape>(shape: T) {
+  return z.object(shape).catchall(extraDetail);
+}
+
+export const flightDetailsSchema = detailsSchema({
+  ...contactFields,
+  airline: text(),
+  flightNumber: text(),
+  departureAirport: text(),
+  arrivalAirport: text(),
+  departureAddress: text(),
+  arrivalAddress: text(),
+  departureTime: text(),
+  arrivalTime: text(),
+  seatNumber: text(),
+  terminal: text(),
+  gate: text(),
+});
+
+// One leg of a booking with connections or a return flight
+export const flightSegmentSchema = z.object({
+  airline: text(),
+  flightNumber: text(),
+  departureAirport: text(),
+  arrivalAirport: text(),
+  departureTime: text(),
+  arrivalTime: text(),
+  terminal: text(),
+  gate: text(),
+  seatNumber: text(),
+});
+
+export const accommodationDetailsSchema = detailsSchema({
+  ...contactFields,
+  hotelName: text(),
+  address: text(),
+  checkInDate: text(),
+  checkOutDate: text(),
+  roomType: text(),
+  numberOfNights: z.number().int().nullish(),
+});
+
+export const carRentalDetailsSchema = detailsSchema({
+  ...contactFields,
+  carCompany: text(),
+  pickupLocation: text(),
+  pickupAddress: text(),
+  dropoffLocation: text(),
+  dropoffAddress: text(),
+  pickupTime: text(),
+  dropoffTime: text(),
+  vehicleType: text(),
+});
+
+export const medicalDetailsSchema = detailsSchema({
+  ...contactFields,
+  insuranceProvider: text(),
+  policyNumber: text(),
+  coveragePeriod: text(),
+});
+
+export const eventDetailsSchema = detailsSchema({
+  ...contactFields,
+  eventName: text(),
+  eventDate: text(),
+  eventTime: text(),
+  venue: text(),
+  venueAddress: text(),
+});
+
+export const transferDetailsSchema = detailsSchema({
+  ...contactFields,
+  transferCompany: text(),
+  pickupLocation: text(),
+  dropoffLocation: text(),
+  transferDate: text(),
+  transferTime: text(),
+  vehicleType: text(),
+});
+
+// Trains, buses and ferries; for ferries the "stations" are ports
+export const transportDetailsSchema = detailsSchema({
+  ...contactFields,
+  operator: text(),
+  serviceNumber: text(),
+  departureStation: text(),
+  arrivalStation: text(),
+  departureTime: text(),
+  arrivalTime: text(),
+  platform: text(),
+  carriage: text(),
+  seatNumber: text(),
+});
+
+export const passDetailsSchema = detailsSchema({
+  ...contactFields,
+  activityName: text(),
+  location: text(),
+  startDate: text(),
+  endDate: text(),
+  duration: text(),
+});
+
+// "other" covers passes and anything else, and transfers stored before they had
+// their own category, so it accepts the fields of both
+const otherDetailsSchema = transferDetailsSchema.extend(passDetailsSchema.shape);
+
+export type DetailsSchemaKey =
+  | "flight"
+  | "accommodation"
+  | "carRental"
+  | "medical"
+  | "event"
+  | "train"
+  | "bus"
+  | "ferry"
+  | "transfer"
+  | "pass"
+  | "other";
+
+const DETAILS_SCHEMAS: Record<DetailsSchemaKey, z.ZodObject> = {
+  flight: flightDetailsSchema,
+  accommodation: accommodationDetailsSchema,
+  carRental: carRentalDetailsSchema,
+  medical: medicalDetailsSchema,
+  event: eventDetailsSchema,
+  train: transportDetailsSchema,
+  bus: transportDetailsSchema,
+  ferry: transportDetailsSchema,
+  transfer: transferDetailsSchema,
+  pass: passDetailsSchema,
+  other: otherDetailsSchema,
+};
+
+/**
+ * Which details schema applies. Passes are stored as category "other" and
+ * told apart by their document type, as are transfers parsed before the
+ * "transfer" category existed.
+ */
+export function getDetailsSchemaKey(category: string, documentType: string | null | undefined): DetailsSchemaKey {
+  if (category !== "other") {
+    return category in DETAILS_SCHEMAS ? (category as DetailsSchemaKey) : "other";
+  }
+  const type = (documentType ?? "").toLowerCase();
+  if (/transfer|shuttle/.test(type)) return "transfer";
+  if (/pass|activity/.test(type)) return "pass";
+  return "other";
+}
+
+/**
+ * Detail keys the schema defines for a category
+ */
+export function getDetailFieldNames(category: string, documentType: string | null | undefined): string[] {
+  return Object.keys(DETAILS_SCHEMAS[getDetailsSchemaKey(category, documentType)].shape);
+}
+
+// How sure the model is of each field it filled in, with the text it read it from
+const fieldConfidenceSchema = z.array(
+  z.object({
+    field: z.string(),
+    confidence: z.number().min(0).max(1),
+    source: text(),
+  })
+);
+
+function documentSchema<C extends string>(category: C, details: z.ZodObject, extra: z.ZodRawShape = {}) {
+  return z.object({
+    category: z.literal(category),
+    documentType: z.string(),
+    title: z.string(),
+    subtitle: text(),
+    documentDate: text(),
+    details,
+    fieldConfidence: fieldConfidenceSchema.nullish(),
+    ...extra,
+  });
+}
+
+export const parsedDocumentSchema = z.discriminatedUnion("category", [
+  documentSchema("flight", flightDetailsSchema, { segments: z.array(flightSegmentSchema).nullish() }),
+  documentSchema("accommodation", accommodationDetailsSchema),
+  documentSchema("carRental", carRentalDetailsSchema),
+  documentSchema("medical", medicalDetailsSchema),
+  documentSchema("event", eventDetailsSchema),
+  documentSchema("train", transportDetailsSchema),
+  documentSchema("bus", transportDetailsSchema),
+  documentSchema("ferry", transportDetailsSchema),
+  documentSchema("transfer", transferDetailsSchema),
+  documentSchema("other", otherDetailsSchema),
+]);
+
+export const parseResponseSchema = z.object({
+  documents: z.array(parsedDocumentSchema),
+});
+
+export type ParseResponse = z.infer<typeof parseResponseSchema>;
+
+/**
+ * `response_format` JSON Schema for document and email parsing. Not strict,
+ * since strict mode would force every optional field to be present; the
+ * response is validated with zod either way.
+ */
+export const PARSE_RESPONSE_JSON_SCHEMA: JsonSchema = {
+  name: "travel_documents",
+  schema: z.toJSONSchema(parseResponseSchema, { io: "input" }) as Record<string, unknown>,
+  strict: false,
+};
+
+/**
+ * A problem found in a parsed document, kept on the document so the app can
+ * point the user at details worth double-checking
+ */
+export interface ValidationWarning {
+  // Dotted path, e.g. "details.departureAirport" or "documentDate"
+  field: string;
+  code: "schema" | "missing_field" | "invalid_format" | "inconsistent";
+  message: string;
+}
+
+/**
+ * Turn zod issues into warnings, relative to one document of the response
+ */
+export function toSchemaWarnings(issues: z.core.$ZodIssue[]): ValidationWarning[] {
+  return issues.map((issue) => ({
+    field: issue.path.map(String).join(".") || "document",
+    code: "schema",
+    message: issue.message,
+  }));
+}
+
+/**
+ * Short description of schema issues for the repair request, e.g.
+ * `documents.0.details.numberOfNights: Invalid input: expected number, received string`
+ */
+export function describeSchemaIssues(error: z.ZodError): string {
+  return error.issues
+    .slice(0, 20)
+    .map((issue) => `${issue.path.map(String).join(".") || "(root)"}: ${issue.message}`)
+    .join("\n");
+}
+
+// Names used in warning messages shown to the user
+const FIELD_LABELS: Record<string, string> = {
+  flightNumber: "Flight number",
+  departureAirport: "Departure airport",
+  arrivalAirport: "Arrival airport",
+  departureTime: "Departure time",
+  arrivalTime: "Arrival time",
+  hotelName: "Hotel name",
+  checkInDate: "Check-in date",
+  checkOutDate: "Check-out date",
+  carCompany: "Car company",
+  pickupLocation: "Pickup location",
+  dropoffLocation: "Drop-off location",
+  pickupTime: "Pickup time",
+  dropoffTime: "Drop-off time",
+  insuranceProvider: "Insurance provider",
+  policyNumber: "Policy number",
+  eventName: "Event name",
+  eventDate: "Event date",
+  transferDate: "Transfer date",
+  departureStation: "Departure station",
+  arrivalStation: "Arrival station",
+  activityName: "Activity name",
+  startDate: "Start date",
+  endDate: "End date",
+};
+
+/**
+ * Readable name of a details field, e.g. "Departure time"
+ */
+export function getFieldLabel(field: string): string {
+  return FIELD_LABELS[field] ?? field.replace(/([A-Z])/g, " $1").replace(/^./, (first) => first.toUpperCase()).trim();
+}
+
+// Fields without which the document isn't much use in the app
+const REQUIRED_FIELDS: Record<DetailsSchemaKey, string[]> = {
+  flight: ["flightNumber", "departureAirport", "arrivalAirport", "departureTime"],
+  accommodation: ["hotelName", "checkInDate", "checkOutDate"],
+  carRental: ["carCompany", "pickupLocation", "pickupTime"],
+  medical: ["insuranceProvider", "policyNumber"],
+  event: ["eventName", "eventDate"],
+  train: ["departureStation", "arrivalStation", "departureTime"],
+  bus: ["departureStation", "arrivalStation", "departureTime"],
+  ferry: ["departureStation", "arrivalStation", "departureTime"],
+  transfer: ["pickupLocation", "dropoffLocation", "transferDate"],
+  pass: ["activityName", "startDate"],
+  other: [],
+};
+
+// [start, end] pairs where the end may not come before the start
+const DATE_RANGES: Array<[string, string, string]> = [
+  ["departureTime", "arrivalTime", "Arrival is before departure"],
+  ["checkInDate", "checkOutDate", "Check-out is before check-in"],
+  ["pickupTime", "dropoffTime", "Drop-off is before pickup"],
+  ["startDate", "endDate", "End date is before start date"],
+];
+
+const IATA_CODE = /^[A-Z]{3}$/;
+
+function checkAirportCodes(
+  values: { departureAirport?: unknown; arrivalAirport?: unknown },
+  prefix: string,
+  warnings: ValidationWarning[]
+): void {
+  for (const field of ["departureAirport", "arrivalAirport"] as const) {
+    const value = values[field];
+    if (!isPresent(value)) continue;
+    if (!IATA_CODE.test(String(value).trim().toUpperCase())) {
+      warnings.push({
+        field: `${prefix}.${field}`,
+        code: "invalid_format",
+        message: `"${value}" is not a 3-letter airport code`,
+      });
+    } else if (!isKnownAirport(String(value))) {
+      warnings.push({
+        field: `${prefix}.${field}`,
+        code: "invalid_format",
+        message: `"${value}" is not a known airport code`,
+      });
+    }
+  }
+}
+
+/**
+ * Each leg must land after it takes off, and leave after the previous leg lands
+ */
+function checkSegments(segments: FlightSegment[], warnings: ValidationWarning[]): void {
+  let previousArrival: number | undefined;
+  segments.forEach((segment, index) => {
+    const prefix = `segments.${index}`;
+    checkAirportCodes(segment, prefix, warnings);
+
+    const departure = isPresent(segment.departureTime) ? Date.parse(String(segment.departureTime)) : NaN;
+    const arrival = isPresent(segment.arrivalTime) ? Date.parse(String(segment.arrivalTime)) : NaN;
+    if (!Number.isNaN(departure) && !Number.isNaN(arrival) && arrival < departure) {
+      warnings.push({ field: `${prefix}.arrivalTime`, code: "inconsistent", message: `Leg ${index + 1}: arrival is before departure` });
+    }
+    if (!Number.isNaN(departure) && previousArrival !== undefined && departure < previousArrival) {
+      warnings.push({
+        field: `${prefix}.departureTime`,
+        code: "inconsistent",
+        message: `Leg ${index + 1} departs before leg ${index} arrives`,
+      });
+    }
+    if (!Number.isNaN(arrival)) previousArrival = arrival;
+  });
+}
+
+function isPresent(value: unknown): boolean {
+  return value !== undefined && value !== null && value !== "";
+}
+
+/**
+ * Content checks on a parsed document. These don't reject anything; they
+ * flag details the AI may have got wrong.
+ */
+export function getValidationWarnings(doc: {
+  category: string;
+  documentType: string;
+  documentDate: string | null | undefined;
+  details: Record<string, unknown>;
+  segments?: FlightSegment[] | null;
+}): ValidationWarning[] {
+  const warnings: ValidationWarning[] = [];
+  const details = doc.details;
+  const key = getDetailsSchemaKey(doc.category, doc.documentType);
+
+  for (const field of REQUIRED_FIELDS[key]) {
+    if (!isPresent(details[field])) {
+      warnings.push({ field: `details.${field}`, code: "missing_field", message: `${FIELD_LABELS[field]} not found` });
+    }
+  }
+
+  if (key === "flight") {
+    checkAirportCodes(details, "details", warnings);
+    if (doc.segments) checkSegments(doc.segments, warnings);
+  }
+
+  const timestamps: Record<string, number> = {};
+  for (const field of DETAIL_DATE_FIELDS) {
+    const value = details[field];
+    if (!isPresent(value)) continue;
+    const time = Date.parse(String(value));
+    if (Number.isNaN(time)) {
+      warnings.push({ field: `details.${field}`, code: "invalid_format", message: `${FIELD_LABELS[field]} "${value}" is not a valid date` });
+    } else {
+      timestamps[field] = time;
+    }
+  }
+
+  for (const [start, end, message] of DATE_RANGES) {
+    if (timestamps[start] !== undefined && timestamps[end] !== undefined && timestamps[end] < timestamps[start]) {
+      warnings.push({ field: `details.${end}`, code: "inconsistent", message });
+    }
+  }
+
+  if (isPresent(doc.documentDate) && Number.isNaN(Date.parse(String(doc.documentDate)))) {
+    warnings.push({ field: "documentDate", code: "invalid_format", message: `Document date "${doc.documentDate}" is not a valid date` });
+  }
+
+  return warnings;
+}
@@ -0,0 +1,108 @@
+/**
+ * Document Times
+ *
+ * Places every date-time a booking prints in the zone it happens in: a
+ * flight departs in its departure airport's zone and lands in its arrival
+ * airport's, a hotel checks in where the hotel is. The wall time stays in
+ * `details` as printed; `times` adds the zone and UTC instant for reminders,
+ * and `documentDate` becomes a real instant instead of one read in the
+ * server's own zone.
+ */
+
+import type { DocumentDetails, DocumentTimes, FlightSegment } from "../drizzle/schema";
+import { getDetailsSchemaKey, type DetailsSchemaKey } from "./documentSchema";
+import { toTime } from "./itinerary";
+import { getTimeZoneForLocation, localToUtc } from "../shared/timezones";
+
+// Each time field and the fields naming where it happens, best first
+const TIME_FIELD_LOCATIONS: Partial<Record<DetailsSchemaKey, Record<string, string[]>>> = {
+  flight: { departureTime: ["departureAirport"], arrivalTime: ["arrivalAirport"], boardingTime: ["departureAirport"] },
+  train: { departureTime: ["departureStation"], arrivalTime: ["arrivalStation"], boardingTime: ["departureStation"] },
+  bus: { departureTime: ["departureStation"], arrivalTime: ["arrivalStation"], boardingTime: ["departureStation"] },
+  ferry: { departureTime: ["departureStation"], arrivalTime: ["arrivalStation"], boardingTime: ["departureStation"] },
+  accommodation: { checkInDate: ["address", "hotelName"], checkOutDate: ["address", "hotelName"] },
+  carRental: {
+    pickupTime: ["pickupAddress", "pickupLocation"],
+    dropoffTime: ["dropoffAddress", "dropoffLocation"],
+  },
+  event: { eventDate: ["venueAddress", "venue"] },
+  transfer: { transferDate: ["pickupLocation", "dropoffLocation"] },
+  pass: { startDate: ["location"], endDate: ["location"] },
+};
+
+// Date fields whose time of day is kept in a separate field
+const TIME_OF_DAY_FIELDS: Record<string, string> = {
+  eventDate: "eventTime",
+  transferDate: "transferTime",
+};
+
+export interface ResolvedDocumentTimes {
+  timeZone: string | null;
+  times: DocumentTimes;
+  documentDate: Date | null;
+}
+
+function firstZone(source: Record<string, unknown>, fields: string[]): string | null {
+  for (const field of fields) {
+    const value = source[field];
+    const zone = typeof value === "string" ? getTimeZoneForLocation(value) : null;
+    if (zone) return zone;
+  }
+  return null;
+}
+
+/**
+ * Resolve a document's times. Times whose own place can't be placed use
+ * the zone of another place on the same document; with no zone at all,
+ * nothing is resolved and the document date is read as UTC.
+ */
+export function resolveDocumentTimes(doc: {
+  category: string;
+  documentType: string | null | undefined;
+  documentDate: string | null | undefined;
+  details: DocumentDetails;
+  segments?: FlightSegment[] | null;
+}): ResolvedDocumentTimes {
+  const locations = TIME_FIELD_LOCATIONS[getDetailsSchemaKey(doc.category, doc.documentType)] ?? {};
+
+  // [path, local value, zone of its own place]
+  const found: Array<[string, string, string | null]> = [];
+  const collect = (prefix: string, source: Record<string, unknown>) => {
+    for (const [field, locationFields] of Object.entries(locations)) {
+      const printed = source[field];
+      if (typeof printed !== "string" || !printed) continue;
+      let value = printed;
+      const timeOfDay = TIME_OF_DAY_FIELDS[field] ? toTime(source[TIME_OF_DAY_FIELDS[field]] as string | undefined) : null;
+      if (timeOfDay && /^\d{4}-\d{2}-\d{2}$/.test(value.trim())) value = `${value.trim()}T${timeOfDay}:00`;
+      found.push([`${prefix}.${field}`, value, firstZone(source, locationFields)]);
+    }
+  };
+
+  collect("details", doc.details);
+  doc.segments?.forEach((segment, index) => collect(`segments.${index}`, segment as Record<string, unknown>));
+
+  const timeZone = found.find(([, , zone]) => zone)?.[2] ?? null;
+  const times: DocumentTimes = {};
+  if (timeZone) {
+    for (const [path, local, zone] of found) {
+      const utc = localToUtc(local, zone ?? timeZone);
+      if (utc) times[path] = { local, timeZone: zone ?? timeZone, utc: utc.toISOString() };
+    }
+  }
+
+  let documentDate = doc.documentDate ? toDocumentDate(doc.documentDate, timeZone) : null;
+  if (documentDate && Number.isNaN(documentDate.getTime())) {
+    documentDate = null;
+  }
+
+  return { timeZone, times, documentDate };
+}
+
+/**
+ * The instant of a document date read in the document's zone, or in UTC
+ * when it has none. Non-ISO strings fall back to Date parsing and may be
+ * an Invalid Date.
+ */
+export function toDocumentDate(value: string, timeZone: string | null | undefined): Date {
+  return localToUtc(value, timeZone ?? "UTC") ?? new Date(value);
+}
@@ -0,0 +1,154 @@
+/**
+ * Document Versions
+ *
+ * A booking is often forwarded several times: the receipt, the e-ticket,
+ * the updated e-ticket after a schedule change. Each copy that reaches an
+ * existing document is kept as a version with its original file and what
+ * was parsed from it, so the document stays one card with a history. The
+ * newest copy becomes current; the user can make an older one current
+ * again, which brings back its file and parsed values.
+ */
+
+import * as db from "./db";
+import { applyDocumentEdit, type DetailValue, type DocumentEdit } from "./documentEdits";
+import { resolveDocumentTimes } from "./documentTimes";
+import type { ParsedDocument } from "./documentParser";
+import type {
+  Document,
+  DocumentDetails,
+  DocumentVersion,
+  FlightSegment,
+  InsertDocument,
+  InsertDocumentVersion,
+} from "../drizzle/schema";
+
+// Where a copy of the booking came from
+export type DocumentOrigin = Pick<
+  InsertDocumentVersion,
+  "originalFileUrl" | "originalFileName" | "originalFileMimeType" | "originalEmailBody" | "emailSubject" | "source" | "contentHash"
+>;
+
+// Columns the document takes from its current version's original
+function toOriginColumns(origin: DocumentOrigin, versionId: number): Partial<InsertDocument> {
+  return {
+    currentVersionId: versionId,
+    originalFileUrl: origin.originalFileUrl ?? null,
+    originalFileName: origin.originalFileName ?? null,
+    originalFileMimeType: origin.originalFileMimeType ?? null,
+    originalEmailBody: origin.originalEmailBody ?? null,
+    emailSubject: origin.emailSubject ?? null,
+    contentHash: origin.contentHash ?? null,
+  };
+}
+
+// The document as first saved, before any later copy changed it
+function toInitialVersion(doc: Document): InsertDocumentVersion {
+  return {
+    documentId: doc.id,
+    userId: doc.userId,
+    documentType: doc.documentType,
+    title: doc.title,
+    details: doc.details,
+    segments: doc.segments,
+    documentDate: doc.documentDate,
+    originalFileUrl: doc.originalFileUrl,
+    originalFileName: doc.originalFileName,
+    originalFileMimeType: doc.originalFileMimeType,
+    originalEmailBody: doc.originalEmailBody,
+    emailSubject: doc.emailSubject,
+    source: doc.source,
+    contentHash: doc.contentHash,
+    createdAt: doc.createdAt,
+  };
+}
+
+// Edit that puts back exactly what the version held, removing details it didn't have
+function toVersionEdit(doc: Document, version: DocumentVersion): DocumentEdit {
+  const current = (doc.details as DocumentDetails | null) ?? {};
+  const restored = (version.details as DocumentDetails | null) ?? {};
+  const details: Record<string, DetailValue> = {};
+  for (const key of new Set([...Object.keys(current), ...Object.keys(restored)])) {
+    const value = restored[key];
+    details[key] = value === undefined || value === null || value === "" ? null : String(value);
+  }
+
+  return {
+    title: version.title,
+    documentType: version.documentType,
+    documentDate: version.documentDate,
+    details,
+  };
+}
+
+/**
+ * Keep a new copy of a booking as the current version of its document.
+ * `previous` is the document before the copy was applied to it, which
+ * becomes the first version the first time. The same file arriving again
+ * isn't a new version. Returns the new version's id, or null.
+ */
+export async function addDocumentVersion(
+  userId: number,
+  previous: Document,
+  doc: ParsedDocument,
+  origin: DocumentOrigin
+): Promise<number | null> {
+  const versions = await db.getDocumentVersions(previous.id, userId);
+  const knownHashes = [previous.contentHash, ...versions.map((version) => version.contentHash)];
+  if (origin.contentHash && knownHashes.includes(origin.contentHash)) {
+    return null;
+  }
+
+  if (versions.length === 0) {
+    await db.createDocumentVersion(toInitialVersion(previous));
+  }
+  const versionId = await db.createDocumentVersion({
+    documentId: previous.id,
+    userId,
+    documentType: doc.documentType,
+    title: doc.title,
+    details: doc.details,
+    segments: doc.segments ?? null,
+    documentDate: doc.documentDate,
+    ...origin,
+  });
+  await db.updateDocument(previous.id, userId, toOriginColumns(origin, versionId));
+
+  console.log(`[Versions] Added version ${versionId} to document ${previous.id}`);
+  return versionId;
+}
+
+/**
+ * Make one of a document's versions current: its original file is shown
+ * and its parsed values replace the document's, logged as revisions.
+ * Details the version didn't have are removed.
+ */
+export async function setCurrentVersion(
+  userId: number,
+  documentId: number,
+  versionId: number
+): Promise<{ success: boolean; error?: string }> {
+  const doc = await db.getDocumentById(documentId, userId);
+  if (!doc) {
+    return { success: false, error: "Document not found" };
+  }
+  const version = (await db.getDocumentVersions(documentId, userId)).find((candidate) => candidate.id === versionId);
+  if (!version) {
+    return { success: false, error: "Version not found" };
+  }
+
+  const update = toOriginColumns(version, version.id);
+  const segments = (version.segments as FlightSegment[] | null) ?? null;
+  if (JSON.stringify(segments) !== JSON.stringify(doc.segments ?? null)) {
+    const { timeZone, times } = resolveDocumentTimes({
+      category: doc.category,
+      documentType: version.documentType,
+      documentDate: null,
+      details: (version.details as DocumentDetails | null) ?? {},
+      segments,
+    });
+    Object.assign(update, { segments, timeZone, times });
+  }
+
+  await applyDocumentEdit(userId, doc, toVersionEdit(doc, version), { source: "update", update });
+  return { success: true };
+}
@@ -0,0 +1,322 @@
+/**
+ * Email Messages
+ *
+ * Reads a whole email as it was sent (raw MIME: a saved .eml file, or
+ * Mailgun's raw-MIME mode) into what the parsing pipeline works from: the
+ * HTML and plain bodies, the attachments, and the images the HTML shows
+ * inline. An email forwarded as an attachment (message/rfc822) is read into
+ * the same message, its body after the forwarder's note the way mail
+ * clients quote it, and its attachments with the others. Calendar parts
+ * become .ics attachments.
+ */
+
+import { isCalendarFile } from "./calendarImport";
+import { isWalletPass, readGoogleWalletLinks } from "./walletPass";
+import { EMAIL_MESSAGE_MIME_TYPE, WALLET_PASS_MIME_TYPE } from "../shared/const";
+
+export interface EmailFile {
+  fileName: string;
+  mimeType: string;
+  content: Buffer;
+}
+
+export interface InlineImage extends EmailFile {
+  // What the HTML refers to it by, as cid:<contentId>
+  contentId: string;
+}
+
+export interface EmailMessage {
+  subject?: string;
+  from?: string;
+  html?: string;
+  plain?: string;
+  attachments: EmailFile[];
+  // Images shown in the HTML body: logos, pasted screenshots
+  inlineImages: InlineImage[];
+}
+
+interface MimePart {
+  headers: Map<string, string>;
+  // The raw body, one character per byte
+  body: string;
+}
+
+interface HeaderValue {
+  value: string;
+  params: Record<string, string>;
+}
+
+interface CollectedParts {
+  html: string[];
+  plain: string[];
+  attachments: EmailFile[];
+  inlineImages: InlineImage[];
+}
+
+const EXTENSIONS: Record<string, string> = {
+  "application/pdf": "pdf",
+  "image/jpeg": "jpg",
+  "image/png": "png",
+  "image/gif": "gif",
+  "image/webp": "webp",
+  "image/heic": "heic",
+  "text/calendar": "ics",
+  [WALLET_PASS_MIME_TYPE]: "pkpass",
+};
+
+// Forwards of forwards deeper than this aren't opened
+const MAX_DEPTH = 10;
+
+/**
+ * Whether a file is a saved email. Browsers and pickers often don't know
+ * .eml files, so the extension counts too.
+ */
+export function isEmailMessage(mimeType: string, fileName?: string | null): boolean {
+  return mimeType.split(";")[0].trim().toLowerCase() === EMAIL_MESSAGE_MIME_TYPE || /\.eml$/i.test(fileName ?? "");
+}
+
+/**
+ * Attachments we can parse (PDFs, images, calendar invites and wallet passes)
+ */
+export function isSupportedAttachment(file: Pick<EmailFile, "fileName" | "mimeType">): boolean {
+  return (
+    file.mimeType.startsWith("image/") ||
+    file.mimeType === "application/pdf" ||
+    isCalendarFile(file.mimeType, file.fileName) ||
+    isWalletPass(file.mimeType, file.fileName)
+  );
+}
+
+/**
+ * Attachments read without the AI, which cost nothing
+ */
+export function isFreeAttachment(file: Pick<EmailFile, "fileName" | "mimeType">): boolean {
+  return isCalendarFile(file.mimeType, file.fileName) || isWalletPass(file.mimeType, file.fileName);
+}
+
+/**
+ * Whether the body is long enough to hold a booking
+ */
+export function hasEmailBody(email: Pick<EmailMessage, "html" | "plain">): boolean {
+  return (email.html?.length ?? 0) > 50 || (email.plain?.length ?? 0) > 50;
+}
+
+/**
+ * Whether everything parsed from the email is read without the AI: only
+ * calendar invites and wallet passes, or a body with Google Wallet links
+ * that can be read
+ */
+export function isFreeEmail(email: EmailMessage): boolean {
+  const files = email.attachments.filter(isSupportedAttachment);
+  return files.length > 0 ? files.every(isFreeAttachment) : readGoogleWalletLinks(email.html || email.plain) !== null;
+}
+
+function decodeText(bytes: Buffer, charset: string | undefined): string {
+  try {
+    return new TextDecoder(charset?.trim().toLowerCase() || "utf-8").decode(bytes);
+  } catch {
+    // A charset Node doesn't know; most mail is UTF-8 anyway
+    return bytes.toString("utf8");
+  }
+}
+
+function decodeQuotedPrintable(text: string): Buffer {
+  const bytes = text.replace(/=\r?\n/g, "").replace(/=([0-9A-Fa-f]{2})/g, (_match, hex: string) => String.fromCharCode(parseInt(hex, 16)));
+  return Buffer.from(bytes, "latin1");
+}
+
+// Raw UTF-8 headers, and RFC 2047 encoded words ("=?utf-8?B?...?=") with
+// the space between adjacent ones dropped
+function decodeHeader(value: string): string {
+  return decodeText(Buffer.from(value, "latin1"), "utf-8")
+    .replace(/(=\?[^?]+\?[BbQq]\?[^?]*\?=)\s+(?==\?)/g, "$1")
+    .replace(/=\?([^?*]+)(?:\*[^?]*)?\?([BbQq])\?([^?]*)\?=/g, (_match, charset: string, encoding: string, text: string) =>
+      decodeText(encoding.toUpperCase() === "B" ? Buffer.from(text, "base64") : decodeQuotedPrintable(text.replace(/_/g, " ")), charset)
+    );
+}
+
+// Split on ";" outside double quotes
+function splitParams(value: string): string[] {
+  const parts: string[] = [];
+  let current = "";
+  let quoted = false;
+  for (const char of value) {
+    if (char === '"') quoted = !quoted;
+    if (char === ";" && !quoted) {
+      parts.push(current);
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+  return parts;
+}
+
+/**
+ * A Content-Type or Content-Disposition value and its parameters. Long and
+ * non-ASCII parameters may be split and encoded per RFC 2231
+ * (filename*0*=utf-8''...; filename*1*=...).
+ */
+function parseHeaderValue(header: string | undefined): HeaderValue {
+  const [value, ...rawParams] = splitParams(header ?? "");
+  const sections = new Map<string, Array<{ index: number; text: string; encoded: boolean }>>();
+  for (const param of rawParams) {
+    const equals = param.indexOf("=");
+    const key = param.slice(0, equals).trim().toLowerCase().match(/^([^*]+)(?:\*(\d+))?(\*)?$/);
+    if (equals < 0 || !key) continue;
+    const text = param.slice(equals + 1).trim().replace(/^"([\s\S]*)"$/, "$1").replace(/\\(.)/g, "$1");
+    sections.set(key[1], [...(sections.get(key[1]) ?? []), { index: Number(key[2] ?? 0), text, encoded: !!key[3] }]);
+  }
+
+  const params: Record<string, string> = {};
+  for (const [name, parts] of sections) {
+    parts.sort((a, b) => a.index - b.index);
+    if (!parts.some((part) => part.encoded)) {
+      params[name] = decodeHeader(parts.map((part) => part.text).join(""));
+      continue;
+    }
+    let charset = "utf-8";
+    const bytes = parts
+      .map((part, i) => {
+        let text = part.text;
+        if (i === 0 && part.encoded) {
+          const prefix = text.match(/^([^']*)'[^']*'/);
+          if (prefix) {
+            charset = prefix[1] || charset;
+            text = text.slice(prefix[0].length);
+          }
+        }
+        return part.encoded ? text.replace(/%([0-9A-Fa-f]{2})/g, (_match, hex: string) => String.fromCharCode(parseInt(hex, 16))) : text;
+      })
+      .join("");
+    params[name] = decodeText(Buffer.from(bytes, "latin1"), charset);
+  }
+  return { value: value.trim().toLowerCase(), params };
+}
+
+function readPart(text: string): MimePart {
+  const separator = /^\r?\n/.test(text) ? text.match(/^\r?\n/) : text.match(/\r?\n\r?\n/);
+  const head = separator ? text.slice(0, separator.index) : text;
+  const body = separator ? text.slice(separator.index! + separator[0].length) : "";
+
+  const headers = new Map<string, string>();
+  for (const line of head.replace(/\r?\n[ \t]+/g, " ").split(/\r?\n/)) {
+    const colon = line.indexOf(":");
+    if (colon <= 0) continue;
+    const name = line.slice(0, colon).trim().toLowerCase();
+    if (!headers.has(name)) headers.set(name, line.slice(colon + 1).trim());
+  }
+  return { headers, body };
+}
+
+function splitMultipart(body: string, boundary: string): MimePart[] {
+  const delimiter = `--${boundary}`;
+  const parts: MimePart[] = [];
+  // Text before the first delimiter is a preamble, after the closing one an epilogue
+  const sections = body.split(new RegExp(`(?:^|\\r?\\n)${delimiter.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}`));
+  for (const section of sections.slice(1)) {
+    if (section.startsWith("--")) break;
+    parts.push(readPart(section.replace(/^[ \t]*\r?\n/, "")));
+  }
+  return parts;
+}
+
+function decodeBody(part: MimePart): Buffer {
+  const encoding = part.headers.get("content-transfer-encoding")?.trim().toLowerCase();
+  if (encoding === "base64") return Buffer.from(part.body.replace(/[^A-Za-z0-9+/=]/g, ""), "base64");
+  if (encoding === "quoted-printable") return decodeQuotedPrintable(part.body);
+  return Buffer.from(part.body, "latin1");
+}
+
+function getHeader(part: MimePart, name: string): string | undefined {
+  const value = part.headers.get(name);
+  return value ? decodeHeader(value) : undefined;
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+// The header block mail clients put above a forwarded message
+function collectForwarded(message: MimePart, collected: CollectedParts, depth: number): void {
+  const forwarded: CollectedParts = { html: [], plain: [], attachments: [], inlineImages: [] };
+  collectPart(message, forwarded, depth);
+
+  const header = ["From", "Date", "Subject", "To"]
+    .map((name) => [name, getHeader(message, name.toLowerCase())])
+    .filter(([, value]) => value)
+    .map(([name, value]) => `${name}: ${value}`);
+  if (forwarded.html.length > 0) {
+    collected.html.push(`<p>---------- Forwarded message ---------<br>${header.map(escapeHtml).join("<br>")}</p>`, ...forwarded.html);
+  }
+  if (forwarded.plain.length > 0) {
+    collected.plain.push(["---------- Forwarded message ---------", ...header].join("\n"), ...forwarded.plain);
+  }
+  collected.attachments.push(...forwarded.attachments);
+  collected.inlineImages.push(...forwarded.inlineImages);
+}
+
+function collectPart(part: MimePart, collected: CollectedParts, depth: number): void {
+  const type = parseHeaderValue(part.headers.get("content-type") || "text/plain");
+  const disposition = parseHeaderValue(part.headers.get("content-disposition"));
+  const mimeType = type.value || "text/plain";
+  const fileName = disposition.params.filename || type.params.name;
+
+  if (mimeType.startsWith("multipart/")) {
+    if (!type.params.boundary || depth >= MAX_DEPTH) return;
+    for (const child of splitMultipart(part.body, type.params.boundary)) collectPart(child, collected, depth + 1);
+    return;
+  }
+  if (mimeType === EMAIL_MESSAGE_MIME_TYPE && depth < MAX_DEPTH) {
+    collectForwarded(readPart(decodeBody(part).toString("latin1")), collected, depth + 1);
+    return;
+  }
+  if ((mimeType === "text/html" || mimeType === "text/plain") && disposition.value !== "attachment" && !fileName) {
+    (mimeType === "text/html" ? collected.html : collected.plain).push(decodeText(decodeBody(part), type.params.charset));
+    return;
+  }
+
+  const contentId = part.headers.get("content-id")?.trim().replace(/^<|>$/g, "");
+  const index = collected.attachments.length + collected.inlineImages.length + 1;
+  const file: EmailFile = {
+    fileName: fileName || (mimeType === "text/calendar" ? "invite.ics" : `attachment-${index}.${EXTENSIONS[mimeType] ?? "bin"}`),
+    mimeType,
+    content: decodeBody(part),
+  };
+  if (contentId && mimeType.startsWith("image/") && disposition.value !== "attachment") {
+    collected.inlineImages.push({ ...file, contentId });
+  } else {
+    collected.attachments.push(file);
+  }
+}
+
+/**
+ * Read a raw email. Inline images the HTML doesn't show (photos pasted
+ * into a plain-text email) are taken as attachments.
+ */
+export function parseEmailMessage(raw: Buffer): EmailMessage {
+  const message = readPart(raw.toString("latin1"));
+  const collected: CollectedParts = { html: [], plain: [], attachments: [], inlineImages: [] };
+  collectPart(message, collected, 0);
+
+  const html = collected.html.join("\n") || undefined;
+  const shown = collected.inlineImages.filter((image) => html?.includes(`cid:${image.contentId}`));
+  const unshown = collected.inlineImages.filter((image) => !shown.includes(image)).map(({ contentId: _contentId, ...file }) => file);
+
+  return {
+    subject: getHeader(message, "subject"),
+    from: getHeader(message, "from"),
+    html,
+    plain: collected.plain.join("\n\n") || undefined,
+    attachments: [...collected.attachments, ...unshown],
+    inlineImages: shown,
+  };
+}
+
+/**
+ * Point the HTML's cid: references at stored copies of its inline images
+ */
+export function replaceContentIds(html: string, urls: Map<string, string>): string {
+  return html.replace(/cid:([^"'\s)>]+)/gi, (match, contentId: string) => urls.get(contentId) ?? match);
+}
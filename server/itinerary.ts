@@ -0,0 +1,281 @@
+/**
+ * Trip Itinerary
+ *
+ * Day-by-day timeline of a trip built from its documents: flight and train
+ * departures and arrivals, hotel check-in/out, car pickup/return, events,
+ * transfers and passes. Times are the wall-clock times printed on the
+ * documents, i.e. local to where each entry happens, so they are read from
+ * the strings and never converted through a server time zone.
+ */
+
+import type { Document, DocumentCategory, DocumentDetails, Trip } from "../drizzle/schema";
+import { getDetailsSchemaKey } from "./documentSchema";
+import { formatLegRoute, getFlightLegs } from "../shared/flightLegs";
+import { getLocalDay } from "../shared/timezones";
+import { formatAirportCode } from "../shared/airports";
+
+export type ItineraryEntryKind =
+  | "departure"
+  | "arrival"
+  | "checkIn"
+  | "checkOut"
+  | "pickup"
+  | "dropoff"
+  | "event"
+  | "transfer"
+  | "activity"
+  | "document";
+
+export interface ItineraryEntry {
+  documentId: number;
+  category: DocumentCategory;
+  kind: ItineraryEntryKind;
+  // YYYY-MM-DD, local to where the entry happens
+  date: string;
+  // HH:mm local time, null when the document only gives a date
+  time: string | null;
+  title: string;
+  // Secondary line, e.g. terminal, platform or address
+  detail: string | null;
+}
+
+// A hotel night, shown as a band under every day the stay covers
+export interface OvernightStay {
+  documentId: number;
+  name: string;
+  // 1-based night of the stay, out of `nights`
+  night: number;
+  nights: number;
+}
+
+export interface ItineraryDay {
+  date: string;
+  // 1-based day of the trip, null for days outside the trip dates
+  dayNumber: number | null;
+  entries: ItineraryEntry[];
+  overnight: OvernightStay[];
+}
+
+export interface Itinerary {
+  days: ItineraryDay[];
+  // Documents with no date to place them by
+  undatedDocumentIds: number[];
+}
+
+// The parts of a document the timeline reads, so parsed documents that
+// aren't saved yet can be placed too
+export type ItineraryDocument = Pick<
+  Document,
+  "id" | "category" | "documentType" | "title" | "subtitle" | "details" | "segments" | "documentDate" | "timeZone"
+>;
+
+export interface LocalDateTime {
+  date: string;
+  time: string | null;
+}
+
+// Fields that hold a day; a midnight time on them means no time was given
+const DAY_FIELDS = new Set(["checkInDate", "checkOutDate", "eventDate", "transferDate", "startDate", "endDate"]);
+
+// Where entries without a time sit among the timed ones of the same day
+const DEFAULT_TIMES: Record<ItineraryEntryKind, string> = {
+  checkOut: "10:00",
+  dropoff: "11:00",
+  departure: "12:00",
+  arrival: "12:00",
+  pickup: "12:00",
+  transfer: "12:00",
+  activity: "09:00",
+  event: "18:00",
+  document: "12:00",
+  checkIn: "15:00",
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Date and wall-clock time of a detail value. ISO strings are split as
+ * written; anything else falls back to Date parsing for the day only.
+ */
+export function toLocalDateTime(value: string | undefined, field?: string): LocalDateTime | null {
+  if (!value) return null;
+  const match = value.trim().match(/^(\d{4}-\d{2}-\d{2})(?:[T ](\d{2}):(\d{2}))?/);
+  if (match) {
+    const time = match[2] ? `${match[2]}:${match[3]}` : null;
+    return { date: match[1], time: time === "00:00" && field && DAY_FIELDS.has(field) ? null : time };
+  }
+  const parsed = Date.parse(value);
+  return Number.isNaN(parsed) ? null : { date: new Date(parsed).toISOString().slice(0, 10), time: null };
+}
+
+// "14:30", "2:30 PM" or an ISO datetime → "14:30"
+export function toTime(value: string | undefined): string | null {
+  if (!value) return null;
+  const match = value.match(/(?:T|^|\s)(\d{1,2}):(\d{2})(?:\s*([AaPp])\.?[Mm])?/);
+  if (!match) return null;
+  let hours = Number(match[1]);
+  if (match[3]?.toLowerCase() === "p" && hours < 12) hours += 12;
+  if (match[3]?.toLowerCase() === "a" && hours === 12) hours = 0;
+  return `${String(hours).padStart(2, "0")}:${match[2]}`;
+}
+
+export function addDays(date: string, days: number): string {
+  return new Date(Date.parse(`${date}T00:00:00Z`) + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+export function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / DAY_MS);
+}
+
+function joinParts(...parts: Array<string | null | undefined>): string {
+  return parts.filter(Boolean).join(" · ");
+}
+
+/**
+ * Timeline entries for one document, plus the nights it covers if it's a stay
+ */
+export function getDocumentEntries(doc: ItineraryDocument): { entries: ItineraryEntry[]; overnight: Array<OvernightStay & { date: string }> } {
+  const details = (doc.details as DocumentDetails | null) ?? {};
+  const entries: ItineraryEntry[] = [];
+  const overnight: Array<OvernightStay & { date: string }> = [];
+
+  const add = (kind: ItineraryEntryKind, at: LocalDateTime | null, title: string, detail?: string | null) => {
+    if (!at) return;
+    entries.push({ documentId: doc.id, category: doc.category, kind, date: at.date, time: at.time, title, detail: detail || null });
+  };
+  const at = (field: string, timeField?: string) => {
+    const value = toLocalDateTime(details[field], field);
+    if (value && !value.time && timeField) value.time = toTime(details[timeField]);
+    return value;
+  };
+
+  switch (getDetailsSchemaKey(doc.category, doc.documentType)) {
+    case "flight":
+      for (const leg of getFlightLegs(doc)) {
+        const route = formatLegRoute(leg);
+        add("departure", toLocalDateTime(leg.departureTime), joinParts(leg.flightNumber || leg.airline || "Flight", route), leg.terminal ? `Terminal ${leg.terminal}` : null);
+        add("arrival", toLocalDateTime(leg.arrivalTime), `Arrive ${formatAirportCode(leg.arrivalAirport) || route}`, leg.flightNumber);
+      }
+      break;
+
+    case "train":
+    case "bus":
+    case "ferry": {
+      const route = `${details.departureStation || "?"} → ${details.arrivalStation || "?"}`;
+      add("departure", at("departureTime"), joinParts(details.serviceNumber || details.operator || doc.title, route), details.platform ? `Platform ${details.platform}` : null);
+      add("arrival", at("arrivalTime"), `Arrive ${details.arrivalStation || doc.title}`, details.serviceNumber);
+      break;
+    }
+
+    case "accommodation": {
+      const name = details.hotelName || doc.title;
+      const checkIn = at("checkInDate");
+      let checkOut = at("checkOutDate");
+      const nightsStated = Number(details.numberOfNights);
+      if (!checkOut && checkIn && nightsStated > 0) checkOut = { date: addDays(checkIn.date, nightsStated), time: null };
+
+      add("checkIn", checkIn, `Check in · ${name}`, details.address);
+      add("checkOut", checkOut, `Check out · ${name}`, null);
+
+      if (checkIn && checkOut) {
+        const nights = daysBetween(checkIn.date, checkOut.date);
+        for (let night = 0; night < nights; night++) {
+          overnight.push({ documentId: doc.id, name, night: night + 1, nights, date: addDays(checkIn.date, night) });
+        }
+      }
+      break;
+    }
+
+    case "carRental": {
+      const company = details.carCompany || doc.title;
+      add("pickup", at("pickupTime"), `Pick up car · ${company}`, details.pickupLocation);
+      add("dropoff", at("dropoffTime"), `Return car · ${company}`, details.dropoffLocation);
+      break;
+    }
+
+    case "event":
+      add("event", at("eventDate", "eventTime"), details.eventName || doc.title, details.venue);
+      break;
+
+    case "transfer":
+      add(
+        "transfer",
+        at("transferDate", "transferTime"),
+        doc.title,
+        details.pickupLocation || details.dropoffLocation ? `${details.pickupLocation || "?"} → ${details.dropoffLocation || "?"}` : null
+      );
+      break;
+
+    case "pass":
+      add("activity", at("startDate"), details.activityName || doc.title, details.location);
+      break;
+
+    case "medical":
+      // Coverage spans the trip; there is nothing to put on a particular day
+      break;
+
+    default:
+      if (doc.documentDate) {
+        add("document", { date: getLocalDay(new Date(doc.documentDate), doc.timeZone), time: null }, doc.title, doc.subtitle);
+      }
+  }
+
+  return { entries, overnight };
+}
+
+/**
+ * First and last day of a trip as YYYY-MM-DD
+ */
+export function getTripDays(trip: Pick<Trip, "startDate" | "endDate">): { tripStart: string; tripEnd: string } {
+  return {
+    tripStart: new Date(trip.startDate).toISOString().slice(0, 10),
+    tripEnd: new Date(trip.endDate).toISOString().slice(0, 10),
+  };
+}
+
+function sortKey(entry: ItineraryEntry): string {
+  return entry.time ?? DEFAULT_TIMES[entry.kind];
+}
+
+/**
+ * Every day of the trip, plus any day outside it that a document falls on
+ */
+export function buildItinerary(trip: Pick<Trip, "startDate" | "endDate">, documents: Document[]): Itinerary {
+  const { tripStart, tripEnd } = getTripDays(trip);
+
+  const days = new Map<string, ItineraryDay>();
+  const dayFor = (date: string) => {
+    let day = days.get(date);
+    if (!day) {
+      const offset = daysBetween(tripStart, date);
+      const inTrip = offset >= 0 && date <= tripEnd;
+      day = { date, dayNumber: inTrip ? offset + 1 : null, entries: [], overnight: [] };
+      days.set(date, day);
+    }
+    return day;
+  };
+
+  for (let date = tripStart; date <= tripEnd; date = addDays(date, 1)) {
+    dayFor(date);
+  }
+
+  const undatedDocumentIds: number[] = [];
+  for (const doc of documents) {
+    // A cancelled booking no longer happens on any day
+    if (doc.cancelledAt) continue;
+    const { entries, overnight } = getDocumentEntries(doc);
+    if (entries.length === 0 && overnight.length === 0) {
+      if (doc.category !== "medical") undatedDocumentIds.push(doc.id);
+      continue;
+    }
+    for (const entry of entries) dayFor(entry.date).entries.push(entry);
+    for (const { date, ...stay } of overnight) dayFor(date).overnight.push(stay);
+  }
+
+  const sorted = [...days.values()].sort((a, b) => a.date.localeCompare(b.date));
+  for (const day of sorted) {
+    day.entries.sort((a, b) => sortKey(a).localeCompare(sortKey(b)));
+  }
+
+  return { days: sorted, undatedDocumentIds };
+}
@@ -0,0 +1,241 @@
+/**
+ * Background Job Queue
+ *
+ * Durable replacement for fire-and-forget `setImmediate` processing.
+ * Jobs are persisted in the `jobs` table, picked up by a polling worker,
+ * retried with exponential backoff and moved to a "dead" state once they
+ * run out of attempts. Every execution is recorded in `job_attempts`.
+ */
+
+import { EventEmitter } from "events";
+import * as db from "./db";
+import type { Job } from "../drizzle/schema";
+
+// How often the worker looks for due jobs
+const POLL_INTERVAL_MS = 5_000;
+// Max jobs picked up per poll
+const BATCH_SIZE = 5;
+// A running job whose lock is older than this is assumed orphaned (process restart)
+const STALE_LOCK_MS = 15 * 60 * 1000;
+// Backoff: 30s, 1m, 2m, 4m ... capped at 1h
+const RETRY_BASE_DELAY_MS = 30_000;
+const RETRY_MAX_DELAY_MS = 60 * 60 * 1000;
+
+export const DEFAULT_MAX_ATTEMPTS = 5;
+
+export interface JobContext {
+  attempt: number;
+  isFinalAttempt: boolean;
+  /** Persist a checkpoint so a retry can skip work that already succeeded */
+  saveProgress: (progress: unknown) => Promise<void>;
+}
+
+export type JobHandler = (job: Job, ctx: JobContext) => Promise<unknown>;
+
+interface JobHandlerRegistration {
+  handler: JobHandler;
+  /** Called once when the job is dead-lettered, e.g. to notify the user */
+  onDead?: (job: Job, error: string) => Promise<void>;
+}
+
+export interface JobChangeEvent {
+  jobId: number;
+  userId: number;
+}
+
+const handlers = new Map<string, JobHandlerRegistration>();
+
+/**
+ * Emits "change" with a JobChangeEvent whenever a job is created, makes
+ * progress or changes status. Drives the live job status subscription.
+ */
+export const jobEvents = new EventEmitter();
+// One listener per open subscription
+jobEvents.setMaxListeners(0);
+
+function emitJobChange(jobId: number, userId: number): void {
+  jobEvents.emit("change", { jobId, userId } satisfies JobChangeEvent);
+}
+
+let pollTimer: ReturnType<typeof setInterval> | null = null;
+let isPolling = false;
+let pollRequested = false;
+
+/**
+ * Register the handler for a job type
+ */
+export function registerJobHandler(
+  type: string,
+  handler: JobHandler,
+  options: { onDead?: JobHandlerRegistration["onDead"] } = {}
+): void {
+  handlers.set(type, { handler, onDead: options.onDead });
+}
+
+/**
+ * Delay before the next attempt after `attempt` failed
+ */
+export function getRetryDelayMs(attempt: number): number {
+  const delay = RETRY_BASE_DELAY_MS * Math.pow(2, Math.max(0, attempt - 1));
+  return Math.min(delay, RETRY_MAX_DELAY_MS);
+}
+
+/**
+ * Persist a job and wake the worker so it starts right away
+ */
+export async function enqueueJob(
+  type: string,
+  userId: number,
+  payload: unknown,
+  options: { maxAttempts?: number } = {}
+): Promise<number> {
+  const jobId = await db.createJob({
+    userId,
+    type,
+    payload,
+    maxAttempts: options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS,
+  });
+  console.log(`[JobQueue] Enqueued ${type} job ${jobId} for user ${userId}`);
+  emitJobChange(jobId, userId);
+  kickJobWorker();
+  return jobId;
+}
+
+/**
+ * Cancel a job that is waiting to run. Returns false if it already started.
+ */
+export async function cancelJob(job: Job): Promise<boolean> {
+  const cancelled = await db.cancelJob(job.id);
+  if (cancelled) {
+    console.log(`[JobQueue] Cancelled ${job.type} job ${job.id}`);
+    emitJobChange(job.id, job.userId);
+  }
+  return cancelled;
+}
+
+/**
+ * Requeue a dead or cancelled job with a fresh set of attempts
+ */
+export async function retryJob(job: Job): Promise<boolean> {
+  const requeued = await db.retryJob(job.id);
+  if (requeued) {
+    console.log(`[JobQueue] Manually requeued ${job.type} job ${job.id}`);
+    emitJobChange(job.id, job.userId);
+    kickJobWorker();
+  }
+  return requeued;
+}
+
+/**
+ * Run one attempt of an already-claimed job and record the outcome
+ */
+async function executeJob(job: Job, attempt: number): Promise<void> {
+  const registration = handlers.get(job.type);
+  const attemptId = await db.createJobAttempt(job.id, attempt);
+  console.log(`[JobQueue] Running ${job.type} job ${job.id} (attempt ${attempt}/${job.maxAttempts})`);
+  emitJobChange(job.id, job.userId);
+
+  try {
+    if (!registration) {
+      throw new Error(`No handler registered for job type "${job.type}"`);
+    }
+
+    const result = await registration.handler(job, {
+      attempt,
+      isFinalAttempt: attempt >= job.maxAttempts,
+      saveProgress: async (progress) => {
+        job.progress = progress;
+        await db.updateJobProgress(job.id, progress);
+        emitJobChange(job.id, job.userId);
+      },
+    });
+
+    await db.finishJobAttempt(attemptId, "succeeded");
+    await db.completeJob(job.id, result ?? null);
+    console.log(`[JobQueue] Completed ${job.type} job ${job.id}`);
+    emitJobChange(job.id, job.userId);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    await db.finishJobAttempt(attemptId, "failed", message).catch(console.error);
+
+    if (attempt >= job.maxAttempts) {
+      console.error(`[JobQueue] ${job.type} job ${job.id} failed permanently after ${attempt} attempts: ${message}`);
+      await db.markJobDead(job.id, message).catch(console.error);
+      if (registration?.onDead) {
+        await registration.onDead(job, message).catch(console.error);
+      }
+    } else {
+      const delayMs = getRetryDelayMs(attempt);
+      console.warn(`[JobQueue] ${job.type} job ${job.id} failed (attempt ${attempt}), retrying in ${Math.round(delayMs / 1000)}s: ${message}`);
+      await db.rescheduleJob(job.id, new Date(Date.now() + delayMs), message).catch(console.error);
+    }
+    emitJobChange(job.id, job.userId);
+  }
+}
+
+/**
+ * Requeue orphaned jobs, then claim and run every due job
+ */
+export async function processDueJobs(): Promise<void> {
+  if (isPolling) {
+    pollRequested = true;
+    return;
+  }
+  isPolling = true;
+
+  try {
+    do {
+      pollRequested = false;
+
+      const requeued = await db.requeueStaleJobs(new Date(Date.now() - STALE_LOCK_MS));
+      if (requeued > 0) {
+        console.warn(`[JobQueue] Requeued ${requeued} stale running job(s)`);
+      }
+
+      const dueJobs = await db.getDueJobs(BATCH_SIZE);
+      for (const job of dueJobs) {
+        const claimed = await db.claimJob(job.id);
+        if (!claimed) continue;
+
+        await executeJob(job, job.attempts + 1);
+      }
+
+      // Keep draining while there is a full batch waiting
+      if (dueJobs.length === BATCH_SIZE) {
+        pollRequested = true;
+      }
+    } while (pollRequested);
+  } catch (error) {
+    console.error("[JobQueue] Worker poll failed:", error);
+  } finally {
+    isPolling = false;
+  }
+}
+
+/**
+ * Ask the worker to poll as soon as possible (after the current tick)
+ */
+export function kickJobWorker(): void {
+  setImmediate(() => {
+    processDueJobs().catch(console.error);
+  });
+}
+
+/**
+ * Start the polling worker. Safe to call more than once.
+ */
+export function startJobWorker(): void {
+  if (pollTimer) return;
+  console.log("[JobQueue] Worker started");
+  pollTimer = setInterval(() => {
+    processDueJobs().catch(console.error);
+  }, POLL_INTERVAL_MS);
+  kickJobWorker();
+}
+
+export function stopJobWorker(): void {
+  if (pollTimer) {
+    clearInterval(pollTimer);
+    pollTimer = null;
+  }
+}
@@ -0,0 +1,412 @@
+/**
+ * Parsing Evaluation
+ *
+ * Measures how well `parseDocument` / `parseEmailBody` extract bookings from
+ * a corpus of sample itineraries with hand-checked expected output. Each
+ * field is scored as a hit, a wrong or invented value (false positive) or a
+ * missed value (false negative), and precision/recall are reported per field
+ * by category and by language.
+ *
+ * A run's parsed output can be saved and compared with another run, e.g. the
+ * current prompt against the previous one, or one provider against another.
+ * Runs replay offline with LLM_PROVIDER=fixture (see server/_core/llmProviders.ts).
+ * The CLI is scripts/eval-parsing.ts.
+ */
+
+import { existsSync, readdirSync, readFileSync } from "fs";
+import path from "path";
+import { parseDocument, parseEmailBody, type ParsedDocument } from "./documentParser";
+import { getDetailFieldNames } from "./documentSchema";
+import { DETAIL_DATE_FIELDS } from "../shared/confidence";
+import { getLocalDay } from "../shared/timezones";
+
+export type EvalSource =
+  | { kind: "file"; url: string; mimeType: string }
+  | { kind: "email"; html?: string; plain?: string; subject?: string; sender?: string };
+
+/**
+ * A booking as the corpus expects it. Only category, documentDate and
+ * details are scored; title and the like are free text.
+ */
+export interface ExpectedDocument {
+  category: ParsedDocument["category"];
+  documentType?: string;
+  documentDate?: string | null;
+  details: Record<string, string | number>;
+}
+
+export interface EvalCase {
+  id: string;
+  // ISO 639-1 code of the document's main language, e.g. "en", "he", "it"
+  language: string;
+  description?: string;
+  source: EvalSource;
+  expected: ExpectedDocument[];
+}
+
+// What a run keeps of each parsed booking
+export interface EvalDocument {
+  category: string;
+  documentType: string;
+  title: string;
+  documentDate: string | null;
+  details: Record<string, unknown>;
+}
+
+export interface EvalRun {
+  label: string;
+  provider: string;
+  createdAt: string;
+  cases: Array<{ id: string; language: string; documents: EvalDocument[]; error?: string }>;
+}
+
+export interface Counts {
+  tp: number;
+  fp: number;
+  fn: number;
+}
+
+export interface FieldScore extends Counts {
+  field: string;
+  expected: string | null;
+  actual: string | null;
+}
+
+export interface MetricGroup {
+  total: Counts;
+  fields: Record<string, Counts>;
+}
+
+export interface EvalReport {
+  label: string;
+  overall: Counts;
+  byCategory: Record<string, MetricGroup>;
+  byLanguage: Record<string, MetricGroup>;
+  errors: Array<{ id: string; error: string }>;
+}
+
+// Filled in by post-processing rather than read by the model
+const DERIVED_FIELDS = new Set(["departureAddress", "arrivalAddress"]);
+
+const DATE_FIELDS = new Set(["documentDate", ...DETAIL_DATE_FIELDS]);
+
+/**
+ * Load every `*.json` case in a corpus folder, sorted by id
+ */
+export function loadCorpus(dir: string): EvalCase[] {
+  if (!existsSync(dir)) {
+    throw new Error(`Corpus folder ${dir} not found`);
+  }
+  return readdirSync(dir)
+    .filter((file) => file.endsWith(".json"))
+    .map((file) => JSON.parse(readFileSync(path.join(dir, file), "utf8")) as EvalCase)
+    .sort((a, b) => a.id.localeCompare(b.id));
+}
+
+function toEvalDocument(doc: ParsedDocument): EvalDocument {
+  return {
+    category: doc.category,
+    documentType: doc.documentType,
+    title: doc.title,
+    documentDate: doc.documentDate ? getLocalDay(doc.documentDate, doc.timeZone) : null,
+    details: doc.details,
+  };
+}
+
+/**
+ * Parse every case with the configured LLM provider
+ */
+export async function runEval(cases: EvalCase[], options: { label: string; provider: string }): Promise<EvalRun> {
+  const run: EvalRun = { label: options.label, provider: options.provider, createdAt: new Date().toISOString(), cases: [] };
+
+  for (const evalCase of cases) {
+    const { source } = evalCase;
+    const result = source.kind === "file"
+      ? await parseDocument(source.url, source.mimeType)
+      : await parseEmailBody(source.html, source.plain, source.subject, source.sender);
+
+    run.cases.push({
+      id: evalCase.id,
+      language: evalCase.language,
+      documents: result.documents.map(toEvalDocument),
+      ...(result.error ? { error: result.error } : {}),
+    });
+  }
+
+  return run;
+}
+
+/**
+ * Comparable form of a value. Dates keep the date and, if given, hour and
+ * minute; everything else ignores case, spacing and punctuation, so "LY 381"
+ * matches "LY381" and "+39 06 1234" matches "0039-06-1234" only by digits.
+ */
+export function normalizeValue(field: string, value: unknown): string | null {
+  if (value === undefined || value === null || value === "") return null;
+  const text = String(value).trim();
+
+  if (DATE_FIELDS.has(field)) {
+    const match = text.match(/^(\d{4}-\d{2}-\d{2})(?:[T ](\d{2}):(\d{2}))?/);
+    if (match) return match[2] ? `${match[1]}T${match[2]}:${match[3]}` : match[1];
+  }
+
+  return text.normalize("NFKC").toLowerCase().replace(/[^\p{L}\p{N}]/gu, "");
+}
+
+function valuesMatch(field: string, expected: string | null, actual: string | null): boolean {
+  if (expected === null || actual === null) return expected === actual;
+  // A date-only expectation is met by any time on that day
+  if (DATE_FIELDS.has(field) && /^\d{4}-\d{2}-\d{2}$/.test(expected)) {
+    return actual.slice(0, 10) === expected;
+  }
+  return expected === actual;
+}
+
+/**
+ * Score one parsed booking against its expected version. Pass null for
+ * either side when a booking was missed or invented outright.
+ */
+export function scoreDocument(expected: ExpectedDocument | null, actual: EvalDocument | null): FieldScore[] {
+  const category = expected?.category ?? actual!.category;
+  const documentType = expected?.documentType ?? actual?.documentType;
+  const schemaFields = new Set(getDetailFieldNames(category, documentType));
+
+  const fields = new Set<string>(["category", "documentDate", ...Object.keys(expected?.details ?? {})]);
+  for (const field of Object.keys(actual?.details ?? {})) {
+    if (schemaFields.has(field) && !DERIVED_FIELDS.has(field)) fields.add(field);
+  }
+
+  const read = (doc: ExpectedDocument | EvalDocument | null, field: string) => {
+    if (!doc) return null;
+    if (field === "category") return normalizeValue(field, doc.category);
+    if (field === "documentDate") return normalizeValue(field, doc.documentDate);
+    return normalizeValue(field, (doc.details as Record<string, unknown>)[field]);
+  };
+
+  const scores: FieldScore[] = [];
+  for (const field of fields) {
+    const expectedValue = read(expected, field);
+    const actualValue = read(actual, field);
+    if (expectedValue === null && actualValue === null) continue;
+
+    const hit = valuesMatch(field, expectedValue, actualValue);
+    scores.push({
+      field,
+      expected: expectedValue,
+      actual: actualValue,
+      tp: hit ? 1 : 0,
+      fp: !hit && actualValue !== null ? 1 : 0,
+      fn: !hit && expectedValue !== null ? 1 : 0,
+    });
+  }
+  return scores;
+}
+
+/**
+ * Pair parsed bookings with expected ones, most similar first. Bookings
+ * left over on either side are scored against nothing.
+ */
+export function matchDocuments(
+  expected: ExpectedDocument[],
+  actual: EvalDocument[]
+): Array<{ expected: ExpectedDocument | null; actual: EvalDocument | null }> {
+  const candidates: Array<{ e: number; a: number; hits: number }> = [];
+  expected.forEach((exp, e) => {
+    actual.forEach((act, a) => {
+      const hits = scoreDocument(exp, act).reduce((sum, score) => sum + score.tp, 0);
+      candidates.push({ e, a, hits });
+    });
+  });
+  candidates.sort((x, y) => y.hits - x.hits || x.e - y.e || x.a - y.a);
+
+  const pairs: Array<{ expected: ExpectedDocument | null; actual: EvalDocument | null }> = [];
+  const usedExpected = new Set<number>();
+  const usedActual = new Set<number>();
+  for (const { e, a, hits } of candidates) {
+    if (hits === 0 || usedExpected.has(e) || usedActual.has(a)) continue;
+    usedExpected.add(e);
+    usedActual.add(a);
+    pairs.push({ expected: expected[e], actual: actual[a] });
+  }
+  expected.forEach((exp, e) => {
+    if (!usedExpected.has(e)) pairs.push({ expected: exp, actual: null });
+  });
+  actual.forEach((act, a) => {
+    if (!usedActual.has(a)) pairs.push({ expected: null, actual: act });
+  });
+  return pairs;
+}
+
+function addCounts(target: Counts, source: Counts): void {
+  target.tp += source.tp;
+  target.fp += source.fp;
+  target.fn += source.fn;
+}
+
+function addToGroup(groups: Record<string, MetricGroup>, key: string, score: FieldScore): void {
+  const group = (groups[key] ??= { total: { tp: 0, fp: 0, fn: 0 }, fields: {} });
+  addCounts(group.total, score);
+  addCounts((group.fields[score.field] ??= { tp: 0, fp: 0, fn: 0 }), score);
+}
+
+/**
+ * Field scores of one case, with the pairing they came from
+ */
+export function scoreCase(evalCase: EvalCase, documents: EvalDocument[]) {
+  return matchDocuments(evalCase.expected, documents).map((pair) => ({
+    ...pair,
+    category: pair.expected?.category ?? pair.actual!.category,
+    scores: scoreDocument(pair.expected, pair.actual),
+  }));
+}
+
+export function buildReport(cases: EvalCase[], run: EvalRun): EvalReport {
+  const report: EvalReport = { label: run.label, overall: { tp: 0, fp: 0, fn: 0 }, byCategory: {}, byLanguage: {}, errors: [] };
+  const results = new Map(run.cases.map((result) => [result.id, result]));
+
+  for (const evalCase of cases) {
+    const result = results.get(evalCase.id);
+    if (result?.error) report.errors.push({ id: evalCase.id, error: result.error });
+
+    for (const pair of scoreCase(evalCase, result?.documents ?? [])) {
+      for (const score of pair.scores) {
+        addCounts(report.overall, score);
+        addToGroup(report.byCategory, pair.category, score);
+        addToGroup(report.byLanguage, evalCase.language, score);
+      }
+    }
+  }
+
+  return report;
+}
+
+export function precision(counts: Counts): number {
+  return counts.tp + counts.fp === 0 ? 1 : counts.tp / (counts.tp + counts.fp);
+}
+
+export function recall(counts: Counts): number {
+  return counts.tp + counts.fn === 0 ? 1 : counts.tp / (counts.tp + counts.fn);
+}
+
+export function f1(counts: Counts): number {
+  const p = precision(counts);
+  const r = recall(counts);
+  return p + r === 0 ? 0 : (2 * p * r) / (p + r);
+}
+
+export interface FieldDiff {
+  caseId: string;
+  category: string;
+  field: string;
+  expected: string | null;
+  before: string | null;
+  after: string | null;
+  // fixed: now matches, regressed: used to match, changed: wrong either way
+  status: "fixed" | "regressed" | "changed";
+}
+
+/**
+ * Field values that differ between two runs over the same corpus
+ */
+export function diffRuns(cases: EvalCase[], before: EvalRun, after: EvalRun): FieldDiff[] {
+  const beforeCases = new Map(before.cases.map((result) => [result.id, result]));
+  const afterCases = new Map(after.cases.map((result) => [result.id, result]));
+  const diffs: FieldDiff[] = [];
+
+  for (const evalCase of cases) {
+    const scoresFor = (run: Map<string, EvalRun["cases"][number]>) => {
+      const byKey = new Map<string, FieldScore & { category: string }>();
+      scoreCase(evalCase, run.get(evalCase.id)?.documents ?? []).forEach((pair, index) => {
+        // Expected bookings keep their position; invented ones are keyed by category
+        const key = pair.expected ? `expected${evalCase.expected.indexOf(pair.expected)}` : `extra${index}:${pair.category}`;
+        for (const score of pair.scores) byKey.set(`${key}.${score.field}`, { ...score, category: pair.category });
+      });
+      return byKey;
+    };
+
+    const beforeScores = scoresFor(beforeCases);
+    const afterScores = scoresFor(afterCases);
+    for (const key of new Set([...beforeScores.keys(), ...afterScores.keys()])) {
+      const b = beforeScores.get(key);
+      const a = afterScores.get(key);
+      const beforeValue = b?.actual ?? null;
+      const afterValue = a?.actual ?? null;
+      if (beforeValue === afterValue) continue;
+
+      const wasHit = (b?.tp ?? 0) > 0;
+      const isHit = (a?.tp ?? 0) > 0;
+      diffs.push({
+        caseId: evalCase.id,
+        category: (a ?? b)!.category,
+        field: (a ?? b)!.field,
+        expected: (a ?? b)!.expected,
+        before: beforeValue,
+        after: afterValue,
+        status: isHit && !wasHit ? "fixed" : wasHit && !isHit ? "regressed" : "changed",
+      });
+    }
+  }
+
+  return diffs;
+}
+
+const percent = (value: number) => `${(value * 100).toFixed(1)}%`.padStart(7);
+
+function formatGroup(title: string, groups: Record<string, MetricGroup>, withFields: boolean): string[] {
+  const lines = [title];
+  for (const [key, group] of Object.entries(groups).sort(([a], [b]) => a.localeCompare(b))) {
+    lines.push(`  ${key.padEnd(24)} P ${percent(precision(group.total))}  R ${percent(recall(group.total))}  F1 ${percent(f1(group.total))}`);
+    if (!withFields) continue;
+    for (const [field, counts] of Object.entries(group.fields).sort(([a], [b]) => a.localeCompare(b))) {
+      lines.push(`    ${field.padEnd(22)} P ${percent(precision(counts))}  R ${percent(recall(counts))}  (${counts.tp}/${counts.fp}/${counts.fn})`);
+    }
+  }
+  return lines;
+}
+
+/**
+ * Plain-text report for the CLI. Field rows end with (hits/false positives/misses).
+ */
+export function formatReport(report: EvalReport): string {
+  return [
+    `Run: ${report.label}`,
+    `Overall                    P ${percent(precision(report.overall))}  R ${percent(recall(report.overall))}  F1 ${percent(f1(report.overall))}`,
+    "",
+    ...formatGroup("By category", report.byCategory, true),
+    "",
+    ...formatGroup("By language", report.byLanguage, false),
+    ...(report.errors.length > 0 ? ["", "Errors", ...report.errors.map((e) => `  ${e.id}: ${e.error}`)] : []),
+  ].join("\n");
+}
+
+/**
+ * Plain-text comparison of two runs: metric changes, then every field that changed
+ */
+export function formatComparison(before: EvalReport, after: EvalReport, diffs: FieldDiff[]): string {
+  const delta = (a: number, b: number) => {
+    const points = (b - a) * 100;
+    return `${points >= 0 ? "+" : ""}${points.toFixed(1)}`.padStart(6);
+  };
+  const row = (name: string, a: Counts | undefined, b: Counts | undefined) => {
+    const x = a ?? { tp: 0, fp: 0, fn: 0 };
+    const y = b ?? { tp: 0, fp: 0, fn: 0 };
+    return `  ${name.padEnd(24)} P ${percent(precision(y))} (${delta(precision(x), precision(y))})  R ${percent(recall(y))} (${delta(recall(x), recall(y))})`;
+  };
+
+  const lines = [`${before.label} → ${after.label}`, row("overall", before.overall, after.overall), "", "By category"];
+  for (const key of [...new Set([...Object.keys(before.byCategory), ...Object.keys(after.byCategory)])].sort()) {
+    lines.push(row(key, before.byCategory[key]?.total, after.byCategory[key]?.total));
+  }
+  lines.push("", "By language");
+  for (const key of [...new Set([...Object.keys(before.byLanguage), ...Object.keys(after.byLanguage)])].sort()) {
+    lines.push(row(key, before.byLanguage[key]?.total, after.byLanguage[key]?.total));
+  }
+
+  lines.push("", diffs.length > 0 ? "Changed fields" : "No field changes");
+  for (const diff of diffs) {
+    lines.push(
+      `  [${diff.status}] ${diff.caseId} ${diff.category}.${diff.field}: ${diff.before ?? "∅"} → ${diff.after ?? "∅"} (expected ${diff.expected ?? "∅"})`
+    );
+  }
+  return lines.join("\n");
+}
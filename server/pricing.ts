@@ -0,0 +1,134 @@
+/**
+ * Credit Pricing
+ *
+ * Decides how many credits parsing a source (an uploaded or forwarded file,
+ * or the body of a forwarded email) costs. A composite booking such as a ski
+ * package PDF is one source no matter how many bookings it contains, so the
+ * default policy charges per file. The policy is configured by env:
+ *
+ *   CREDIT_PRICING_MODE          per_file (default) | per_page | per_booking
+ *   CREDIT_PRICING_UNIT_COST     credits per file/page/booking (default 1)
+ *   CREDIT_PRICING_MAX_PER_FILE  cap per source, unset = no cap
+ */
+
+import { ENV } from "./_core/env";
+import { fetchStoredFile } from "./storage";
+
+export type PricingMode = "per_file" | "per_page" | "per_booking";
+
+export interface PricingPolicy {
+  mode: PricingMode;
+  creditsPerUnit: number;
+  /** Most a single source can cost, null = no cap */
+  maxCreditsPerFile: number | null;
+}
+
+export const DEFAULT_PRICING_POLICY: PricingPolicy = {
+  mode: "per_file",
+  creditsPerUnit: 1,
+  maxCreditsPerFile: null,
+};
+
+const PRICING_MODES: PricingMode[] = ["per_file", "per_page", "per_booking"];
+
+function parsePositiveInt(value: string): number | null {
+  const parsed = Number.parseInt(value, 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : null;
+}
+
+/**
+ * Pricing policy from env, falling back to the defaults for unset or invalid values
+ */
+export function getPricingPolicy(): PricingPolicy {
+  const mode = PRICING_MODES.includes(ENV.creditPricingMode as PricingMode)
+    ? (ENV.creditPricingMode as PricingMode)
+    : DEFAULT_PRICING_POLICY.mode;
+
+  return {
+    mode,
+    creditsPerUnit: parsePositiveInt(ENV.creditPricingUnitCost) ?? DEFAULT_PRICING_POLICY.creditsPerUnit,
+    maxCreditsPerFile: parsePositiveInt(ENV.creditPricingMaxPerFile),
+  };
+}
+
+function applyCap(policy: PricingPolicy, credits: number): number {
+  return policy.maxCreditsPerFile === null ? credits : Math.min(credits, policy.maxCreditsPerFile);
+}
+
+/**
+ * Credits checked and charged before the AI parse runs. Per-booking pricing
+ * can't know the booking count yet, so it charges for one booking up front
+ * and the rest once parsing is done (see `getParseCost`).
+ */
+export function getUpfrontParseCost(policy: PricingPolicy, pageCount = 1): number {
+  const units = policy.mode === "per_page" ? Math.max(pageCount, 1) : 1;
+  return applyCap(policy, units * policy.creditsPerUnit);
+}
+
+/**
+ * Total credits a source costs once parsed. Nothing is charged when no
+ * bookings were found.
+ */
+export function getParseCost(
+  policy: PricingPolicy,
+  usage: { pageCount?: number; bookingCount: number }
+): number {
+  if (usage.bookingCount <= 0) return 0;
+
+  let units = 1;
+  if (policy.mode === "per_page") {
+    units = Math.max(usage.pageCount ?? 1, 1);
+  } else if (policy.mode === "per_booking") {
+    units = usage.bookingCount;
+  }
+  return applyCap(policy, units * policy.creditsPerUnit);
+}
+
+/**
+ * Short description for the store and profile screens, e.g. "1 credit per document"
+ */
+export function describePricingPolicy(policy: PricingPolicy): string {
+  const unit = {
+    per_file: "document",
+    per_page: "page",
+    per_booking: "booking",
+  }[policy.mode];
+  const credits = policy.creditsPerUnit === 1 ? "1 credit" : `${policy.creditsPerUnit} credits`;
+  const cap = policy.maxCreditsPerFile !== null && policy.mode !== "per_file"
+    ? ` (max ${policy.maxCreditsPerFile} per document)`
+    : "";
+  return `${credits} per ${unit}${cap}`;
+}
+
+/**
+ * Count the pages of a PDF by its page objects. Falls back to the page tree's
+ * `/Count` when the page objects are hidden in compressed object streams, and
+ * to 1 when neither can be found.
+ */
+export function countPdfPages(buffer: Buffer): number {
+  const content = buffer.toString("latin1");
+
+  const pageObjects = content.match(/\/Type\s*\/Page(?![a-zA-Z])/g)?.length ?? 0;
+  if (pageObjects > 0) return pageObjects;
+
+  let treeCount = 0;
+  for (const match of content.matchAll(/\/Type\s*\/Pages\b[^>]*?\/Count\s+(\d+)/g)) {
+    treeCount = Math.max(treeCount, Number(match[1]));
+  }
+  return treeCount > 0 ? treeCount : 1;
+}
+
+/**
+ * Page count of a stored source file. Images are one page; PDFs are
+ * downloaded and counted. Only needed for per-page pricing.
+ */
+export async function getSourcePageCount(fileUrl: string, mimeType: string): Promise<number> {
+  if (mimeType !== "application/pdf") return 1;
+
+  try {
+    return countPdfPages(await fetchStoredFile(fileUrl));
+  } catch (error) {
+    console.warn(`[Pricing] Couldn't count pages of ${fileUrl}, charging as one page:`, error);
+    return 1;
+  }
+}
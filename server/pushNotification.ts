@@ -141,3 +141,20 @@ export const EmailProcessingNotifications = {
     data: { type: "email_error" },
   }),
 };
+
+/**
+ * Notification types for changes to a booking the user already has
+ */
+export const BookingChangeNotifications = {
+  updated: (documentId: number, title: string, summary: string): PushNotificationPayload => ({
+    title: "✏️ Booking Updated",
+    body: summary ? `${title}: ${summary}` : `${title} was updated.`,
+    data: { type: "booking_updated", documentId },
+  }),
+
+  cancelled: (documentId: number, title: string): PushNotificationPayload => ({
+    title: "🚫 Booking Cancelled",
+    body: `${title} was cancelled.`,
+    data: { type: "booking_cancelled", documentId },
+  }),
+};
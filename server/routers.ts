@@ -1,10 +1,27 @@
 import { z } from "zod";
-import { COOKIE_NAME } from "../shared/const.js";
+import { COOKIE_NAME, WALLET_PASS_MIME_TYPE } from "../shared/const.js";
 import { getSessionCookieOptions } from "./_core/cookies";
 import { systemRouter } from "./_core/systemRouter";
 import { publicProcedure, protectedProcedure, router } from "./_core/trpc";
 import * as db from "./db";
-import { parseDocument } from "./documentParser";
+import { on } from "events";
+import { enqueueJob, cancelJob, retryJob, jobEvents, type JobChangeEvent } from "./jobQueue";
+import { JOB_TYPES, enqueueEmailJob, toJobSummary, type ReparseJobPayload, type UploadJobPayload } from "./documentJobs";
+import { describePricingPolicy, getPricingPolicy, getUpfrontParseCost } from "./pricing";
+import { hasLowConfidenceDate } from "../shared/confidence";
+import { applyDocumentEdit, type DocumentEdit } from "./documentEdits";
+import { applyReparseChanges, chargeForReparse, proposeReparse, refundReparse, type ReparseProposal } from "./documentReparse";
+import { toDocumentDate } from "./documentTimes";
+import { buildItinerary } from "./itinerary";
+import { analyzeTrip } from "./tripWarnings";
+import { suggestTrips } from "./tripSuggestions";
+import { findTripCandidates, pickAutoAssignTrip } from "./tripMatcher";
+import { setCurrentVersion } from "./documentVersions";
+import { isWalletPass } from "./walletPass";
+import { renderBarcodeSvg } from "./barcodes";
+import { isEmailMessage, isFreeEmail, parseEmailMessage } from "./emailMessage";
+import { fetchStoredFile, isStorageUrl } from "./storage";
+import { documents as documentsTable, type DocumentDetails, type FieldConfidenceMap } from "../drizzle/schema";
 
 // Credit amounts for each product (must match Google Play Console product IDs)
 const CREDIT_AMOUNTS: Record<string, number> = {
@@ -42,6 +59,30 @@ export const appRouter = router({
         return db.getTripById(input.id, ctx.user.id);
       }),
 
+    // Day-by-day timeline of the trip's bookings
+    itinerary: protectedProcedure
+      .input(z.object({ id: z.number() }))
+      .query(async ({ ctx, input }) => {
+        const trip = await db.getTripById(input.id, ctx.user.id);
+        if (!trip) {
+          return null;
+        }
+        const documents = await db.getTripDocuments(input.id, ctx.user.id);
+        return buildItinerary(trip, documents);
+      }),
+
+    // Missing nights, overlapping bookings, tight connections and the like
+    warnings: protectedProcedure
+      .input(z.object({ id: z.number() }))
+      .query(async ({ ctx, input }) => {
+        const trip = await db.getTripById(input.id, ctx.user.id);
+        if (!trip) {
+          return [];
+        }
+        const documents = await db.getTripDocuments(input.id, ctx.user.id);
+        return analyzeTrip(trip, documents);
+      }),
+
     create: protectedProcedure
       .input(
         z.object({
@@ -49,6 +90,10 @@ export const appRouter = router({
           startDate: z.string().transform((s) => new Date(s)),
           endDate: z.string().transform((s) => new Date(s)),
         })
+        .refine((input) => input.startDate <= input.endDate, {
+          message: "The trip can't end before it starts",
+          path: ["endDate"],
+        })
       )
       .mutation(async ({ ctx, input }) => {
         const tripId = await db.createTrip({
@@ -60,6 +105,38 @@ export const appRouter = router({
         return { id: tripId };
       }),
 
+    // Trips proposed from inbox documents that no trip covers yet
+    suggestions: protectedProcedure.query(async ({ ctx }) => {
+      const documents = await db.getUserInboxDocuments(ctx.user.id);
+      return suggestTrips(documents);
+    }),
+
+    // Create a suggested trip and file its documents in it
+    acceptSuggestion: protectedProcedure
+      .input(
+        z.object({
+          name: z.string().min(1).max(255),
+          startDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+          endDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+          documentIds: z.array(z.number()).min(1),
+        })
+        .refine((input) => input.startDate <= input.endDate, {
+          message: "The trip can't end before it starts",
+          path: ["endDate"],
+        })
+      )
+      .mutation(async ({ ctx, input }) => {
+        // Trips are stored as days at UTC midnight
+        const tripId = await db.createTrip({
+          userId: ctx.user.id,
+          name: input.name,
+          startDate: new Date(`${input.startDate}T00:00:00Z`),
+          endDate: new Date(`${input.endDate}T00:00:00Z`),
+        });
+        await db.assignInboxDocumentsToTrip(input.documentIds, ctx.user.id, tripId);
+        return { id: tripId };
+      }),
+
     delete: protectedProcedure
       .input(z.object({ id: z.number() }))
       .mutation(async ({ ctx, input }) => {
@@ -99,6 +176,10 @@ export const appRouter = router({
           startDate: z.string().transform((s) => new Date(s)),
           endDate: z.string().transform((s) => new Date(s)),
         })
+        .refine((input) => input.startDate <= input.endDate, {
+          message: "The trip can't end before it starts",
+          path: ["endDate"],
+        })
       )
       .mutation(async ({ ctx, input }) => {
         await db.updateTrip(input.id, ctx.user.id, {
@@ -137,6 +218,18 @@ export const appRouter = router({
         return doc;
       }),
 
+    // The document's boarding pass or ticket barcode drawn as SVG, to show
+    // full-screen at the gate
+    barcode: protectedProcedure
+      .input(z.object({ id: z.number() }))
+      .query(async ({ ctx, input }) => {
+        const doc = await db.getDocumentById(input.id, ctx.user.id);
+        const details = doc?.details as DocumentDetails | null | undefined;
+        if (!details?.barcode) return null;
+        const svg = renderBarcodeSvg(details.barcode, details.barcodeFormat);
+        return svg ? { svg, format: details.barcodeFormat!, message: details.barcode } : null;
+      }),
+
     assign: protectedProcedure
       .input(
         z.object({
@@ -149,6 +242,200 @@ export const appRouter = router({
         return { success: true };
       }),
 
+    // Edit any parsed field. Each change is logged in the document's
+    // revision history along with the value it replaced.
+    update: protectedProcedure
+      .input(
+        z.object({
+          id: z.number(),
+          title: z.string().trim().min(1).max(255).optional(),
+          subtitle: z.string().trim().max(500).nullable().optional(),
+          category: z.enum(documentsTable.category.enumValues).optional(),
+          documentType: z.string().trim().min(1).max(100).optional(),
+          documentDate: z
+            .string()
+            .refine((s) => !Number.isNaN(Date.parse(s)), "Invalid date")
+            .nullable()
+            .optional(),
+          details: z.record(z.string().max(64), z.string().trim().max(500).nullable()).optional(),
+        })
+      )
+      .mutation(async ({ ctx, input }) => {
+        const doc = await db.getDocumentById(input.id, ctx.user.id);
+        if (!doc) {
+          return { success: false, error: "Document not found" };
+        }
+
+        const { id, documentDate, ...fields } = input;
+        const edit: DocumentEdit = { ...fields };
+        if (documentDate !== undefined) {
+          // A typed date is a day where the document happens, not in UTC
+          edit.documentDate = documentDate === null ? null : toDocumentDate(documentDate, doc.timeZone);
+        }
+        const changes = await applyDocumentEdit(ctx.user.id, doc, edit);
+        return { success: true, changedFields: changes.map((change) => change.field) };
+      }),
+
+    revisions: protectedProcedure
+      .input(z.object({ id: z.number() }))
+      .query(async ({ ctx, input }) => {
+        return db.getDocumentRevisions(input.id, ctx.user.id);
+      }),
+
+    // Every copy of the booking that was forwarded or uploaded, oldest first
+    versions: protectedProcedure
+      .input(z.object({ id: z.number() }))
+      .query(async ({ ctx, input }) => {
+        return db.getDocumentVersions(input.id, ctx.user.id);
+      }),
+
+    setCurrentVersion: protectedProcedure
+      .input(z.object({ id: z.number(), versionId: z.number() }))
+      .mutation(async ({ ctx, input }) => {
+        return setCurrentVersion(ctx.user.id, input.id, input.versionId);
+      }),
+
+    // Confirm a low-confidence field as-is, or correct it. Once no date is in
+    // doubt, an inbox document is auto-assigned like a fresh upload would be.
+    reviewField: protectedProcedure
+      .input(
+        z.object({
+          id: z.number(),
+          field: z.string().min(1).max(64),
+          correctedValue: z.string().trim().min(1).max(500).optional(),
+        })
+      )
+      .mutation(async ({ ctx, input }) => {
+        const doc = await db.getDocumentById(input.id, ctx.user.id);
+        if (!doc) {
+          return { success: false, error: "Document not found" };
+        }
+
+        const edit: DocumentEdit = {};
+        if (input.correctedValue !== undefined) {
+          if (input.field === "documentDate") {
+            const date = toDocumentDate(input.correctedValue, doc.timeZone);
+            if (Number.isNaN(date.getTime())) {
+              return { success: false, error: "Invalid date" };
+            }
+            edit.documentDate = date;
+          } else {
+            edit.details = { [input.field]: input.correctedValue };
+          }
+        }
+
+        const fieldConfidence: FieldConfidenceMap = {
+          ...((doc.fieldConfidence as FieldConfidenceMap | null) ?? {}),
+          [input.field]: { confidence: 1, ...(doc.fieldConfidence as FieldConfidenceMap | null)?.[input.field], confirmed: true },
+        };
+
+        let assignedTrip: { id: number; name: string } | null = null;
+        const documentDate = edit.documentDate ?? doc.documentDate;
+        if (doc.tripId === null && documentDate && !hasLowConfidenceDate(fieldConfidence)) {
+          const details = edit.details ? { ...((doc.details as DocumentDetails | null) ?? {}), ...edit.details } : doc.details;
+          const match = pickAutoAssignTrip(await findTripCandidates(ctx.user.id, { ...doc, documentDate, details }));
+          if (match) {
+            assignedTrip = { id: match.tripId, name: match.tripName };
+          }
+        }
+
+        await applyDocumentEdit(ctx.user.id, doc, edit, {
+          confirm: [input.field],
+          update: assignedTrip ? { tripId: assignedTrip.id } : undefined,
+        });
+        return { success: true, assignedTrip };
+      }),
+
+    // Parse the stored original again with the current prompt and model and
+    // list the field changes. Nothing is saved until applyReparse.
+    reparse: protectedProcedure
+      .input(z.object({ id: z.number() }))
+      .mutation(async ({ ctx, input }) => {
+        const doc = await db.getDocumentById(input.id, ctx.user.id);
+        if (!doc) {
+          return { success: false, error: "Document not found", changes: [] };
+        }
+        if (!doc.originalFileUrl && !doc.originalEmailBody) {
+          return { success: false, error: "This document has no original to re-parse", changes: [] };
+        }
+
+        const charged = await chargeForReparse(ctx.user.id, doc);
+        if (charged === null) {
+          return { success: false, error: "Not enough credits to re-parse this document", changes: [] };
+        }
+
+        let proposal: ReparseProposal;
+        try {
+          proposal = await proposeReparse(ctx.user.id, doc);
+        } catch (error) {
+          await refundReparse(ctx.user.id, doc, charged);
+          throw error;
+        }
+        if (proposal.error) {
+          await refundReparse(ctx.user.id, doc, charged);
+          return { success: false, error: proposal.error, changes: [] };
+        }
+        return { success: true, changes: proposal.changes };
+      }),
+
+    // Save the re-parse changes the user accepted
+    applyReparse: protectedProcedure
+      .input(
+        z.object({
+          id: z.number(),
+          changes: z
+            .array(
+              z.object({
+                field: z.string().min(1).max(100),
+                value: z.string().max(500).nullable(),
+              })
+            )
+            .max(100),
+        })
+      )
+      .mutation(async ({ ctx, input }) => {
+        const doc = await db.getDocumentById(input.id, ctx.user.id);
+        if (!doc) {
+          return { success: false, error: "Document not found" };
+        }
+
+        const applied = await applyReparseChanges(ctx.user.id, doc, input.changes);
+        return { success: true, appliedCount: applied.length };
+      }),
+
+    // Admin: Re-parse many documents in a background job. Hand-edited fields
+    // are never overwritten; with apply=false it's a dry run.
+    reparseBulk: protectedProcedure
+      .input(
+        z.object({
+          userId: z.number().optional(),
+          category: z.enum(documentsTable.category.enumValues).optional(),
+          createdBefore: z.string().optional(),
+          limit: z.number().int().min(1).max(500).default(50),
+          apply: z.boolean().default(false),
+        })
+      )
+      .mutation(async ({ ctx, input }) => {
+        // Check if user is admin
+        if (ctx.user.role !== "admin") {
+          return { success: false, error: "Unauthorized" };
+        }
+
+        const documents = await db.getDocumentsForReparse({
+          userId: input.userId,
+          category: input.category,
+          createdBefore: input.createdBefore ? new Date(input.createdBefore) : undefined,
+          limit: input.limit,
+        });
+        if (documents.length === 0) {
+          return { success: false, error: "No documents to re-parse" };
+        }
+
+        const payload: ReparseJobPayload = { documents, apply: input.apply };
+        const jobId = await enqueueJob(JOB_TYPES.reparse, ctx.user.id, payload, { maxAttempts: 2 });
+        return { success: true, jobId, documentCount: documents.length };
+      }),
+
     delete: protectedProcedure
       .input(z.object({ id: z.number() }))
       .mutation(async ({ ctx, input }) => {
@@ -193,70 +480,130 @@ export const appRouter = router({
       .input(
         z.object({
           fileUrl: z.string().url(),
+          fileName: z.string().optional(),
           mimeType: z.string(),
           tripId: z.number().nullable().optional(),
           contentHash: z.string().length(64).optional(),
         })
       )
       .mutation(async ({ ctx, input }) => {
-        // Check if user can process documents (has credits or subscription)
-        const canProcess = await db.canProcessDocument(ctx.user.id);
-        if (!canProcess) {
-          throw new Error("INSUFFICIENT_CREDITS");
+        // The server downloads the file, so it must be one /api/upload stored
+        if (!isStorageUrl(input.fileUrl)) {
+          throw new Error("Upload the file before processing it");
         }
 
-        const parseResult = await parseDocument(input.fileUrl, input.mimeType);
-        const createdDocs: number[] = [];
-        let autoAssignedTripId: number | null = null;
-        let autoAssignedTripName: string | null = null;
-        let needsManualAssignment = false;
-
-        for (const doc of parseResult.documents) {
-          let assignedTripId = input.tripId ?? null;
-
-          // If no tripId provided, try to auto-assign based on document date
-          if (assignedTripId === null && doc.documentDate) {
-            const matchingTrip = await db.findMatchingTrip(ctx.user.id, doc.documentDate);
-            if (matchingTrip) {
-              assignedTripId = matchingTrip.id;
-              autoAssignedTripId = matchingTrip.id;
-              autoAssignedTripName = matchingTrip.name;
-            } else {
-              // Document has a date but no matching trip found
-              needsManualAssignment = true;
-            }
-          } else if (assignedTripId === null && !doc.documentDate) {
-            // No date extracted, needs manual assignment
-            needsManualAssignment = true;
+        // A saved email is processed like a forwarded one: its attachments,
+        // or its body when it has none
+        if (isEmailMessage(input.mimeType, input.fileName)) {
+          let raw: Buffer;
+          try {
+            raw = await fetchStoredFile(input.fileUrl);
+          } catch (error) {
+            throw new Error(`Couldn't read the uploaded email (${error instanceof Error ? error.message : String(error)})`);
           }
+          const email = parseEmailMessage(raw);
+          if (!isFreeEmail(email) && !(await db.canProcessDocument(ctx.user.id, getUpfrontParseCost(getPricingPolicy())))) {
+            throw new Error("INSUFFICIENT_CREDITS");
+          }
+          const queued = await enqueueEmailJob(ctx.user.id, email, { tripId: input.tripId ?? null });
+          if (!queued) {
+            throw new Error("This email has no attachments or text to read bookings from");
+          }
+          return { jobId: queued.jobId };
+        }
 
-          const docId = await db.createDocument({
-            userId: ctx.user.id,
-            tripId: assignedTripId,
-            category: doc.category,
-            documentType: doc.documentType,
-            title: doc.title,
-            subtitle: doc.subtitle,
-            details: doc.details,
-            originalFileUrl: input.fileUrl,
-            source: "upload",
-            documentDate: doc.documentDate,
-            contentHash: input.contentHash || parseResult.contentHash,
-          });
-          createdDocs.push(docId);
+        // Wallet passes are read without the AI and cost nothing
+        const walletPass = isWalletPass(input.mimeType, input.fileName);
 
-          // Deduct one credit for each document processed
-          await db.deductCredit(ctx.user.id);
+        // Quick check that the user can afford at least a one-page file; the
+        // job charges the real cost for the whole file before parsing
+        const canProcess = walletPass || (await db.canProcessDocument(ctx.user.id, getUpfrontParseCost(getPricingPolicy())));
+        if (!canProcess) {
+          throw new Error("INSUFFICIENT_CREDITS");
         }
 
-        return {
-          documentIds: createdDocs,
-          count: createdDocs.length,
-          autoAssignedTripId,
-          autoAssignedTripName,
-          needsManualAssignment,
+        const payload: UploadJobPayload = {
+          fileUrl: input.fileUrl,
+          fileName: input.fileName,
+          mimeType: walletPass ? WALLET_PASS_MIME_TYPE : input.mimeType,
+          tripId: input.tripId ?? null,
+          contentHash: input.contentHash,
         };
+
+        // Parsing runs in the job worker; follow progress via jobs.get / jobs.onUpdate
+        const jobId = await enqueueJob(JOB_TYPES.upload, ctx.user.id, payload);
+        return { jobId };
+      }),
+  }),
+
+  // ============ JOBS ============
+  jobs: router({
+    list: protectedProcedure
+      .input(
+        z
+          .object({
+            activeOnly: z.boolean().optional(),
+            limit: z.number().min(1).max(100).optional(),
+          })
+          .optional()
+      )
+      .query(async ({ ctx, input }) => {
+        const userJobs = await db.getUserJobs(ctx.user.id, input ?? {});
+        return userJobs.map(toJobSummary);
+      }),
+
+    get: protectedProcedure
+      .input(z.object({ jobId: z.number() }))
+      .query(async ({ ctx, input }) => {
+        const job = await db.getJobById(input.jobId);
+        if (!job || job.userId !== ctx.user.id) {
+          return null;
+        }
+        const attempts = await db.getJobAttempts(job.id);
+        return { ...toJobSummary(job), attemptHistory: attempts };
+      }),
+
+    retry: protectedProcedure
+      .input(z.object({ jobId: z.number() }))
+      .mutation(async ({ ctx, input }) => {
+        const job = await db.getJobById(input.jobId);
+        if (!job || job.userId !== ctx.user.id) {
+          return { success: false, error: "Job not found" };
+        }
+        const requeued = await retryJob(job);
+        if (!requeued) {
+          return { success: false, error: "Only failed or cancelled jobs can be retried" };
+        }
+        return { success: true };
+      }),
+
+    cancel: protectedProcedure
+      .input(z.object({ jobId: z.number() }))
+      .mutation(async ({ ctx, input }) => {
+        const job = await db.getJobById(input.jobId);
+        if (!job || job.userId !== ctx.user.id) {
+          return { success: false, error: "Job not found" };
+        }
+        const cancelled = await cancelJob(job);
+        if (!cancelled) {
+          return { success: false, error: "Job is already being processed" };
+        }
+        return { success: true };
       }),
+
+    // Live job updates (SSE). Yields the job summary every time one of the
+    // user's jobs changes, including jobs created by forwarded emails.
+    onUpdate: protectedProcedure.subscription(async function* ({ ctx, signal }) {
+      for await (const [event] of on(jobEvents, "change", { signal })) {
+        const change = event as JobChangeEvent;
+        if (change.userId !== ctx.user.id) continue;
+
+        const job = await db.getJobById(change.jobId);
+        if (job) {
+          yield toJobSummary(job);
+        }
+      }
+    }),
   }),
 
   // ============ USER ============
@@ -277,7 +624,7 @@ export const appRouter = router({
 
     // Check if user can process a document (has credits or subscription)
     canProcess: protectedProcedure.query(async ({ ctx }) => {
-      const canProcess = await db.canProcessDocument(ctx.user.id);
+      const canProcess = await db.canProcessDocument(ctx.user.id, getUpfrontParseCost(getPricingPolicy()));
       return { canProcess };
     }),
 
@@ -297,8 +644,55 @@ export const appRouter = router({
       }),
   }),
 
+  // ============ CALENDAR ============
+  calendar: router({
+    // Secret feed links the user has created, one per trip plus the all-trips feed
+    feeds: protectedProcedure.query(async ({ ctx }) => {
+      return db.getUserCalendarFeeds(ctx.user.id);
+    }),
+
+    create: protectedProcedure
+      .input(z.object({ tripId: z.number().nullable() }))
+      .mutation(async ({ ctx, input }) => {
+        if (input.tripId !== null && !(await db.getTripById(input.tripId, ctx.user.id))) {
+          return { success: false, error: "Trip not found" };
+        }
+        const feed = await db.createCalendarFeed(ctx.user.id, input.tripId);
+        return { success: true, feed };
+      }),
+
+    // Calendars subscribed with the link stop updating
+    revoke: protectedProcedure
+      .input(z.object({ id: z.number() }))
+      .mutation(async ({ ctx, input }) => {
+        await db.deleteCalendarFeed(input.id, ctx.user.id);
+        return { success: true };
+      }),
+  }),
+
   // ============ BILLING ============
   billing: router({
+    // How parsing is priced, for the store and profile screens
+    pricing: protectedProcedure.query(() => {
+      const policy = getPricingPolicy();
+      return { ...policy, summary: describePricingPolicy(policy) };
+    }),
+
+    // Credit ledger entries, newest first
+    history: protectedProcedure
+      .input(z.object({ limit: z.number().min(1).max(200).optional() }).optional())
+      .query(async ({ ctx, input }) => {
+        const transactions = await db.getCreditHistory(ctx.user.id, input?.limit);
+        return transactions.map((tx) => ({
+          id: tx.id,
+          type: tx.type,
+          amount: tx.amount,
+          description: tx.description,
+          documentId: tx.documentId,
+          createdAt: tx.createdAt,
+        }));
+      }),
+
     // Redeem a promo code
     redeemPromoCode: protectedProcedure
       .input(z.object({ code: z.string().min(1).max(50) }))
@@ -397,6 +791,33 @@ export const appRouter = router({
           throw error;
         }
       }),
+
+    // Admin: Add or remove credits for a user (recorded in the ledger)
+    adjustCredits: protectedProcedure
+      .input(
+        z.object({
+          userId: z.number(),
+          amount: z.number().int().min(-10000).max(10000),
+          reason: z.string().min(1).max(255),
+        })
+      )
+      .mutation(async ({ ctx, input }) => {
+        // Check if user is admin
+        if (ctx.user.role !== "admin") {
+          return { success: false, error: "Unauthorized" };
+        }
+
+        if (input.amount === 0) {
+          return { success: false, error: "Amount must not be zero" };
+        }
+
+        await db.addCredits(input.userId, input.amount, "admin_adjustment", {
+          description: input.reason,
+          reference: `admin:${ctx.user.id}`,
+        });
+        const { credits } = await db.getUserCredits(input.userId);
+        return { success: true, newBalance: credits };
+      }),
   }),
 });
 
@@ -82,6 +82,7 @@ export async function storagePut(
     );
   }
   const url = (await response.json()).url;
+  rememberStorageHost(url);
   return { key, url };
 }
 
@@ -93,3 +94,80 @@ export async function storageGet(relKey: string): Promise<{ key: string; url: st
     url: await buildDownloadUrl(baseUrl, key, apiKey),
   };
 }
+
+// Limits on reading a stored file back into the server
+const STORED_FILE_TIMEOUT_MS = 30_000;
+const MAX_STORED_FILE_BYTES = 25 * 1024 * 1024;
+
+// Hosts seen in the URLs uploads were given, so the files can be read back
+// without STORAGE_FILE_HOSTS
+const uploadHosts = new Set<string>();
+
+function rememberStorageHost(fileUrl: string): void {
+  try {
+    uploadHosts.add(new URL(fileUrl).host.toLowerCase());
+  } catch {
+    // Not a URL; nothing will be fetched from it either
+  }
+}
+
+function getStorageFileHosts(): string[] {
+  const hosts = ENV.storageFileHosts
+    .split(",")
+    .map((host) => host.trim().toLowerCase())
+    .filter(Boolean);
+  if (ENV.forgeApiUrl) {
+    hosts.push(new URL(ENV.forgeApiUrl).host.toLowerCase());
+  }
+  return [...hosts, ...uploadHosts];
+}
+
+/**
+ * Whether a URL points into the app's storage. File URLs come from the
+ * client, so nothing else is ever fetched by the server.
+ */
+export function isStorageUrl(fileUrl: string): boolean {
+  let url: URL;
+  try {
+    url = new URL(fileUrl);
+  } catch {
+    return false;
+  }
+  return url.protocol === "https:" && getStorageFileHosts().includes(url.host.toLowerCase());
+}
+
+/**
+ * Download a stored file by its URL, giving up after 30 seconds or 25MB
+ */
+export async function fetchStoredFile(fileUrl: string): Promise<Buffer> {
+  if (!isStorageUrl(fileUrl)) {
+    throw new Error("Not a stored file URL");
+  }
+
+  const response = await fetch(fileUrl, { signal: AbortSignal.timeout(STORED_FILE_TIMEOUT_MS) });
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}`);
+  }
+  if (Number(response.headers.get("content-length")) > MAX_STORED_FILE_BYTES) {
+    await response.body?.cancel();
+    throw new Error("Stored file is too large");
+  }
+  if (!response.body) {
+    return Buffer.alloc(0);
+  }
+
+  const chunks: Buffer[] = [];
+  let size = 0;
+  const reader = response.body.getReader();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.length;
+    if (size > MAX_STORED_FILE_BYTES) {
+      await reader.cancel();
+      throw new Error("Stored file is too large");
+    }
+    chunks.push(Buffer.from(value));
+  }
+  return Buffer.concat(chunks);
+}
@@ -0,0 +1,141 @@
+/**
+ * Trip Matching
+ *
+ * Scores how likely a document belongs to each of the user's trips instead
+ * of taking the first trip whose dates contain it. A document counts toward
+ * a trip for falling within its dates (or a couple of days either side, for
+ * the overnight flight out), for happening where the trip's other bookings
+ * do, and above all for sharing a confirmation number with a booking already
+ * in it. Archived trips are never candidates.
+ */
+
+import type { Document, DocumentDetails, Trip } from "../drizzle/schema";
+import * as db from "./db";
+import { daysBetween, getTripDays, type ItineraryDocument } from "./itinerary";
+import { getDocumentDays, getDocumentPlaces } from "./tripSuggestions";
+import { normalizeConfirmationNumber } from "./bookingChanges";
+
+export type TripMatchReason = "dates" | "near_dates" | "destination" | "confirmation_number";
+
+export interface TripCandidate {
+  tripId: number;
+  tripName: string;
+  // 0–100, shown to the user as a percentage
+  score: number;
+  reasons: TripMatchReason[];
+}
+
+// A document to match, saved or just parsed
+export type MatchableDocument = Omit<ItineraryDocument, "id" | "segments"> & { segments?: unknown };
+
+// Days a document may reach outside a trip and still count toward it
+const DATE_TOLERANCE_DAYS = 2;
+
+const SCORES = {
+  withinDates: 70,
+  // Taken off the date score for each day outside the trip
+  perDayOutside: 20,
+  destination: 25,
+  // The trip's bookings are all somewhere else
+  otherDestination: -20,
+  confirmationNumber: 100,
+};
+
+// Auto-assign only a clear winner: likely enough and well ahead of the next
+const AUTO_ASSIGN_SCORE = 70;
+const AUTO_ASSIGN_MARGIN = 20;
+
+function toItineraryDocument(doc: MatchableDocument): ItineraryDocument {
+  return { id: 0, ...doc, segments: doc.segments ?? null };
+}
+
+// Where a trip's bookings happen, leaving out the home city its first
+// flight leaves from, which every trip from home shares
+function getTripPlaces(documents: Document[]): Set<string> {
+  const places = new Set<string>();
+  let firstFlight: { start: string; origin: string } | null = null;
+  for (const tripDoc of documents) {
+    const { places: docPlaces, origin } = getDocumentPlaces(tripDoc);
+    for (const place of docPlaces) places.add(place.toLowerCase());
+    const start = getDocumentDays(tripDoc)?.start;
+    if (origin && start && (!firstFlight || start < firstFlight.start)) firstFlight = { start, origin };
+  }
+  if (firstFlight) places.delete(firstFlight.origin.toLowerCase());
+  return places;
+}
+
+/**
+ * Every trip the document could belong to, best first. Trips it has
+ * nothing in common with are left out.
+ */
+export function rankTrips(doc: MatchableDocument, trips: Trip[], tripDocuments: Document[]): TripCandidate[] {
+  const matchable = toItineraryDocument(doc);
+  const days = getDocumentDays(matchable);
+  const places = new Set(getDocumentPlaces(matchable).places.map((place) => place.toLowerCase()));
+  const confirmation = normalizeConfirmationNumber((doc.details as DocumentDetails | null)?.confirmationNumber);
+
+  const candidates: TripCandidate[] = [];
+  for (const trip of trips) {
+    if (trip.isArchived) continue;
+    const documents = tripDocuments.filter((tripDoc) => tripDoc.tripId === trip.id);
+    const reasons: TripMatchReason[] = [];
+    let score = 0;
+
+    if (
+      confirmation &&
+      documents.some((tripDoc) => normalizeConfirmationNumber((tripDoc.details as DocumentDetails | null)?.confirmationNumber) === confirmation)
+    ) {
+      candidates.push({ tripId: trip.id, tripName: trip.name, score: SCORES.confirmationNumber, reasons: ["confirmation_number"] });
+      continue;
+    }
+
+    if (!days) continue;
+    const { tripStart, tripEnd } = getTripDays(trip);
+    const daysOutside = Math.max(0, daysBetween(days.start, tripStart)) + Math.max(0, daysBetween(tripEnd, days.end));
+    if (daysOutside > DATE_TOLERANCE_DAYS) continue;
+
+    if (daysOutside === 0) {
+      score += SCORES.withinDates;
+      reasons.push("dates");
+    } else {
+      score += SCORES.withinDates - SCORES.perDayOutside * daysOutside;
+      reasons.push("near_dates");
+    }
+
+    const tripPlaces = getTripPlaces(documents);
+    const tripName = trip.name.toLowerCase();
+    const sharedPlace = [...places].some((place) => tripPlaces.has(place) || tripName.includes(place));
+    if (sharedPlace) {
+      score += SCORES.destination;
+      reasons.push("destination");
+    } else if (places.size > 0 && tripPlaces.size > 0) {
+      score += SCORES.otherDestination;
+    }
+
+    if (score > 0) {
+      candidates.push({ tripId: trip.id, tripName: trip.name, score: Math.min(score, 100), reasons });
+    }
+  }
+
+  return candidates.sort((a, b) => b.score - a.score);
+}
+
+/**
+ * The candidate to file the document under without asking, if one stands out
+ */
+export function pickAutoAssignTrip(candidates: TripCandidate[]): TripCandidate | null {
+  const [best, runnerUp] = candidates;
+  if (!best || best.score < AUTO_ASSIGN_SCORE) return null;
+  if (runnerUp && best.score - runnerUp.score < AUTO_ASSIGN_MARGIN) return null;
+  return best;
+}
+
+/**
+ * Rank the user's active trips for a document
+ */
+export async function findTripCandidates(userId: number, doc: MatchableDocument): Promise<TripCandidate[]> {
+  const trips = await db.getUserTrips(userId);
+  if (trips.length === 0) return [];
+  const tripDocuments = await db.getUserTripDocuments(userId);
+  return rankTrips(doc, trips, tripDocuments);
+}
@@ -0,0 +1,245 @@
+/**
+ * Trip Suggestions
+ *
+ * Documents that no trip's dates cover wait in the inbox. This groups them
+ * into likely trips by how close their dates are and where they happen, and
+ * proposes a name and date range for each group ("Budapest, 12–18 May") so
+ * the user can create the trip and file its documents in one go.
+ */
+
+import type { Document, DocumentDetails, FlightSegment } from "../drizzle/schema";
+import { getDetailsSchemaKey } from "./documentSchema";
+import { getFlightLegs } from "../shared/flightLegs";
+import { getAirport } from "../shared/airports";
+import { getLocalDay } from "../shared/timezones";
+import { addDays, daysBetween, getDocumentEntries, toLocalDateTime, type ItineraryDocument } from "./itinerary";
+
+export interface TripSuggestion {
+  name: string;
+  // City the trip is to, null when no document says where
+  destination: string | null;
+  // YYYY-MM-DD, first and last day of the grouped documents
+  startDate: string;
+  endDate: string;
+  documentIds: number[];
+}
+
+// Days between bookings in the same place that still make one trip, e.g. a
+// late arrival and a hotel from the next day
+const MAX_GAP_DAYS = 1;
+
+// Longest a flight out and the flight back with nothing booked in between
+// can be apart and still be one trip
+const MAX_RETURN_DAYS = 30;
+
+interface DocumentSpan {
+  doc: Document;
+  start: string;
+  end: string;
+  // Lower-cased cities and places the document happens in
+  places: Set<string>;
+  destination: string | null;
+  // Lower-cased city a flight leaves from
+  origin: string | null;
+}
+
+interface Cluster {
+  start: string;
+  end: string;
+  places: Set<string>;
+  // Lower-cased city the first flight of the group lands in
+  flownTo: string | null;
+  spans: DocumentSpan[];
+}
+
+// Where a location written on a booking is: the city of an airport code, or
+// the city part of an address ("Via Nazionale 22, 00184 Roma, Italia" → Roma)
+function getPlace(location: string | undefined): string | null {
+  if (!location) return null;
+  const code = location.trim().match(/^([A-Z]{3})\b/)?.[1] ?? location.match(/\(([A-Z]{3})\)/)?.[1];
+  const airport = getAirport(code);
+  if (airport?.city) return airport.city;
+
+  const parts = location
+    .split(/[,\n]/)
+    .map((part) => part.replace(/[\d-]+/g, " ").replace(/\s+/g, " ").trim())
+    .filter(Boolean);
+  if (parts.length === 0) return null;
+  return parts.length > 1 ? parts[parts.length - 2] : parts[0];
+}
+
+function getLegTime(leg: FlightSegment, field: "departureTime" | "arrivalTime"): number {
+  const parsed = Date.parse(leg[field] ?? "");
+  return Number.isNaN(parsed) ? 0 : parsed;
+}
+
+/**
+ * Where a flight booking takes you: the arrival before the longest stop.
+ * A return leg that ends where the first leg started doesn't count, so a
+ * round trip TLV → FCO, FCO → TLV is a flight to Rome.
+ */
+function getFlightDestination(legs: FlightSegment[]): string | undefined {
+  const last = legs[legs.length - 1];
+  const candidates = legs.length > 1 && last.arrivalAirport === legs[0].departureAirport ? legs.slice(0, -1) : legs;
+
+  let best: FlightSegment | undefined;
+  let longestStop = -1;
+  candidates.forEach((leg, index) => {
+    const next = legs[index + 1];
+    const stop = next ? getLegTime(next, "departureTime") - getLegTime(leg, "arrivalTime") : Infinity;
+    if (stop > longestStop) {
+      longestStop = stop;
+      best = leg;
+    }
+  });
+  return best?.arrivalAirport;
+}
+
+/**
+ * Cities and places a document happens in, and the one it takes the user to
+ */
+export function getDocumentPlaces(doc: ItineraryDocument): { places: string[]; destination: string | null; origin?: string | null } {
+  const details = (doc.details as DocumentDetails | null) ?? {};
+  const place = (...locations: Array<string | undefined>) =>
+    locations.map(getPlace).filter((value): value is string => Boolean(value));
+
+  switch (getDetailsSchemaKey(doc.category, doc.documentType)) {
+    case "flight": {
+      const legs = getFlightLegs(doc);
+      const places = place(...legs.flatMap((leg) => [leg.departureAirport, leg.arrivalAirport]));
+      return {
+        places,
+        destination: place(getFlightDestination(legs))[0] ?? null,
+        origin: place(legs[0]?.departureAirport)[0] ?? null,
+      };
+    }
+    case "train":
+    case "bus":
+    case "ferry":
+      return { places: place(details.departureStation, details.arrivalStation), destination: place(details.arrivalStation)[0] ?? null };
+    case "accommodation":
+      return { places: place(details.address), destination: place(details.address)[0] ?? null };
+    case "carRental":
+      return { places: place(details.pickupLocation, details.dropoffLocation), destination: null };
+    case "event":
+      return { places: place(details.venueAddress), destination: null };
+    case "transfer":
+      return { places: place(details.pickupLocation, details.dropoffLocation), destination: null };
+    case "pass":
+      return { places: place(details.location), destination: null };
+    default:
+      return { places: [], destination: null };
+  }
+}
+
+/**
+ * First and last local day a document covers, null when it has no date
+ */
+export function getDocumentDays(doc: ItineraryDocument): { start: string; end: string } | null {
+  const { entries, overnight } = getDocumentEntries(doc);
+  const days = [...entries.map((entry) => entry.date), ...overnight.map((stay) => stay.date)];
+
+  if (days.length === 0) {
+    const details = (doc.details as DocumentDetails | null) ?? {};
+    const start = toLocalDateTime(details.startDate)?.date;
+    const end = toLocalDateTime(details.endDate)?.date;
+    if (start || end) days.push(...[start, end].filter((day): day is string => Boolean(day)));
+    else if (doc.documentDate) days.push(getLocalDay(new Date(doc.documentDate), doc.timeZone));
+  }
+  if (days.length === 0) return null;
+
+  days.sort();
+  return { start: days[0], end: days[days.length - 1] };
+}
+
+function sharesPlace(a: Set<string>, b: Set<string>): boolean {
+  for (const place of a) {
+    if (b.has(place)) return true;
+  }
+  return false;
+}
+
+/**
+ * e.g. "12–18 May", "28 Apr – 3 May", "28 Dec 2026 – 3 Jan 2027"
+ */
+export function formatDayRange(start: string, end: string): string {
+  const format = (date: string, options: Intl.DateTimeFormatOptions) =>
+    new Date(`${date}T00:00:00Z`).toLocaleDateString("en-GB", { ...options, timeZone: "UTC" });
+
+  if (start === end) return format(start, { day: "numeric", month: "short" });
+  if (start.slice(0, 4) !== end.slice(0, 4)) {
+    return `${format(start, { day: "numeric", month: "short", year: "numeric" })} – ${format(end, { day: "numeric", month: "short", year: "numeric" })}`;
+  }
+  if (start.slice(0, 7) !== end.slice(0, 7)) {
+    return `${format(start, { day: "numeric", month: "short" })} – ${format(end, { day: "numeric", month: "short" })}`;
+  }
+  return `${format(start, { day: "numeric" })}–${format(end, { day: "numeric", month: "short" })}`;
+}
+
+// Name the trip after where the user sleeps, or failing that where the
+// first flight or train takes them
+function getClusterDestination(cluster: Cluster): string | null {
+  const stay = cluster.spans.find((span) => span.doc.category === "accommodation" && span.destination);
+  return stay?.destination ?? cluster.spans.find((span) => span.destination)?.destination ?? null;
+}
+
+/**
+ * Group inbox documents into proposed trips. Documents whose days overlap
+ * belong together; ones a day or so apart only if they share a place, and
+ * a flight leaving from where the group's first flight landed is the way
+ * home. A lone document is only proposed when it spans several days.
+ */
+export function suggestTrips(documents: Document[]): TripSuggestion[] {
+  const spans: DocumentSpan[] = [];
+  for (const doc of documents) {
+    const days = doc.cancelledAt ? null : getDocumentDays(doc);
+    if (!days) continue;
+    const { places, destination, origin } = getDocumentPlaces(doc);
+    spans.push({
+      doc,
+      ...days,
+      places: new Set(places.map((place) => place.toLowerCase())),
+      destination,
+      origin: origin?.toLowerCase() ?? null,
+    });
+  }
+  spans.sort((a, b) => a.start.localeCompare(b.start) || a.end.localeCompare(b.end));
+
+  const clusters: Cluster[] = [];
+  for (const span of spans) {
+    const current = clusters[clusters.length - 1];
+    const overlaps = current && span.start <= current.end;
+    const nearby =
+      current &&
+      span.start <= addDays(current.end, MAX_GAP_DAYS) &&
+      (span.places.size === 0 || current.places.size === 0 || sharesPlace(span.places, current.places));
+    const returning =
+      current?.flownTo != null &&
+      span.origin === current.flownTo &&
+      daysBetween(current.end, span.start) <= MAX_RETURN_DAYS;
+
+    if (current && (overlaps || nearby || returning)) {
+      current.spans.push(span);
+      if (span.end > current.end) current.end = span.end;
+      for (const place of span.places) current.places.add(place);
+      if (!current.flownTo && span.doc.category === "flight") current.flownTo = span.destination?.toLowerCase() ?? null;
+    } else {
+      const flownTo = span.doc.category === "flight" ? (span.destination?.toLowerCase() ?? null) : null;
+      clusters.push({ start: span.start, end: span.end, places: new Set(span.places), flownTo, spans: [span] });
+    }
+  }
+
+  return clusters
+    .filter((cluster) => cluster.spans.length > 1 || daysBetween(cluster.start, cluster.end) > 0)
+    .map((cluster) => {
+      const destination = getClusterDestination(cluster);
+      const range = formatDayRange(cluster.start, cluster.end);
+      return {
+        name: destination ? `${destination}, ${range}` : range,
+        destination,
+        startDate: cluster.start,
+        endDate: cluster.end,
+        documentIds: cluster.spans.map((span) => span.doc.id),
+      };
+    });
+}
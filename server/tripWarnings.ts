@@ -0,0 +1,263 @@
+/**
+ * Trip Gap and Conflict Detection
+ *
+ * Looks across all documents of a trip for the things no single document
+ * can show: nights with nowhere to sleep, hotels that overlap, connections
+ * too tight to make, a rental car that is still out when the flight home
+ * leaves, and bookings dated outside the trip. Times are compared as the
+ * local wall-clock times on the documents.
+ */
+
+import type { Document, DocumentDetails, Trip } from "../drizzle/schema";
+import { getDetailsSchemaKey } from "./documentSchema";
+import { formatLegRoute, getFlightLegs } from "../shared/flightLegs";
+import { addDays, daysBetween, getDocumentEntries, getTripDays, toLocalDateTime, type LocalDateTime } from "./itinerary";
+
+export interface TripWarning {
+  code: "missing_night" | "overlap" | "tight_connection" | "unreturned_car" | "outside_trip_dates";
+  message: string;
+  // Documents involved, so the UI can link to them
+  documentIds: number[];
+  // YYYY-MM-DD the warning is about
+  date: string | null;
+}
+
+// Least time to make a connection or get from the gate to a pickup
+const MIN_CONNECTION_MINUTES = 60;
+
+interface TravelLeg {
+  documentId: number;
+  label: string;
+  arrivalPlace: string | null;
+  departure: LocalDateTime | null;
+  arrival: LocalDateTime | null;
+}
+
+interface Stay {
+  documentId: number;
+  name: string;
+  nights: string[];
+}
+
+interface CarRental {
+  documentId: number;
+  name: string;
+  pickup: LocalDateTime | null;
+  dropoff: LocalDateTime | null;
+}
+
+function formatDay(date: string): string {
+  return new Date(`${date}T00:00:00Z`).toLocaleDateString("en-US", { month: "short", day: "numeric", timeZone: "UTC" });
+}
+
+// Minutes since the epoch for a timed wall-clock moment, null if untimed
+function toMinutes(at: LocalDateTime | null): number | null {
+  if (!at?.time) return null;
+  const [hours, minutes] = at.time.split(":").map(Number);
+  return daysBetween("1970-01-01", at.date) * 24 * 60 + hours * 60 + minutes;
+}
+
+function getTravelLegs(doc: Document): TravelLeg[] {
+  const details = (doc.details as DocumentDetails | null) ?? {};
+  switch (getDetailsSchemaKey(doc.category, doc.documentType)) {
+    case "flight":
+      return getFlightLegs(doc).map((leg) => ({
+        documentId: doc.id,
+        label: leg.flightNumber || formatLegRoute(leg),
+        arrivalPlace: leg.arrivalAirport ?? null,
+        departure: toLocalDateTime(leg.departureTime),
+        arrival: toLocalDateTime(leg.arrivalTime),
+      }));
+    case "train":
+    case "bus":
+    case "ferry":
+      return [
+        {
+          documentId: doc.id,
+          label: details.serviceNumber || doc.title,
+          arrivalPlace: details.arrivalStation ?? null,
+          departure: toLocalDateTime(details.departureTime),
+          arrival: toLocalDateTime(details.arrivalTime),
+        },
+      ];
+    default:
+      return [];
+  }
+}
+
+function getStay(doc: Document): Stay | null {
+  if (getDetailsSchemaKey(doc.category, doc.documentType) !== "accommodation") return null;
+  const { overnight } = getDocumentEntries(doc);
+  if (overnight.length === 0) return null;
+  return { documentId: doc.id, name: overnight[0].name, nights: overnight.map((night) => night.date) };
+}
+
+function getCarRental(doc: Document): CarRental | null {
+  if (getDetailsSchemaKey(doc.category, doc.documentType) !== "carRental") return null;
+  const details = (doc.details as DocumentDetails | null) ?? {};
+  return {
+    documentId: doc.id,
+    name: details.carCompany ? `${details.carCompany} car` : doc.title,
+    pickup: toLocalDateTime(details.pickupTime),
+    dropoff: toLocalDateTime(details.dropoffTime),
+  };
+}
+
+function checkOutsideTripDates(documents: Document[], tripStart: string, tripEnd: string): TripWarning[] {
+  const warnings: TripWarning[] = [];
+  for (const doc of documents) {
+    const outside = getDocumentEntries(doc).entries.find((entry) => entry.date < tripStart || entry.date > tripEnd);
+    if (outside) {
+      warnings.push({
+        code: "outside_trip_dates",
+        message: `${doc.title} is on ${formatDay(outside.date)}, outside the trip dates`,
+        documentIds: [doc.id],
+        date: outside.date,
+      });
+    }
+  }
+  return warnings;
+}
+
+function checkNights(stays: Stay[], legs: TravelLeg[], tripStart: string, tripEnd: string): TripWarning[] {
+  const warnings: TripWarning[] = [];
+
+  // Nights spent on an overnight flight, train or ferry need no hotel
+  const isTravelling = (night: string) =>
+    legs.some((leg) => leg.departure && leg.arrival && leg.departure.date <= night && leg.arrival.date > night);
+
+  let missing: string[] = [];
+  const flushMissing = () => {
+    if (missing.length === 0) return;
+    warnings.push({
+      code: "missing_night",
+      message:
+        missing.length === 1
+          ? `No accommodation for the night of ${formatDay(missing[0])}`
+          : `No accommodation for ${missing.length} nights from ${formatDay(missing[0])}`,
+      documentIds: [],
+      date: missing[0],
+    });
+    missing = [];
+  };
+
+  for (let night = tripStart; night < tripEnd; night = addDays(night, 1)) {
+    if (stays.some((stay) => stay.nights.includes(night)) || isTravelling(night)) {
+      flushMissing();
+    } else {
+      missing.push(night);
+    }
+  }
+  flushMissing();
+
+  for (let i = 0; i < stays.length; i++) {
+    for (let j = i + 1; j < stays.length; j++) {
+      const shared = stays[i].nights.filter((night) => stays[j].nights.includes(night));
+      if (shared.length > 0) {
+        warnings.push({
+          code: "overlap",
+          message: `${stays[i].name} and ${stays[j].name} are both booked for the night of ${formatDay(shared[0])}`,
+          documentIds: [stays[i].documentId, stays[j].documentId],
+          date: shared[0],
+        });
+      }
+    }
+  }
+
+  return warnings;
+}
+
+function checkConnections(legs: TravelLeg[], cars: CarRental[]): TripWarning[] {
+  const warnings: TripWarning[] = [];
+  const timed = legs
+    .filter((leg) => toMinutes(leg.departure) !== null)
+    .sort((a, b) => toMinutes(a.departure)! - toMinutes(b.departure)!);
+
+  for (let i = 0; i + 1 < timed.length; i++) {
+    const [leg, next] = [timed[i], timed[i + 1]];
+    const arrival = toMinutes(leg.arrival);
+    if (arrival === null) continue;
+    const gap = toMinutes(next.departure)! - arrival;
+    if (gap >= MIN_CONNECTION_MINUTES) continue;
+    warnings.push({
+      code: "tight_connection",
+      message:
+        gap < 0
+          ? `${next.label} departs before ${leg.label} arrives`
+          : `Only ${gap} min between ${leg.label} arriving and ${next.label} departing`,
+      documentIds: [...new Set([leg.documentId, next.documentId])],
+      date: next.departure!.date,
+    });
+  }
+
+  for (const car of cars) {
+    const pickup = toMinutes(car.pickup);
+    if (pickup === null) continue;
+    const landing = legs.find((leg) => {
+      const arrival = toMinutes(leg.arrival);
+      return arrival !== null && leg.arrival!.date === car.pickup!.date && pickup < arrival;
+    });
+    if (landing) {
+      warnings.push({
+        code: "tight_connection",
+        message: `${car.name} pickup at ${car.pickup!.time} is before ${landing.label} arrives${landing.arrivalPlace ? ` in ${landing.arrivalPlace}` : ""} at ${landing.arrival!.time}`,
+        documentIds: [car.documentId, landing.documentId],
+        date: car.pickup!.date,
+      });
+    }
+  }
+
+  return warnings;
+}
+
+function checkCarReturns(cars: CarRental[], legs: TravelLeg[]): TripWarning[] {
+  const warnings: TripWarning[] = [];
+  const lastDeparture = legs
+    .filter((leg) => toMinutes(leg.departure) !== null)
+    .sort((a, b) => toMinutes(b.departure)! - toMinutes(a.departure)!)[0];
+
+  for (const car of cars) {
+    if (!car.dropoff) {
+      warnings.push({
+        code: "unreturned_car",
+        message: `${car.name} has no return date`,
+        documentIds: [car.documentId],
+        date: car.pickup?.date ?? null,
+      });
+      continue;
+    }
+    const dropoff = toMinutes(car.dropoff);
+    const pickup = toMinutes(car.pickup);
+    const leaves = lastDeparture ? toMinutes(lastDeparture.departure)! : null;
+    if (dropoff === null || leaves === null || dropoff <= leaves) continue;
+    if (pickup !== null && pickup > leaves) continue;
+    warnings.push({
+      code: "unreturned_car",
+      message: `${car.name} is due back at ${car.dropoff.time} on ${formatDay(car.dropoff.date)}, after ${lastDeparture.label} leaves at ${lastDeparture.departure!.time}`,
+      documentIds: [car.documentId, lastDeparture.documentId],
+      date: car.dropoff.date,
+    });
+  }
+
+  return warnings;
+}
+
+/**
+ * Gaps and conflicts in a trip's bookings, ordered by date. Cancelled
+ * bookings are left out.
+ */
+export function analyzeTrip(trip: Pick<Trip, "startDate" | "endDate">, allDocuments: Document[]): TripWarning[] {
+  const { tripStart, tripEnd } = getTripDays(trip);
+  const documents = allDocuments.filter((doc) => !doc.cancelledAt);
+  const legs = documents.flatMap(getTravelLegs);
+  const stays = documents.map(getStay).filter((stay): stay is Stay => stay !== null);
+  const cars = documents.map(getCarRental).filter((car): car is CarRental => car !== null);
+
+  const warnings = [
+    ...checkNights(stays, legs, tripStart, tripEnd),
+    ...checkConnections(legs, cars),
+    ...checkCarReturns(cars, legs),
+    ...checkOutsideTripDates(documents, tripStart, tripEnd),
+  ];
+  return warnings.sort((a, b) => (a.date ?? "").localeCompare(b.date ?? ""));
+}
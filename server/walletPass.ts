@@ -0,0 +1,550 @@
+/**
+ * Wallet Passes
+ *
+ * Boarding passes and event tickets increasingly come as Apple Wallet passes
+ * (.pkpass, a zip bundle around pass.json) or as "Add to Google Wallet"
+ * links whose token carries the pass itself. Both are read directly,
+ * without the AI and without charging credits: a boarding pass becomes a
+ * flight (or a train, bus or ferry) with its gate, seat and boarding time,
+ * an event ticket becomes an event, and the barcode's payload is kept in
+ * the details. Store cards, coupons and generic passes aren't bookings and
+ * are left out.
+ */
+
+import { createHash } from "crypto";
+import { inflateRawSync } from "zlib";
+import { getValidationWarnings } from "./documentSchema";
+import { resolveDocumentTimes } from "./documentTimes";
+import { fetchStoredFile } from "./storage";
+import type { ParsedDocument, ParseResult } from "./documentParser";
+import type { DocumentCategory, DocumentDetails, FieldConfidenceMap } from "../drizzle/schema";
+import { getAirport } from "../shared/airports";
+import { WALLET_PASS_MIME_TYPE } from "../shared/const";
+import { getTimeZoneForLocation, utcToLocal } from "../shared/timezones";
+
+interface PassField {
+  key?: string;
+  label?: string;
+  value?: unknown;
+}
+
+interface PassStructure {
+  transitType?: string;
+  headerFields?: PassField[];
+  primaryFields?: PassField[];
+  secondaryFields?: PassField[];
+  auxiliaryFields?: PassField[];
+  backFields?: PassField[];
+}
+
+interface PassBarcode {
+  message?: string;
+  format?: string;
+}
+
+// Semantic tags (iOS 12+), which spell out what the printed fields mean
+interface PassSemantics {
+  airlineCode?: string;
+  flightCode?: string;
+  flightNumber?: string | number;
+  departureAirportCode?: string;
+  destinationAirportCode?: string;
+  departureStationName?: string;
+  destinationStationName?: string;
+  departureGate?: string;
+  departureTerminal?: string;
+  departurePlatform?: string;
+  originalDepartureDate?: string;
+  currentDepartureDate?: string;
+  originalArrivalDate?: string;
+  currentArrivalDate?: string;
+  originalBoardingDate?: string;
+  currentBoardingDate?: string;
+  transitProvider?: string;
+  vehicleNumber?: string;
+  carNumber?: string;
+  seats?: Array<{ seatNumber?: string; seatIdentifier?: string; seatRow?: string; seatSection?: string }>;
+  confirmationNumber?: string;
+  eventName?: string;
+  venueName?: string;
+  eventStartDate?: string;
+}
+
+interface PassJson {
+  description?: string;
+  organizationName?: string;
+  relevantDate?: string;
+  barcode?: PassBarcode;
+  barcodes?: PassBarcode[];
+  semantics?: PassSemantics;
+  boardingPass?: PassStructure;
+  eventTicket?: PassStructure;
+}
+
+interface LocalizedString {
+  defaultValue?: { value?: string };
+}
+
+interface GoogleBarcode {
+  type?: string;
+  value?: string;
+}
+
+interface GoogleAirport {
+  airportIataCode?: string;
+  terminal?: string;
+  gate?: string;
+}
+
+interface GoogleFlightClass {
+  id?: string;
+  flightHeader?: { carrier?: { carrierIataCode?: string; airlineName?: LocalizedString }; flightNumber?: string };
+  origin?: GoogleAirport;
+  destination?: GoogleAirport;
+  localScheduledDepartureDateTime?: string;
+  localEstimatedOrActualDepartureDateTime?: string;
+  localBoardingDateTime?: string;
+  localScheduledArrivalDateTime?: string;
+  localEstimatedOrActualArrivalDateTime?: string;
+}
+
+interface GoogleFlightObject {
+  classId?: string;
+  boardingAndSeatingInfo?: { seatNumber?: string };
+  reservationInfo?: { confirmationCode?: string };
+  barcode?: GoogleBarcode;
+}
+
+interface GoogleEventTicketClass {
+  id?: string;
+  eventName?: LocalizedString;
+  venue?: { name?: LocalizedString; address?: LocalizedString };
+  dateTime?: { start?: string; doorsOpen?: string };
+}
+
+interface GoogleEventTicketObject {
+  classId?: string;
+  seatInfo?: { seat?: LocalizedString; row?: LocalizedString; section?: LocalizedString; gate?: LocalizedString };
+  reservationInfo?: { confirmationCode?: string };
+  barcode?: GoogleBarcode;
+}
+
+interface GoogleWalletPayload {
+  flightClasses?: GoogleFlightClass[];
+  flightObjects?: GoogleFlightObject[];
+  eventTicketClasses?: GoogleEventTicketClass[];
+  eventTicketObjects?: GoogleEventTicketObject[];
+}
+
+const TRANSIT_CATEGORIES: Record<string, DocumentCategory> = {
+  PKTransitTypeAir: "flight",
+  PKTransitTypeTrain: "train",
+  PKTransitTypeBus: "bus",
+  PKTransitTypeBoat: "ferry",
+};
+
+// Apple's and Google's names for the same symbologies
+const BARCODE_FORMATS: Record<string, string> = {
+  PKBarcodeFormatQR: "QR",
+  PKBarcodeFormatPDF417: "PDF417",
+  PKBarcodeFormatAztec: "Aztec",
+  PKBarcodeFormatCode128: "Code128",
+  QR_CODE: "QR",
+  PDF_417: "PDF417",
+  AZTEC: "Aztec",
+  CODE_128: "Code128",
+};
+
+// What pass fields are called; matched against each field's key and label
+const GATE_PATTERN = /gate/i;
+const SEAT_PATTERN = /seat/i;
+const TERMINAL_PATTERN = /terminal/i;
+const FLIGHT_PATTERN = /flight/i;
+const BOARDING_TIME_PATTERN = /board(?:ing)?[\s_-]?(?:time|date)|^boarding$|^boards$/i;
+const DEPARTURE_TIME_PATTERN = /depart(?:ure|s)?[\s_-]?(?:time|date)?|^(?:time|date)$/i;
+const ARRIVAL_TIME_PATTERN = /arriv(?:al|es)?[\s_-]?(?:time|date)?/i;
+const EVENT_TIME_PATTERN = /date|time|start|doors/i;
+const CONFIRMATION_PATTERN = /confirm|pnr|booking|record|reservation|locator/i;
+const SERVICE_NUMBER_PATTERN = /train|service|route|line|vessel/i;
+const PLATFORM_PATTERN = /platform|track/i;
+const CARRIAGE_PATTERN = /carriage|coach|^car$/i;
+const EVENT_NAME_PATTERN = /event/i;
+const VENUE_PATTERN = /venue|location|where/i;
+
+// pass.json dates are ISO 8601 with an offset, minutes-only allowed
+const PASS_DATE_PATTERN = /^(\d{4}-\d{2}-\d{2})(?:T(\d{2}:\d{2})(?::(\d{2}))?(?:\.\d+)?(Z|[+-]\d{2}:?\d{2})?)?$/;
+
+// "Add to Google Wallet" links: https://pay.google.com/gp/v/save/<JWT>
+const GOOGLE_WALLET_LINK_PATTERN = /https:\/\/pay\.google\.com\/gp\/v\/save\/([\w-]+\.([\w-]+)\.[\w-]*)/g;
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_ENTRY = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+// pass.json is a few KB; anything that inflates past this isn't a pass
+const MAX_ZIP_ENTRY_BYTES = 1024 * 1024;
+
+/**
+ * Whether a file is an Apple Wallet pass. Mail clients and pickers often
+ * send them as application/octet-stream, so the extension counts too.
+ */
+export function isWalletPass(mimeType: string, fileName?: string | null): boolean {
+  return mimeType.split(";")[0].trim().toLowerCase() === WALLET_PASS_MIME_TYPE || /\.pkpass$/i.test(fileName ?? "");
+}
+
+/**
+ * One file from a zip archive, or null when it isn't there or the archive
+ * is damaged. Only what passes use is supported: stored or deflated
+ * entries, no zip64.
+ */
+function readZipEntry(archive: Buffer, name: string): Buffer | null {
+  // The end record is the last 22 bytes, followed by a comment of up to 64KB
+  let end = -1;
+  for (let offset = archive.length - 22; offset >= Math.max(0, archive.length - 22 - 0xffff); offset--) {
+    if (archive.readUInt32LE(offset) === END_OF_CENTRAL_DIRECTORY) {
+      end = offset;
+      break;
+    }
+  }
+  if (end < 0) return null;
+
+  const entryCount = archive.readUInt16LE(end + 10);
+  let offset = archive.readUInt32LE(end + 16);
+  for (let index = 0; index < entryCount; index++) {
+    if (offset + 46 > end || archive.readUInt32LE(offset) !== CENTRAL_DIRECTORY_ENTRY) return null;
+    const method = archive.readUInt16LE(offset + 10);
+    const compressedSize = archive.readUInt32LE(offset + 20);
+    const nameLength = archive.readUInt16LE(offset + 28);
+    const headerOffset = archive.readUInt32LE(offset + 42);
+    const entryName = archive.toString("utf8", offset + 46, offset + 46 + nameLength);
+    offset += 46 + nameLength + archive.readUInt16LE(offset + 30) + archive.readUInt16LE(offset + 32);
+    if (entryName !== name) continue;
+
+    if (headerOffset + 30 > archive.length || archive.readUInt32LE(headerOffset) !== LOCAL_FILE_HEADER) return null;
+    const dataStart = headerOffset + 30 + archive.readUInt16LE(headerOffset + 26) + archive.readUInt16LE(headerOffset + 28);
+    if (dataStart + compressedSize > archive.length || compressedSize > MAX_ZIP_ENTRY_BYTES) return null;
+    const data = archive.subarray(dataStart, dataStart + compressedSize);
+    if (method === 0) return data;
+    if (method === 8) return inflateRawSync(data, { maxOutputLength: MAX_ZIP_ENTRY_BYTES });
+    return null;
+  }
+  return null;
+}
+
+function toText(value: unknown): string | undefined {
+  if (typeof value === "number") return String(value);
+  return typeof value === "string" ? value.trim() || undefined : undefined;
+}
+
+/**
+ * A pass date as the local time where it happens: converted into the
+ * place's zone when the pass gives an offset and the zone is known,
+ * otherwise the wall time as written
+ */
+function toLocal(value: unknown, zone: string | null): string | undefined {
+  const text = toText(value);
+  const match = text?.match(PASS_DATE_PATTERN);
+  if (!match) return undefined;
+  if (!match[2]) return match[1];
+
+  const wall = `${match[1]}T${match[2]}:${match[3] ?? "00"}`;
+  if (zone && match[4]) {
+    const offset = match[4] === "Z" ? "Z" : match[4].replace(/^([+-]\d{2}):?(\d{2})$/, "$1:$2");
+    const instant = new Date(`${wall}${offset}`);
+    if (!Number.isNaN(instant.getTime())) return utcToLocal(instant, zone);
+  }
+  return wall;
+}
+
+// Boarding passes often print the boarding time alone, on the departure day
+function toBoardingTime(value: unknown, zone: string | null, departureTime: string | undefined): string | undefined {
+  const time = toText(value)?.match(/^(\d{1,2}):(\d{2})$/);
+  if (time && departureTime) return `${departureTime.slice(0, 10)}T${time[1].padStart(2, "0")}:${time[2]}:00`;
+  return toLocal(value, zone);
+}
+
+// Fields in the order a pass shows them, front then back
+function getFields(structure: PassStructure): PassField[] {
+  return [
+    ...(structure.primaryFields ?? []),
+    ...(structure.headerFields ?? []),
+    ...(structure.secondaryFields ?? []),
+    ...(structure.auxiliaryFields ?? []),
+    ...(structure.backFields ?? []),
+  ].filter((field) => field && typeof field === "object");
+}
+
+function findField(fields: PassField[], pattern: RegExp): PassField | undefined {
+  return fields.find((field) => toText(field.value) && (pattern.test(field.key ?? "") || pattern.test(field.label ?? "")));
+}
+
+function findText(fields: PassField[], pattern: RegExp): string | undefined {
+  return toText(findField(fields, pattern)?.value);
+}
+
+// The first field matching the pattern whose value is a date
+function findDate(fields: PassField[], pattern: RegExp): string | undefined {
+  return fields
+    .filter((field) => pattern.test(field.key ?? "") || pattern.test(field.label ?? ""))
+    .map((field) => toText(field.value))
+    .find((value) => value && PASS_DATE_PATTERN.test(value));
+}
+
+function getBarcode(message: string | undefined, format: string | undefined): DocumentDetails {
+  if (!message) return {};
+  return { barcode: message, barcodeFormat: (format && BARCODE_FORMATS[format]) || format };
+}
+
+/**
+ * Title, subtitle and confidence around the details read from a pass, with
+ * times placed the same way parsed bookings are
+ */
+function toParsedDocument(category: DocumentCategory, documentType: string, details: DocumentDetails, fallbackTitle: string): ParsedDocument {
+  const cleanDetails = Object.fromEntries(Object.entries(details).filter(([, value]) => value)) as DocumentDetails;
+
+  let title = fallbackTitle;
+  let subtitle: string | null = null;
+  let mainDate: string | undefined;
+  if (category === "flight") {
+    if (cleanDetails.departureAirport && cleanDetails.arrivalAirport) title = `${cleanDetails.departureAirport} → ${cleanDetails.arrivalAirport}`;
+    subtitle = [cleanDetails.airline, cleanDetails.flightNumber].filter(Boolean).join(" ") || null;
+    mainDate = cleanDetails.departureTime;
+  } else if (category === "event") {
+    title = cleanDetails.eventName || fallbackTitle;
+    subtitle = cleanDetails.venue ?? null;
+    mainDate = cleanDetails.eventTime ? `${cleanDetails.eventDate}T${cleanDetails.eventTime}:00` : cleanDetails.eventDate;
+  } else {
+    if (cleanDetails.departureStation && cleanDetails.arrivalStation) title = `${cleanDetails.departureStation} → ${cleanDetails.arrivalStation}`;
+    subtitle = [cleanDetails.operator, cleanDetails.serviceNumber].filter(Boolean).join(" ") || null;
+    mainDate = cleanDetails.departureTime;
+  }
+
+  const { documentDate, timeZone, times } = resolveDocumentTimes({ category, documentType, documentDate: mainDate, details: cleanDetails });
+
+  // Read from a machine-written pass, so nothing needs the user's review
+  const fieldConfidence: FieldConfidenceMap = {};
+  for (const key of Object.keys(cleanDetails)) fieldConfidence[key] = { confidence: 1 };
+  if (documentDate) fieldConfidence.documentDate = { confidence: 1 };
+
+  return {
+    category,
+    documentType,
+    title,
+    subtitle,
+    details: cleanDetails,
+    documentDate,
+    timeZone,
+    times,
+    validationWarnings: getValidationWarnings({ category, documentType, documentDate: mainDate, details: cleanDetails }),
+    fieldConfidence,
+  };
+}
+
+function readBoardingPass(pass: PassJson, structure: PassStructure): ParsedDocument | null {
+  const category = TRANSIT_CATEGORIES[structure.transitType ?? ""];
+  if (!category) return null;
+
+  const semantics = pass.semantics ?? {};
+  const fields = getFields(structure);
+  // A boarding pass's two primary fields are where it goes from and to
+  const [from, to] = (structure.primaryFields ?? []).map((field) => toText(field?.value));
+  const seat = semantics.seats?.[0];
+  const barcode = pass.barcodes?.[0] ?? pass.barcode;
+  const common: DocumentDetails = {
+    seatNumber: seat?.seatNumber ?? seat?.seatIdentifier ?? findText(fields, SEAT_PATTERN),
+    confirmationNumber: semantics.confirmationNumber ?? findText(fields, CONFIRMATION_PATTERN),
+    ...getBarcode(barcode?.message, barcode?.format),
+  };
+  const departureDate = semantics.currentDepartureDate ?? semantics.originalDepartureDate ?? findDate(fields, DEPARTURE_TIME_PATTERN) ?? pass.relevantDate;
+  const arrivalDate = semantics.currentArrivalDate ?? semantics.originalArrivalDate ?? findDate(fields, ARRIVAL_TIME_PATTERN);
+  const boardingValue = semantics.currentBoardingDate ?? semantics.originalBoardingDate ?? findField(fields, BOARDING_TIME_PATTERN)?.value;
+
+  if (category === "flight") {
+    const departureAirport = (semantics.departureAirportCode ?? from)?.toUpperCase();
+    const arrivalAirport = (semantics.destinationAirportCode ?? to)?.toUpperCase();
+    const departureZone = getAirport(departureAirport)?.timeZone ?? null;
+    const departureTime = toLocal(departureDate, departureZone);
+    const flightNumber =
+      semantics.flightCode ??
+      (semantics.airlineCode && semantics.flightNumber ? `${semantics.airlineCode}${semantics.flightNumber}` : findText(fields, FLIGHT_PATTERN));
+    const details: DocumentDetails = {
+      airline: pass.organizationName,
+      flightNumber,
+      departureAirport,
+      arrivalAirport,
+      departureTime,
+      arrivalTime: toLocal(arrivalDate, getAirport(arrivalAirport)?.timeZone ?? null),
+      boardingTime: toBoardingTime(boardingValue, departureZone, departureTime),
+      terminal: semantics.departureTerminal ?? findText(fields, TERMINAL_PATTERN),
+      gate: semantics.departureGate ?? findText(fields, GATE_PATTERN),
+      ...common,
+    };
+    return toParsedDocument(category, "Boarding Pass", details, pass.description || "Boarding Pass");
+  }
+
+  const departureStation = semantics.departureStationName ?? from;
+  const departureZone = getTimeZoneForLocation(departureStation);
+  const departureTime = toLocal(departureDate, departureZone);
+  const details: DocumentDetails = {
+    operator: semantics.transitProvider ?? pass.organizationName,
+    serviceNumber: semantics.vehicleNumber ?? findText(fields, SERVICE_NUMBER_PATTERN),
+    departureStation,
+    arrivalStation: semantics.destinationStationName ?? to,
+    departureTime,
+    arrivalTime: toLocal(arrivalDate, getTimeZoneForLocation(semantics.destinationStationName ?? to)),
+    boardingTime: toBoardingTime(boardingValue, departureZone, departureTime),
+    platform: semantics.departurePlatform ?? findText(fields, PLATFORM_PATTERN),
+    carriage: semantics.carNumber ?? findText(fields, CARRIAGE_PATTERN),
+    gate: findText(fields, GATE_PATTERN),
+    ...common,
+  };
+  return toParsedDocument(category, "Boarding Pass", details, pass.description || "Boarding Pass");
+}
+
+function readEventTicket(pass: PassJson, structure: PassStructure): ParsedDocument {
+  const semantics = pass.semantics ?? {};
+  const fields = getFields(structure);
+  const venue = semantics.venueName ?? findText(fields, VENUE_PATTERN);
+  const seat = semantics.seats?.[0];
+  const barcode = pass.barcodes?.[0] ?? pass.barcode;
+  const start = toLocal(
+    semantics.eventStartDate ?? findDate(fields, EVENT_TIME_PATTERN) ?? pass.relevantDate,
+    getTimeZoneForLocation(venue)
+  );
+  const details: DocumentDetails = {
+    eventName: semantics.eventName ?? findText(fields, EVENT_NAME_PATTERN) ?? toText(structure.primaryFields?.[0]?.value),
+    eventDate: start?.slice(0, 10),
+    eventTime: start?.slice(11, 16),
+    venue,
+    seatNumber: seat ? [seat.seatSection, seat.seatRow, seat.seatNumber ?? seat.seatIdentifier].filter(Boolean).join(" ") : findText(fields, SEAT_PATTERN),
+    gate: findText(fields, GATE_PATTERN),
+    confirmationNumber: semantics.confirmationNumber ?? findText(fields, CONFIRMATION_PATTERN),
+    ...getBarcode(barcode?.message, barcode?.format),
+  };
+  return toParsedDocument("event", "Ticket", details, pass.description || pass.organizationName || "Ticket");
+}
+
+/**
+ * The booking in an Apple Wallet pass, or none when the file isn't a pass
+ * or the pass isn't a boarding pass or event ticket. A damaged pass is no
+ * booking rather than an error, so the job doesn't retry it.
+ */
+export function parseWalletPass(archive: Buffer): ParsedDocument[] {
+  let pass: PassJson;
+  try {
+    const json = readZipEntry(archive, "pass.json");
+    if (!json) return [];
+    pass = JSON.parse(json.toString("utf8").replace(/^\uFEFF/, ""));
+  } catch {
+    return [];
+  }
+
+  const document = pass.boardingPass
+    ? readBoardingPass(pass, pass.boardingPass)
+    : pass.eventTicket
+      ? readEventTicket(pass, pass.eventTicket)
+      : null;
+  return document ? [document] : [];
+}
+
+/**
+ * Download and read a stored .pkpass file
+ */
+export async function readWalletPass(fileUrl: string): Promise<ParseResult> {
+  const archive = await fetchStoredFile(fileUrl);
+  return {
+    documents: parseWalletPass(archive),
+    contentHash: createHash("sha256").update(archive).digest("hex"),
+  };
+}
+
+function localized(value: LocalizedString | undefined): string | undefined {
+  return toText(value?.defaultValue?.value);
+}
+
+function readGoogleFlight(flight: GoogleFlightObject, flightClass: GoogleFlightClass, link: string): ParsedDocument {
+  const carrier = flightClass.flightHeader?.carrier;
+  const departureAirport = flightClass.origin?.airportIataCode?.toUpperCase();
+  const departureTime = toLocal(flightClass.localEstimatedOrActualDepartureDateTime ?? flightClass.localScheduledDepartureDateTime, null);
+  const details: DocumentDetails = {
+    airline: localized(carrier?.airlineName) ?? carrier?.carrierIataCode,
+    flightNumber: carrier?.carrierIataCode && flightClass.flightHeader?.flightNumber ? `${carrier.carrierIataCode}${flightClass.flightHeader.flightNumber}` : undefined,
+    departureAirport,
+    arrivalAirport: flightClass.destination?.airportIataCode?.toUpperCase(),
+    departureTime,
+    arrivalTime: toLocal(flightClass.localEstimatedOrActualArrivalDateTime ?? flightClass.localScheduledArrivalDateTime, null),
+    boardingTime: toLocal(flightClass.localBoardingDateTime, null),
+    terminal: flightClass.origin?.terminal,
+    gate: flightClass.origin?.gate,
+    seatNumber: flight.boardingAndSeatingInfo?.seatNumber,
+    confirmationNumber: flight.reservationInfo?.confirmationCode,
+    ...getBarcode(flight.barcode?.value, flight.barcode?.type),
+    googleWalletUrl: link,
+  };
+  return toParsedDocument("flight", "Boarding Pass", details, "Boarding Pass");
+}
+
+function readGoogleEventTicket(ticket: GoogleEventTicketObject, ticketClass: GoogleEventTicketClass, link: string): ParsedDocument {
+  const venue = localized(ticketClass.venue?.name);
+  const venueAddress = localized(ticketClass.venue?.address);
+  const start = toLocal(ticketClass.dateTime?.start ?? ticketClass.dateTime?.doorsOpen, getTimeZoneForLocation(venueAddress ?? venue));
+  const seat = ticket.seatInfo;
+  const details: DocumentDetails = {
+    eventName: localized(ticketClass.eventName),
+    eventDate: start?.slice(0, 10),
+    eventTime: start?.slice(11, 16),
+    venue,
+    venueAddress,
+    seatNumber: [localized(seat?.section), localized(seat?.row), localized(seat?.seat)].filter(Boolean).join(" ") || undefined,
+    gate: localized(seat?.gate),
+    confirmationNumber: ticket.reservationInfo?.confirmationCode,
+    ...getBarcode(ticket.barcode?.value, ticket.barcode?.type),
+    googleWalletUrl: link,
+  };
+  return toParsedDocument("event", "Ticket", details, "Ticket");
+}
+
+function readGoogleWalletToken(claims: string, link: string): ParsedDocument[] {
+  let payload: GoogleWalletPayload | undefined;
+  try {
+    payload = JSON.parse(Buffer.from(claims, "base64url").toString("utf8"))?.payload;
+  } catch {
+    return [];
+  }
+  if (!payload) return [];
+
+  // Passes whose class was created through Google's API rather than carried
+  // in the link don't say what they're for and are left out
+  const documents: ParsedDocument[] = [];
+  for (const flight of payload.flightObjects ?? []) {
+    const flightClass = payload.flightClasses?.find((candidate) => candidate.id === flight.classId);
+    if (flightClass) documents.push(readGoogleFlight(flight, flightClass, link));
+  }
+  for (const ticket of payload.eventTicketObjects ?? []) {
+    const ticketClass = payload.eventTicketClasses?.find((candidate) => candidate.id === ticket.classId);
+    if (ticketClass) documents.push(readGoogleEventTicket(ticket, ticketClass, link));
+  }
+  return documents;
+}
+
+/**
+ * The bookings in an email's "Add to Google Wallet" links, or null when it
+ * has none or none could be read (the email is then parsed like any other).
+ * The link's signature isn't checked: the pass is read only as the booking
+ * the user forwarded, like the rest of the email.
+ */
+export function readGoogleWalletLinks(text: string | null | undefined): ParseResult | null {
+  // The same link often appears more than once (button and plain URL)
+  const links = new Map<string, { link: string; claims: string }>();
+  for (const match of (text ?? "").matchAll(GOOGLE_WALLET_LINK_PATTERN)) {
+    links.set(match[1], { link: match[0], claims: match[2] });
+  }
+  if (links.size === 0) return null;
+
+  const documents = [...links.values()].flatMap(({ link, claims }) => readGoogleWalletToken(claims, link));
+  if (documents.length === 0) return null;
+
+  return {
+    documents,
+    contentHash: createHash("sha256").update([...links.keys()].join("\n")).digest("hex"),
+  };
+}
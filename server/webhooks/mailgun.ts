@@ -1,11 +1,10 @@
 import { Router, Request, Response } from "express";
 import { createHmac, timingSafeEqual } from "crypto";
 import multer from "multer";
-import { parseDocument, parseEmailBody } from "../documentParser";
 import * as db from "../db";
-import { storagePut } from "../storage";
-import { nanoid } from "nanoid";
-import { sendPushNotification, EmailProcessingNotifications } from "../pushNotification";
+import { getPricingPolicy, getUpfrontParseCost } from "../pricing";
+import { hasEmailBody, isFreeEmail, isSupportedAttachment, parseEmailMessage, type EmailMessage } from "../emailMessage";
+import { enqueueEmailJob, sendProcessingNotification } from "../documentJobs";
 
 const router = Router();
 
@@ -16,12 +15,19 @@ const upload = multer({
   limits: {
     fileSize: 25 * 1024 * 1024, // 25MB limit per file
     files: 10, // Max 10 attachments
+    fieldSize: 25 * 1024 * 1024, // body-mime holds the whole message in raw-MIME mode
   },
 });
 
 // Mailgun webhook secret for signature verification
 const MAILGUN_WEBHOOK_SIGNING_KEY = process.env.MAILGUN_WEBHOOK_SIGNING_KEY || "";
 
+// Mailgun API key, for fetching messages that store() routes only link to
+const MAILGUN_API_KEY = process.env.MAILGUN_API_KEY || "";
+
+// Fetching the stored message has to leave time to answer within Mailgun's 10s
+const STORED_MESSAGE_TIMEOUT_MS = 6_000;
+
 /**
  * Verify Mailgun webhook signature
  */
@@ -54,250 +60,36 @@ function verifyMailgunSignature(
 }
 
 /**
- * Send push notification to user about email processing status
+ * Fetch the raw MIME of a message Mailgun stored. Only Mailgun's own hosts
+ * are asked, since the request carries the API key.
  */
-async function sendProcessingNotification(
-  userId: number,
-  type: "received" | "completed" | "error" | "no_credits" | "no_bookings",
-  details: {
-    documentCount?: number;
-    errorMessage?: string;
-    subject?: string;
+async function fetchStoredMessage(messageUrl: string): Promise<Buffer> {
+  if (!/(^|\.)mailgun\.net$/.test(new URL(messageUrl).hostname)) {
+    throw new Error(`Not a Mailgun message URL: ${messageUrl}`);
   }
-): Promise<void> {
-  try {
-    let payload;
-
-    switch (type) {
-      case "received":
-        payload = EmailProcessingNotifications.received(details.subject);
-        break;
-      case "completed":
-        payload = EmailProcessingNotifications.completed(details.documentCount || 0);
-        break;
-      case "error":
-        payload = EmailProcessingNotifications.error(details.errorMessage);
-        break;
-      case "no_credits":
-        payload = EmailProcessingNotifications.noCredits();
-        break;
-      case "no_bookings":
-        payload = EmailProcessingNotifications.noBookingsFound(details.subject);
-        break;
-    }
-
-    const timestamp = new Date().toISOString();
-    const result = await sendPushNotification(userId, payload);
-    if (result.success) {
-      console.log(`[Mailgun] [${timestamp}] Successfully sent ${type} push notification to user ${userId}`);
-    } else {
-      console.warn(`[Mailgun] [${timestamp}] Failed to send ${type} notification to user ${userId}. Error: ${result.error}. This may indicate the user hasn't opened the app yet or doesn't have notifications enabled.`);
-    }
-  } catch (error) {
-    const timestamp = new Date().toISOString();
-    console.error(`[Mailgun] [${timestamp}] Exception while sending ${type} notification to user ${userId}:`, error);
+  const response = await fetch(messageUrl, {
+    headers: {
+      Accept: "message/rfc2822",
+      Authorization: `Basic ${Buffer.from(`api:${MAILGUN_API_KEY}`).toString("base64")}`,
+    },
+    signal: AbortSignal.timeout(STORED_MESSAGE_TIMEOUT_MS),
+  });
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}`);
   }
-}
-
-/**
- * Process email attachments asynchronously
- * This runs in the background after we've already responded to Mailgun
- */
-async function processAttachmentsAsync(
-  userId: number,
-  files: Express.Multer.File[],
-  emailSubject: string | undefined
-): Promise<void> {
-  console.log(`[Mailgun Async] Starting attachment processing for user ${userId}, ${files.length} files`);
-  
-  let processedCount = 0;
-  let hasError = false;
-
-  for (const file of files) {
-    const mimeType = file.mimetype;
-    const fileName = file.originalname || file.fieldname;
-
-    console.log(`[Mailgun Async] Processing file: ${fileName} (${mimeType}, ${file.size} bytes)`);
-
-    // Only process PDFs and images
-    if (!mimeType.startsWith("image/") && mimeType !== "application/pdf") {
-      console.log(`[Mailgun Async] Skipping unsupported type: ${mimeType}`);
-      continue;
-    }
-
-    try {
-      // Upload to our storage
-      const fileKey = `documents/${userId}/${nanoid(12)}-${fileName}`;
-      const { url: fileUrl } = await storagePut(fileKey, file.buffer, mimeType);
-      console.log(`[Mailgun Async] Uploaded to S3: ${fileUrl}`);
-
-      // Parse the document using AI
-      const parseResult = await parseDocument(fileUrl, mimeType);
-      console.log(`[Mailgun Async] Parsed ${parseResult.documents.length} documents from ${fileName}`);
-
-      // AUDIT FIX: If parser returned 0 documents (e.g., LLM error or unparseable image),
-      // log it clearly so we can diagnose failures instead of silently succeeding.
-      if (parseResult.documents.length === 0) {
-        console.warn(`[Mailgun Async] Parser returned 0 documents for ${fileName} – LLM may have failed to parse this file`);
-        hasError = true;
-        continue;
-      }
-
-      // Create documents in database
-      for (const doc of parseResult.documents) {
-        // Try to auto-assign based on date
-        let tripId: number | null = null;
-        if (doc.documentDate) {
-          const matchingTrip = await db.findMatchingTrip(userId, doc.documentDate);
-          if (matchingTrip) {
-            tripId = matchingTrip.id;
-            console.log(`[Mailgun Async] Auto-assigned to trip: ${matchingTrip.name}`);
-          }
-        }
-
-        // Check credits before each document
-        const hasCredits = await db.canProcessDocument(userId);
-        if (!hasCredits) {
-          console.log(`[Mailgun Async] User ${userId} ran out of credits during processing`);
-          await sendProcessingNotification(userId, "no_credits", {});
-          return;
-        }
-
-        await db.createDocument({
-          userId,
-          tripId,
-          category: doc.category,
-          documentType: doc.documentType,
-          title: doc.title,
-          subtitle: doc.subtitle,
-          details: doc.details,
-          originalFileUrl: fileUrl,
-          source: "email",
-          documentDate: doc.documentDate,
-          contentHash: parseResult.contentHash,
-        });
-
-        // Deduct credit for each document processed
-        await db.deductCredit(userId);
-        processedCount++;
-      }
-
-      console.log(`[Mailgun Async] Created ${parseResult.documents.length} documents from ${fileName}`);
-    } catch (error) {
-      console.error(`[Mailgun Async] Failed to process attachment ${fileName}:`, error);
-      hasError = true;
-    }
-  }
-
-  // Send completion notification
-  if (hasError && processedCount === 0) {
-    await sendProcessingNotification(userId, "error", { 
-      errorMessage: "Failed to process email attachments. Please try uploading directly in the app." 
-    });
-  } else if (processedCount > 0) {
-    await sendProcessingNotification(userId, "completed", { documentCount: processedCount });
-  }
-
-  console.log(`[Mailgun Async] Completed attachment processing for user ${userId}. Total documents created: ${processedCount}`);
-}
-
-/**
- * Process email body (when no attachments) asynchronously
- */
-async function processEmailBodyAsync(
-  userId: number,
-  emailHtml: string | undefined,
-  emailPlain: string | undefined,
-  emailSubject: string | undefined,
-  sender: string | undefined
-): Promise<void> {
-  console.log(`[Mailgun Async] Starting email body processing for user ${userId}`);
-
-  try {
-    // Check credits first
-    const hasCredits = await db.canProcessDocument(userId);
-    if (!hasCredits) {
-      console.log(`[Mailgun Async] User ${userId} has no credits`);
-      await sendProcessingNotification(userId, "no_credits", {});
-      return;
-    }
-
-    // Parse the email body
-    const parseResult = await parseEmailBody(emailHtml, emailPlain, emailSubject, sender);
-
-    if (parseResult.documents.length === 0) {
-      console.log(`[Mailgun Async] No bookings found in email body`);
-      await sendProcessingNotification(userId, "no_bookings", { subject: emailSubject });
-      return;
-    }
-
-    // Always process - user explicitly forwarded this email
-    // (Removed duplicate detection per user request)
-
-    let processedCount = 0;
-
-    // Create documents in database
-    for (const doc of parseResult.documents) {
-      // Try to auto-assign based on date
-      let tripId: number | null = null;
-      if (doc.documentDate) {
-        const matchingTrip = await db.findMatchingTrip(userId, doc.documentDate);
-        if (matchingTrip) {
-          tripId = matchingTrip.id;
-          console.log(`[Mailgun Async] Auto-assigned to trip: ${matchingTrip.name}`);
-        }
-      }
-
-      // Check credits before each document
-      const hasCredits = await db.canProcessDocument(userId);
-      if (!hasCredits) {
-        console.log(`[Mailgun Async] User ${userId} ran out of credits during processing`);
-        if (processedCount > 0) {
-          await sendProcessingNotification(userId, "completed", { documentCount: processedCount });
-        }
-        await sendProcessingNotification(userId, "no_credits", {});
-        return;
-      }
-
-      await db.createDocument({
-        userId,
-        tripId,
-        category: doc.category,
-        documentType: doc.documentType,
-        title: doc.title,
-        subtitle: doc.subtitle,
-        details: doc.details,
-        originalFileUrl: null, // No file URL for email body parsing
-        originalEmailBody: emailHtml || emailPlain || null, // Store original email for display
-        source: "email",
-        documentDate: doc.documentDate,
-        contentHash: parseResult.contentHash,
-      });
-
-      // Deduct credit for each document processed
-      await db.deductCredit(userId);
-      processedCount++;
-    }
-
-    // Send completion notification
-    if (processedCount > 0) {
-      await sendProcessingNotification(userId, "completed", { documentCount: processedCount });
-    }
-
-    console.log(`[Mailgun Async] Completed email body processing for user ${userId}. Total documents created: ${processedCount}`);
-  } catch (error) {
-    console.error(`[Mailgun Async] Failed to process email body:`, error);
-    await sendProcessingNotification(userId, "error", { 
-      errorMessage: "Failed to extract booking information from your email." 
-    });
+  const message = (await response.json()) as { "body-mime"?: string };
+  if (!message["body-mime"]) {
+    throw new Error("Stored message has no body-mime");
   }
+  return Buffer.from(message["body-mime"], "utf8");
 }
 
 /**
  * Handle incoming email webhook from Mailgun
  * 
  * IMPORTANT: Mailgun has a 10-second timeout for webhook responses.
- * We must respond immediately and process the email asynchronously.
+ * We only store attachments and enqueue a background job here; parsing
+ * happens in the job worker, which retries failures with backoff.
  * 
  * Mailgun sends parsed messages as multipart/form-data with these fields:
  * - recipient: the email address the message was sent to
@@ -309,6 +101,10 @@ async function processEmailBodyAsync(
  * - attachment-count: number of attachments
  * - attachment-1, attachment-2, etc.: the actual file attachments
  * - timestamp, token, signature: for webhook verification
+ *
+ * Routes whose URL ends in "mime" send the whole message as body-mime
+ * instead of the body and attachment fields, and store() notifications
+ * send a message-url to fetch it from; either is read as raw MIME.
  */
 router.post("/", upload.any(), async (req: Request, res: Response) => {
   const startTime = Date.now();
@@ -330,6 +126,8 @@ router.post("/", upload.any(), async (req: Request, res: Response) => {
       "body-plain": bodyPlain,
       "body-html": bodyHtml,
       "attachment-count": attachmentCountStr,
+      "body-mime": bodyMime,
+      "message-url": messageUrl,
     } = req.body;
 
     console.log("[Mailgun] Recipient:", recipient);
@@ -362,8 +160,34 @@ router.post("/", upload.any(), async (req: Request, res: Response) => {
     const logTimestamp = new Date().toISOString();
     console.log(`[Mailgun] [${logTimestamp}] Found user ${user.id} for forwarding email ${recipient}`);
 
+    // Raw MIME, or the fields Mailgun parsed it into
+    const files = (req.files as Express.Multer.File[] | undefined) ?? [];
+    let email: EmailMessage;
+    if (bodyMime || (messageUrl && !bodyHtml && !bodyPlain && files.length === 0)) {
+      email = parseEmailMessage(bodyMime ? Buffer.from(bodyMime, "utf8") : await fetchStoredMessage(messageUrl));
+      email.subject ??= subject;
+      console.log(`[Mailgun] Read raw MIME: ${email.attachments.length} attachments, ${email.inlineImages.length} inline images`);
+    } else {
+      email = {
+        subject,
+        html: bodyHtml,
+        plain: bodyPlain,
+        attachments: files.map((file) => ({ fileName: file.originalname || file.fieldname, mimeType: file.mimetype, content: file.buffer })),
+        inlineImages: [],
+      };
+    }
+
+    for (const file of email.attachments) {
+      if (!isSupportedAttachment(file)) {
+        console.log(`[Mailgun] Skipping unsupported type: ${file.mimeType}`);
+      }
+    }
+
+    // Calendar invites, wallet passes and Google Wallet links cost nothing
+    const freeOnly = isFreeEmail(email);
+
     // Check if user can process documents (has credits or subscription)
-    const canProcess = await db.canProcessDocument(user.id);
+    const canProcess = freeOnly || (await db.canProcessDocument(user.id, getUpfrontParseCost(getPricingPolicy())));
     if (!canProcess) {
       console.log(`[Mailgun] [${logTimestamp}] User ${user.id} (${recipient}) has no credits remaining`);
       // Send notification about no credits
@@ -373,58 +197,41 @@ router.post("/", upload.any(), async (req: Request, res: Response) => {
       return res.status(402).json({ error: "Insufficient credits" });
     }
 
-    // Get attachments from multer
-    const files = req.files as Express.Multer.File[] | undefined;
-    const hasAttachments = files && files.length > 0;
-    const hasEmailBody = (bodyHtml && bodyHtml.length > 50) || (bodyPlain && bodyPlain.length > 50);
+    const hasAttachments = email.attachments.length > 0;
+    const hasBody = hasEmailBody(email);
 
-    if (!hasAttachments && !hasEmailBody) {
+    if (!hasAttachments && !hasBody) {
       console.log("[Mailgun] No attachments and no meaningful email body");
       return res.status(200).json({ message: "No content to process" });
     }
 
-    console.log(`[Mailgun] Has ${files?.length || 0} attachments, hasEmailBody: ${hasEmailBody}`);
+    console.log(`[Mailgun] Has ${email.attachments.length} attachments, hasEmailBody: ${hasBody}`);
 
     // Send "received" notification immediately (before heavy processing)
     // This runs synchronously to ensure it executes in serverless environments
     try {
-      await sendProcessingNotification(user.id, "received", { subject });
+      await sendProcessingNotification(user.id, "received", { subject: email.subject });
       console.log(`[Mailgun] [${logTimestamp}] Sent received notification for user ${user.id} (${recipient})`);
     } catch (notifError) {
       console.error(`[Mailgun] [${logTimestamp}] Failed to send received notification for user ${user.id} (${recipient}):`, notifError);
     }
 
-    // AUDIT FIX: Respond 200 to Mailgun IMMEDIATELY, then process in background.
-    // Previously we used Promise.race with an 8s timeout, but complex documents
-    // (large images, multi-section itineraries) could exceed this and the
-    // processing promise might be killed in serverless environments after the
-    // response was sent. Now we respond first and process fully in background.
-    console.log(`[Mailgun] Responding to Mailgun after ${Date.now() - startTime}ms (pre-processing)`);
+    // Store supported attachments before acknowledging, so the job only
+    // carries URLs and a storage failure makes Mailgun redeliver the email
+    const queued = await enqueueEmailJob(user.id, email, { sender: sender || from || undefined });
+    if (!queued) {
+      console.log("[Mailgun] No supported attachments and no meaningful email body");
+      return res.status(200).json({ message: "No content to process" });
+    }
+    const { jobId, attachmentCount } = queued;
+
+    console.log(`[Mailgun] Queued job ${jobId}, responding after ${Date.now() - startTime}ms`);
 
     res.status(200).json({
       message: "Email received, processing started",
-      attachmentCount: files?.length || 0,
-      willParseBody: !hasAttachments && hasEmailBody,
-    });
-
-    // Fire-and-forget: process the email in the background
-    // (setImmediate ensures this runs after the response is flushed)
-    setImmediate(() => {
-      (async () => {
-        try {
-          if (hasAttachments) {
-            await processAttachmentsAsync(user.id, files!, subject);
-          } else if (hasEmailBody) {
-            await processEmailBodyAsync(user.id, bodyHtml, bodyPlain, subject, sender || from);
-          }
-          console.log(`[Mailgun] Background processing completed in ${Date.now() - startTime}ms`);
-        } catch (error) {
-          console.error("[Mailgun] Background processing failed:", error);
-          await sendProcessingNotification(user.id, "error", {
-            errorMessage: "Failed to process your email. Please try uploading directly in the app.",
-          }).catch(console.error);
-        }
-      })();
+      jobId,
+      attachmentCount,
+      willParseBody: attachmentCount === 0,
     });
 
   } catch (error) {
@@ -0,0 +1,58 @@
+/**
+ * Offline airport database
+ *
+ * Every airport with an IATA code, from the OpenFlights dataset bundled in
+ * airports.json (regenerate with `pnpm airports:build`). Used to check codes
+ * the AI extracts, to build navigation addresses, to find the time zone a
+ * flight departs or lands in, and to show city names next to codes.
+ */
+import AIRPORT_ROWS from "./airports.json";
+
+// [name, city, country, latitude, longitude, timeZone]
+export type AirportRow = [string, string, string, number, number, string | null];
+
+export interface Airport {
+  code: string;
+  name: string;
+  city: string;
+  country: string;
+  latitude: number;
+  longitude: number;
+  // IANA zone, e.g. "Europe/Rome"; null for the few airports without one
+  timeZone: string | null;
+}
+
+const AIRPORTS = AIRPORT_ROWS as unknown as Record<string, AirportRow>;
+
+export function getAirport(code: string | null | undefined): Airport | null {
+  const key = code?.trim().toUpperCase();
+  if (!key || !Object.prototype.hasOwnProperty.call(AIRPORTS, key)) return null;
+  const [name, city, country, latitude, longitude, timeZone] = AIRPORTS[key];
+  return { code: key, name, city, country, latitude, longitude, timeZone };
+}
+
+export function isKnownAirport(code: string | null | undefined): boolean {
+  return getAirport(code) !== null;
+}
+
+/**
+ * Address to navigate to, e.g. "Leonardo da Vinci–Fiumicino Airport, Rome,
+ * Italy, Terminal 3"
+ */
+export function getAirportAddress(code: string | null | undefined, terminal?: string | null): string | null {
+  const airport = getAirport(code);
+  if (!airport) return null;
+  const parts = [airport.name];
+  if (airport.city && !airport.name.includes(airport.city)) parts.push(airport.city);
+  parts.push(airport.country);
+  if (terminal) parts.push(`Terminal ${terminal}`);
+  return parts.join(", ");
+}
+
+/**
+ * e.g. "FCO (Rome)"; unknown codes are returned as they are
+ */
+export function formatAirportCode(code: string | undefined): string | undefined {
+  const airport = getAirport(code);
+  return airport?.city ? `${airport.code} (${airport.city})` : code;
+}
@@ -0,0 +1,43 @@
+import type { FieldConfidence, FieldConfidenceMap } from "../drizzle/schema";
+
+// Below this the field is highlighted for review and dates aren't trusted for auto-assignment
+export const LOW_CONFIDENCE_THRESHOLD = 0.7;
+
+// Date and time fields in DocumentDetails
+export const DETAIL_DATE_FIELDS = [
+  "departureTime",
+  "arrivalTime",
+  "checkInDate",
+  "checkOutDate",
+  "pickupTime",
+  "dropoffTime",
+  "eventDate",
+  "transferDate",
+  "startDate",
+  "endDate",
+];
+
+/**
+ * Whether a field should be shown for review. Fields without a score are
+ * not flagged, and nothing is flagged once the user has confirmed it.
+ */
+export function isLowConfidence(entry: FieldConfidence | undefined): boolean {
+  return !!entry && !entry.confirmed && entry.confidence < LOW_CONFIDENCE_THRESHOLD;
+}
+
+export function getLowConfidenceFields(confidence: FieldConfidenceMap | null | undefined): string[] {
+  if (!confidence) return [];
+  return Object.keys(confidence).filter((field) => isLowConfidence(confidence[field]));
+}
+
+/**
+ * Whether any date the document would be matched to a trip by is uncertain
+ */
+export function hasLowConfidenceDate(confidence: FieldConfidenceMap | null | undefined): boolean {
+  if (!confidence) return false;
+  return ["documentDate", ...DETAIL_DATE_FIELDS].some((field) => isLowConfidence(confidence[field]));
+}
+
+export function needsReview(confidence: FieldConfidenceMap | null | undefined): boolean {
+  return getLowConfidenceFields(confidence).length > 0;
+}
@@ -3,3 +3,5 @@ export const ONE_YEAR_MS = 1000 * 60 * 60 * 24 * 365;
 export const AXIOS_TIMEOUT_MS = 30_000;
 export const UNAUTHED_ERR_MSG = "Please login (10001)";
 export const NOT_ADMIN_ERR_MSG = "You do not have required permission (10002)";
+export const WALLET_PASS_MIME_TYPE = "application/vnd.apple.pkpass";
+export const EMAIL_MESSAGE_MIME_TYPE = "message/rfc822";
@@ -0,0 +1,39 @@
+import type { DocumentDetails, FlightSegment } from "../drizzle/schema";
+
+const LEG_FIELDS = [
+  "airline",
+  "flightNumber",
+  "departureAirport",
+  "arrivalAirport",
+  "departureTime",
+  "arrivalTime",
+  "terminal",
+  "gate",
+  "seatNumber",
+] as const satisfies ReadonlyArray<keyof FlightSegment>;
+
+/**
+ * Legs of a flight document in travel order. Single flights have no
+ * segments, so their details are the one leg; a flight with no route or
+ * time at all has none.
+ */
+export function getFlightLegs(doc: { details: unknown; segments?: unknown }): FlightSegment[] {
+  const segments = doc.segments as FlightSegment[] | null | undefined;
+  if (Array.isArray(segments) && segments.length > 0) return segments;
+
+  const details = (doc.details as DocumentDetails | null) ?? {};
+  if (!details.departureAirport && !details.arrivalAirport && !details.departureTime) return [];
+
+  const leg: FlightSegment = {};
+  for (const field of LEG_FIELDS) {
+    if (details[field]) leg[field] = details[field];
+  }
+  return [leg];
+}
+
+/**
+ * e.g. "TLV → FCO"
+ */
+export function formatLegRoute(leg: FlightSegment): string {
+  return `${leg.departureAirport || "?"} → ${leg.arrivalAirport || "?"}`;
+}
@@ -0,0 +1,214 @@
+/**
+ * Time zones for parsed bookings
+ *
+ * Documents print local wall-clock times with no offset ("2026-03-21T07:10").
+ * These helpers find the IANA zone a time belongs to from the airport
+ * database or the address it's attached to, convert wall time to a UTC
+ * instant, and format times in their own zone rather than the device's or
+ * the server's.
+ */
+import { getAirport } from "./airports";
+
+// Countries with a single time zone, by the names addresses use for them
+const COUNTRY_TIME_ZONES: Record<string, string> = {
+  israel: "Asia/Jerusalem",
+  "ישראל": "Asia/Jerusalem",
+  italy: "Europe/Rome",
+  italia: "Europe/Rome",
+  france: "Europe/Paris",
+  germany: "Europe/Berlin",
+  deutschland: "Europe/Berlin",
+  spain: "Europe/Madrid",
+  "españa": "Europe/Madrid",
+  "united kingdom": "Europe/London",
+  uk: "Europe/London",
+  england: "Europe/London",
+  scotland: "Europe/London",
+  ireland: "Europe/Dublin",
+  switzerland: "Europe/Zurich",
+  schweiz: "Europe/Zurich",
+  suisse: "Europe/Zurich",
+  svizzera: "Europe/Zurich",
+  austria: "Europe/Vienna",
+  "österreich": "Europe/Vienna",
+  netherlands: "Europe/Amsterdam",
+  belgium: "Europe/Brussels",
+  luxembourg: "Europe/Luxembourg",
+  "czech republic": "Europe/Prague",
+  czechia: "Europe/Prague",
+  hungary: "Europe/Budapest",
+  poland: "Europe/Warsaw",
+  slovenia: "Europe/Ljubljana",
+  croatia: "Europe/Zagreb",
+  greece: "Europe/Athens",
+  cyprus: "Asia/Nicosia",
+  turkey: "Europe/Istanbul",
+  "türkiye": "Europe/Istanbul",
+  denmark: "Europe/Copenhagen",
+  sweden: "Europe/Stockholm",
+  norway: "Europe/Oslo",
+  finland: "Europe/Helsinki",
+  iceland: "Atlantic/Reykjavik",
+  egypt: "Africa/Cairo",
+  jordan: "Asia/Amman",
+  "united arab emirates": "Asia/Dubai",
+  uae: "Asia/Dubai",
+  qatar: "Asia/Qatar",
+  india: "Asia/Kolkata",
+  thailand: "Asia/Bangkok",
+  singapore: "Asia/Singapore",
+  malaysia: "Asia/Kuala_Lumpur",
+  china: "Asia/Shanghai",
+  "hong kong": "Asia/Hong_Kong",
+  japan: "Asia/Tokyo",
+  "south korea": "Asia/Seoul",
+  korea: "Asia/Seoul",
+  "new zealand": "Pacific/Auckland",
+};
+
+interface WallTime {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  hasTime: boolean;
+  // The string carried its own offset ("Z" or "+02:00")
+  hasOffset: boolean;
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function getTimeZoneForAirport(code: string | null | undefined): string | null {
+  return getAirport(code)?.timeZone ?? null;
+}
+
+/**
+ * Zone of a place as written on a booking: an airport code or an address
+ * ending in a country.
+ */
+export function getTimeZoneForLocation(location: string | null | undefined): string | null {
+  if (!location) return null;
+
+  // "FCO", "FCO Terminal 3" or "Rome Fiumicino (FCO)"; other capitals in an
+  // address could be codes too, so only these positions count
+  const code = location.trim().match(/^([A-Z]{3})\b/)?.[1] ?? location.match(/\(([A-Z]{3})\)/)?.[1];
+  const airportZone = getTimeZoneForAirport(code);
+  if (airportZone) return airportZone;
+
+  const parts = location
+    .split(/[,\n]/)
+    .map((part) => part.replace(/[\d-]+/g, " ").trim().toLowerCase())
+    .filter(Boolean)
+    .reverse();
+  for (const part of parts.slice(0, 2)) {
+    if (COUNTRY_TIME_ZONES[part]) return COUNTRY_TIME_ZONES[part];
+  }
+  return null;
+}
+
+function parseWallTime(value: string): WallTime | null {
+  const match = value.trim().match(/^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::\d{2}(?:\.\d+)?)?)?\s*(Z|[+-]\d{2}:?\d{2})?$/);
+  if (!match) return null;
+  return {
+    year: Number(match[1]),
+    month: Number(match[2]),
+    day: Number(match[3]),
+    hour: Number(match[4] ?? 0),
+    minute: Number(match[5] ?? 0),
+    hasTime: match[4] !== undefined,
+    hasOffset: match[6] !== undefined,
+  };
+}
+
+// Minutes the zone is ahead of UTC at an instant
+function getOffsetMinutes(instant: number, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(new Date(instant));
+  const get = (type: string) => Number(parts.find((part) => part.type === type)?.value);
+  const asUtc = Date.UTC(get("year"), get("month") - 1, get("day"), get("hour"), get("minute"), get("second"));
+  return Math.round((asUtc - Math.floor(instant / 1000) * 1000) / 60000);
+}
+
+/**
+ * The instant a wall-clock time in a zone refers to. Strings that carry
+ * their own offset are taken as written.
+ */
+export function localToUtc(value: string | null | undefined, timeZone: string): Date | null {
+  if (!value) return null;
+  const wall = parseWallTime(value);
+  if (!wall) return null;
+  if (wall.hasOffset) return new Date(value);
+
+  const asUtc = Date.UTC(wall.year, wall.month - 1, wall.day, wall.hour, wall.minute);
+  const offset = getOffsetMinutes(asUtc, timeZone);
+  let instant = asUtc - offset * 60000;
+  // Around a DST change the offset at the result can differ from the guess
+  const corrected = getOffsetMinutes(instant, timeZone);
+  if (corrected !== offset) instant = asUtc - corrected * 60000;
+  return new Date(instant);
+}
+
+/**
+ * Wall-clock time of an instant in a zone, e.g. "2026-03-21T07:10:00"
+ */
+export function utcToLocal(instant: Date, timeZone: string): string {
+  const offset = getOffsetMinutes(instant.getTime(), timeZone);
+  return new Date(instant.getTime() + offset * 60000).toISOString().slice(0, 19);
+}
+
+/**
+ * YYYY-MM-DD of an instant in a zone (UTC when the zone isn't known)
+ */
+export function getLocalDay(instant: Date, timeZone: string | null | undefined): string {
+  return new Intl.DateTimeFormat("en-CA", {
+    timeZone: timeZone || "UTC",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  }).format(instant);
+}
+
+/**
+ * A document time as it reads where it happens, e.g. "Sat, Mar 21, 07:10
+ * GMT+2". The wall time is shown as printed; the zone only adds its name.
+ * Values that aren't ISO dates are returned unchanged.
+ */
+export function formatLocalTime(value: string | undefined, timeZone?: string | null): string | undefined {
+  if (!value) return value;
+  const wall = parseWallTime(value);
+  if (!wall) return value;
+
+  const options: Intl.DateTimeFormatOptions = { weekday: "short", month: "short", day: "numeric" };
+  if (wall.hasTime) Object.assign(options, { hour: "2-digit", minute: "2-digit", hour12: false });
+
+  // Formatting the wall time as UTC keeps the device's zone out of it
+  const formatted = new Date(Date.UTC(wall.year, wall.month - 1, wall.day, wall.hour, wall.minute)).toLocaleString("en-US", {
+    ...options,
+    timeZone: "UTC",
+  });
+  if (!wall.hasTime || !timeZone || wall.hasOffset) return formatted;
+
+  const instant = localToUtc(value, timeZone);
+  const zoneName = instant
+    ? new Intl.DateTimeFormat("en-US", { timeZone, timeZoneName: "short" })
+        .formatToParts(instant)
+        .find((part) => part.type === "timeZoneName")?.value
+    : undefined;
+  return zoneName ? `${formatted} ${zoneName}` : formatted;
+}
@@ -0,0 +1,31 @@
+import { describe, it, expect } from "vitest";
+import { formatAirportCode, getAirport, getAirportAddress, isKnownAirport } from "../shared/airports";
+
+describe("Airport database", () => {
+  it("should look airports up by IATA code, in any case", () => {
+    expect(getAirport("fco")).toEqual({
+      code: "FCO",
+      name: "Leonardo da Vinci–Fiumicino Airport",
+      city: "Rome",
+      country: "Italy",
+      latitude: 41.8003,
+      longitude: 12.2389,
+      timeZone: "Europe/Rome",
+    });
+    expect(getAirport("ETM")?.timeZone).toBe("Asia/Jerusalem");
+  });
+
+  it("should not know codes that don't exist", () => {
+    expect(isKnownAirport("FCX")).toBe(false);
+    expect(isKnownAirport("constructor")).toBe(false);
+    expect(getAirport(undefined)).toBeNull();
+  });
+
+  it("should build navigation addresses and city labels", () => {
+    expect(getAirportAddress("VRN")).toBe("Verona Villafranca Airport, Italy");
+    expect(getAirportAddress("JFK", "4")).toBe("John F Kennedy International Airport, New York, United States, Terminal 4");
+    expect(getAirportAddress("FCX")).toBeNull();
+    expect(formatAirportCode("FCO")).toBe("FCO (Rome)");
+    expect(formatAirportCode("FCX")).toBe("FCX");
+  });
+});
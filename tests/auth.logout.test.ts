@@ -21,7 +21,6 @@ function createAuthContext(): { ctx: TrpcContext; clearedCookies: CookieCall[] }
     loginMethod: "manus",
     role: "user",
     forwardingEmail: null,
-    credits: 20,
     subscriptionExpiresAt: null,
     paymentCustomerId: null,
     expoPushToken: null,
@@ -0,0 +1,143 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { deflateSync } from "zlib";
+import bwipjs from "bwip-js/node";
+import { ENV } from "../server/_core/env";
+import { applyBoardingPassBarcode, findBoardingPass, parseBcbp, readBoardingPassBarcode, type BoardingPass } from "../server/boardingPassBarcode";
+import { renderBarcodeSvg } from "../server/barcodes";
+
+// One leg's fixed fields, then its optional ones with their length in hex
+function leg(pnr: string, route: string, carrier: string, flight: string, day: string, seat: string, sequence: string, conditional = ""): string {
+  return `${pnr.padEnd(7)}${route}${carrier.padEnd(3)}${flight.padEnd(5)}${day}Y${seat}${sequence.padEnd(5)}1${conditional.length.toString(16).toUpperCase().padStart(2, "0")}${conditional}`;
+}
+
+const NAME = "COHEN/DANA".padEnd(20);
+const BCBP = `M1${NAME}E${leg("X7Y2QP", "TLVFCO", "LY", "0381", "080", "014A", "0042")}`;
+
+// A single-page PDF showing an Aztec code as an embedded gray image
+function pdfWithAztec(text: string): Buffer {
+  const [symbol] = bwipjs.raw("azteccode", text, "") as Array<{ pixs: number[]; pixx: number; pixy: number }>;
+  const scale = 6;
+  const quiet = 4 * scale;
+  const width = symbol.pixx * scale + quiet * 2;
+  const height = symbol.pixy * scale + quiet * 2;
+  const pixels = Buffer.alloc(width * height, 255);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const moduleX = Math.floor((x - quiet) / scale);
+      const moduleY = Math.floor((y - quiet) / scale);
+      if (moduleX >= 0 && moduleY >= 0 && moduleX < symbol.pixx && moduleY < symbol.pixy && symbol.pixs[moduleY * symbol.pixx + moduleX]) {
+        pixels[y * width + x] = 0;
+      }
+    }
+  }
+  const image = deflateSync(pixels);
+  return Buffer.concat([
+    Buffer.from("%PDF-1.4\n1 0 obj\n<< /Type /Catalog >>\nendobj\n", "latin1"),
+    Buffer.from(
+      `4 0 obj\n<< /Type /XObject /Subtype /Image /Width ${width} /Height ${height} /ColorSpace /DeviceGray /BitsPerComponent 8 /Filter /FlateDecode /Length ${image.length} >>\nstream\n`,
+      "latin1"
+    ),
+    image,
+    Buffer.from("\nendstream\nendobj\n%%EOF\n", "latin1"),
+  ]);
+}
+
+function flight(details: Record<string, string>) {
+  return {
+    category: "flight" as const,
+    documentType: "Boarding Pass",
+    title: `${details.departureAirport} → ${details.arrivalAirport}`,
+    subtitle: null,
+    details,
+    documentDate: null,
+    timeZone: null,
+    times: {},
+    validationWarnings: [{ field: "details.seatNumber", code: "missing_field" as const, message: "Seat not found" }],
+    fieldConfidence: { confirmationNumber: { confidence: 0.5 } },
+  };
+}
+
+describe("Boarding pass barcodes", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    ENV.storageFileHosts = "";
+  });
+
+  it("should read every leg of a BCBP and nothing from other barcodes", () => {
+    const connection = `M2${NAME}E${leg("X7Y2QP", "TLVFCO", "LY", "0381", "080", "014A", "0042", "31C>5180")}${leg("X7Y2QP", "FCOMAD", "AZ", "0060 ", "081", "022C", "0017")}`;
+
+    expect(parseBcbp(BCBP)).toEqual({
+      passengerName: "COHEN/DANA",
+      legs: [
+        {
+          confirmationNumber: "X7Y2QP",
+          departureAirport: "TLV",
+          arrivalAirport: "FCO",
+          flightNumber: "LY381",
+          dayOfYear: 80,
+          seatNumber: "14A",
+          sequenceNumber: "42",
+        },
+      ],
+    });
+    expect(parseBcbp(connection)?.legs.map((item) => `${item.flightNumber} ${item.departureAirport}-${item.arrivalAirport} ${item.seatNumber}`)).toEqual([
+      "LY381 TLV-FCO 14A",
+      "AZ60 FCO-MAD 22C",
+    ]);
+    expect(parseBcbp("https://www.elal.com/checkin")).toBeNull();
+    expect(parseBcbp(`M1${NAME}E${leg("X7Y2QP", "TLVFCO", "LY", "0381", "400", "014A", "0042")}`)).toBeNull();
+  });
+
+  it("should put the barcode's values over the AI's reading, or add the flight it missed", () => {
+    const pass: BoardingPass = { ...parseBcbp(BCBP)!, barcode: BCBP, barcodeFormat: "Aztec" };
+
+    const [corrected] = applyBoardingPassBarcode(
+      [flight({ flightNumber: "LY 381", departureAirport: "TLV", arrivalAirport: "FCD", departureTime: "2026-03-21T07:10:00", confirmationNumber: "X7Y20P" })],
+      pass
+    );
+
+    expect(corrected).toMatchObject({
+      title: "TLV → FCO",
+      timeZone: "Asia/Jerusalem",
+      details: {
+        flightNumber: "LY 381",
+        arrivalAirport: "FCO",
+        confirmationNumber: "X7Y2QP",
+        seatNumber: "14A",
+        barcode: BCBP,
+        barcodeFormat: "Aztec",
+      },
+      fieldConfidence: { confirmationNumber: { confidence: 1 }, arrivalAirport: { confidence: 1 } },
+      validationWarnings: [],
+    });
+    expect(corrected.documentDate?.toISOString()).toBe("2026-03-21T05:10:00.000Z");
+
+    const [added] = applyBoardingPassBarcode([], pass, new Date("2026-03-01T00:00:00Z"));
+    expect(added).toMatchObject({
+      category: "flight",
+      documentType: "Boarding Pass",
+      title: "TLV → FCO",
+      details: { flightNumber: "LY381", departureTime: "2026-03-21", seatNumber: "14A", barcode: BCBP },
+    });
+  });
+
+  it("should find the barcode in a photo or in a PDF's embedded image, and draw it again", async () => {
+    const photo = await bwipjs.toBuffer({ bcid: "pdf417", text: BCBP, scale: 3, padding: 10, backgroundcolor: "FFFFFF" });
+
+    expect(await findBoardingPass(photo, "image/png")).toMatchObject({ barcode: BCBP, barcodeFormat: "PDF417", legs: [{ flightNumber: "LY381" }] });
+    expect(await findBoardingPass(pdfWithAztec(BCBP), "application/pdf")).toMatchObject({ barcode: BCBP, barcodeFormat: "Aztec" });
+    expect(renderBarcodeSvg(BCBP, "Aztec")).toMatch(/^<svg[^>]+viewBox/);
+    expect(renderBarcodeSvg(BCBP, null)).toBeNull();
+  });
+
+  it("should only scan files from the app's storage", async () => {
+    ENV.storageFileHosts = "files.example.com";
+    const photo = await bwipjs.toBuffer({ bcid: "pdf417", text: BCBP, scale: 3, padding: 10, backgroundcolor: "FFFFFF" });
+    const fetchMock = vi.fn(async () => new Response(new Uint8Array(photo)));
+    vi.stubGlobal("fetch", fetchMock);
+
+    expect(await readBoardingPassBarcode("https://files.example.com/documents/7/pass.png", "image/png")).toMatchObject({ barcode: BCBP });
+    expect(await readBoardingPassBarcode("http://169.254.169.254/latest/meta-data/", "image/png")).toBeNull();
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
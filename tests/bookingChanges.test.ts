@@ -0,0 +1,129 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("../server/db", () => ({
+  getDocumentsByConfirmationNumber: vi.fn(),
+  updateDocument: vi.fn(),
+  createDocumentRevisions: vi.fn(),
+}));
+
+import * as db from "../server/db";
+import { applyBookingChange, describeBookingChanges } from "../server/bookingChanges";
+import type { ParsedDocument } from "../server/documentParser";
+import type { Document } from "../drizzle/schema";
+
+const booked = {
+  id: 5,
+  userId: 7,
+  tripId: 3,
+  category: "flight",
+  documentType: "E-Ticket",
+  title: "Flight to Rome",
+  subtitle: "TLV → FCO",
+  documentDate: new Date("2026-03-21T05:10:00Z"),
+  details: { airline: "El Al", flightNumber: "LY 381", departureAirport: "TLV", arrivalAirport: "FCO", departureTime: "2026-03-21T07:10:00", confirmationNumber: "X7Y2QP" },
+  segments: null,
+  fieldConfidence: {},
+  cancelledAt: null,
+} as unknown as Document;
+
+function parsed(overrides: Partial<ParsedDocument>): ParsedDocument {
+  return {
+    category: "flight",
+    documentType: "Schedule Change",
+    title: "Your flight time has changed",
+    subtitle: null,
+    details: { airline: "EL AL", confirmationNumber: "x7y2-qp", departureTime: "2026-03-21T09:40:00" },
+    documentDate: null,
+    timeZone: null,
+    times: {},
+    validationWarnings: [],
+    fieldConfidence: {},
+    ...overrides,
+  };
+}
+
+describe("Booking changes", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(db.getDocumentsByConfirmationNumber).mockResolvedValue([booked]);
+  });
+
+  it("should update the booking a schedule change is about and log what changed", async () => {
+    const change = await applyBookingChange(7, parsed({}));
+
+    expect(db.getDocumentsByConfirmationNumber).toHaveBeenCalledWith(7, "X7Y2QP");
+    expect(change).toMatchObject({ kind: "updated", documentId: 5, title: "Flight to Rome" });
+    // The airline and code are written differently but haven't changed
+    expect(change?.changes).toEqual([
+      { field: "details.departureTime", previousValue: "2026-03-21T07:10:00", newValue: "2026-03-21T09:40:00" },
+    ]);
+    // Fields the email leaves out and the title are kept
+    const update = vi.mocked(db.updateDocument).mock.calls[0][2];
+    expect(update.title).toBeUndefined();
+    expect(update.details).toMatchObject({ flightNumber: "LY 381", departureTime: "2026-03-21T09:40:00" });
+    expect(db.createDocumentRevisions).toHaveBeenCalledWith(
+      expect.arrayContaining([expect.objectContaining({ field: "details.departureTime", source: "update" })])
+    );
+    expect(describeBookingChanges(change!.changes)).toBe("Departure time: Sat, Mar 21, 07:10 → Sat, Mar 21, 09:40");
+  });
+
+  it("should mark the booking cancelled when a cancellation arrives", async () => {
+    const change = await applyBookingChange(7, parsed({ documentType: "Booking Cancellation", details: { confirmationNumber: "X7Y2QP" } }));
+
+    expect(change).toMatchObject({ kind: "cancelled", documentId: 5 });
+    expect(db.updateDocument).toHaveBeenCalledWith(5, 7, { cancelledAt: expect.any(Date) });
+  });
+
+  it("should treat a booking with another provider as new", async () => {
+    const change = await applyBookingChange(7, parsed({ details: { airline: "Wizz Air", confirmationNumber: "X7Y2QP" } }));
+
+    expect(change).toBeNull();
+    expect(db.updateDocument).not.toHaveBeenCalled();
+  });
+
+  it("should keep a re-sent confirmation that offers free cancellation live", async () => {
+    const change = await applyBookingChange(
+      7,
+      parsed({ documentType: "E-Ticket", title: "Flight to Rome", subtitle: "Free cancellation until 19 March", details: { confirmationNumber: "X7Y2QP", seatNumber: "14A" } })
+    );
+
+    expect(change).toMatchObject({ kind: "updated", documentId: 5 });
+    expect(db.updateDocument).not.toHaveBeenCalledWith(5, 7, { cancelledAt: expect.any(Date) });
+  });
+
+  it("should match each leg under one confirmation number to its own document", async () => {
+    const returnLeg = {
+      ...booked,
+      id: 6,
+      title: "Flight home",
+      details: { airline: "El Al", flightNumber: "LY 382", departureAirport: "FCO", arrivalAirport: "TLV", departureTime: "2026-03-28T12:30:00", confirmationNumber: "X7Y2QP" },
+    } as unknown as Document;
+    vi.mocked(db.getDocumentsByConfirmationNumber).mockResolvedValue([booked, returnLeg]);
+    const boardingPass = (details: Record<string, string>) =>
+      parsed({ documentType: "Boarding Pass", details: { airline: "El Al", confirmationNumber: "X7Y2QP", ...details } });
+
+    // The return boarding pass, read from its barcode
+    expect(await applyBookingChange(7, boardingPass({ flightNumber: "LY0382", departureAirport: "FCO", arrivalAirport: "TLV", seatNumber: "22C" }))).toMatchObject({
+      kind: "updated",
+      documentId: 6,
+    });
+    // The same route and day without a flight number
+    expect(await applyBookingChange(7, boardingPass({ departureAirport: "TLV", arrivalAirport: "FCO", departureTime: "2026-03-21T07:10:00", seatNumber: "14A" }))).toMatchObject({
+      documentId: 5,
+    });
+    // A leg the user doesn't have yet, and one that doesn't say which leg it is
+    expect(await applyBookingChange(7, boardingPass({ flightNumber: "AZ 60", departureAirport: "FCO", arrivalAirport: "MAD" }))).toBeNull();
+    expect(await applyBookingChange(7, boardingPass({ seatNumber: "3F" }))).toBeNull();
+    expect(vi.mocked(db.updateDocument).mock.calls.map(([id, , update]) => [id, (update.details as Record<string, string>).departureAirport])).toEqual([
+      [6, "FCO"],
+      [5, "TLV"],
+    ]);
+  });
+
+  it("should not update a document saved from the same source", async () => {
+    const change = await applyBookingChange(7, parsed({}), { excludeIds: [5] });
+
+    expect(change).toBeNull();
+    expect(db.updateDocument).not.toHaveBeenCalled();
+  });
+});
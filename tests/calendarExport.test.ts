@@ -0,0 +1,100 @@
+import { describe, it, expect } from "vitest";
+import { buildCalendar } from "../server/calendarExport";
+import type { Document } from "../drizzle/schema";
+
+let nextId = 1;
+
+function doc(overrides: Partial<Document>): Document {
+  return {
+    id: nextId++,
+    userId: 7,
+    tripId: 3,
+    category: "other",
+    documentType: "Confirmation",
+    title: "Booking",
+    subtitle: null,
+    documentDate: null,
+    timeZone: null,
+    details: {},
+    segments: null,
+    times: null,
+    cancelledAt: null,
+    updatedAt: new Date("2026-02-01T12:00:00Z"),
+    ...overrides,
+  } as Document;
+}
+
+const now = new Date("2026-03-01T08:00:00Z");
+
+// The VEVENT blocks of a calendar, each as its unfolded lines
+function events(calendar: string): string[][] {
+  return calendar
+    .replace(/\r\n /g, "")
+    .split("BEGIN:VEVENT\r\n")
+    .slice(1)
+    .map((block) => block.split("\r\n"));
+}
+
+describe("Calendar export", () => {
+  it("should put each flight leg at its UTC instant with the airport and confirmation number", () => {
+    const flight = doc({
+      category: "flight",
+      title: "TLV → FCO",
+      details: { airline: "El Al", flightNumber: "LY 381", departureAirport: "TLV", arrivalAirport: "FCO", departureTime: "2026-03-21T07:10:00", arrivalTime: "2026-03-21T10:25:00", confirmationNumber: "X7Y2QP", seatNumber: "14A" },
+      times: {
+        "details.departureTime": { local: "2026-03-21T07:10:00", timeZone: "Asia/Jerusalem", utc: "2026-03-21T05:10:00.000Z" },
+        "details.arrivalTime": { local: "2026-03-21T10:25:00", timeZone: "Europe/Rome", utc: "2026-03-21T09:25:00.000Z" },
+      },
+    });
+
+    const calendar = buildCalendar("Rome Ski Week", [flight], now);
+
+    expect(calendar.startsWith("BEGIN:VCALENDAR\r\nVERSION:2.0\r\n")).toBe(true);
+    expect(calendar).toContain("X-WR-CALNAME:Rome Ski Week\r\n");
+    const [event] = events(calendar);
+    expect(event).toEqual(
+      expect.arrayContaining([
+        `UID:document-${flight.id}-0@tripdochub`,
+        "DTSTAMP:20260301T080000Z",
+        "DTSTART:20260321T051000Z",
+        "DTEND:20260321T092500Z",
+        "SUMMARY:LY 381 TLV → FCO",
+        "DESCRIPTION:Confirmation: X7Y2QP\\nSeat 14A",
+      ])
+    );
+    expect(event.find((line) => line.startsWith("LOCATION:"))).toMatch(/^LOCATION:Ben Gurion/);
+  });
+
+  it("should span a hotel stay over its days and keep times it couldn't place as printed", () => {
+    const hotel = doc({
+      category: "accommodation",
+      title: "Hotel Artemide",
+      details: { hotelName: "Hotel Artemide", address: "Via Nazionale 22, 00184 Roma, Italia", checkInDate: "2026-03-21", checkOutDate: "2026-03-28" },
+    });
+    const concert = doc({ category: "event", title: "Opera", details: { eventName: "Tosca", eventDate: "2026-03-24", eventTime: "20:00", venue: "Teatro dell'Opera" } });
+
+    const [stay, opera] = events(buildCalendar("Rome", [hotel, concert], now));
+
+    expect(stay).toEqual(
+      expect.arrayContaining(["DTSTART;VALUE=DATE:20260321", "DTEND;VALUE=DATE:20260329", "LOCATION:Via Nazionale 22\\, 00184 Roma\\, Italia"])
+    );
+    expect(opera).toEqual(expect.arrayContaining(["DTSTART:20260324T200000", "DTEND:20260324T210000", "SUMMARY:Tosca"]));
+  });
+
+  it("should mark cancelled bookings, leave out undated ones and fold long lines", () => {
+    const cancelled = doc({
+      category: "carRental",
+      title: "Hertz",
+      subtitle: "A".repeat(120),
+      details: { carCompany: "Hertz", pickupTime: "2026-03-21T11:00:00", dropoffTime: "2026-03-28T09:00:00" },
+      cancelledAt: new Date("2026-02-20T10:00:00Z"),
+    });
+    const undated = doc({ title: "Packing list" });
+
+    const calendar = buildCalendar("Rome", [cancelled, undated], now);
+
+    expect(events(calendar)).toHaveLength(1);
+    expect(calendar).toContain("STATUS:CANCELLED\r\n");
+    expect(calendar.split("\r\n").every((line) => Buffer.byteLength(line) <= 75)).toBe(true);
+  });
+});
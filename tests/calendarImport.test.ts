@@ -0,0 +1,103 @@
+import { describe, it, expect } from "vitest";
+import { isCalendarFile, parseCalendar } from "../server/calendarImport";
+
+function calendar(...lines: string[]): string {
+  return ["BEGIN:VCALENDAR", "VERSION:2.0", "PRODID:-//Example//EN", ...lines, "END:VCALENDAR"].join("\r\n");
+}
+
+describe("Calendar import", () => {
+  it("should read a flight invite in UTC as local times at each airport", () => {
+    const [invite] = parseCalendar(
+      calendar(
+        "BEGIN:VEVENT",
+        "UID:ly381-20260321@elal.com",
+        "DTSTART:20260321T051000Z",
+        "DTEND:20260321T092500Z",
+        "SUMMARY:Flight LY 381 TLV - FCO",
+        "DESCRIPTION:Booking reference: X7Y2QP\\nSeat 14A",
+        "BEGIN:VALARM",
+        "TRIGGER:-PT3H",
+        "DESCRIPTION:Time to leave",
+        "END:VALARM",
+        "END:VEVENT"
+      )
+    );
+
+    expect(invite.uid).toBe("ly381-20260321@elal.com");
+    expect(invite.cancelled).toBe(false);
+    expect(invite.document).toMatchObject({
+      category: "flight",
+      documentType: "Calendar Invite",
+      subtitle: "TLV → FCO",
+      timeZone: "Asia/Jerusalem",
+      details: {
+        flightNumber: "LY 381",
+        departureAirport: "TLV",
+        arrivalAirport: "FCO",
+        departureTime: "2026-03-21T07:10:00",
+        arrivalTime: "2026-03-21T10:25:00",
+        confirmationNumber: "X7Y2QP",
+      },
+    });
+    expect(invite.document.documentDate?.toISOString()).toBe("2026-03-21T05:10:00.000Z");
+    expect(invite.document.fieldConfidence.departureTime).toEqual({ confidence: 1 });
+  });
+
+  it("should read a multi-night hotel booking as a stay and anything else as an event", () => {
+    const [stay, concert] = parseCalendar(
+      calendar(
+        "BEGIN:VEVENT",
+        "UID:4123456789@booking.com",
+        "DTSTART;VALUE=DATE:20260321",
+        "DTEND;VALUE=DATE:20260328",
+        "SUMMARY:Check-in: Hotel Artemide",
+        "LOCATION:Via Nazionale 22\\, 00184 Roma\\, Italia",
+        "DESCRIPTION:Confirmation number: 4123456789",
+        "END:VEVENT",
+        "BEGIN:VEVENT",
+        "UID:tosca@opera.example",
+        'DTSTART;TZID="Europe/Rome":20260324T200000',
+        "DTEND;TZID=Europe/Rome:20260324T230000",
+        "SUMMARY:Tosca",
+        "LOCATION:Teatro dell'Opera di Roma, Piazza Beniamino Gigli 7, ",
+        " 00184 Roma, Italy",
+        "END:VEVENT"
+      )
+    );
+
+    expect(stay.document).toMatchObject({
+      category: "accommodation",
+      title: "Check-in: Hotel Artemide",
+      subtitle: "Via Nazionale 22",
+      details: {
+        hotelName: "Hotel Artemide",
+        address: "Via Nazionale 22, 00184 Roma, Italia",
+        checkInDate: "2026-03-21",
+        checkOutDate: "2026-03-28",
+        confirmationNumber: "4123456789",
+      },
+    });
+    expect(concert.document).toMatchObject({
+      category: "event",
+      details: {
+        eventName: "Tosca",
+        eventDate: "2026-03-24",
+        eventTime: "20:00",
+        venueAddress: "Teatro dell'Opera di Roma, Piazza Beniamino Gigli 7, 00184 Roma, Italy",
+      },
+    });
+    expect(concert.document.details.confirmationNumber).toBeUndefined();
+  });
+
+  it("should recognise cancellations and calendar attachments sent under other types", () => {
+    const [invite] = parseCalendar(
+      calendar("METHOD:CANCEL", "BEGIN:VEVENT", "UID:tosca@opera.example", "DTSTART;VALUE=DATE:20260324", "SUMMARY:Tosca", "STATUS:CANCELLED", "END:VEVENT")
+    );
+
+    expect(invite).toMatchObject({ uid: "tosca@opera.example", cancelled: true, document: { documentType: "Cancellation" } });
+    expect(parseCalendar("not a calendar")).toEqual([]);
+    expect(isCalendarFile("application/octet-stream", "invite.ics")).toBe(true);
+    expect(isCalendarFile("text/calendar; method=REQUEST")).toBe(true);
+    expect(isCalendarFile("application/pdf", "ticket.pdf")).toBe(false);
+  });
+});
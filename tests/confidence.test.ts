@@ -0,0 +1,27 @@
+import { describe, it, expect } from "vitest";
+import { getLowConfidenceFields, hasLowConfidenceDate, isLowConfidence, needsReview } from "../shared/confidence";
+
+describe("Field confidence", () => {
+  it("should flag unconfirmed fields below the threshold", () => {
+    expect(isLowConfidence({ confidence: 0.5 })).toBe(true);
+    expect(isLowConfidence({ confidence: 0.5, confirmed: true })).toBe(false);
+    expect(isLowConfidence({ confidence: 0.9 })).toBe(false);
+    expect(isLowConfidence(undefined)).toBe(false);
+  });
+
+  it("should only treat date fields as low-confidence dates", () => {
+    const confidence = {
+      hotelName: { confidence: 0.4 },
+      checkInDate: { confidence: 0.95 },
+    };
+    expect(getLowConfidenceFields(confidence)).toEqual(["hotelName"]);
+    expect(needsReview(confidence)).toBe(true);
+    expect(hasLowConfidenceDate(confidence)).toBe(false);
+    expect(hasLowConfidenceDate({ ...confidence, documentDate: { confidence: 0.6 } })).toBe(true);
+  });
+
+  it("should handle documents parsed before confidence was recorded", () => {
+    expect(needsReview(null)).toBe(false);
+    expect(hasLowConfidenceDate(undefined)).toBe(false);
+  });
+});
@@ -0,0 +1,117 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("../server/db", () => ({
+  updateDocument: vi.fn(),
+  createDocumentRevisions: vi.fn(),
+}));
+
+import * as db from "../server/db";
+import { applyDocumentEdit, diffDocument, getUserEditedFields } from "../server/documentEdits";
+import type { Document, DocumentRevision } from "../drizzle/schema";
+
+function flightDoc(overrides: Partial<Document> = {}): Document {
+  return {
+    id: 5,
+    userId: 7,
+    tripId: null,
+    category: "flight",
+    documentType: "E-Ticket",
+    title: "Flight to Rome",
+    subtitle: "TLV → FCO",
+    documentDate: new Date("2026-03-21T00:00:00Z"),
+    details: { flightNumber: "LY 381", departureAirport: "TLV", arrivalAirport: "FC0" },
+    fieldConfidence: { arrivalAirport: { confidence: 0.3 } },
+    ...overrides,
+  } as Document;
+}
+
+describe("Document edits", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe("diffDocument", () => {
+    it("should only report fields whose value changes", () => {
+      const changes = diffDocument(flightDoc(), {
+        title: "Flight to Rome",
+        subtitle: null,
+        documentDate: new Date("2026-03-22T00:00:00Z"),
+        details: { flightNumber: "LY 381", arrivalAirport: "FCO", seatNumber: "" },
+      });
+
+      expect(changes).toEqual([
+        { field: "subtitle", previousValue: "TLV → FCO", newValue: null },
+        { field: "documentDate", previousValue: "2026-03-21T00:00:00.000Z", newValue: "2026-03-22T00:00:00.000Z" },
+        { field: "details.arrivalAirport", previousValue: "FC0", newValue: "FCO" },
+      ]);
+    });
+  });
+
+  describe("applyDocumentEdit", () => {
+    it("should update the document and log the previous and new values", async () => {
+      const changes = await applyDocumentEdit(7, flightDoc(), {
+        details: { arrivalAirport: "FCO", departureAirport: null },
+      });
+
+      expect(changes).toHaveLength(2);
+      expect(db.updateDocument).toHaveBeenCalledWith(5, 7, {
+        details: { flightNumber: "LY 381", arrivalAirport: "FCO" },
+        // Re-resolved with the details; this flight has no times to place
+        timeZone: null,
+        times: {},
+        fieldConfidence: {
+          arrivalAirport: { confidence: 0.3, confirmed: true },
+          departureAirport: { confidence: 1, confirmed: true },
+        },
+        validationWarnings: [
+          expect.objectContaining({ field: "details.departureAirport", code: "missing_field" }),
+          expect.objectContaining({ field: "details.departureTime", code: "missing_field" }),
+        ],
+      });
+      expect(db.createDocumentRevisions).toHaveBeenCalledWith([
+        { documentId: 5, userId: 7, field: "details.arrivalAirport", previousValue: "FC0", newValue: "FCO", source: "user" },
+        { documentId: 5, userId: 7, field: "details.departureAirport", previousValue: "TLV", newValue: null, source: "user" },
+      ]);
+    });
+
+    it("should not confirm fields changed by a re-parse", async () => {
+      await applyDocumentEdit(7, flightDoc(), { details: { arrivalAirport: "FCO" } }, { source: "reparse" });
+
+      const update = vi.mocked(db.updateDocument).mock.calls[0][2];
+      expect(update.fieldConfidence).toBeUndefined();
+      expect(db.createDocumentRevisions).toHaveBeenCalledWith([
+        expect.objectContaining({ field: "details.arrivalAirport", source: "reparse" }),
+      ]);
+    });
+
+    it("should confirm a field without logging a revision when nothing changed", async () => {
+      const changes = await applyDocumentEdit(7, flightDoc(), {}, { confirm: ["arrivalAirport"], update: { tripId: 3 } });
+
+      expect(changes).toEqual([]);
+      expect(db.updateDocument).toHaveBeenCalledWith(5, 7, {
+        tripId: 3,
+        fieldConfidence: { arrivalAirport: { confidence: 0.3, confirmed: true } },
+      });
+      expect(db.createDocumentRevisions).toHaveBeenCalledWith([]);
+    });
+
+    it("should not write anything for an edit that changes nothing", async () => {
+      await applyDocumentEdit(7, flightDoc(), { title: "Flight to Rome" });
+
+      expect(db.updateDocument).not.toHaveBeenCalled();
+      expect(db.createDocumentRevisions).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("getUserEditedFields", () => {
+    it("should keep the latest manual value of each field", () => {
+      const revisions = [
+        { field: "details.seatNumber", newValue: "12A", source: "user" },
+        { field: "details.gate", newValue: "B4", source: "reparse" },
+        { field: "details.seatNumber", newValue: "14C", source: "user" },
+      ] as DocumentRevision[];
+
+      expect(getUserEditedFields(revisions)).toEqual(new Map([["details.seatNumber", "14C"]]));
+    });
+  });
+});
@@ -0,0 +1,420 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+// Mock the database module
+vi.mock("../server/db", () => ({
+  chargeCredits: vi.fn(),
+  refundJobCharges: vi.fn(),
+  canProcessDocument: vi.fn(),
+  createDocument: vi.fn(),
+  getUserTrips: vi.fn(),
+  getUserTripDocuments: vi.fn(),
+  getDocumentByCalendarUid: vi.fn(),
+  getDocumentsByConfirmationNumber: vi.fn(),
+  updateDocument: vi.fn(),
+  createDocumentRevisions: vi.fn(),
+  getDocumentVersions: vi.fn(),
+  createDocumentVersion: vi.fn(),
+}));
+
+vi.mock("../server/documentParser", () => ({
+  parseDocument: vi.fn(),
+  parseEmailBody: vi.fn(),
+}));
+
+vi.mock("../server/pushNotification", () => ({
+  sendPushNotification: vi.fn().mockResolvedValue({ success: true }),
+  EmailProcessingNotifications: {
+    received: vi.fn(),
+    completed: vi.fn(),
+    error: vi.fn(),
+    noCredits: vi.fn(),
+    noBookingsFound: vi.fn(),
+  },
+  BookingChangeNotifications: {
+    updated: vi.fn(),
+    cancelled: vi.fn(),
+  },
+}));
+
+vi.mock("../server/walletPass", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("../server/walletPass")>();
+  return { ...actual, readWalletPass: vi.fn() };
+});
+
+vi.mock("../server/boardingPassBarcode", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("../server/boardingPassBarcode")>();
+  return { ...actual, readBoardingPassBarcode: vi.fn().mockResolvedValue(null) };
+});
+
+vi.mock("../server/pricing", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("../server/pricing")>();
+  return { ...actual, getPricingPolicy: vi.fn(() => actual.DEFAULT_PRICING_POLICY) };
+});
+
+// Capture handlers instead of running a real queue
+const handlers = new Map<string, (job: any, ctx: any) => Promise<any>>();
+vi.mock("../server/jobQueue", () => ({
+  registerJobHandler: (type: string, handler: (job: any, ctx: any) => Promise<any>) => {
+    handlers.set(type, handler);
+  },
+  enqueueJob: vi.fn().mockResolvedValue(77),
+}));
+
+vi.mock("../server/storage", () => ({
+  storagePut: vi.fn(async (key: string) => ({ key, url: `https://files.example.com/${key}` })),
+  fetchStoredFile: vi.fn(),
+}));
+
+import * as db from "../server/db";
+import { parseDocument } from "../server/documentParser";
+import { getPricingPolicy } from "../server/pricing";
+import { readWalletPass } from "../server/walletPass";
+import { parseBcbp, readBoardingPassBarcode } from "../server/boardingPassBarcode";
+import { enqueueJob } from "../server/jobQueue";
+import { fetchStoredFile, storagePut } from "../server/storage";
+import { enqueueEmailJob, registerDocumentJobHandlers, JOB_TYPES } from "../server/documentJobs";
+
+registerDocumentJobHandlers();
+
+const ctx = { attempt: 1, isFinalAttempt: false, saveProgress: vi.fn().mockResolvedValue(undefined) };
+
+function uploadJob() {
+  return {
+    id: 42,
+    userId: 7,
+    type: JOB_TYPES.upload,
+    payload: { fileUrl: "https://files.example.com/ticket.pdf", fileName: "ticket.pdf", mimeType: "application/pdf", tripId: null },
+    progress: null,
+  };
+}
+
+function parsedDoc(title: string) {
+  return {
+    category: "flight",
+    documentType: "E-Ticket",
+    title,
+    subtitle: null,
+    details: {},
+    documentDate: null,
+  };
+}
+
+describe("Document jobs credit handling", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(db.chargeCredits).mockImplementation(async (_userId, amount) => amount);
+    vi.mocked(db.refundJobCharges).mockResolvedValue(0);
+    vi.mocked(db.canProcessDocument).mockResolvedValue(true);
+    vi.mocked(db.getUserTrips).mockResolvedValue([]);
+    vi.mocked(db.getUserTripDocuments).mockResolvedValue([]);
+    vi.mocked(db.createDocument).mockResolvedValueOnce(100).mockResolvedValueOnce(101);
+  });
+
+  it("should charge once for the whole file however many bookings it contains", async () => {
+    vi.mocked(parseDocument).mockResolvedValue({
+      documents: [parsedDoc("Outbound"), parsedDoc("Return")] as any,
+      contentHash: "hash",
+    });
+
+    const result = await handlers.get(JOB_TYPES.upload)!(uploadJob(), ctx);
+
+    expect(result.count).toBe(2);
+    expect(db.chargeCredits).toHaveBeenCalledTimes(1);
+    expect(db.chargeCredits).toHaveBeenCalledWith(
+      7,
+      1,
+      expect.objectContaining({ jobId: 42, reference: "https://files.example.com/ticket.pdf" })
+    );
+  });
+
+  it("should save both flights of a round trip under one confirmation number", async () => {
+    const flight = (title: string) => ({ ...parsedDoc(title), details: { airline: "El Al", confirmationNumber: "X7Y2QP" }, validationWarnings: [], fieldConfidence: {} });
+    vi.mocked(parseDocument).mockResolvedValue({ documents: [flight("Outbound"), flight("Return")] as any, contentHash: "hash" });
+    // By the time the return leg is looked up, the outbound one is saved
+    vi.mocked(db.getDocumentsByConfirmationNumber)
+      .mockResolvedValueOnce([])
+      .mockResolvedValueOnce([{ id: 100, userId: 7, category: "flight", documentType: "E-Ticket", title: "Outbound", details: flight("Outbound").details } as any]);
+
+    const result = await handlers.get(JOB_TYPES.upload)!(uploadJob(), ctx);
+
+    expect(result).toMatchObject({ documentIds: [100, 101], count: 2 });
+    expect(db.updateDocument).not.toHaveBeenCalled();
+  });
+
+  it("should bill the remaining bookings after parsing with per-booking pricing", async () => {
+    vi.mocked(getPricingPolicy).mockReturnValueOnce({ mode: "per_booking", creditsPerUnit: 1, maxCreditsPerFile: null });
+    vi.mocked(parseDocument).mockResolvedValue({
+      documents: [parsedDoc("Outbound"), parsedDoc("Return")] as any,
+      contentHash: "hash",
+    });
+
+    const result = await handlers.get(JOB_TYPES.upload)!(uploadJob(), ctx);
+
+    // Both documents are saved before the remainder is charged
+    expect(result.count).toBe(2);
+    expect(db.chargeCredits).toHaveBeenCalledTimes(2);
+    expect(db.chargeCredits).toHaveBeenLastCalledWith(7, 1, expect.objectContaining({ jobId: 42 }), { allowPartial: true });
+  });
+
+  it("should keep documents with low-confidence dates in the inbox", async () => {
+    vi.mocked(db.getUserTrips).mockResolvedValue([
+      { id: 3, name: "Rome Ski Week", startDate: new Date("2026-03-21"), endDate: new Date("2026-03-28"), isArchived: false } as any,
+    ]);
+    vi.mocked(parseDocument).mockResolvedValue({
+      documents: [
+        { ...parsedDoc("Outbound"), documentDate: new Date("2026-03-21"), fieldConfidence: { documentDate: { confidence: 0.4 } } },
+      ] as any,
+      contentHash: "hash",
+    });
+
+    const result = await handlers.get(JOB_TYPES.upload)!(uploadJob(), ctx);
+
+    expect(db.getUserTrips).not.toHaveBeenCalled();
+    expect(db.createDocument).toHaveBeenCalledWith(expect.objectContaining({ tripId: null }));
+    expect(result.needsManualAssignment).toBe(true);
+  });
+
+  it("should refund when no documents are found", async () => {
+    vi.mocked(parseDocument).mockResolvedValue({ documents: [], contentHash: "hash" });
+
+    const result = await handlers.get(JOB_TYPES.upload)!(uploadJob(), ctx);
+
+    expect(result.count).toBe(0);
+    expect(db.refundJobCharges).toHaveBeenLastCalledWith(
+      7,
+      42,
+      expect.stringContaining("no bookings found"),
+      "https://files.example.com/ticket.pdf"
+    );
+  });
+
+  it("should refund and rethrow when parsing fails so the job is retried", async () => {
+    vi.mocked(parseDocument).mockResolvedValue({ documents: [], contentHash: "hash", error: "LLM timeout" });
+
+    await expect(handlers.get(JOB_TYPES.upload)!(uploadJob(), ctx)).rejects.toThrow("LLM timeout");
+
+    expect(db.refundJobCharges).toHaveBeenLastCalledWith(
+      7,
+      42,
+      expect.stringContaining("couldn't process"),
+      "https://files.example.com/ticket.pdf"
+    );
+    expect(db.createDocument).not.toHaveBeenCalled();
+  });
+
+  it("should keep what was saved when it fails partway and save only the rest on retry", async () => {
+    vi.mocked(db.createDocument).mockReset().mockResolvedValueOnce(100).mockRejectedValueOnce(new Error("Deadlock")).mockResolvedValueOnce(101);
+    vi.mocked(parseDocument).mockResolvedValue({
+      documents: [parsedDoc("Outbound"), parsedDoc("Return")] as any,
+      contentHash: "hash",
+    });
+    const job = uploadJob();
+    const checkpointCtx = { ...ctx, saveProgress: vi.fn(async (progress: unknown) => void (job.progress = progress as any)) };
+
+    await expect(handlers.get(JOB_TYPES.upload)!(job, checkpointCtx)).rejects.toThrow("Deadlock");
+    expect(db.refundJobCharges).toHaveBeenCalledTimes(1); // Only the pre-charge cleanup
+    const result = await handlers.get(JOB_TYPES.upload)!(job, { ...checkpointCtx, attempt: 2 });
+
+    expect(result).toMatchObject({ documentIds: [100, 101], count: 2 });
+    expect(parseDocument).toHaveBeenCalledTimes(1);
+    expect(db.chargeCredits).toHaveBeenCalledTimes(1);
+    expect(vi.mocked(db.createDocument).mock.calls.map(([doc]) => doc.title)).toEqual(["Outbound", "Return", "Return"]);
+  });
+
+  it("should not parse when the user is out of credits", async () => {
+    vi.mocked(db.chargeCredits).mockResolvedValue(null);
+
+    const result = await handlers.get(JOB_TYPES.upload)!(uploadJob(), ctx);
+
+    expect(result.outOfCredits).toBe(true);
+    expect(parseDocument).not.toHaveBeenCalled();
+  });
+
+  it("should read an uploaded wallet pass without charging or calling the parser", async () => {
+    vi.mocked(readWalletPass).mockResolvedValue({ documents: [parsedDoc("TLV → FCO")] as any, contentHash: "hash" });
+    const job = uploadJob();
+    job.payload = { fileUrl: "https://files.example.com/pass.pkpass", fileName: "pass.pkpass", mimeType: "application/vnd.apple.pkpass", tripId: null };
+
+    const result = await handlers.get(JOB_TYPES.upload)!(job, ctx);
+
+    expect(result.count).toBe(1);
+    expect(db.chargeCredits).not.toHaveBeenCalled();
+    expect(parseDocument).not.toHaveBeenCalled();
+    expect(db.createDocument).toHaveBeenCalledWith(
+      expect.objectContaining({ originalFileUrl: "https://files.example.com/pass.pkpass", originalFileMimeType: "application/vnd.apple.pkpass" })
+    );
+  });
+
+  it("should save the email's subject with documents parsed from its attachments", async () => {
+    vi.mocked(parseDocument).mockResolvedValue({ documents: [parsedDoc("TLV → FCO")] as any, contentHash: "hash" });
+    const job = {
+      id: 44,
+      userId: 7,
+      type: JOB_TYPES.emailAttachments,
+      payload: { files: [{ fileUrl: "https://files.example.com/ticket.pdf", fileName: "ticket.pdf", mimeType: "application/pdf" }], subject: "Your e-ticket" },
+      progress: null,
+    };
+
+    const result = await handlers.get(JOB_TYPES.emailAttachments)!(job, ctx);
+
+    expect(result.documentCount).toBe(1);
+    expect(db.createDocument).toHaveBeenCalledWith(expect.objectContaining({ emailSubject: "Your e-ticket", source: "email" }));
+  });
+
+  it("should save only the rest of an attachment that failed part-way on retry", async () => {
+    vi.mocked(db.createDocument).mockReset().mockResolvedValueOnce(100).mockRejectedValueOnce(new Error("Deadlock")).mockResolvedValueOnce(101);
+    vi.mocked(parseDocument).mockResolvedValue({ documents: [parsedDoc("Outbound"), parsedDoc("Return")] as any, contentHash: "hash" });
+    const job = {
+      id: 45,
+      userId: 7,
+      type: JOB_TYPES.emailAttachments,
+      payload: { files: [{ fileUrl: "https://files.example.com/itinerary.pdf", fileName: "itinerary.pdf", mimeType: "application/pdf" }], subject: "Your trip" },
+      progress: null as unknown,
+    };
+    const checkpointCtx = { ...ctx, saveProgress: vi.fn(async (progress: unknown) => void (job.progress = structuredClone(progress))) };
+
+    await expect(handlers.get(JOB_TYPES.emailAttachments)!(job, checkpointCtx)).rejects.toThrow("1 of 1 attachments failed");
+    expect(db.refundJobCharges).toHaveBeenCalledTimes(1); // Only the pre-charge cleanup
+    const result = await handlers.get(JOB_TYPES.emailAttachments)!(job, { ...checkpointCtx, attempt: 2 });
+
+    expect(result.documentCount).toBe(2);
+    expect(parseDocument).toHaveBeenCalledTimes(1);
+    expect(db.chargeCredits).toHaveBeenCalledTimes(1);
+    expect(vi.mocked(db.createDocument).mock.calls.map(([doc]) => doc.title)).toEqual(["Outbound", "Return", "Return"]);
+  });
+
+  it("should let a boarding pass barcode correct the parser's reading of the pass", async () => {
+    const barcode = "M1COHEN/DANA          EX7Y2QP TLVFCOLY 0381 080Y014A0042 100";
+    vi.mocked(db.getDocumentsByConfirmationNumber).mockResolvedValue([]);
+    vi.mocked(readBoardingPassBarcode).mockResolvedValueOnce({ ...parseBcbp(barcode)!, barcode, barcodeFormat: "PDF417" });
+    vi.mocked(parseDocument).mockResolvedValue({
+      documents: [{ ...parsedDoc("TLV → FCO"), details: { flightNumber: "LY381", departureAirport: "TLV", arrivalAirport: "FCO", seatNumber: "4A" }, validationWarnings: [], fieldConfidence: {} }] as any,
+      contentHash: "hash",
+    });
+
+    await handlers.get(JOB_TYPES.upload)!(uploadJob(), ctx);
+
+    expect(db.createDocument).toHaveBeenCalledWith(
+      expect.objectContaining({ details: expect.objectContaining({ seatNumber: "14A", confirmationNumber: "X7Y2QP", barcode, barcodeFormat: "PDF417" }) })
+    );
+  });
+});
+
+describe("Document jobs calendar invites", () => {
+  const invite = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "BEGIN:VEVENT",
+    "UID:tosca@opera.example",
+    "DTSTART;TZID=Europe/Rome:20260324T200000",
+    "SUMMARY:Tosca",
+    "LOCATION:Piazza Beniamino Gigli 7, 00184 Roma, Italy",
+    "END:VEVENT",
+    "END:VCALENDAR",
+  ].join("\r\n");
+
+  function attachmentsJob() {
+    return {
+      id: 43,
+      userId: 7,
+      type: JOB_TYPES.emailAttachments,
+      payload: { files: [{ fileUrl: "https://files.example.com/invite.ics", fileName: "invite.ics", mimeType: "text/calendar" }], subject: "Your tickets" },
+      progress: null,
+    };
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(fetchStoredFile).mockResolvedValue(Buffer.from(invite));
+    vi.mocked(db.getUserTrips).mockResolvedValue([]);
+    vi.mocked(db.getDocumentVersions).mockResolvedValue([]);
+  });
+
+  it("should save an invite without charging or calling the parser", async () => {
+    vi.mocked(db.getDocumentByCalendarUid).mockResolvedValue(undefined);
+
+    const result = await handlers.get(JOB_TYPES.emailAttachments)!(attachmentsJob(), ctx);
+
+    expect(result.documentCount).toBe(1);
+    expect(db.chargeCredits).not.toHaveBeenCalled();
+    expect(parseDocument).not.toHaveBeenCalled();
+    expect(db.createDocument).toHaveBeenCalledWith(
+      expect.objectContaining({
+        category: "event",
+        calendarUid: "tosca@opera.example",
+        details: expect.objectContaining({ eventDate: "2026-03-24", eventTime: "20:00" }),
+      })
+    );
+  });
+
+  it("should update the document an invite with the same UID came from", async () => {
+    vi.mocked(db.getDocumentByCalendarUid).mockResolvedValue({
+      id: 9,
+      userId: 7,
+      category: "event",
+      documentType: "Calendar Invite",
+      title: "Tosca",
+      details: { eventName: "Tosca", eventDate: "2026-03-24", eventTime: "19:30" },
+      segments: null,
+      fieldConfidence: {},
+      cancelledAt: null,
+    } as any);
+
+    const result = await handlers.get(JOB_TYPES.emailAttachments)!(attachmentsJob(), ctx);
+
+    expect(result.documentCount).toBe(1);
+    expect(db.createDocument).not.toHaveBeenCalled();
+    expect(db.updateDocument).toHaveBeenCalledWith(9, 7, expect.objectContaining({ details: expect.objectContaining({ eventTime: "20:00" }) }));
+  });
+});
+
+describe("Queueing uploaded and forwarded emails", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("should store the attachments it can parse and queue them for the trip the email was added to", async () => {
+    const result = await enqueueEmailJob(
+      7,
+      {
+        subject: "Your tickets",
+        html: "<p>Your tickets are attached</p>",
+        attachments: [
+          { fileName: "tickets.pdf", mimeType: "application/pdf", content: Buffer.from("%PDF") },
+          { fileName: "invite.ics", mimeType: "application/octet-stream", content: Buffer.from("BEGIN:VCALENDAR") },
+          { fileName: "terms.docx", mimeType: "application/msword", content: Buffer.from("doc") },
+        ],
+        inlineImages: [],
+      },
+      { tripId: 3 }
+    );
+
+    expect(result).toEqual({ jobId: 77, attachmentCount: 2 });
+    expect(storagePut).toHaveBeenCalledTimes(2);
+    expect(enqueueJob).toHaveBeenCalledWith(JOB_TYPES.emailAttachments, 7, {
+      subject: "Your tickets",
+      tripId: 3,
+      files: [
+        expect.objectContaining({ fileName: "tickets.pdf", mimeType: "application/pdf" }),
+        expect.objectContaining({ fileName: "invite.ics", mimeType: "text/calendar" }),
+      ],
+    });
+  });
+
+  it("should queue the body with its inline images stored when there's nothing attached", async () => {
+    const html = '<p>Booking reference X7Y2QP, TLV to FCO on 21 March</p><img src="cid:qr@elal">';
+
+    await enqueueEmailJob(7, {
+      subject: "Check-in confirmation",
+      from: "El Al <noreply@elal.com>",
+      html,
+      attachments: [],
+      inlineImages: [{ contentId: "qr@elal", fileName: "qr.png", mimeType: "image/png", content: Buffer.from("png") }],
+    });
+
+    const [, , payload] = vi.mocked(enqueueJob).mock.calls[0];
+    expect(payload).toMatchObject({ subject: "Check-in confirmation", sender: "El Al <noreply@elal.com>" });
+    expect((payload as { html: string }).html).toMatch(/<img src="https:\/\/files\.example\.com\/documents\/7\/[\w-]+-qr\.png">/);
+    expect(await enqueueEmailJob(7, { plain: "Thanks!", attachments: [], inlineImages: [] })).toBeNull();
+  });
+});
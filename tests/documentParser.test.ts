@@ -257,3 +257,206 @@ describe("Document Parser", () => {
     expect(result.documents[0].category).toBe("event");
   });
 });
+
+describe("Document Parser schema validation", () => {
+  function llmResponse(body: unknown) {
+    return {
+      id: "test-id",
+      created: Date.now(),
+      model: "gemini-2.5-flash",
+      choices: [
+        {
+          index: 0,
+          message: {
+            role: "assistant" as const,
+            content: typeof body === "string" ? body : JSON.stringify(body),
+          },
+          finish_reason: "stop",
+        },
+      ],
+    };
+  }
+
+  const hotel = {
+    category: "accommodation",
+    documentType: "Booking Confirmation",
+    title: "Hotel Miramonti",
+    subtitle: null,
+    documentDate: "2026-03-21",
+    details: {
+      hotelName: "Hotel Miramonti",
+      checkInDate: "2026-03-21",
+      checkOutDate: "2026-03-28",
+      numberOfNights: 7,
+      roomType: null,
+    },
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("should request the per-category JSON schema", async () => {
+    vi.mocked(invokeLLM).mockResolvedValue(llmResponse({ documents: [hotel] }));
+
+    const result = await parseDocument("https://example.com/hotel.pdf", "application/pdf");
+
+    expect(invokeLLM).toHaveBeenCalledTimes(1);
+    expect(vi.mocked(invokeLLM).mock.calls[0][0].response_format).toMatchObject({
+      type: "json_schema",
+      json_schema: { name: "travel_documents" },
+    });
+    expect(result.documents[0].details).not.toHaveProperty("roomType");
+    expect(result.documents[0].validationWarnings).toEqual([]);
+  });
+
+  it("should keep train tickets in their own category with their fields", async () => {
+    const train = {
+      category: "train",
+      documentType: "Train Ticket",
+      title: "Milano Centrale → Roma Termini",
+      subtitle: "Trenitalia FR 9517",
+      documentDate: "2026-03-18T09:10:00",
+      details: {
+        operator: "Trenitalia",
+        serviceNumber: "FR 9517",
+        departureStation: "Milano Centrale",
+        arrivalStation: "Roma Termini",
+        departureTime: "2026-03-18T09:10:00",
+        arrivalTime: "2026-03-18T12:20:00",
+        carriage: "7",
+        seatNumber: "12D",
+      },
+    };
+    vi.mocked(invokeLLM).mockResolvedValue(llmResponse({ documents: [train] }));
+
+    const result = await parseDocument("https://example.com/train.pdf", "application/pdf");
+
+    expect(invokeLLM).toHaveBeenCalledTimes(1);
+    expect(result.documents[0]).toMatchObject({ category: "train", details: train.details, validationWarnings: [] });
+  });
+
+  it("should keep every leg of a round trip on one flight document", async () => {
+    const roundTrip = {
+      category: "flight",
+      documentType: "eTicket",
+      title: "TLV → FCO → TLV",
+      documentDate: "2026-03-21",
+      details: { confirmationNumber: "X7K2PQ", airline: "El Al" },
+      segments: [
+        { flightNumber: "LY 381", departureAirport: "TLV", arrivalAirport: "FCO", departureTime: "2026-03-21T08:15:00", arrivalTime: "2026-03-21T11:40:00", seatNumber: "23A" },
+        { flightNumber: "LY 382", departureAirport: "FCO", arrivalAirport: "TLV", departureTime: "2026-03-28T12:50:00", arrivalTime: "2026-03-28T17:30:00", terminal: null },
+      ],
+    };
+    vi.mocked(invokeLLM).mockResolvedValue(llmResponse({ documents: [roundTrip] }));
+
+    const result = await parseDocument("https://example.com/ticket.pdf", "application/pdf");
+
+    expect(result.documents).toHaveLength(1);
+    expect(result.documents[0].segments).toEqual([
+      roundTrip.segments[0],
+      { flightNumber: "LY 382", departureAirport: "FCO", arrivalAirport: "TLV", departureTime: "2026-03-28T12:50:00", arrivalTime: "2026-03-28T17:30:00" },
+    ]);
+    // The details describe the first leg
+    expect(result.documents[0].details).toMatchObject({ confirmationNumber: "X7K2PQ", flightNumber: "LY 381", departureAirport: "TLV", arrivalAirport: "FCO" });
+    expect(result.documents[0].validationWarnings).toEqual([]);
+  });
+
+  it("should settle airports on known codes and flag unknown ones", async () => {
+    const flight = {
+      category: "flight",
+      documentType: "E-Ticket",
+      title: "TLV → FCO",
+      subtitle: null,
+      documentDate: "2026-03-21T07:10:00",
+      details: {
+        flightNumber: "LY 381",
+        departureAirport: "Tel Aviv (TLV)",
+        arrivalAirport: "FCX",
+        departureTime: "2026-03-21T07:10:00",
+        terminal: "3",
+      },
+    };
+    vi.mocked(invokeLLM).mockResolvedValue(llmResponse({ documents: [flight] }));
+
+    const result = await parseDocument("https://example.com/ticket.pdf", "application/pdf");
+    const [doc] = result.documents;
+
+    expect(doc.details).toMatchObject({
+      departureAirport: "TLV",
+      departureAddress: "Ben Gurion Airport, Tel Aviv, Israel, Terminal 3",
+      arrivalAirport: "FCX",
+    });
+    expect(doc.details).not.toHaveProperty("arrivalAddress");
+    expect(doc.validationWarnings).toEqual([
+      expect.objectContaining({ field: "details.arrivalAirport", message: '"FCX" is not a known airport code' }),
+    ]);
+    expect(doc.timeZone).toBe("Asia/Jerusalem");
+  });
+
+  it("should send one repair request when the response fails validation", async () => {
+    vi.mocked(invokeLLM)
+      .mockResolvedValueOnce(llmResponse({ documents: [{ ...hotel, details: { ...hotel.details, numberOfNights: "seven" } }] }))
+      .mockResolvedValueOnce(llmResponse({ documents: [hotel] }));
+
+    const result = await parseDocument("https://example.com/hotel.pdf", "application/pdf");
+
+    expect(invokeLLM).toHaveBeenCalledTimes(2);
+    const repairMessages = vi.mocked(invokeLLM).mock.calls[1][0].messages;
+    expect(repairMessages[1].role).toBe("assistant");
+    expect(String(repairMessages[2].content)).toContain("documents.0.details.numberOfNights");
+    expect(result.documents[0].validationWarnings).toEqual([]);
+  });
+
+  it("should keep documents with schema warnings when the repair also fails", async () => {
+    const broken = { documents: [{ ...hotel, title: 42 }] };
+    vi.mocked(invokeLLM).mockResolvedValue(llmResponse(broken));
+
+    const result = await parseDocument("https://example.com/hotel.pdf", "application/pdf");
+
+    expect(invokeLLM).toHaveBeenCalledTimes(2);
+    expect(result.error).toBeUndefined();
+    expect(result.documents).toHaveLength(1);
+    expect(result.documents[0].validationWarnings).toContainEqual(
+      expect.objectContaining({ field: "title", code: "schema" })
+    );
+  });
+
+  it("should key field confidence by field and lower it for flagged fields", async () => {
+    vi.mocked(invokeLLM).mockResolvedValue(
+      llmResponse({
+        documents: [
+          {
+            ...hotel,
+            details: { ...hotel.details, checkOutDate: "2026-03-14" },
+            fieldConfidence: [
+              { field: "hotelName", confidence: 0.95, source: "HOTEL MIRAMONTI" },
+              { field: "checkInDate", confidence: 0.5, source: "21/03" },
+              { field: "checkOutDate", confidence: 0.9 },
+              { field: "roomType", confidence: 0.9 },
+            ],
+          },
+        ],
+      })
+    );
+
+    const result = await parseDocument("https://example.com/hotel.pdf", "application/pdf");
+    const confidence = result.documents[0].fieldConfidence;
+
+    expect(confidence.hotelName).toEqual({ confidence: 0.95, source: "HOTEL MIRAMONTI" });
+    expect(confidence.checkInDate.confidence).toBe(0.5);
+    // Check-out before check-in fails the consistency check
+    expect(confidence.checkOutDate.confidence).toBe(0.3);
+    // Not extracted, so not kept
+    expect(confidence).not.toHaveProperty("roomType");
+  });
+
+  it("should fail the parse when neither response is JSON", async () => {
+    vi.mocked(invokeLLM).mockResolvedValue(llmResponse("Sorry, I can't help with that"));
+
+    const result = await parseDocument("https://example.com/hotel.pdf", "application/pdf");
+
+    expect(result.documents).toHaveLength(0);
+    expect(result.error).toBe("LLM returned invalid JSON");
+  });
+});
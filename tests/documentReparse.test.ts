@@ -0,0 +1,240 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("../server/db", () => ({
+  getDocumentById: vi.fn(),
+  getDocumentRevisions: vi.fn(),
+  updateDocument: vi.fn(),
+  createDocumentRevisions: vi.fn(),
+  chargeCredits: vi.fn(),
+  recordCreditTransaction: vi.fn(),
+}));
+
+vi.mock("../server/storage", () => ({
+  fetchStoredFile: vi.fn(),
+}));
+
+vi.mock("../server/documentParser", () => ({
+  parseDocument: vi.fn(),
+  parseEmailBody: vi.fn(),
+}));
+
+vi.mock("../server/boardingPassBarcode", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("../server/boardingPassBarcode")>();
+  return { ...actual, readBoardingPassBarcode: vi.fn().mockResolvedValue(null) };
+});
+
+import * as db from "../server/db";
+import { parseDocument, parseEmailBody, type ParsedDocument } from "../server/documentParser";
+import { fetchStoredFile } from "../server/storage";
+import {
+  chargeForReparse,
+  matchParsedDocument,
+  proposeReparse,
+  refundReparse,
+  reparseForBulk,
+  toDocumentEdit,
+} from "../server/documentReparse";
+import type { Document, DocumentRevision } from "../drizzle/schema";
+
+function storedDoc(overrides: Partial<Document> = {}): Document {
+  return {
+    id: 5,
+    userId: 7,
+    tripId: null,
+    category: "flight",
+    documentType: "E-Ticket",
+    title: "TLV → FCO",
+    subtitle: null,
+    documentDate: new Date("2026-03-21T00:00:00Z"),
+    details: { confirmationNumber: "ABC123", flightNumber: "LY381", seatNumber: "12A" },
+    fieldConfidence: null,
+    originalFileUrl: "https://files.example.com/ticket.pdf",
+    originalFileMimeType: "application/pdf",
+    originalEmailBody: null,
+    ...overrides,
+  } as Document;
+}
+
+function parsed(overrides: Partial<ParsedDocument> = {}): ParsedDocument {
+  return {
+    category: "flight",
+    documentType: "E-Ticket",
+    title: "TLV → FCO",
+    subtitle: null,
+    documentDate: new Date("2026-03-21T00:00:00Z"),
+    timeZone: null,
+    times: {},
+    details: { confirmationNumber: "ABC123", flightNumber: "LY381", seatNumber: "14C", terminal: "3" },
+    validationWarnings: [],
+    fieldConfidence: { terminal: { confidence: 0.9 } },
+    ...overrides,
+  };
+}
+
+describe("Document re-parsing", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(db.getDocumentRevisions).mockResolvedValue([]);
+  });
+
+  describe("matchParsedDocument", () => {
+    it("should pick the booking that matches the document from a multi-booking source", () => {
+      const hotel = parsed({ category: "accommodation", title: "Hotel Roma", details: { hotelName: "Hotel Roma" } });
+      const returnFlight = parsed({ title: "FCO → TLV", details: { confirmationNumber: "XYZ999", flightNumber: "LY382" } });
+      const outbound = parsed();
+
+      expect(matchParsedDocument(storedDoc(), [hotel, returnFlight, outbound])).toBe(outbound);
+    });
+
+    it("should return null when nothing resembles the document", () => {
+      const hotel = parsed({ category: "accommodation", title: "Hotel Roma", documentDate: null, details: {} });
+      const car = parsed({ category: "carRental", title: "Hertz", documentDate: null, details: {} });
+
+      expect(matchParsedDocument(storedDoc(), [hotel, car])).toBeNull();
+    });
+  });
+
+  describe("proposeReparse", () => {
+    it("should re-parse the stored file and list the changed fields", async () => {
+      vi.mocked(parseDocument).mockResolvedValue({ documents: [parsed()], contentHash: "hash" });
+
+      const proposal = await proposeReparse(7, storedDoc());
+
+      expect(parseDocument).toHaveBeenCalledWith("https://files.example.com/ticket.pdf", "application/pdf");
+      expect(proposal.changes).toEqual([
+        { field: "details.seatNumber", previousValue: "12A", newValue: "14C", userEdited: false },
+        { field: "details.terminal", previousValue: null, newValue: "3", userEdited: false },
+      ]);
+      expect(db.updateDocument).not.toHaveBeenCalled();
+    });
+
+    it("should re-parse the stored email body when there is no file", async () => {
+      vi.mocked(parseEmailBody).mockResolvedValue({ documents: [parsed()], contentHash: "hash" });
+
+      await proposeReparse(7, storedDoc({ originalFileUrl: null, originalEmailBody: "<p>Your booking</p>", emailSubject: "Booking" }));
+
+      expect(parseEmailBody).toHaveBeenCalledWith("<p>Your booking</p>", undefined, "Booking", undefined);
+    });
+
+    it("should read a calendar invite again instead of sending it to the AI", async () => {
+      const invite = [
+        "BEGIN:VCALENDAR",
+        "VERSION:2.0",
+        "BEGIN:VEVENT",
+        "UID:tosca@opera.example",
+        "DTSTART;TZID=Europe/Rome:20260324T200000",
+        "SUMMARY:Tosca",
+        "END:VEVENT",
+        "END:VCALENDAR",
+      ].join("\r\n");
+      vi.mocked(fetchStoredFile).mockResolvedValue(Buffer.from(invite));
+
+      const proposal = await proposeReparse(
+        7,
+        storedDoc({
+          category: "event",
+          title: "Tosca",
+          details: { eventName: "Tosca" },
+          originalFileUrl: "https://files.example.com/invite.ics",
+          originalFileMimeType: "text/calendar",
+        })
+      );
+
+      expect(parseDocument).not.toHaveBeenCalled();
+      expect(proposal.error).toBeUndefined();
+    });
+
+    it("should flag changes to fields the user corrected by hand", async () => {
+      vi.mocked(parseDocument).mockResolvedValue({ documents: [parsed()], contentHash: "hash" });
+      vi.mocked(db.getDocumentRevisions).mockResolvedValue([
+        { field: "details.seatNumber", previousValue: "21F", newValue: "12A", source: "user" },
+      ] as DocumentRevision[]);
+
+      const proposal = await proposeReparse(7, storedDoc());
+
+      expect(proposal.changes.find((change) => change.field === "details.seatNumber")?.userEdited).toBe(true);
+      expect(proposal.changes.find((change) => change.field === "details.terminal")?.userEdited).toBe(false);
+    });
+
+    it("should report parse failures without changes", async () => {
+      vi.mocked(parseDocument).mockResolvedValue({ documents: [], contentHash: "hash", error: "LLM timeout" });
+
+      const proposal = await proposeReparse(7, storedDoc());
+
+      expect(proposal).toEqual({ documentId: 5, changes: [], error: "LLM timeout" });
+    });
+  });
+
+  describe("chargeForReparse", () => {
+    it("should charge like processing the source the first time", async () => {
+      vi.mocked(db.chargeCredits).mockResolvedValue(1);
+
+      expect(await chargeForReparse(7, storedDoc())).toBe(1);
+      expect(db.chargeCredits).toHaveBeenCalledWith(7, 1, { documentId: 5, description: "Re-parsed TLV → FCO" });
+    });
+
+    it("should not charge for sources read without the AI", async () => {
+      expect(await chargeForReparse(7, storedDoc({ originalFileUrl: "https://files.example.com/invite.ics", originalFileMimeType: "text/calendar" }))).toBe(0);
+      expect(db.chargeCredits).not.toHaveBeenCalled();
+    });
+
+    it("should refund a failed re-parse", async () => {
+      await refundReparse(7, storedDoc(), 1);
+
+      expect(db.recordCreditTransaction).toHaveBeenCalledWith(
+        expect.objectContaining({ userId: 7, type: "refund", amount: 1, documentId: 5 })
+      );
+    });
+  });
+
+  describe("toDocumentEdit", () => {
+    it("should turn accepted changes back into an edit", () => {
+      expect(
+        toDocumentEdit([
+          { field: "title", value: "TLV → Rome" },
+          { field: "documentDate", value: "2026-03-22T00:00:00.000Z" },
+          { field: "details.gate", value: null },
+        ])
+      ).toEqual({
+        title: "TLV → Rome",
+        documentDate: new Date("2026-03-22T00:00:00.000Z"),
+        details: { gate: null },
+      });
+    });
+  });
+
+  describe("reparseForBulk", () => {
+    it("should apply everything except hand-edited fields", async () => {
+      vi.mocked(db.getDocumentById).mockResolvedValue(storedDoc());
+      vi.mocked(parseDocument).mockResolvedValue({ documents: [parsed()], contentHash: "hash" });
+      vi.mocked(db.getDocumentRevisions).mockResolvedValue([
+        { field: "details.seatNumber", previousValue: "21F", newValue: "12A", source: "user" },
+      ] as DocumentRevision[]);
+
+      const outcome = await reparseForBulk(7, 5, true);
+
+      expect(outcome).toEqual({ changed: 2, applied: 1, skippedUserEdits: 1 });
+      expect(db.updateDocument).toHaveBeenCalledWith(
+        5,
+        7,
+        expect.objectContaining({
+          details: { confirmationNumber: "ABC123", flightNumber: "LY381", seatNumber: "12A", terminal: "3" },
+          fieldConfidence: { terminal: { confidence: 0.9 } },
+        })
+      );
+      expect(db.createDocumentRevisions).toHaveBeenCalledWith([
+        expect.objectContaining({ field: "details.terminal", newValue: "3", source: "reparse" }),
+      ]);
+    });
+
+    it("should not save anything on a dry run", async () => {
+      vi.mocked(db.getDocumentById).mockResolvedValue(storedDoc());
+      vi.mocked(parseDocument).mockResolvedValue({ documents: [parsed()], contentHash: "hash" });
+
+      const outcome = await reparseForBulk(7, 5, false);
+
+      expect(outcome).toEqual({ changed: 2, applied: 0, skippedUserEdits: 0 });
+      expect(db.updateDocument).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,133 @@
+import { describe, it, expect } from "vitest";
+import { getDetailsSchemaKey, getValidationWarnings, parsedDocumentSchema, PARSE_RESPONSE_JSON_SCHEMA } from "../server/documentSchema";
+
+describe("Document schema", () => {
+  it("should pick the transfer and pass schemas for category other", () => {
+    expect(getDetailsSchemaKey("other", "Transfer")).toBe("transfer");
+    expect(getDetailsSchemaKey("other", "Skipass")).toBe("pass");
+    expect(getDetailsSchemaKey("other", "Train Ticket")).toBe("other");
+    expect(getDetailsSchemaKey("flight", "Boarding Pass")).toBe("flight");
+  });
+
+  it("should use the transport schemas for their own categories", () => {
+    expect(getDetailsSchemaKey("train", "Train Ticket")).toBe("train");
+    expect(getDetailsSchemaKey("ferry", "Boarding Pass")).toBe("ferry");
+    expect(getDetailsSchemaKey("transfer", "Shuttle")).toBe("transfer");
+  });
+
+  it("should describe each category in the response JSON schema", () => {
+    const schema = JSON.stringify(PARSE_RESPONSE_JSON_SCHEMA.schema);
+    expect(schema).toContain("departureAirport");
+    expect(schema).toContain("checkOutDate");
+    expect(schema).toContain("transferCompany");
+    expect(schema).toContain("activityName");
+    expect(schema).toContain("departureStation");
+  });
+
+  it("should keep details beyond a category's fields as text", () => {
+    const flight = parsedDocumentSchema.parse({
+      category: "flight",
+      documentType: "eTicket",
+      title: "TLV → FCO",
+      details: { flightNumber: "LY381", baggageAllowance: "23kg", mealPreference: "Vegetarian", checkedBags: 2 },
+    });
+    const shuttle = parsedDocumentSchema.parse({
+      category: "other",
+      documentType: "Shuttle",
+      title: "Airport shuttle",
+      details: { transferCompany: "Rome Shuttle", meetingPoint: "Arrivals hall, exit 3" },
+    });
+
+    expect(flight.details).toEqual({ flightNumber: "LY381", baggageAllowance: "23kg", mealPreference: "Vegetarian", checkedBags: "2" });
+    expect(shuttle.details).toMatchObject({ meetingPoint: "Arrivals hall, exit 3" });
+  });
+
+  describe("getValidationWarnings", () => {
+    it("should return no warnings for a complete flight", () => {
+      const warnings = getValidationWarnings({
+        category: "flight",
+        documentType: "eTicket",
+        documentDate: "2026-03-21T07:10:00",
+        details: {
+          flightNumber: "6H301",
+          departureAirport: "TLV",
+          arrivalAirport: "BGY",
+          departureTime: "2026-03-21T07:10:00",
+          arrivalTime: "2026-03-21T10:20:00",
+        },
+      });
+      expect(warnings).toEqual([]);
+    });
+
+    it("should flag missing fields, bad airport codes and impossible dates", () => {
+      const warnings = getValidationWarnings({
+        category: "flight",
+        documentType: "eTicket",
+        documentDate: "next Tuesday",
+        details: {
+          departureAirport: "Tel Aviv",
+          arrivalAirport: "BGY",
+          departureTime: "2026-03-21T07:10:00",
+          arrivalTime: "2026-03-20T10:20:00",
+        },
+      });
+
+      expect(warnings).toEqual(
+        expect.arrayContaining([
+          expect.objectContaining({ field: "details.flightNumber", code: "missing_field" }),
+          expect.objectContaining({ field: "details.departureAirport", code: "invalid_format" }),
+          expect.objectContaining({ field: "details.arrivalTime", code: "inconsistent" }),
+          expect.objectContaining({ field: "documentDate", code: "invalid_format" }),
+        ])
+      );
+    });
+
+    it("should require stations and departure time for trains", () => {
+      const warnings = getValidationWarnings({
+        category: "train",
+        documentType: "Train Ticket",
+        documentDate: "2026-03-18",
+        details: {
+          operator: "Trenitalia",
+          serviceNumber: "FR 9517",
+          departureStation: "Milano Centrale",
+          departureTime: "2026-03-18T09:10:00",
+          arrivalTime: "2026-03-18T08:00:00",
+        },
+      });
+      expect(warnings).toEqual([
+        { field: "details.arrivalStation", code: "missing_field", message: "Arrival station not found" },
+        { field: "details.arrivalTime", code: "inconsistent", message: "Arrival is before departure" },
+      ]);
+    });
+
+    it("should flag flight legs that are out of order", () => {
+      const warnings = getValidationWarnings({
+        category: "flight",
+        documentType: "eTicket",
+        documentDate: "2026-03-21",
+        details: { flightNumber: "LY 381", departureAirport: "TLV", arrivalAirport: "FCO", departureTime: "2026-03-21T08:15:00" },
+        segments: [
+          { departureAirport: "TLV", arrivalAirport: "FCO", departureTime: "2026-03-21T08:15:00", arrivalTime: "2026-03-21T11:40:00" },
+          { departureAirport: "FCO", arrivalAirport: "Tel Aviv", departureTime: "2026-03-21T10:00:00", arrivalTime: "2026-03-21T14:30:00" },
+        ],
+      });
+      expect(warnings).toEqual([
+        { field: "segments.1.arrivalAirport", code: "invalid_format", message: '"Tel Aviv" is not a 3-letter airport code' },
+        { field: "segments.1.departureTime", code: "inconsistent", message: "Leg 2 departs before leg 1 arrives" },
+      ]);
+    });
+
+    it("should check check-out against check-in", () => {
+      const warnings = getValidationWarnings({
+        category: "accommodation",
+        documentType: "Booking Confirmation",
+        documentDate: null,
+        details: { hotelName: "Hotel Miramonti", checkInDate: "2026-03-28", checkOutDate: "2026-03-21" },
+      });
+      expect(warnings).toEqual([
+        { field: "details.checkOutDate", code: "inconsistent", message: "Check-out is before check-in" },
+      ]);
+    });
+  });
+});
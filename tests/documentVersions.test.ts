@@ -0,0 +1,128 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("../server/db", () => ({
+  getDocumentById: vi.fn(),
+  getDocumentVersions: vi.fn(),
+  createDocumentVersion: vi.fn(),
+  updateDocument: vi.fn(),
+  createDocumentRevisions: vi.fn(),
+}));
+
+import * as db from "../server/db";
+import { addDocumentVersion, setCurrentVersion } from "../server/documentVersions";
+import type { ParsedDocument } from "../server/documentParser";
+import type { Document, DocumentVersion } from "../drizzle/schema";
+
+const receipt = {
+  id: 5,
+  userId: 7,
+  category: "flight",
+  documentType: "Receipt",
+  title: "Flight to Rome",
+  details: { airline: "El Al", departureTime: "2026-03-21T07:10:00", confirmationNumber: "X7Y2QP" },
+  segments: null,
+  documentDate: null,
+  originalFileUrl: "https://files.example.com/receipt.pdf",
+  originalFileName: "receipt.pdf",
+  originalFileMimeType: "application/pdf",
+  originalEmailBody: null,
+  emailSubject: "Your receipt",
+  source: "email",
+  contentHash: "hash-receipt",
+  fieldConfidence: {},
+  currentVersionId: null,
+  createdAt: new Date("2026-01-10T09:00:00Z"),
+} as unknown as Document;
+
+const eTicket: ParsedDocument = {
+  category: "flight",
+  documentType: "E-Ticket",
+  title: "Your e-ticket",
+  subtitle: null,
+  details: { airline: "El Al", departureTime: "2026-03-21T09:40:00", confirmationNumber: "X7Y2QP" },
+  documentDate: null,
+  timeZone: null,
+  times: {},
+  validationWarnings: [],
+  fieldConfidence: {},
+};
+
+const origin = {
+  originalFileUrl: "https://files.example.com/eticket.pdf",
+  originalFileName: "eticket.pdf",
+  originalFileMimeType: "application/pdf",
+  emailSubject: "Your e-ticket",
+  source: "email" as const,
+  contentHash: "hash-eticket",
+};
+
+describe("Document versions", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(db.getDocumentVersions).mockResolvedValue([]);
+    vi.mocked(db.createDocumentVersion).mockResolvedValueOnce(20).mockResolvedValueOnce(21);
+  });
+
+  it("should keep the first copy as a version and make the new one current", async () => {
+    const versionId = await addDocumentVersion(7, receipt, eTicket, origin);
+
+    expect(versionId).toBe(21);
+    expect(db.createDocumentVersion).toHaveBeenNthCalledWith(
+      1,
+      expect.objectContaining({ documentId: 5, documentType: "Receipt", originalFileUrl: "https://files.example.com/receipt.pdf", createdAt: receipt.createdAt })
+    );
+    expect(db.createDocumentVersion).toHaveBeenNthCalledWith(
+      2,
+      expect.objectContaining({ documentId: 5, documentType: "E-Ticket", originalFileUrl: "https://files.example.com/eticket.pdf" })
+    );
+    expect(db.updateDocument).toHaveBeenCalledWith(5, 7, expect.objectContaining({
+      currentVersionId: 21,
+      originalFileUrl: "https://files.example.com/eticket.pdf",
+      originalFileName: "eticket.pdf",
+      contentHash: "hash-eticket",
+    }));
+  });
+
+  it("should not add a version when the same file is forwarded again", async () => {
+    const versionId = await addDocumentVersion(7, receipt, eTicket, { ...origin, contentHash: "hash-receipt" });
+
+    expect(versionId).toBeNull();
+    expect(db.createDocumentVersion).not.toHaveBeenCalled();
+    expect(db.updateDocument).not.toHaveBeenCalled();
+  });
+
+  it("should bring back an older version's file and values when it's made current", async () => {
+    const current = {
+      ...receipt,
+      documentType: "E-Ticket",
+      details: { ...eTicket.details, seatNumber: "14C" },
+      originalFileUrl: origin.originalFileUrl,
+      currentVersionId: 21,
+    } as Document;
+    vi.mocked(db.getDocumentById).mockResolvedValue(current);
+    vi.mocked(db.getDocumentVersions).mockResolvedValue([
+      { ...receipt, id: 20, documentId: 5 } as unknown as DocumentVersion,
+      { ...origin, id: 21, documentId: 5, userId: 7, documentType: "E-Ticket", details: eTicket.details } as unknown as DocumentVersion,
+    ]);
+
+    const result = await setCurrentVersion(7, 5, 20);
+
+    expect(result).toEqual({ success: true });
+    const update = vi.mocked(db.updateDocument).mock.calls[0][2];
+    expect(update).toMatchObject({
+      currentVersionId: 20,
+      originalFileUrl: "https://files.example.com/receipt.pdf",
+      documentType: "Receipt",
+      details: { departureTime: "2026-03-21T07:10:00" },
+    });
+    // The seat was only on the newer version
+    expect(update.details).not.toHaveProperty("seatNumber");
+    expect(db.createDocumentRevisions).toHaveBeenCalledWith(
+      expect.arrayContaining([
+        expect.objectContaining({ field: "details.departureTime", source: "update" }),
+        expect.objectContaining({ field: "details.seatNumber", newValue: null, source: "update" }),
+      ])
+    );
+    expect(await setCurrentVersion(7, 5, 99)).toEqual({ success: false, error: "Version not found" });
+  });
+});
@@ -0,0 +1,127 @@
+import { describe, it, expect } from "vitest";
+import { hasEmailBody, isEmailMessage, isFreeEmail, parseEmailMessage, replaceContentIds } from "../server/emailMessage";
+
+function eml(...lines: string[]): Buffer {
+  return Buffer.from(lines.join("\r\n"), "latin1");
+}
+
+const PDF = Buffer.from("%PDF-1.4 boarding pass");
+
+describe("Email messages", () => {
+  it("should read the bodies, inline images and attachments of a saved email", () => {
+    const email = parseEmailMessage(
+      eml(
+        "From: El Al <noreply@elal.com>",
+        "Subject: =?UTF-8?B?WW91ciBmbGlnaHQgdG8gUm9tZSDinIg=?=",
+        "MIME-Version: 1.0",
+        'Content-Type: multipart/mixed; boundary="outer"',
+        "",
+        "This is a multi-part message in MIME format.",
+        "--outer",
+        'Content-Type: multipart/related; boundary="related"',
+        "",
+        "--related",
+        'Content-Type: multipart/alternative; boundary="alt"',
+        "",
+        "--alt",
+        "Content-Type: text/plain; charset=utf-8",
+        "",
+        "Booking reference X7Y2QP",
+        "--alt",
+        "Content-Type: text/html; charset=iso-8859-1",
+        "Content-Transfer-Encoding: quoted-printable",
+        "",
+        '<p>Caf=E9 on board. Booking reference X7Y2QP</p><img src=3D"cid:logo@elal">=',
+        "",
+        "--alt--",
+        "--related",
+        "Content-Type: image/png",
+        "Content-ID: <logo@elal>",
+        "Content-Transfer-Encoding: base64",
+        "",
+        Buffer.from("png logo").toString("base64"),
+        "--related--",
+        "--outer",
+        "Content-Type: application/pdf",
+        "Content-Disposition: attachment; filename*=utf-8''Bordkarte%20M%C3%BCnchen.pdf",
+        "Content-Transfer-Encoding: base64",
+        "",
+        PDF.toString("base64").replace(/(.{8})/g, "$1\r\n"),
+        "--outer--",
+        ""
+      )
+    );
+
+    expect(email).toMatchObject({
+      subject: "Your flight to Rome ✈",
+      from: "El Al <noreply@elal.com>",
+      plain: "Booking reference X7Y2QP",
+      html: '<p>Café on board. Booking reference X7Y2QP</p><img src="cid:logo@elal">',
+      inlineImages: [{ contentId: "logo@elal", mimeType: "image/png" }],
+    });
+    expect(email.attachments).toHaveLength(1);
+    expect(email.attachments[0]).toMatchObject({ fileName: "Bordkarte München.pdf", mimeType: "application/pdf" });
+    expect(email.attachments[0].content.equals(PDF)).toBe(true);
+    expect(email.inlineImages[0].content.toString()).toBe("png logo");
+  });
+
+  it("should read a forwarded email into the forwarder's, with its invite and pasted photo", () => {
+    const email = parseEmailMessage(
+      eml(
+        "From: Dana Cohen <dana@example.com>",
+        "Subject: Fwd: Tosca tickets",
+        'Content-Type: multipart/mixed; boundary="fwd"',
+        "",
+        "--fwd",
+        "Content-Type: text/plain",
+        "",
+        "See below",
+        "--fwd",
+        "Content-Type: message/rfc822",
+        "",
+        "From: Teatro dell'Opera <tickets@operaroma.it>",
+        "Subject: Your tickets",
+        'Content-Type: multipart/alternative; boundary="inner"',
+        "",
+        "--inner",
+        "Content-Type: text/html",
+        "",
+        "<p>Tosca, 24 March 2026, 20:00, Platea F 12</p>",
+        "--inner",
+        "Content-Type: text/calendar; method=REQUEST",
+        "",
+        "BEGIN:VCALENDAR",
+        "END:VCALENDAR",
+        "--inner--",
+        "--fwd",
+        "Content-Type: image/jpeg",
+        "Content-ID: <photo>",
+        "",
+        "jpeg bytes",
+        "--fwd--"
+      )
+    );
+
+    expect(email.subject).toBe("Fwd: Tosca tickets");
+    expect(email.plain).toBe("See below");
+    expect(email.html).toContain("From: Teatro dell'Opera &lt;tickets@operaroma.it&gt;<br>Subject: Your tickets");
+    expect(email.html).toContain("<p>Tosca, 24 March 2026, 20:00, Platea F 12</p>");
+    expect(email.attachments.map((file) => [file.fileName, file.mimeType])).toEqual([
+      ["invite.ics", "text/calendar"],
+      ["attachment-2.jpg", "image/jpeg"],
+    ]);
+    expect(email.inlineImages).toEqual([]);
+    expect(isFreeEmail(email)).toBe(false);
+  });
+
+  it("should recognise saved emails and point inline images at stored copies", () => {
+    expect(isEmailMessage("application/octet-stream", "Booking confirmation.eml")).toBe(true);
+    expect(isEmailMessage("message/rfc822")).toBe(true);
+    expect(isEmailMessage("application/pdf", "ticket.pdf")).toBe(false);
+    expect(replaceContentIds('<img src="cid:logo@elal"><img src="cid:other">', new Map([["logo@elal", "https://files.example.com/logo.png"]]))).toBe(
+      '<img src="https://files.example.com/logo.png"><img src="cid:other">'
+    );
+    expect(hasEmailBody({ plain: "Thanks!" })).toBe(false);
+    expect(isFreeEmail({ attachments: [{ fileName: "invite.ics", mimeType: "text/calendar", content: Buffer.from("") }], inlineImages: [] })).toBe(true);
+  });
+});
@@ -0,0 +1,25 @@
+import { describe, it, expect } from "vitest";
+import { formatLegRoute, getFlightLegs } from "../shared/flightLegs";
+
+describe("Flight legs", () => {
+  it("should use the segments of a multi-leg booking", () => {
+    const segments = [
+      { flightNumber: "LY 381", departureAirport: "TLV", arrivalAirport: "FCO" },
+      { flightNumber: "LY 382", departureAirport: "FCO", arrivalAirport: "TLV" },
+    ];
+    expect(getFlightLegs({ details: { flightNumber: "LY 381" }, segments })).toBe(segments);
+  });
+
+  it("should treat the details of a single flight as its one leg", () => {
+    const legs = getFlightLegs({
+      details: { confirmationNumber: "X7K2PQ", flightNumber: "LY 381", departureAirport: "TLV", arrivalAirport: "FCO", departureTime: "2026-03-21T08:15:00" },
+      segments: null,
+    });
+    expect(legs).toEqual([{ flightNumber: "LY 381", departureAirport: "TLV", arrivalAirport: "FCO", departureTime: "2026-03-21T08:15:00" }]);
+    expect(formatLegRoute(legs[0])).toBe("TLV → FCO");
+  });
+
+  it("should return no legs for a flight without route or time", () => {
+    expect(getFlightLegs({ details: { confirmationNumber: "X7K2PQ" } })).toEqual([]);
+  });
+});
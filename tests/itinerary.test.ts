@@ -0,0 +1,91 @@
+import { describe, it, expect } from "vitest";
+import { buildItinerary, toLocalDateTime } from "../server/itinerary";
+import type { Document } from "../drizzle/schema";
+
+let nextId = 1;
+
+function doc(overrides: Partial<Document>): Document {
+  return {
+    id: nextId++,
+    userId: 7,
+    tripId: 3,
+    category: "other",
+    documentType: "Confirmation",
+    title: "Booking",
+    subtitle: null,
+    documentDate: null,
+    details: {},
+    segments: null,
+    ...overrides,
+  } as Document;
+}
+
+const trip = { startDate: new Date("2026-03-21T00:00:00Z"), endDate: new Date("2026-03-24T00:00:00Z") };
+
+describe("Trip itinerary", () => {
+  it("should keep the wall-clock time printed on the document", () => {
+    expect(toLocalDateTime("2026-03-21T23:40:00")).toEqual({ date: "2026-03-21", time: "23:40" });
+    expect(toLocalDateTime("2026-03-21T23:40:00+02:00")).toEqual({ date: "2026-03-21", time: "23:40" });
+    expect(toLocalDateTime("2026-03-21T00:00:00", "checkInDate")).toEqual({ date: "2026-03-21", time: null });
+    expect(toLocalDateTime("not a date")).toBeNull();
+  });
+
+  it("should order a day's entries by local time", () => {
+    const flight = doc({
+      category: "flight",
+      details: { flightNumber: "LY 381", departureAirport: "TLV", arrivalAirport: "FCO", departureTime: "2026-03-21T08:15:00", arrivalTime: "2026-03-21T11:30:00", terminal: "3" },
+    });
+    const car = doc({ category: "carRental", details: { carCompany: "Hertz", pickupTime: "2026-03-21T12:30:00", pickupLocation: "FCO Terminal 3" } });
+    const hotel = doc({ category: "accommodation", details: { hotelName: "Hotel Artemide", checkInDate: "2026-03-21" } });
+    const event = doc({ category: "event", details: { eventName: "Tosca", eventDate: "2026-03-21", eventTime: "8:00 PM" } });
+
+    const { days } = buildItinerary(trip, [event, hotel, car, flight]);
+    const first = days[0];
+
+    expect(first).toMatchObject({ date: "2026-03-21", dayNumber: 1 });
+    expect(first.entries.map((e) => [e.kind, e.time])).toEqual([
+      ["departure", "08:15"],
+      ["arrival", "11:30"],
+      ["pickup", "12:30"],
+      ["checkIn", null],
+      ["event", "20:00"],
+    ]);
+    expect(first.entries[0]).toMatchObject({ title: "LY 381 · TLV → FCO", detail: "Terminal 3" });
+  });
+
+  it("should show an overnight band for every night of a stay", () => {
+    const hotel = doc({
+      category: "accommodation",
+      details: { hotelName: "Hotel Artemide", checkInDate: "2026-03-21", checkOutDate: "2026-03-24" },
+    });
+
+    const { days } = buildItinerary(trip, [hotel]);
+
+    expect(days.map((d) => [d.date, d.overnight.map((o) => `${o.night}/${o.nights}`)])).toEqual([
+      ["2026-03-21", ["1/3"]],
+      ["2026-03-22", ["2/3"]],
+      ["2026-03-23", ["3/3"]],
+      ["2026-03-24", []],
+    ]);
+    expect(days[3].entries).toMatchObject([{ kind: "checkOut", title: "Check out · Hotel Artemide" }]);
+  });
+
+  it("should add days outside the trip and list undated documents", () => {
+    const flight = doc({
+      category: "flight",
+      details: { flightNumber: "LY 382" },
+      segments: [
+        { flightNumber: "LY 381", departureAirport: "TLV", arrivalAirport: "FCO", departureTime: "2026-03-20T22:00:00" },
+        { flightNumber: "LY 382", departureAirport: "FCO", arrivalAirport: "TLV", departureTime: "2026-03-24T18:00:00" },
+      ],
+    });
+    const note = doc({ category: "other", title: "Packing list" });
+
+    const itinerary = buildItinerary(trip, [flight, note]);
+
+    expect(itinerary.days[0]).toMatchObject({ date: "2026-03-20", dayNumber: null });
+    expect(itinerary.days[0].entries[0].title).toBe("LY 381 · TLV → FCO");
+    expect(itinerary.days.at(-1)?.entries[0].title).toBe("LY 382 · FCO → TLV");
+    expect(itinerary.undatedDocumentIds).toEqual([note.id]);
+  });
+});
@@ -0,0 +1,156 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+// Mock the database module
+vi.mock("../server/db", () => ({
+  createJob: vi.fn(),
+  getJobById: vi.fn(),
+  getDueJobs: vi.fn(),
+  claimJob: vi.fn(),
+  updateJobProgress: vi.fn(),
+  completeJob: vi.fn(),
+  rescheduleJob: vi.fn(),
+  markJobDead: vi.fn(),
+  requeueStaleJobs: vi.fn(),
+  createJobAttempt: vi.fn(),
+  finishJobAttempt: vi.fn(),
+  cancelJob: vi.fn(),
+  retryJob: vi.fn(),
+}));
+
+import * as db from "../server/db";
+import { getRetryDelayMs, registerJobHandler, processDueJobs, cancelJob, retryJob, jobEvents } from "../server/jobQueue";
+import type { Job } from "../drizzle/schema";
+
+function makeJob(overrides: Partial<Job> = {}): Job {
+  return {
+    id: 1,
+    userId: 7,
+    type: "test",
+    status: "queued",
+    payload: { value: 1 },
+    progress: null,
+    result: null,
+    attempts: 0,
+    maxAttempts: 3,
+    runAt: new Date(),
+    lockedAt: null,
+    lastError: null,
+    completedAt: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  };
+}
+
+describe("Job Queue", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(db.createJob).mockResolvedValue(1);
+    vi.mocked(db.createJobAttempt).mockResolvedValue(10);
+    vi.mocked(db.finishJobAttempt).mockResolvedValue(undefined);
+    vi.mocked(db.rescheduleJob).mockResolvedValue(undefined);
+    vi.mocked(db.markJobDead).mockResolvedValue(undefined);
+    vi.mocked(db.requeueStaleJobs).mockResolvedValue(0);
+    vi.mocked(db.claimJob).mockResolvedValue(true);
+    vi.mocked(db.getDueJobs).mockResolvedValue([]);
+  });
+
+  describe("getRetryDelayMs", () => {
+    it("should back off exponentially", () => {
+      expect(getRetryDelayMs(1)).toBe(30_000);
+      expect(getRetryDelayMs(2)).toBe(60_000);
+      expect(getRetryDelayMs(3)).toBe(120_000);
+    });
+
+    it("should cap the delay at one hour", () => {
+      expect(getRetryDelayMs(20)).toBe(60 * 60 * 1000);
+    });
+  });
+
+  describe("processDueJobs", () => {
+    it("should complete the job and record a successful attempt", async () => {
+      vi.mocked(db.getDueJobs).mockResolvedValue([makeJob({ type: "run_ok" })]);
+      registerJobHandler("run_ok", async (job) => ({ doubled: (job.payload as { value: number }).value * 2 }));
+
+      await processDueJobs();
+
+      expect(db.claimJob).toHaveBeenCalledWith(1);
+      expect(db.createJobAttempt).toHaveBeenCalledWith(1, 1);
+      expect(db.finishJobAttempt).toHaveBeenCalledWith(10, "succeeded");
+      expect(db.completeJob).toHaveBeenCalledWith(1, { doubled: 2 });
+    });
+
+    it("should skip jobs claimed by another worker", async () => {
+      vi.mocked(db.getDueJobs).mockResolvedValue([makeJob({ type: "run_skip" })]);
+      vi.mocked(db.claimJob).mockResolvedValue(false);
+      const handler = vi.fn();
+      registerJobHandler("run_skip", handler);
+
+      await processDueJobs();
+
+      expect(handler).not.toHaveBeenCalled();
+      expect(db.createJobAttempt).not.toHaveBeenCalled();
+    });
+
+    it("should reschedule with backoff when an attempt fails", async () => {
+      vi.mocked(db.getDueJobs).mockResolvedValue([makeJob({ type: "run_retry", attempts: 1 })]);
+      registerJobHandler("run_retry", async () => {
+        throw new Error("LLM timeout");
+      });
+
+      const before = Date.now();
+      await processDueJobs();
+
+      expect(db.createJobAttempt).toHaveBeenCalledWith(1, 2);
+      expect(db.finishJobAttempt).toHaveBeenCalledWith(10, "failed", "LLM timeout");
+      expect(db.rescheduleJob).toHaveBeenCalledWith(1, expect.any(Date), "LLM timeout");
+      const runAt = vi.mocked(db.rescheduleJob).mock.calls[0][1];
+      expect(runAt.getTime()).toBeGreaterThanOrEqual(before + getRetryDelayMs(2));
+      expect(db.markJobDead).not.toHaveBeenCalled();
+    });
+
+    it("should dead-letter the job and call onDead when out of attempts", async () => {
+      vi.mocked(db.getDueJobs).mockResolvedValue([makeJob({ type: "run_dead", attempts: 2, maxAttempts: 3 })]);
+      const onDead = vi.fn().mockResolvedValue(undefined);
+      registerJobHandler(
+        "run_dead",
+        async () => {
+          throw new Error("Unreadable file");
+        },
+        { onDead }
+      );
+
+      await processDueJobs();
+
+      expect(db.markJobDead).toHaveBeenCalledWith(1, "Unreadable file");
+      expect(db.rescheduleJob).not.toHaveBeenCalled();
+      expect(onDead).toHaveBeenCalledWith(expect.objectContaining({ id: 1 }), "Unreadable file");
+    });
+
+    it("should persist progress checkpoints and emit changes", async () => {
+      vi.mocked(db.getDueJobs).mockResolvedValue([makeJob({ type: "run_progress" })]);
+      registerJobHandler("run_progress", async (_job, ctx) => {
+        await ctx.saveProgress({ stage: "parsing", documentCount: 0 });
+        return null;
+      });
+      const listener = vi.fn();
+      jobEvents.on("change", listener);
+
+      await processDueJobs();
+      jobEvents.off("change", listener);
+
+      expect(db.updateJobProgress).toHaveBeenCalledWith(1, { stage: "parsing", documentCount: 0 });
+      expect(listener).toHaveBeenCalledWith({ jobId: 1, userId: 7 });
+    });
+  });
+
+  describe("cancelJob / retryJob", () => {
+    it("should only report success when the database row changed", async () => {
+      vi.mocked(db.cancelJob).mockResolvedValue(false);
+      vi.mocked(db.retryJob).mockResolvedValue(true);
+
+      expect(await cancelJob(makeJob())).toBe(false);
+      expect(await retryJob(makeJob({ status: "dead" }))).toBe(true);
+    });
+  });
+});
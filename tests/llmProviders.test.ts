@@ -0,0 +1,84 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { mkdtempSync, readFileSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import { invokeLLM, type ChatCompletionRequest, type LLMProvider } from "../server/_core/llm";
+import { createFixtureProvider, getPromptHash, setLLMProvider } from "../server/_core/llmProviders";
+
+const request: ChatCompletionRequest = {
+  messages: [{ role: "user", content: "Extract the bookings" }],
+  response_format: { type: "json_object" },
+};
+
+function tempDir(): string {
+  return mkdtempSync(path.join(tmpdir(), "llm-fixtures-"));
+}
+
+describe("LLM providers", () => {
+  afterEach(() => {
+    setLLMProvider(null);
+  });
+
+  describe("getPromptHash", () => {
+    it("should not depend on key order", () => {
+      const reordered = {
+        response_format: { type: "json_object" as const },
+        messages: [{ content: "Extract the bookings", role: "user" as const }],
+      };
+      expect(getPromptHash(reordered)).toBe(getPromptHash(request));
+    });
+
+    it("should change when the prompt changes", () => {
+      const changed = { ...request, messages: [{ role: "user" as const, content: "Extract the bookings." }] };
+      expect(getPromptHash(changed)).not.toBe(getPromptHash(request));
+    });
+  });
+
+  describe("fixture provider", () => {
+    it("should replay a hand-written fixture keyed by prompt hash", async () => {
+      const dir = tempDir();
+      writeFileSync(path.join(dir, `${getPromptHash(request)}.json`), JSON.stringify({ content: { documents: [] } }));
+
+      const result = await createFixtureProvider({ dir }).complete(request);
+
+      expect(result.choices[0].message.content).toBe('{"documents":[]}');
+    });
+
+    it("should fail on a missing fixture instead of calling out", async () => {
+      await expect(createFixtureProvider({ dir: tempDir() }).complete(request)).rejects.toThrow(
+        `No LLM fixture for prompt hash ${getPromptHash(request)}`
+      );
+    });
+
+    it("should record missing fixtures from a live provider", async () => {
+      const dir = tempDir();
+      const response = { id: "live", created: 1, model: "live-model", choices: [] };
+      const live: LLMProvider = { name: "live", complete: vi.fn().mockResolvedValue(response) };
+
+      const provider = createFixtureProvider({ dir, record: live });
+      await provider.complete(request);
+      await provider.complete(request);
+
+      expect(live.complete).toHaveBeenCalledTimes(1);
+      const saved = JSON.parse(readFileSync(path.join(dir, `${getPromptHash(request)}.json`), "utf8"));
+      expect(saved.response).toEqual(response);
+    });
+  });
+
+  describe("invokeLLM", () => {
+    it("should send the normalized request to the selected provider", async () => {
+      const provider: LLMProvider = {
+        name: "test",
+        complete: vi.fn().mockResolvedValue({ id: "x", created: 0, model: "test", choices: [] }),
+      };
+      setLLMProvider(provider);
+
+      await invokeLLM({
+        messages: [{ role: "user", content: [{ type: "text", text: "Extract the bookings" }] }],
+        response_format: { type: "json_object" },
+      });
+
+      expect(provider.complete).toHaveBeenCalledWith(request);
+    });
+  });
+});
@@ -0,0 +1,121 @@
+import { describe, it, expect, afterEach } from "vitest";
+import { createFixtureProvider, setLLMProvider } from "../server/_core/llmProviders";
+import {
+  buildReport,
+  diffRuns,
+  loadCorpus,
+  normalizeValue,
+  precision,
+  recall,
+  runEval,
+  scoreDocument,
+  type EvalCase,
+  type EvalDocument,
+  type EvalRun,
+} from "../server/parsingEval";
+
+const flightCase: EvalCase = {
+  id: "flight",
+  language: "en",
+  source: { kind: "file", url: "https://files.example.com/ticket.pdf", mimeType: "application/pdf" },
+  expected: [
+    {
+      category: "flight",
+      documentDate: "2026-03-21",
+      details: { flightNumber: "LY 381", departureAirport: "TLV", departureTime: "2026-03-21T08:15" },
+    },
+  ],
+};
+
+function flight(details: Record<string, unknown>, documentDate: string | null = "2026-03-21"): EvalDocument {
+  return { category: "flight", documentType: "E-Ticket", title: "TLV → FCO", documentDate, details };
+}
+
+function run(label: string, documents: EvalDocument[]): EvalRun {
+  return { label, provider: "test", createdAt: "2026-01-01T00:00:00.000Z", cases: [{ id: "flight", language: "en", documents }] };
+}
+
+describe("Parsing evaluation", () => {
+  afterEach(() => {
+    setLLMProvider(null);
+  });
+
+  describe("normalizeValue", () => {
+    it("should ignore case, spacing and punctuation", () => {
+      expect(normalizeValue("flightNumber", "LY 381")).toBe(normalizeValue("flightNumber", "ly-381"));
+      expect(normalizeValue("hotelName", "מלון המושבה")).toBe("מלוןהמושבה");
+    });
+
+    it("should keep dates to the minute", () => {
+      expect(normalizeValue("departureTime", "2026-03-21T08:15:00.000Z")).toBe("2026-03-21T08:15");
+      expect(normalizeValue("checkInDate", "2026-04-12")).toBe("2026-04-12");
+    });
+  });
+
+  describe("scoreDocument", () => {
+    it("should count a wrong value as both a false positive and a miss", () => {
+      const scores = scoreDocument(flightCase.expected[0], flight({ flightNumber: "LY381", departureAirport: "TLA", departureTime: "2026-03-21T08:15:00" }));
+
+      expect(scores.find((s) => s.field === "flightNumber")).toMatchObject({ tp: 1, fp: 0, fn: 0 });
+      expect(scores.find((s) => s.field === "departureAirport")).toMatchObject({ tp: 0, fp: 1, fn: 1 });
+    });
+
+    it("should count invented fields as false positives and missing ones as misses", () => {
+      const scores = scoreDocument(flightCase.expected[0], flight({ flightNumber: "LY 381", departureAirport: "TLV", gate: "B4" }, null));
+
+      expect(scores.find((s) => s.field === "gate")).toMatchObject({ tp: 0, fp: 1, fn: 0 });
+      expect(scores.find((s) => s.field === "departureTime")).toMatchObject({ tp: 0, fp: 0, fn: 1 });
+      expect(scores.find((s) => s.field === "documentDate")).toMatchObject({ tp: 0, fp: 0, fn: 1 });
+    });
+
+    it("should accept any time when only the date is expected", () => {
+      const scores = scoreDocument({ ...flightCase.expected[0], details: {} }, flight({}, "2026-03-21T22:00"));
+
+      expect(scores.find((s) => s.field === "documentDate")).toMatchObject({ tp: 1 });
+    });
+
+    it("should not score derived addresses", () => {
+      const scores = scoreDocument(flightCase.expected[0], flight({ departureAddress: "Ben Gurion Airport" }));
+
+      expect(scores.map((s) => s.field)).not.toContain("departureAddress");
+    });
+  });
+
+  describe("buildReport", () => {
+    it("should score a missed booking as misses only", () => {
+      const report = buildReport([flightCase], run("empty", []));
+
+      expect(report.overall).toEqual({ tp: 0, fp: 0, fn: 5 });
+      expect(precision(report.overall)).toBe(1);
+      expect(recall(report.overall)).toBe(0);
+      expect(report.byLanguage.en.total).toEqual(report.overall);
+    });
+  });
+
+  describe("diffRuns", () => {
+    it("should list fixed and regressed fields between runs", () => {
+      const before = run("v1", [flight({ flightNumber: "LY 381", departureAirport: "TLA", departureTime: "2026-03-21T08:15" })]);
+      const after = run("v2", [flight({ flightNumber: "LY 831", departureAirport: "TLV", departureTime: "2026-03-21T08:15" })]);
+
+      expect(diffRuns([flightCase], before, after)).toEqual([
+        expect.objectContaining({ field: "flightNumber", before: "ly381", after: "ly831", status: "regressed" }),
+        expect.objectContaining({ field: "departureAirport", before: "tla", after: "tlv", status: "fixed" }),
+      ]);
+    });
+  });
+
+  describe("golden corpus", () => {
+    it("should replay the recorded responses and meet the accuracy floor", async () => {
+      setLLMProvider(createFixtureProvider({ dir: "tests/eval/recordings" }));
+      const cases = loadCorpus("tests/eval/corpus");
+
+      const report = buildReport(cases, await runEval(cases, { label: "recorded", provider: "fixture" }));
+
+      expect(report.errors).toEqual([]);
+      expect(Object.keys(report.byLanguage).sort()).toEqual(["en", "he", "it"]);
+      expect(Object.keys(report.byCategory).sort()).toEqual(["accommodation", "carRental", "flight", "other", "train"]);
+      expect(precision(report.overall)).toBeGreaterThan(0.85);
+      expect(recall(report.overall)).toBeGreaterThan(0.85);
+    });
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { ENV } from "../server/_core/env";
+import {
+  countPdfPages,
+  describePricingPolicy,
+  getSourcePageCount,
+  getParseCost,
+  getUpfrontParseCost,
+  DEFAULT_PRICING_POLICY,
+  type PricingPolicy,
+} from "../server/pricing";
+
+const perPage: PricingPolicy = { mode: "per_page", creditsPerUnit: 1, maxCreditsPerFile: 5 };
+const perBooking: PricingPolicy = { mode: "per_booking", creditsPerUnit: 1, maxCreditsPerFile: 3 };
+
+describe("Credit pricing", () => {
+  describe("getParseCost", () => {
+    it("should charge a composite itinerary once per file by default", () => {
+      expect(getParseCost(DEFAULT_PRICING_POLICY, { pageCount: 6, bookingCount: 4 })).toBe(1);
+    });
+
+    it("should charge nothing when no bookings were found", () => {
+      expect(getParseCost(DEFAULT_PRICING_POLICY, { bookingCount: 0 })).toBe(0);
+      expect(getParseCost(perPage, { pageCount: 3, bookingCount: 0 })).toBe(0);
+    });
+
+    it("should charge per page and per booking up to the cap", () => {
+      expect(getParseCost(perPage, { pageCount: 3, bookingCount: 1 })).toBe(3);
+      expect(getParseCost(perPage, { pageCount: 12, bookingCount: 1 })).toBe(5);
+      expect(getParseCost(perBooking, { bookingCount: 2 })).toBe(2);
+      expect(getParseCost(perBooking, { bookingCount: 4 })).toBe(3);
+    });
+
+    it("should multiply by the unit cost", () => {
+      expect(getParseCost({ ...DEFAULT_PRICING_POLICY, creditsPerUnit: 2 }, { bookingCount: 4 })).toBe(2);
+    });
+  });
+
+  describe("getUpfrontParseCost", () => {
+    it("should charge the whole file up front for per-file and per-page pricing", () => {
+      expect(getUpfrontParseCost(DEFAULT_PRICING_POLICY, 6)).toBe(1);
+      expect(getUpfrontParseCost(perPage, 4)).toBe(4);
+      expect(getUpfrontParseCost(perPage, 40)).toBe(5);
+    });
+
+    it("should charge one booking up front for per-booking pricing", () => {
+      expect(getUpfrontParseCost(perBooking, 6)).toBe(1);
+    });
+  });
+
+  describe("countPdfPages", () => {
+    it("should count page objects but not the page tree", () => {
+      const pdf = Buffer.from(
+        "%PDF-1.4\n1 0 obj << /Type /Pages /Kids [2 0 R 3 0 R] /Count 2 >> endobj\n" +
+          "2 0 obj << /Type /Page /Parent 1 0 R >> endobj\n" +
+          "3 0 obj << /Type/Page /Parent 1 0 R >> endobj\n"
+      );
+      expect(countPdfPages(pdf)).toBe(2);
+    });
+
+    it("should fall back to the page tree count, then to one page", () => {
+      expect(countPdfPages(Buffer.from("<< /Type /Pages /Kids [] /Count 7 >>"))).toBe(7);
+      expect(countPdfPages(Buffer.from("not a pdf"))).toBe(1);
+    });
+  });
+
+  describe("getSourcePageCount", () => {
+    const pdf = "%PDF-1.4 1 0 obj << /Type /Page >> 2 0 obj << /Type /Page >>";
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+      ENV.storageFileHosts = "";
+    });
+
+    it("should only download PDFs from the app's storage", async () => {
+      ENV.storageFileHosts = "files.example.com";
+      const fetchMock = vi.fn(async () => new Response(pdf));
+      vi.stubGlobal("fetch", fetchMock);
+
+      expect(await getSourcePageCount("https://files.example.com/documents/7/itinerary.pdf", "application/pdf")).toBe(2);
+      expect(await getSourcePageCount("http://169.254.169.254/latest/meta-data/", "application/pdf")).toBe(1);
+      expect(await getSourcePageCount("https://internal.example.com/itinerary.pdf", "application/pdf")).toBe(1);
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    it("should stop reading a file over the size limit", async () => {
+      ENV.storageFileHosts = "files.example.com";
+      const huge = new Response(pdf, { headers: { "content-length": String(100 * 1024 * 1024) } });
+      vi.stubGlobal("fetch", vi.fn(async () => huge));
+
+      expect(await getSourcePageCount("https://files.example.com/documents/7/huge.pdf", "application/pdf")).toBe(1);
+    });
+  });
+
+  describe("describePricingPolicy", () => {
+    it("should describe the policy for the store screen", () => {
+      expect(describePricingPolicy(DEFAULT_PRICING_POLICY)).toBe("1 credit per document");
+      expect(describePricingPolicy(perPage)).toBe("1 credit per page (max 5 per document)");
+    });
+  });
+});
@@ -0,0 +1,37 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { ENV } from "../server/_core/env";
+import { isStorageUrl, storagePut } from "../server/storage";
+
+describe("Storage", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    ENV.forgeApiUrl = "";
+    ENV.forgeApiKey = "";
+    ENV.storageFileHosts = "";
+  });
+
+  it("should accept files on the API's host or the hosts in STORAGE_FILE_HOSTS", () => {
+    ENV.forgeApiUrl = "https://forge.example.com/api";
+    ENV.storageFileHosts = "files.example.com, cdn.example.com";
+
+    expect(isStorageUrl("https://forge.example.com/v1/storage/documents/7/ticket.pdf")).toBe(true);
+    expect(isStorageUrl("https://cdn.example.com/documents/7/ticket.pdf")).toBe(true);
+    expect(isStorageUrl("http://files.example.com/documents/7/ticket.pdf")).toBe(false);
+    expect(isStorageUrl("http://169.254.169.254/latest/meta-data/")).toBe(false);
+    expect(isStorageUrl("not a url")).toBe(false);
+  });
+
+  it("should accept files on the host uploads are served from without STORAGE_FILE_HOSTS", async () => {
+    ENV.forgeApiUrl = "https://forge.example.com/api";
+    ENV.forgeApiKey = "key";
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () => Response.json({ url: "https://uploads.example.net/documents/7/ticket.pdf" }))
+    );
+
+    expect(isStorageUrl("https://uploads.example.net/documents/7/other.pdf")).toBe(false);
+    await storagePut("documents/7/ticket.pdf", Buffer.from("%PDF"), "application/pdf");
+    expect(isStorageUrl("https://uploads.example.net/documents/7/other.pdf")).toBe(true);
+    expect(isStorageUrl("https://intranet.example.net/itinerary.pdf")).toBe(false);
+  });
+});
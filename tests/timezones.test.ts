@@ -0,0 +1,84 @@
+import { describe, it, expect } from "vitest";
+import {
+  formatLocalTime,
+  getLocalDay,
+  getTimeZoneForLocation,
+  localToUtc,
+} from "../shared/timezones";
+import { resolveDocumentTimes, toDocumentDate } from "../server/documentTimes";
+
+describe("Time zones", () => {
+  describe("getTimeZoneForLocation", () => {
+    it("should place airport codes and addresses ending in a country", () => {
+      expect(getTimeZoneForLocation("TLV")).toBe("Asia/Jerusalem");
+      expect(getTimeZoneForLocation("FCO Terminal 3")).toBe("Europe/Rome");
+      expect(getTimeZoneForLocation("Via Nazionale 22, 00184 Roma, Italia")).toBe("Europe/Rome");
+      expect(getTimeZoneForLocation("1 Main St, Springfield, USA")).toBeNull();
+    });
+  });
+
+  describe("localToUtc", () => {
+    it("should read wall time in the given zone, across DST", () => {
+      expect(localToUtc("2026-03-21T07:10:00", "Asia/Jerusalem")?.toISOString()).toBe("2026-03-21T05:10:00.000Z");
+      expect(localToUtc("2026-07-01T07:10", "Asia/Jerusalem")?.toISOString()).toBe("2026-07-01T04:10:00.000Z");
+      expect(localToUtc("2026-03-21", "America/New_York")?.toISOString()).toBe("2026-03-21T04:00:00.000Z");
+    });
+
+    it("should keep an offset the string already carries", () => {
+      expect(localToUtc("2026-03-21T07:10:00+02:00", "America/New_York")?.toISOString()).toBe("2026-03-21T05:10:00.000Z");
+    });
+  });
+
+  it("should give the day an instant falls on in a zone", () => {
+    const instant = new Date("2026-03-20T23:30:00Z");
+    expect(getLocalDay(instant, "Asia/Jerusalem")).toBe("2026-03-21");
+    expect(getLocalDay(instant, null)).toBe("2026-03-20");
+  });
+
+  it("should format the printed wall time with the zone's name", () => {
+    expect(formatLocalTime("2026-03-21T07:10:00", "Asia/Jerusalem")).toBe("Sat, Mar 21, 07:10 GMT+2");
+    expect(formatLocalTime("2026-03-21")).toBe("Sat, Mar 21");
+    expect(formatLocalTime("21 March")).toBe("21 March");
+  });
+
+  describe("resolveDocumentTimes", () => {
+    it("should resolve each flight time in its own airport's zone", () => {
+      const resolved = resolveDocumentTimes({
+        category: "flight",
+        documentType: "E-Ticket",
+        documentDate: "2026-03-21T07:10:00",
+        details: { departureAirport: "TLV", arrivalAirport: "FCO", departureTime: "2026-03-21T07:10:00", arrivalTime: "2026-03-21T10:25:00" },
+      });
+
+      expect(resolved.timeZone).toBe("Asia/Jerusalem");
+      expect(resolved.documentDate?.toISOString()).toBe("2026-03-21T05:10:00.000Z");
+      expect(resolved.times).toEqual({
+        "details.departureTime": { local: "2026-03-21T07:10:00", timeZone: "Asia/Jerusalem", utc: "2026-03-21T05:10:00.000Z" },
+        "details.arrivalTime": { local: "2026-03-21T10:25:00", timeZone: "Europe/Rome", utc: "2026-03-21T09:25:00.000Z" },
+      });
+    });
+
+    it("should combine an event's date and time", () => {
+      const resolved = resolveDocumentTimes({
+        category: "event",
+        documentType: "Ticket",
+        documentDate: "2026-03-22",
+        details: { eventDate: "2026-03-22", eventTime: "8:00 PM", venueAddress: "Piazza Beniamino Gigli 7, Roma, Italy" },
+      });
+
+      expect(resolved.times["details.eventDate"]).toEqual({ local: "2026-03-22T20:00:00", timeZone: "Europe/Rome", utc: "2026-03-22T19:00:00.000Z" });
+    });
+
+    it("should read the date as UTC when no place can be resolved", () => {
+      const resolved = resolveDocumentTimes({
+        category: "other",
+        documentType: "Note",
+        documentDate: "2026-03-21",
+        details: {},
+      });
+
+      expect(resolved).toEqual({ timeZone: null, times: {}, documentDate: new Date("2026-03-21T00:00:00Z") });
+      expect(toDocumentDate("not a date", null).getTime()).toBeNaN();
+    });
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, it, expect } from "vitest";
+import { pickAutoAssignTrip, rankTrips } from "../server/tripMatcher";
+import type { Document, Trip } from "../drizzle/schema";
+
+let nextId = 1;
+
+function doc(overrides: Partial<Document>): Document {
+  return {
+    id: nextId++,
+    userId: 7,
+    tripId: null,
+    category: "other",
+    documentType: "Confirmation",
+    title: "Booking",
+    subtitle: null,
+    documentDate: null,
+    timeZone: null,
+    details: {},
+    segments: null,
+    ...overrides,
+  } as Document;
+}
+
+function trip(id: number, name: string, startDate: string, endDate: string, isArchived = false): Trip {
+  return { id, userId: 7, name, startDate: new Date(`${startDate}T00:00:00Z`), endDate: new Date(`${endDate}T00:00:00Z`), isArchived } as Trip;
+}
+
+const rome = trip(3, "Rome Ski Week", "2026-03-21", "2026-03-28");
+const paris = trip(4, "Paris with Dana", "2026-03-20", "2026-03-30");
+const tripDocuments = [
+  doc({ tripId: 3, category: "flight", details: { departureAirport: "TLV", arrivalAirport: "FCO", departureTime: "2026-03-21T07:10:00", confirmationNumber: "X7Y2QP" } }),
+  doc({ tripId: 4, category: "accommodation", details: { address: "Place André Malraux, 75001 Paris, France", checkInDate: "2026-03-20", checkOutDate: "2026-03-30" } }),
+];
+
+describe("Trip matching", () => {
+  it("should prefer the overlapping trip whose bookings are in the same place", () => {
+    const hotel = doc({ category: "accommodation", details: { address: "Via Nazionale 22, Rome, Italy", checkInDate: "2026-03-22", checkOutDate: "2026-03-27" } });
+
+    const candidates = rankTrips(hotel, [paris, rome], tripDocuments);
+
+    expect(candidates).toEqual([
+      { tripId: 3, tripName: "Rome Ski Week", score: 95, reasons: ["dates", "destination"] },
+      { tripId: 4, tripName: "Paris with Dana", score: 50, reasons: ["dates"] },
+    ]);
+    expect(pickAutoAssignTrip(candidates)?.tripId).toBe(3);
+  });
+
+  it("should allow a document to start just before the trip but leave archived trips out", () => {
+    const redEye = doc({
+      category: "flight",
+      details: { departureAirport: "TLV", arrivalAirport: "FCO", departureTime: "2026-03-20T23:50:00", arrivalTime: "2026-03-21T02:55:00" },
+    });
+    const skiing = doc({ category: "flight", details: { departureAirport: "TLV", arrivalAirport: "VIE", departureTime: "2026-03-21T06:00:00" } });
+    const archived = trip(5, "Rome 2025", "2026-03-20", "2026-03-22", true);
+
+    expect(rankTrips(redEye, [rome, archived], tripDocuments)).toEqual([
+      { tripId: 3, tripName: "Rome Ski Week", score: 75, reasons: ["near_dates", "destination"] },
+    ]);
+    // Leaving from the same home airport doesn't make Vienna part of Rome
+    expect(rankTrips(skiing, [rome], tripDocuments)).toEqual([
+      { tripId: 3, tripName: "Rome Ski Week", score: 50, reasons: ["dates"] },
+    ]);
+  });
+
+  it("should match a booking already in a trip by its confirmation number whatever the dates", () => {
+    const update = doc({ category: "flight", details: { confirmationNumber: "x7y2-qp", departureTime: "2026-05-01T09:00:00" } });
+
+    expect(rankTrips(update, [paris, rome], tripDocuments)).toEqual([
+      { tripId: 3, tripName: "Rome Ski Week", score: 100, reasons: ["confirmation_number"] },
+    ]);
+  });
+
+  it("should not auto-assign when overlapping trips are equally likely", () => {
+    const note = doc({ documentDate: new Date("2026-03-25T00:00:00Z") });
+
+    const candidates = rankTrips(note, [paris, rome], tripDocuments);
+
+    expect(candidates.map((candidate) => candidate.score)).toEqual([70, 70]);
+    expect(pickAutoAssignTrip(candidates)).toBeNull();
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, it, expect } from "vitest";
+import { formatDayRange, suggestTrips } from "../server/tripSuggestions";
+import type { Document } from "../drizzle/schema";
+
+let nextId = 1;
+
+function doc(overrides: Partial<Document>): Document {
+  return {
+    id: nextId++,
+    userId: 7,
+    tripId: null,
+    category: "other",
+    documentType: "Confirmation",
+    title: "Booking",
+    subtitle: null,
+    documentDate: null,
+    timeZone: null,
+    details: {},
+    segments: null,
+    ...overrides,
+  } as Document;
+}
+
+function flight(from: string, to: string, departureTime: string, arrivalTime: string): Document {
+  return doc({ category: "flight", title: `${from} → ${to}`, details: { departureAirport: from, arrivalAirport: to, departureTime, arrivalTime } });
+}
+
+describe("Trip suggestions", () => {
+  it("should group a trip's bookings and name it after where the user stays", () => {
+    const outbound = flight("TLV", "BUD", "2026-05-12T06:00:00", "2026-05-12T08:40:00");
+    const hotel = doc({
+      category: "accommodation",
+      title: "Hotel Gellért",
+      details: { hotelName: "Hotel Gellért", address: "Szent Gellért tér 2, 1114 Budapest, Hungary", checkInDate: "2026-05-12", checkOutDate: "2026-05-18" },
+    });
+    const concert = doc({ category: "event", title: "Opera", details: { eventDate: "2026-05-15", venueAddress: "Andrássy út 22, Budapest, Hungary" } });
+    const inbound = flight("BUD", "TLV", "2026-05-18T18:00:00", "2026-05-18T22:30:00");
+
+    expect(suggestTrips([inbound, concert, hotel, outbound])).toEqual([
+      {
+        name: "Budapest, 12–18 May",
+        destination: "Budapest",
+        startDate: "2026-05-12",
+        endDate: "2026-05-18",
+        documentIds: [outbound.id, hotel.id, concert.id, inbound.id],
+      },
+    ]);
+  });
+
+  it("should keep separate trips apart and skip single-day and undated documents", () => {
+    const rome = flight("TLV", "FCO", "2026-03-21T07:10:00", "2026-03-21T10:25:00");
+    const romeHome = flight("FCO", "TLV", "2026-03-28T16:00:00", "2026-03-28T20:10:00");
+    const lonelyTicket = doc({ category: "event", title: "Museum", details: { eventDate: "2026-04-10", venueAddress: "Louvre, Paris, France" } });
+    const undated = doc({ title: "Packing list" });
+    const paris = doc({
+      category: "accommodation",
+      title: "Hôtel du Louvre",
+      details: { address: "Place André Malraux, 75001 Paris, France", checkInDate: "2026-03-29", checkOutDate: "2026-04-02" },
+    });
+
+    const suggestions = suggestTrips([rome, romeHome, lonelyTicket, undated, paris]);
+
+    // The flight back from Rome closes that trip; Paris starts the day
+    // after but shares no place with it
+    expect(suggestions.map((suggestion) => [suggestion.name, suggestion.documentIds])).toEqual([
+      ["Rome, 21–28 Mar", [rome.id, romeHome.id]],
+      ["Paris, 29 Mar – 2 Apr", [paris.id]],
+    ]);
+  });
+
+  it("should name a round trip booked as one flight after its destination", () => {
+    const roundTrip = doc({
+      category: "flight",
+      title: "TLV ⇄ FCO",
+      details: { departureAirport: "TLV", arrivalAirport: "FCO" },
+      segments: [
+        { departureAirport: "TLV", arrivalAirport: "FCO", departureTime: "2026-12-28T07:10:00", arrivalTime: "2026-12-28T10:25:00" },
+        { departureAirport: "FCO", arrivalAirport: "TLV", departureTime: "2027-01-03T16:00:00", arrivalTime: "2027-01-03T20:10:00" },
+      ],
+    });
+
+    expect(suggestTrips([roundTrip])[0]).toMatchObject({ name: "Rome, 28 Dec 2026 – 3 Jan 2027", startDate: "2026-12-28", endDate: "2027-01-03" });
+    expect(formatDayRange("2026-05-12", "2026-05-12")).toBe("12 May");
+  });
+});
@@ -0,0 +1,105 @@
+import { describe, it, expect } from "vitest";
+import { analyzeTrip } from "../server/tripWarnings";
+import type { Document } from "../drizzle/schema";
+
+let nextId = 1;
+
+function doc(overrides: Partial<Document>): Document {
+  return {
+    id: nextId++,
+    userId: 7,
+    tripId: 3,
+    category: "other",
+    documentType: "Confirmation",
+    title: "Booking",
+    subtitle: null,
+    documentDate: null,
+    details: {},
+    segments: null,
+    ...overrides,
+  } as Document;
+}
+
+function hotel(name: string, checkInDate: string, checkOutDate: string): Document {
+  return doc({ category: "accommodation", title: name, details: { hotelName: name, checkInDate, checkOutDate } });
+}
+
+const trip = { startDate: new Date("2026-03-21T00:00:00Z"), endDate: new Date("2026-03-25T00:00:00Z") };
+
+const outbound = doc({
+  category: "flight",
+  title: "TLV → FCO",
+  details: { flightNumber: "LY 381", departureAirport: "TLV", arrivalAirport: "FCO", departureTime: "2026-03-21T08:15:00", arrivalTime: "2026-03-21T11:30:00" },
+});
+const inbound = doc({
+  category: "flight",
+  title: "FCO → TLV",
+  details: { flightNumber: "LY 382", departureAirport: "FCO", arrivalAirport: "TLV", departureTime: "2026-03-25T16:00:00", arrivalTime: "2026-03-25T20:10:00" },
+});
+
+describe("Trip warnings", () => {
+  it("should find nothing wrong with a complete trip", () => {
+    const car = doc({ category: "carRental", details: { carCompany: "Hertz", pickupTime: "2026-03-21T12:30:00", dropoffTime: "2026-03-25T13:00:00" } });
+
+    expect(analyzeTrip(trip, [outbound, inbound, hotel("Hotel Artemide", "2026-03-21", "2026-03-25"), car])).toEqual([]);
+  });
+
+  it("should report nights without accommodation and overlapping stays", () => {
+    const warnings = analyzeTrip(trip, [
+      hotel("Hotel Artemide", "2026-03-21", "2026-03-23"),
+      hotel("Hotel Raphael", "2026-03-22", "2026-03-23"),
+    ]);
+
+    expect(warnings.map((w) => [w.code, w.date])).toEqual([
+      ["overlap", "2026-03-22"],
+      ["missing_night", "2026-03-23"],
+    ]);
+    expect(warnings[1].message).toBe("No accommodation for 2 nights from Mar 23");
+  });
+
+  it("should not need a hotel for a night spent travelling", () => {
+    const overnight = doc({
+      category: "train",
+      details: { serviceNumber: "ICN 795", departureStation: "Roma Termini", arrivalStation: "Siracusa", departureTime: "2026-03-23T21:00:00", arrivalTime: "2026-03-24T09:00:00" },
+    });
+
+    const warnings = analyzeTrip(trip, [hotel("Hotel Artemide", "2026-03-21", "2026-03-23"), overnight, hotel("Grand Hotel Ortigia", "2026-03-24", "2026-03-25")]);
+
+    expect(warnings).toEqual([]);
+  });
+
+  it("should flag a car picked up before the flight lands and returned after the flight home", () => {
+    const car = doc({ category: "carRental", details: { carCompany: "Hertz", pickupTime: "2026-03-21T10:00:00", dropoffTime: "2026-03-25T18:00:00" } });
+
+    const warnings = analyzeTrip(trip, [outbound, inbound, hotel("Hotel Artemide", "2026-03-21", "2026-03-25"), car]);
+
+    expect(warnings.map((w) => w.message)).toEqual([
+      "Hertz car pickup at 10:00 is before LY 381 arrives in FCO at 11:30",
+      "Hertz car is due back at 18:00 on Mar 25, after LY 382 leaves at 16:00",
+    ]);
+    expect(warnings.map((w) => w.code)).toEqual(["tight_connection", "unreturned_car"]);
+  });
+
+  it("should flag tight connections and bookings outside the trip", () => {
+    const connection = doc({
+      category: "flight",
+      details: { flightNumber: "AZ 1731", departureAirport: "FCO", arrivalAirport: "CTA", departureTime: "2026-03-21T12:00:00", arrivalTime: "2026-03-21T13:10:00" },
+    });
+    const concert = doc({ category: "event", title: "Tosca", details: { eventName: "Tosca", eventDate: "2026-03-27" } });
+
+    const warnings = analyzeTrip(trip, [outbound, connection, hotel("Hotel Artemide", "2026-03-21", "2026-03-25"), concert]);
+
+    expect(warnings).toEqual([
+      expect.objectContaining({ code: "tight_connection", message: "Only 30 min between LY 381 arriving and AZ 1731 departing" }),
+      expect.objectContaining({ code: "outside_trip_dates", documentIds: [concert.id], message: "Tosca is on Mar 27, outside the trip dates" }),
+    ]);
+  });
+
+  it("should flag a rental car with no return date", () => {
+    const car = doc({ category: "carRental", details: { carCompany: "Avis", pickupTime: "2026-03-22T09:00:00" } });
+
+    expect(analyzeTrip(trip, [hotel("Hotel Artemide", "2026-03-21", "2026-03-25"), car])).toEqual([
+      expect.objectContaining({ code: "unreturned_car", message: "Avis car has no return date", date: "2026-03-22" }),
+    ]);
+  });
+});
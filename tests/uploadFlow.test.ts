@@ -0,0 +1,154 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { EventEmitter } from "events";
+
+// Replay LLM responses from tests/fixtures/llm, so nothing here needs the network
+vi.hoisted(() => {
+  process.env.LLM_PROVIDER = "fixture";
+  process.env.LLM_FIXTURES_DIR = "tests/fixtures/llm";
+  process.env.STORAGE_FILE_HOSTS = "files.example.com";
+});
+
+// In-memory stand-in for the database: one user, one trip, and the credit ledger
+const store = vi.hoisted(() => ({
+  credits: 0,
+  ledger: [] as Array<{ type: string; amount: number; jobId?: number; reference?: string }>,
+  documents: [] as Array<Record<string, any>>,
+  trips: [] as Array<{ id: number; userId: number; name: string; startDate: Date; endDate: Date }>,
+}));
+
+vi.mock("../server/db", () => ({
+  canProcessDocument: vi.fn(async (_userId: number, cost = 1) => store.credits >= cost),
+  chargeCredits: vi.fn(async (_userId: number, amount: number, ref: { jobId?: number; reference?: string } = {}) => {
+    if (store.credits < amount) return null;
+    store.credits -= amount;
+    store.ledger.push({ type: "parse_charge", amount: -amount, ...ref });
+    return amount;
+  }),
+  refundJobCharges: vi.fn(async (_userId: number, jobId: number, _description: string, reference?: string) => {
+    const outstanding = -store.ledger
+      .filter((entry) => entry.jobId === jobId && (!reference || entry.reference === reference))
+      .reduce((sum, entry) => sum + entry.amount, 0);
+    if (outstanding <= 0) return 0;
+    store.credits += outstanding;
+    store.ledger.push({ type: "refund", amount: outstanding, jobId, reference });
+    return outstanding;
+  }),
+  createDocument: vi.fn(async (doc: Record<string, any>) => {
+    store.documents.push({ ...doc, id: store.documents.length + 1 });
+    return store.documents.length;
+  }),
+  getUserTrips: vi.fn(async (userId: number) =>
+    store.trips.filter((trip) => trip.userId === userId).map((trip) => ({ ...trip, isArchived: false }))
+  ),
+  getDocumentsByConfirmationNumber: vi.fn(async (userId: number, confirmationNumber: string) =>
+    store.documents.filter((doc) => doc.userId === userId && doc.details?.confirmationNumber === confirmationNumber)
+  ),
+  getUserTripDocuments: vi.fn(async (userId: number) =>
+    store.documents.filter((doc) => doc.userId === userId && doc.tripId !== null)
+  ),
+}));
+
+vi.mock("../server/pushNotification", () => ({
+  sendPushNotification: vi.fn().mockResolvedValue({ success: true }),
+  EmailProcessingNotifications: {},
+}));
+
+// Run queued jobs inline instead of through the database-backed worker
+const jobResults = vi.hoisted(() => new Map<number, { result?: unknown; error?: unknown }>());
+vi.mock("../server/jobQueue", () => {
+  const handlers = new Map<string, (job: any, ctx: any) => Promise<unknown>>();
+  let nextJobId = 1;
+  return {
+    jobEvents: new EventEmitter(),
+    registerJobHandler: (type: string, handler: (job: any, ctx: any) => Promise<unknown>) => {
+      handlers.set(type, handler);
+    },
+    enqueueJob: async (type: string, userId: number, payload: unknown) => {
+      const job = { id: nextJobId++, type, userId, payload, progress: null };
+      const ctx = { attempt: 1, isFinalAttempt: true, saveProgress: async () => {} };
+      try {
+        jobResults.set(job.id, { result: await handlers.get(type)!(job, ctx) });
+      } catch (error) {
+        jobResults.set(job.id, { error });
+      }
+      return job.id;
+    },
+    cancelJob: vi.fn(),
+    retryJob: vi.fn(),
+  };
+});
+
+import { appRouter } from "../server/routers";
+import { registerDocumentJobHandlers } from "../server/documentJobs";
+import type { TrpcContext } from "../server/_core/context";
+
+registerDocumentJobHandlers();
+
+function createCaller() {
+  const ctx = {
+    user: { id: 7, role: "user", subscriptionExpiresAt: null },
+    req: { protocol: "https", headers: {} },
+    res: {},
+  } as unknown as TrpcContext;
+  return appRouter.createCaller(ctx);
+}
+
+describe("Upload flow (offline)", () => {
+  beforeEach(() => {
+    store.credits = 5;
+    store.ledger = [];
+    store.documents = [];
+    store.trips = [
+      { id: 3, userId: 7, name: "Rome Ski Week", startDate: new Date("2026-03-20"), endDate: new Date("2026-03-28") },
+    ];
+    jobResults.clear();
+  });
+
+  it("should parse an upload, file it under the matching trip and charge one credit", async () => {
+    const { jobId } = await createCaller().documents.parseAndCreate({
+      fileUrl: "https://files.example.com/fixtures/rome-flight.pdf",
+      fileName: "rome-flight.pdf",
+      mimeType: "application/pdf",
+    });
+
+    expect(jobResults.get(jobId)).toEqual({
+      result: expect.objectContaining({ count: 1, autoAssignedTripId: 3, autoAssignedTripName: "Rome Ski Week" }),
+    });
+    expect(store.documents).toHaveLength(1);
+    expect(store.documents[0]).toMatchObject({
+      userId: 7,
+      tripId: 3,
+      category: "flight",
+      title: "TLV → FCO",
+      details: expect.objectContaining({ flightNumber: "LY 381", departureAirport: "TLV", arrivalAirport: "FCO" }),
+      validationWarnings: [],
+    });
+    expect(store.credits).toBe(4);
+    expect(store.ledger).toEqual([
+      expect.objectContaining({ type: "parse_charge", amount: -1, jobId, reference: "https://files.example.com/fixtures/rome-flight.pdf" }),
+    ]);
+  });
+
+  it("should fail and refund when there is no recorded response for the file", async () => {
+    const { jobId } = await createCaller().documents.parseAndCreate({
+      fileUrl: "https://files.example.com/fixtures/unrecorded.pdf",
+      mimeType: "application/pdf",
+    });
+
+    expect(String(jobResults.get(jobId)?.error)).toContain("No LLM fixture for prompt hash");
+    expect(store.documents).toHaveLength(0);
+    expect(store.credits).toBe(5);
+  });
+
+  it("should refuse files that aren't in the app's storage", async () => {
+    await expect(
+      createCaller().documents.parseAndCreate({ fileUrl: "http://169.254.169.254/latest/meta-data/", fileName: "booking.eml", mimeType: "message/rfc822" })
+    ).rejects.toThrow("Upload the file before processing it");
+    await expect(
+      createCaller().documents.parseAndCreate({ fileUrl: "https://intranet.example.com/itinerary.pdf", mimeType: "application/pdf" })
+    ).rejects.toThrow("Upload the file before processing it");
+
+    expect(jobResults.size).toBe(0);
+    expect(store.credits).toBe(5);
+  });
+});
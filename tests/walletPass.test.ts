@@ -0,0 +1,238 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { deflateRawSync } from "zlib";
+import { ENV } from "../server/_core/env";
+import { isWalletPass, parseWalletPass, readGoogleWalletLinks, readWalletPass } from "../server/walletPass";
+
+// A .pkpass bundle: a zip with deflated entries
+function pkpass(files: Record<string, unknown>): Buffer {
+  const parts: Buffer[] = [];
+  const directory: Buffer[] = [];
+  let offset = 0;
+  for (const [name, content] of Object.entries(files)) {
+    const raw = Buffer.from(typeof content === "string" ? content : JSON.stringify(content));
+    const data = deflateRawSync(raw);
+    const fileName = Buffer.from(name);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(8, 8);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(raw.length, 22);
+    local.writeUInt16LE(fileName.length, 26);
+
+    const entry = Buffer.alloc(46);
+    entry.writeUInt32LE(0x02014b50, 0);
+    entry.writeUInt16LE(8, 10);
+    entry.writeUInt32LE(data.length, 20);
+    entry.writeUInt32LE(raw.length, 24);
+    entry.writeUInt16LE(fileName.length, 28);
+    entry.writeUInt32LE(offset, 42);
+
+    parts.push(local, fileName, data);
+    directory.push(entry, fileName);
+    offset += local.length + fileName.length + data.length;
+  }
+  const centralDirectory = Buffer.concat(directory);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(Object.keys(files).length, 8);
+  end.writeUInt16LE(Object.keys(files).length, 10);
+  end.writeUInt32LE(centralDirectory.length, 12);
+  end.writeUInt32LE(offset, 16);
+  return Buffer.concat([...parts, centralDirectory, end]);
+}
+
+function base64url(value: unknown): string {
+  return Buffer.from(JSON.stringify(value)).toString("base64url");
+}
+
+describe("Wallet passes", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    ENV.storageFileHosts = "";
+  });
+
+  it("should read a boarding pass's gate, seat, boarding time and barcode from its fields", () => {
+    const [flight] = parseWalletPass(
+      pkpass({
+        "icon.png": "not really a png",
+        "pass.json": {
+          formatVersion: 1,
+          description: "El Al boarding pass",
+          organizationName: "El Al",
+          relevantDate: "2026-03-21T06:10+02:00",
+          barcodes: [{ message: "M1COHEN/DANA EX7Y2QP TLVFCOLY 0381 080Y014A0042 100", format: "PKBarcodeFormatAztec" }],
+          boardingPass: {
+            transitType: "PKTransitTypeAir",
+            headerFields: [{ key: "gate", label: "GATE", value: "B7" }],
+            primaryFields: [
+              { key: "origin", label: "Tel Aviv", value: "TLV" },
+              { key: "destination", label: "Rome", value: "FCO" },
+            ],
+            secondaryFields: [
+              { key: "flight", label: "FLIGHT", value: "LY381" },
+              { key: "departs", label: "DEPARTS", value: "2026-03-21T07:10+02:00", timeStyle: "PKDateStyleShort" },
+              { key: "seat", label: "SEAT", value: "14A" },
+            ],
+            auxiliaryFields: [{ key: "boarding", label: "BOARDING", value: "06:30" }],
+            backFields: [{ key: "pnr", label: "Booking reference", value: "X7Y2QP" }],
+          },
+        },
+      })
+    );
+
+    expect(flight).toMatchObject({
+      category: "flight",
+      documentType: "Boarding Pass",
+      title: "TLV → FCO",
+      subtitle: "El Al LY381",
+      timeZone: "Asia/Jerusalem",
+      details: {
+        airline: "El Al",
+        flightNumber: "LY381",
+        departureAirport: "TLV",
+        arrivalAirport: "FCO",
+        departureTime: "2026-03-21T07:10:00",
+        boardingTime: "2026-03-21T06:30:00",
+        gate: "B7",
+        seatNumber: "14A",
+        confirmationNumber: "X7Y2QP",
+        barcode: "M1COHEN/DANA EX7Y2QP TLVFCOLY 0381 080Y014A0042 100",
+        barcodeFormat: "Aztec",
+      },
+    });
+    expect(flight.documentDate?.toISOString()).toBe("2026-03-21T05:10:00.000Z");
+    expect(flight.times["details.boardingTime"]?.utc).toBe("2026-03-21T04:30:00.000Z");
+    expect(flight.fieldConfidence.gate).toEqual({ confidence: 1 });
+  });
+
+  it("should prefer semantic tags on event tickets and leave out passes that aren't bookings", () => {
+    const [ticket] = parseWalletPass(
+      pkpass({
+        "pass.json": {
+          description: "Opera ticket",
+          organizationName: "Teatro dell'Opera di Roma",
+          semantics: {
+            eventName: "Tosca",
+            venueName: "Teatro dell'Opera di Roma",
+            eventStartDate: "2026-03-24T20:00:00+01:00",
+            seats: [{ seatSection: "Platea", seatRow: "F", seatNumber: "12" }],
+          },
+          barcode: { message: "TOSCA-0042", format: "PKBarcodeFormatQR" },
+          eventTicket: {
+            primaryFields: [{ key: "event", label: "EVENT", value: "Tosca - Puccini" }],
+            auxiliaryFields: [{ key: "entrance", label: "Gate", value: "3" }],
+          },
+        },
+      })
+    );
+
+    expect(ticket).toMatchObject({
+      category: "event",
+      documentType: "Ticket",
+      title: "Tosca",
+      subtitle: "Teatro dell'Opera di Roma",
+      details: { eventName: "Tosca", eventDate: "2026-03-24", eventTime: "20:00", seatNumber: "Platea F 12", gate: "3", barcode: "TOSCA-0042", barcodeFormat: "QR" },
+    });
+    expect(parseWalletPass(pkpass({ "pass.json": { description: "Coffee card", storeCard: { primaryFields: [] } } }))).toEqual([]);
+    expect(parseWalletPass(Buffer.from("not a zip file at all, just some text"))).toEqual([]);
+    expect(isWalletPass("application/octet-stream", "BoardingPass.pkpass")).toBe(true);
+    expect(isWalletPass("application/vnd.apple.pkpass")).toBe(true);
+    expect(isWalletPass("application/pdf", "ticket.pdf")).toBe(false);
+  });
+
+  it("should only download passes from the app's storage", async () => {
+    ENV.storageFileHosts = "files.example.com";
+    const pass = pkpass({ "pass.json": { description: "Opera ticket", semantics: { eventName: "Tosca", eventStartDate: "2026-03-24T20:00:00+01:00" }, eventTicket: {} } });
+    const fetchMock = vi.fn(async () => new Response(new Uint8Array(pass)));
+    vi.stubGlobal("fetch", fetchMock);
+
+    expect((await readWalletPass("https://files.example.com/documents/7/tosca.pkpass")).documents).toMatchObject([{ title: "Tosca" }]);
+    await expect(readWalletPass("http://169.254.169.254/latest/meta-data/")).rejects.toThrow("Not a stored file URL");
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("should read a damaged or oversized pass as no booking", () => {
+    const archive = pkpass({ "pass.json": { description: "Tosca", eventTicket: { primaryFields: [] } } });
+    // Central directory offset past the end of the file
+    const truncated = Buffer.from(archive);
+    truncated.writeUInt32LE(archive.length + 1000, archive.length - 6);
+    // Compresses to a few KB, inflates to far more than any pass
+    const bomb = pkpass({ "pass.json": " ".repeat(8 * 1024 * 1024) });
+
+    expect(parseWalletPass(truncated)).toEqual([]);
+    expect(parseWalletPass(bomb)).toEqual([]);
+  });
+
+  it("should read the flight carried in an Add to Google Wallet link once however often it's linked", () => {
+    const token = [
+      base64url({ alg: "RS256", typ: "JWT" }),
+      base64url({
+        aud: "google",
+        typ: "savetowallet",
+        payload: {
+          flightClasses: [
+            {
+              id: "3388000000022.LY381-20260321",
+              flightHeader: { carrier: { carrierIataCode: "LY", airlineName: { defaultValue: { language: "en-US", value: "El Al" } } }, flightNumber: "381" },
+              origin: { airportIataCode: "TLV", terminal: "3", gate: "B7" },
+              destination: { airportIataCode: "FCO" },
+              localScheduledDepartureDateTime: "2026-03-21T07:10:00",
+              localBoardingDateTime: "2026-03-21T06:30:00",
+              localScheduledArrivalDateTime: "2026-03-21T10:25:00",
+            },
+          ],
+          flightObjects: [
+            {
+              id: "3388000000022.dana-cohen",
+              classId: "3388000000022.LY381-20260321",
+              boardingAndSeatingInfo: { seatNumber: "14A" },
+              reservationInfo: { confirmationCode: "X7Y2QP" },
+              barcode: { type: "QR_CODE", value: "M1COHEN/DANA" },
+            },
+          ],
+        },
+      }),
+      "c2lnbmF0dXJl",
+    ].join(".");
+    const link = `https://pay.google.com/gp/v/save/${token}`;
+    const html = `<p>Your boarding pass</p><a href="${link}">Add to Google Wallet</a><p>Or open ${link}</p>`;
+
+    const result = readGoogleWalletLinks(html);
+
+    expect(result?.documents).toHaveLength(1);
+    expect(result?.documents[0]).toMatchObject({
+      category: "flight",
+      title: "TLV → FCO",
+      details: {
+        airline: "El Al",
+        flightNumber: "LY381",
+        departureTime: "2026-03-21T07:10:00",
+        arrivalTime: "2026-03-21T10:25:00",
+        boardingTime: "2026-03-21T06:30:00",
+        terminal: "3",
+        gate: "B7",
+        seatNumber: "14A",
+        confirmationNumber: "X7Y2QP",
+        barcodeFormat: "QR",
+        googleWalletUrl: link,
+      },
+    });
+    expect(readGoogleWalletLinks("<p>See you on board</p>")).toBeNull();
+  });
+
+  it("should leave Google Wallet links whose pass class isn't in the link to the AI", () => {
+    // The class was created through Google's API; the link only names it
+    const token = [
+      base64url({ alg: "RS256", typ: "JWT" }),
+      base64url({
+        aud: "google",
+        typ: "savetowallet",
+        payload: { flightObjects: [{ id: "3388000000022.dana-cohen", classId: "3388000000022.LY381-20260321" }] },
+      }),
+      "c2lnbmF0dXJl",
+    ].join(".");
+
+    expect(readGoogleWalletLinks(`<a href="https://pay.google.com/gp/v/save/${token}">Add to Google Wallet</a>`)).toBeNull();
+  });
+});